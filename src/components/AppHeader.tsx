@@ -0,0 +1,66 @@
+import { Link } from 'react-router-dom';
+import { NavLink } from '@/components/NavLink';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { GraduationCap, Library, LogOut, Map, Sparkles } from 'lucide-react';
+
+const navItems = [
+  { to: '/', label: 'Generate', icon: Sparkles },
+  { to: '/maps', label: 'My Maps', icon: Library },
+  { to: '/review', label: 'Review', icon: GraduationCap },
+];
+
+export const AppHeader = () => {
+  const { user, signOut } = useAuth();
+
+  return (
+    <header className="relative border-b border-border/50 glass-effect sticky top-0 z-50 shadow-medium">
+      <div className="container mx-auto px-4 py-6 flex items-center justify-between gap-4">
+        <Link to="/" className="flex items-center gap-4 animate-slide-in">
+          <div className="relative group">
+            <div className="absolute inset-0 bg-gradient-primary rounded-2xl blur-xl group-hover:blur-2xl transition-all duration-500 opacity-70" />
+            <div className="relative w-14 h-14 rounded-2xl bg-gradient-primary flex items-center justify-center shadow-medium transform group-hover:scale-110 transition-transform duration-300">
+              <Map className="w-8 h-8 text-primary-foreground" />
+            </div>
+          </div>
+          <div>
+            <h1 className="text-3xl font-display font-bold text-gradient animate-shimmer"
+                style={{ backgroundSize: '200% 100%', backgroundImage: 'linear-gradient(90deg, hsl(var(--primary)), hsl(var(--secondary)), hsl(var(--accent)), hsl(var(--primary)))' }}>
+              AI Learning Pathways
+            </h1>
+            <p className="text-sm text-muted-foreground mt-1 flex items-center gap-2">
+              <Sparkles className="w-4 h-4 text-accent animate-pulse" />
+              Visualize your learning journey with AI
+            </p>
+          </div>
+        </Link>
+
+        <nav className="flex items-center gap-2">
+          {navItems.map(({ to, label, icon: Icon }) => (
+            <NavLink
+              key={to}
+              to={to}
+              end
+              className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold text-muted-foreground hover:text-foreground hover:bg-primary/10 transition-all duration-300"
+              activeClassName="text-primary bg-primary/10 ring-2 ring-primary/20"
+            >
+              <Icon className="w-4 h-4" />
+              <span className="hidden sm:inline">{label}</span>
+            </NavLink>
+          ))}
+          {user && (
+            <div className="flex items-center gap-2 pl-2 ml-2 border-l border-border/50">
+              <span className="hidden lg:inline text-xs text-muted-foreground max-w-[12rem] truncate" title={user.email}>
+                {user.email}
+              </span>
+              <Button variant="ghost" size="sm" onClick={signOut} className="hover:bg-primary/10">
+                <LogOut className="w-4 h-4" />
+                <span className="hidden sm:inline ml-2">Sign out</span>
+              </Button>
+            </div>
+          )}
+        </nav>
+      </div>
+    </header>
+  );
+};
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { generationErrorTitle, toGenerationError } from '@/lib/generationErrors';
+import { cn } from '@/lib/utils';
+import { AlertCircle, LogIn, RotateCcw } from 'lucide-react';
+
+interface GenerationErrorAlertProps {
+  error: unknown;
+  /** Sends the request again; without it no retry button is shown. */
+  onRetry?: () => void;
+  className?: string;
+}
+
+const formatCountdown = (seconds: number) =>
+  seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/** Seconds left until `retryAfter` (from when `key` last changed) has passed. */
+const useCountdown = (retryAfter: number, key: unknown) => {
+  const [left, setLeft] = useState(retryAfter);
+
+  useEffect(() => {
+    const until = Date.now() + retryAfter * 1000;
+    setLeft(retryAfter);
+    if (retryAfter <= 0) return;
+    const timer = setInterval(() => {
+      const next = Math.max(0, Math.ceil((until - Date.now()) / 1000));
+      setLeft(next);
+      if (next === 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAfter, key]);
+
+  return left;
+};
+
+/**
+ * A failed generation, with what to do next: a countdown before retrying when
+ * rate limited, a retry button when trying again can help, a sign-in link when
+ * signed out, and the remediation hint otherwise.
+ */
+export const GenerationErrorAlert = ({ error, onRetry, className }: GenerationErrorAlertProps) => {
+  const failure = toGenerationError(error);
+  const wait = useCountdown(failure.retryable ? failure.retryAfter ?? 0 : 0, error);
+
+  return (
+    <Alert variant="destructive" className={cn('text-left', className)}>
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>{generationErrorTitle(failure.code)}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{failure.message}</p>
+        <p className="text-foreground/70">
+          {wait > 0 ? `You can try again in ${formatCountdown(wait)}.` : failure.remediation}
+        </p>
+        {failure.code === 'UNAUTHENTICATED' ? (
+          <Button asChild variant="outline" size="sm">
+            <Link to="/auth">
+              <LogIn className="w-4 h-4 mr-2" />
+              Sign in
+            </Link>
+          </Button>
+        ) : (
+          failure.retryable &&
+          onRetry && (
+            <Button type="button" variant="outline" size="sm" onClick={onRetry} disabled={wait > 0}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {wait > 0 ? `Try again in ${formatCountdown(wait)}` : 'Try again'}
+            </Button>
+          )
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,38 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { GenerationQuota } from '@/lib/generationLimits';
+import { cn } from '@/lib/utils';
+import { Info } from 'lucide-react';
+
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'long', day: 'numeric' });
+
+/** What's left of this month's generations, with what counts as one. */
+export const GenerationQuotaNote = ({ quota }: { quota: GenerationQuota }) => {
+  const exhausted = quota.remaining === 0;
+
+  return (
+    <div
+      className={cn(
+        'flex items-center justify-center gap-1.5 text-sm',
+        exhausted ? 'text-destructive' : 'text-muted-foreground',
+      )}
+    >
+      <span>
+        {exhausted
+          ? `You've used all ${quota.monthlyQuota} generations on the ${quota.planName} plan this month. They reset on ${formatDay(quota.resetsAt)}.`
+          : `${quota.remaining} of ${quota.monthlyQuota} generations left this month (${quota.planName} plan, resets ${formatDay(quota.resetsAt)})`}
+      </span>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <button type="button" aria-label="About generation limits" className="shrink-0">
+            <Info className="w-4 h-4" />
+          </button>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          Every map, expansion, resource list, quiz, rewritten branch and graded answer counts as one generation.
+          Maps someone already generated come from the cache and are free, and failed attempts don't count. To keep
+          things fair, requests are also limited to a few per minute.
+        </TooltipContent>
+      </Tooltip>
+    </div>
+  );
+};
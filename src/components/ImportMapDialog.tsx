@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useImportLearningMap } from '@/hooks/use-learning-maps';
+import {
+  type ImportedMap,
+  importLearningMap,
+  importLearningMapFile,
+  MAP_FORMATS,
+  MapImportError,
+} from '@/lib/mapFormats';
+import type { LearningLevel } from '@shared/learningMap';
+import { collectNodeIds } from '@shared/mapTree';
+import { FileUp, Loader2, TriangleAlert, Upload } from 'lucide-react';
+
+// Outlines and mind maps are small; anything bigger is almost certainly the wrong file.
+const MAX_FILE_BYTES = 1024 * 1024;
+
+/** Builds a map from an outline or mind-map file (or pasted text) and saves it, without generating anything. */
+export const ImportMapDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string>();
+  const [imported, setImported] = useState<ImportedMap>();
+  const [error, setError] = useState<string>();
+  const [title, setTitle] = useState('');
+  const [level, setLevel] = useState<LearningLevel>('beginner');
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const saveMap = useImportLearningMap();
+
+  const show = (result: ImportedMap) => {
+    setImported(result);
+    setError(undefined);
+    setTitle(result.title ?? result.data.topic);
+    if (result.level) setLevel(result.level);
+  };
+
+  const fail = (err: unknown) => {
+    setImported(undefined);
+    setError(err instanceof MapImportError ? err.message : 'The file could not be read.');
+  };
+
+  const read = (contents: string) => {
+    setText(contents);
+    setFileName(undefined);
+    if (!contents.trim()) {
+      setImported(undefined);
+      setError(undefined);
+      return;
+    }
+    try {
+      show(importLearningMap(contents));
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    if (file.size > MAX_FILE_BYTES) {
+      setImported(undefined);
+      setError('That file is too large to be a map (the limit is 1 MB).');
+      return;
+    }
+    // XMind workbooks are archives, so only text files are shown in the box.
+    const result = importLearningMapFile(file);
+    setText(/\.xmind$/i.test(file.name) ? '' : await file.text());
+    try {
+      show(await result);
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  const reset = () => {
+    setText('');
+    setFileName(undefined);
+    setImported(undefined);
+    setError(undefined);
+    setTitle('');
+    setLevel('beginner');
+  };
+
+  const handleImport = async () => {
+    if (!imported) return;
+    try {
+      const id = await saveMap.mutateAsync({ data: imported.data, level, title, progress: imported.progress });
+      toast({ title: 'Map imported', description: `"${title.trim() || imported.data.topic}" is in your library.` });
+      setOpen(false);
+      reset();
+      navigate(`/map/${id}`);
+    } catch (err) {
+      console.error('Import failed', err);
+      toast({
+        title: 'Import failed',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const nodeCount = imported ? collectNodeIds(imported.data).length : 0;
+  const formatLabel = MAP_FORMATS.find((entry) => entry.format === imported?.format)?.label;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="h-12 glass-effect border-2 border-primary/20">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import a map</DialogTitle>
+          <DialogDescription>
+            Turn a Markdown outline, an OPML file, a JSON export or a FreeMind or XMind mind map into a map. Nothing is
+            generated: the map is built from the file as it is, including any progress it records.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Button asChild variant="outline" size="sm">
+              <label className="cursor-pointer">
+                <FileUp className="w-4 h-4 mr-2" />
+                Choose file
+                <input
+                  type="file"
+                  accept=".md,.markdown,.txt,.opml,.xml,.json,.mm,.xmind"
+                  className="sr-only"
+                  onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </Button>
+            <span className="text-sm text-muted-foreground truncate">{fileName ?? 'or paste below'}</span>
+          </div>
+
+          <Textarea
+            value={text}
+            onChange={(e) => read(e.target.value)}
+            placeholder={'# Web development\n\n## HTML\nStructure of a page\n\n- Semantic elements\n- Forms'}
+            className="min-h-[180px] font-mono text-xs"
+            aria-label="Outline to import"
+          />
+
+          {error && (
+            <p className="flex gap-2 text-sm text-destructive">
+              <TriangleAlert className="w-4 h-4 shrink-0 mt-0.5" />
+              {error}
+            </p>
+          )}
+
+          {imported && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {formatLabel}: "{imported.data.topic}" with {imported.data.branches.length}{' '}
+                {imported.data.branches.length === 1 ? 'branch' : 'branches'} and {nodeCount}{' '}
+                {nodeCount === 1 ? 'node' : 'nodes'} in total.
+              </p>
+              <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+                <div className="space-y-2">
+                  <Label htmlFor="import-title">Title</Label>
+                  <Input id="import-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Level</Label>
+                  <Select value={level} onValueChange={(v) => setLevel(v as LearningLevel)}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="beginner">🌱 Beginner</SelectItem>
+                      <SelectItem value="intermediate">🚀 Intermediate</SelectItem>
+                      <SelectItem value="advanced">⚡ Advanced</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!imported || saveMap.isPending}
+            className="bg-gradient-primary hover:shadow-glow transition-all duration-300"
+          >
+            {saveMap.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import map
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,42 @@
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { LayoutAlgorithm } from '@/lib/mapLayout';
+import { Atom, Network, Orbit, Workflow } from 'lucide-react';
+
+const LAYOUT_OPTIONS: { value: LayoutAlgorithm; label: string; icon: typeof Orbit }[] = [
+  { value: 'radial', label: 'Radial', icon: Orbit },
+  { value: 'tree-tb', label: 'Top-down tree', icon: Network },
+  { value: 'tree-lr', label: 'Left-to-right tree', icon: Workflow },
+  { value: 'force', label: 'Force-directed', icon: Atom },
+];
+
+interface LayoutToolbarProps {
+  value: LayoutAlgorithm;
+  onChange: (value: LayoutAlgorithm) => void;
+}
+
+export const LayoutToolbar = ({ value, onChange }: LayoutToolbarProps) => (
+  <ToggleGroup
+    type="single"
+    value={value}
+    onValueChange={(next) => next && onChange(next as LayoutAlgorithm)}
+    className="absolute top-4 left-4 glass-effect p-1 rounded-xl border border-primary/20 shadow-soft"
+    aria-label="Map layout"
+  >
+    {LAYOUT_OPTIONS.map(({ value: option, label, icon: Icon }) => (
+      <Tooltip key={option}>
+        <TooltipTrigger asChild>
+          <ToggleGroupItem
+            value={option}
+            aria-label={label}
+            size="sm"
+            className="data-[state=on]:bg-primary/15 data-[state=on]:text-primary"
+          >
+            <Icon className="w-4 h-4" />
+          </ToggleGroupItem>
+        </TooltipTrigger>
+        <TooltipContent>{label}</TooltipContent>
+      </Tooltip>
+    ))}
+  </ToggleGroup>
+);
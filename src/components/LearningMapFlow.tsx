@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ReactFlow,
   Node,
@@ -7,40 +7,122 @@ import {
   Background,
   useNodesState,
   useEdgesState,
+  useNodesInitialized,
+  useReactFlow,
+  useUpdateNodeInternals,
   ConnectionMode,
   MarkerType,
   BackgroundVariant,
+  Handle,
+  NodeToolbar,
+  Position,
+  type Viewport,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Sparkles, Zap, Star, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { LayoutToolbar } from '@/components/LayoutToolbar';
+import { MapExportMenu } from '@/components/MapExportMenu';
+import { type MapEditActions, NodeEditForm, NodeEditToolbar } from '@/components/MapNodeEditor';
+import { NodeStatusButton, NodeStatusMenu } from '@/components/NodeStatusControl';
+import { Sparkles, Zap, Star, TrendingUp, Loader2, ListTree, AlertTriangle, Pencil } from 'lucide-react';
+import {
+  createIdRegistry,
+  type Dependency,
+  type LearningLevel,
+  type LearningMapData,
+  type MapNode,
+  type Subtopic,
+} from '@shared/learningMap';
+import { cyclicEdgeKeys, findDependencyCycles } from '@shared/dependencies';
+import {
+  collectNodeIds,
+  findNode,
+  findNodePath,
+  insertNode,
+  locateNode,
+  moveNode,
+  removeNode,
+  updateNode,
+} from '@shared/mapTree';
+import {
+  computeLayout,
+  interpolatePositions,
+  type LayoutAlgorithm,
+  type LayoutPositions,
+  pinPositions,
+  toLayoutTree,
+} from '@/lib/mapLayout';
+import { NO_POSITIONS, type NodePositions } from '@/lib/mapHistory';
+import { computeCompletion, type MapProgress, type NodeStatus } from '@/lib/progress';
 
-interface Subtopic {
-  id: string;
-  name: string;
-  description: string;
-}
+// How long nodes take to glide to their new place when the layout changes.
+const LAYOUT_TRANSITION_MS = 450;
 
-interface Branch {
-  id: string;
-  name: string;
-  description: string;
-  subtopics: Subtopic[];
-}
+// Rough node sizes used before React Flow has measured the real ones.
+const ESTIMATED_SIZES = {
+  main: { width: 340, height: 150 },
+  branch: { width: 280, height: 140 },
+  subtopic: { width: 240, height: 120 },
+};
 
-interface LearningMapData {
-  topic: string;
-  branches: Branch[];
-}
+/** Edges leave from the side that faces the next level of the current layout. */
+const LayoutDirectionContext = createContext<'vertical' | 'horizontal'>('vertical');
+
+/** Tree edits nodes can make; null when the map is read-only. */
+const MapEditContext = createContext<MapEditActions | null>(null);
 
 interface LearningMapFlowProps {
   data: LearningMapData;
+  /** Heading for exports; defaults to the topic. */
+  title?: string;
+  /** Recorded in JSON exports. */
+  level?: LearningLevel;
+  /** Viewport to open at instead of fitting the whole map, e.g. from a shared link. */
+  initialViewport?: Viewport;
+  focusedNodeId?: string;
+  onViewportChange?: (viewport: Viewport) => void;
+  onNodeFocus?: (nodeId: string | undefined) => void;
+  /** Shows an "Expand" action on the focused node; leave unset for read-only maps. */
+  onExpandNode?: (nodeId: string) => void;
+  expandingNodeId?: string;
+  /** Turns on status pills and completion badges. */
+  progress?: MapProgress;
+  /** Lets the learner change statuses; leave unset to only display them. */
+  onStatusChange?: (nodeId: string, status: NodeStatus) => void;
+  /** Turns on edit mode; every change to the tree comes back as a new map, with a short description. */
+  onEdit?: (data: LearningMapData, label: string) => void;
+  /** Where the learner dragged nodes; kept here when the parent doesn't listen for changes. */
+  positions?: NodePositions;
+  onPositionsChange?: (positions: NodePositions, label: string) => void;
 }
 
-const CustomNode = ({ data }: { data: any }) => {
+const countNodes = (node: MapNode): number =>
+  1 + (node.subtopics ?? []).reduce((sum, child) => sum + countNodes(child), 0);
+
+const CustomNode = ({ id, data }: { id: string; data: any }) => {
   const isMainNode = data.type === 'main';
   const isBranch = data.type === 'branch';
+  const horizontal = useContext(LayoutDirectionContext) === 'horizontal';
+  const edit = useContext(MapEditContext);
+  const editing = !!edit && data.editing;
+  const percent: number | undefined = data.completion?.percent;
+  const badge = percent === undefined
+    ? data.badge
+    : isMainNode
+      ? `🎯 ${percent}% complete`
+      : `${data.badge} · ${percent}%`;
   
   const getIcon = () => {
     if (isMainNode) return <Sparkles className="w-5 h-5" />;
@@ -50,6 +132,19 @@ const CustomNode = ({ data }: { data: any }) => {
   
   return (
     <div className="group relative animate-scale-in">
+      <Handle
+        type="target"
+        position={horizontal ? Position.Left : Position.Top}
+        isConnectable={false}
+        className="!opacity-0"
+      />
+      <Handle
+        type="source"
+        position={horizontal ? Position.Right : Position.Bottom}
+        isConnectable={false}
+        className="!opacity-0"
+      />
+
       {/* Glow effect */}
       <div className={`
         absolute inset-0 rounded-2xl blur-xl transition-all duration-500
@@ -58,63 +153,102 @@ const CustomNode = ({ data }: { data: any }) => {
         ${!isMainNode && !isBranch ? 'bg-accent/20 group-hover:bg-accent/40' : ''}
       `} />
       
-      <Card 
-        className={`
-          relative p-5 border-2 transition-all duration-500 transform group-hover:scale-105 group-hover:-translate-y-1
-          ${isMainNode ? 'bg-gradient-to-br from-primary via-primary/90 to-secondary text-primary-foreground min-w-[320px] shadow-glow border-primary/50' : ''}
-          ${isBranch ? 'glass-effect border-secondary/40 min-w-[260px] hover:border-secondary shadow-soft hover:shadow-medium' : ''}
-          ${!isMainNode && !isBranch ? 'glass-effect border-accent/30 min-w-[220px] hover:border-accent shadow-soft hover:shadow-medium' : ''}
-        `}
-      >
-        <div className="space-y-3">
-          <div className="flex items-start justify-between gap-3">
-            <div className="flex items-start gap-3 flex-1">
-              <div className={`
-                p-2 rounded-lg transition-all duration-300 group-hover:rotate-12
-                ${isMainNode ? 'bg-primary-foreground/20' : 'bg-primary/10 group-hover:bg-primary/20'}
-              `}>
-                {getIcon()}
-              </div>
-              <div className="flex-1">
-                <h3 className={`
-                  font-display font-bold leading-tight
-                  ${isMainNode ? 'text-2xl' : isBranch ? 'text-lg' : 'text-base'}
+      <NodeStatusMenu status={data.status ?? 'not_started'} onChange={data.status && data.onStatusChange}>
+        <Card 
+          className={`
+            relative p-5 border-2 transition-all duration-500 transform group-hover:scale-105 group-hover:-translate-y-1
+            ${data.focused && !data.dropTarget ? 'ring-4 ring-accent/60 ring-offset-2 ring-offset-background' : ''}
+            ${data.dropTarget ? 'ring-4 ring-primary ring-offset-2 ring-offset-background' : ''}
+            ${data.status === 'skipped' ? 'opacity-60' : ''}
+            ${isMainNode ? 'bg-gradient-to-br from-primary via-primary/90 to-secondary text-primary-foreground min-w-[320px] shadow-glow border-primary/50' : ''}
+            ${isBranch ? 'glass-effect border-secondary/40 min-w-[260px] hover:border-secondary shadow-soft hover:shadow-medium' : ''}
+            ${!isMainNode && !isBranch ? 'glass-effect border-accent/30 min-w-[220px] hover:border-accent shadow-soft hover:shadow-medium' : ''}
+          `}
+        >
+          <div className="space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex items-start gap-3 flex-1">
+                <div className={`
+                  p-2 rounded-lg transition-all duration-300 group-hover:rotate-12
+                  ${isMainNode ? 'bg-primary-foreground/20' : 'bg-primary/10 group-hover:bg-primary/20'}
                 `}>
-                  {data.label}
-                </h3>
+                  {getIcon()}
+                </div>
+                <div className="flex-1">
+                  {editing ? (
+                    <NodeEditForm
+                      name={data.label}
+                      description={data.description}
+                      withDescription={!isMainNode}
+                      onSave={(name, description) => edit.rename(id, name, description)}
+                      onCancel={edit.stopEditing}
+                    />
+                  ) : (
+                    <h3 className={`
+                      font-display font-bold leading-tight
+                      ${isMainNode ? 'text-2xl' : isBranch ? 'text-lg' : 'text-base'}
+                    `}>
+                      {data.label}
+                    </h3>
+                  )}
+                </div>
               </div>
+              {badge && (
+                <Badge 
+                  variant="secondary" 
+                  className={`
+                    text-xs px-3 py-1 font-semibold
+                    ${isMainNode ? 'bg-primary-foreground/20 text-primary-foreground border-primary-foreground/30' : 'bg-primary/10 text-primary border-primary/30'}
+                    animate-pulse-glow
+                  `}
+                >
+                  {badge}
+                </Badge>
+              )}
             </div>
-            {data.badge && (
-              <Badge 
-                variant="secondary" 
-                className={`
-                  text-xs px-3 py-1 font-semibold
-                  ${isMainNode ? 'bg-primary-foreground/20 text-primary-foreground border-primary-foreground/30' : 'bg-primary/10 text-primary border-primary/30'}
-                  animate-pulse-glow
-                `}
-              >
-                {data.badge}
-              </Badge>
+            {data.description && !editing && (
+              <p className={`
+                text-sm leading-relaxed
+                ${isMainNode ? 'text-primary-foreground/90 font-medium' : 'text-foreground/70'}
+              `}>
+                {data.description}
+              </p>
             )}
-          </div>
-          {data.description && (
-            <p className={`
-              text-sm leading-relaxed
-              ${isMainNode ? 'text-primary-foreground/90 font-medium' : 'text-foreground/70'}
-            `}>
-              {data.description}
-            </p>
-          )}
+            {data.status && <NodeStatusButton status={data.status} onChange={data.onStatusChange} />}
           
-          {/* Decorative bottom line */}
-          <div className={`
-            h-1 rounded-full transition-all duration-500 opacity-0 group-hover:opacity-100
-            ${isMainNode ? 'bg-gradient-to-r from-primary-foreground/50 to-transparent' : ''}
-            ${isBranch ? 'bg-gradient-to-r from-secondary to-transparent' : ''}
-            ${!isMainNode && !isBranch ? 'bg-gradient-to-r from-accent to-transparent' : ''}
-          `} />
-        </div>
-      </Card>
+            {/* Decorative bottom line */}
+            <div className={`
+              h-1 rounded-full transition-all duration-500 opacity-0 group-hover:opacity-100
+              ${isMainNode ? 'bg-gradient-to-r from-primary-foreground/50 to-transparent' : ''}
+              ${isBranch ? 'bg-gradient-to-r from-secondary to-transparent' : ''}
+              ${!isMainNode && !isBranch ? 'bg-gradient-to-r from-accent to-transparent' : ''}
+            `} />
+          </div>
+        </Card>
+      </NodeStatusMenu>
+
+      {edit && <NodeEditToolbar nodeId={id} isVisible={!!data.focused && !editing} isTopic={isMainNode} actions={edit} />}
+
+      {data.onExpand && (
+        <NodeToolbar isVisible={data.focused || data.expanding} position={Position.Bottom}>
+          <Button
+            size="sm"
+            onClick={(e) => {
+              e.stopPropagation();
+              data.onExpand();
+            }}
+            disabled={data.expanding}
+            className="bg-gradient-primary hover:shadow-glow shadow-medium"
+          >
+            {data.expanding ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <ListTree className="w-4 h-4 mr-2" />
+            )}
+            {data.expanding ? 'Expanding...' : 'Expand'}
+          </Button>
+        </NodeToolbar>
+      )}
     </div>
   );
 };
@@ -123,21 +257,385 @@ const nodeTypes = {
   custom: CustomNode,
 };
 
-export const LearningMapFlow = ({ data }: LearningMapFlowProps) => {
+/**
+ * Lays the nodes out once React Flow has measured them, and again whenever the
+ * map or the chosen algorithm changes. The first layout snaps into place and
+ * then fits or centers the view; later ones animate from the old positions.
+ * Nodes in `pinned` stay where the learner dragged them.
+ */
+const AutoLayout = ({
+  data,
+  algorithm,
+  focusedNodeId,
+  fit,
+  pinned,
+}: {
+  data: LearningMapData;
+  algorithm: LayoutAlgorithm;
+  focusedNodeId?: string;
+  fit: boolean;
+  pinned: NodePositions;
+}) => {
+  const { getNodes, setNodes, fitView, setCenter } = useReactFlow();
+  const updateNodeInternals = useUpdateNodeInternals();
+  const initialized = useNodesInitialized();
+  const laidOutRef = useRef<{ data: LearningMapData; algorithm: LayoutAlgorithm; pinned: NodePositions } | null>(null);
+  const frameRef = useRef<number>();
+
+  useEffect(() => () => cancelAnimationFrame(frameRef.current ?? 0), []);
+
+  useEffect(() => {
+    if (!initialized) return;
+    const previous = laidOutRef.current;
+    if (previous?.data === data && previous.algorithm === algorithm && previous.pinned === pinned) return;
+    laidOutRef.current = { data, algorithm, pinned };
+
+    const current = getNodes();
+    const measured = new Map(current.map((node) => [node.id, node.measured]));
+    const targets = pinPositions(
+      computeLayout(
+        algorithm,
+        toLayoutTree(data, (id, type) => {
+          const size = measured.get(id);
+          return size?.width && size.height ? { width: size.width, height: size.height } : ESTIMATED_SIZES[type];
+        }),
+        (data.dependencies ?? []).map(({ from, to }) => ({ source: from, target: to })),
+      ),
+      pinned,
+    );
+    updateNodeInternals(current.map((node) => node.id));
+
+    const place = (positions: LayoutPositions) =>
+      setNodes((nodes) =>
+        nodes.map((node) => (positions[node.id] ? { ...node, position: positions[node.id] } : node)),
+      );
+
+    cancelAnimationFrame(frameRef.current ?? 0);
+    if (!previous) {
+      place(targets);
+      if (!fit) return;
+      const focused = focusedNodeId ? current.find((node) => node.id === focusedNodeId) : undefined;
+      if (focused && targets[focused.id]) {
+        const { width = 0, height = 0 } = focused.measured ?? {};
+        setCenter(targets[focused.id].x + width / 2, targets[focused.id].y + height / 2, { zoom: 1, duration: 600 });
+      } else {
+        requestAnimationFrame(() => fitView({ duration: 300 }));
+      }
+      return;
+    }
+
+    const from = Object.fromEntries(current.map((node) => [node.id, node.position]));
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = (now - start) / LAYOUT_TRANSITION_MS;
+      place(interpolatePositions(from, targets, t));
+      if (t < 1) {
+        frameRef.current = requestAnimationFrame(step);
+      } else if (previous.algorithm !== algorithm) {
+        fitView({ duration: 300 });
+      }
+    };
+    frameRef.current = requestAnimationFrame(step);
+  }, [initialized, data, algorithm, focusedNodeId, fit, pinned, getNodes, setNodes, fitView, setCenter, updateNodeInternals]);
+
+  return null;
+};
+
+const dependencyEdge = (dependency: Dependency, cyclic: boolean): Edge => {
+  const color = cyclic
+    ? 'hsl(var(--destructive))'
+    : dependency.kind === 'prerequisite'
+      ? 'hsl(var(--secondary))'
+      : 'hsl(var(--muted-foreground))';
+
+  return {
+    id: `dep-${dependency.kind}-${dependency.from}-${dependency.to}`,
+    source: dependency.from,
+    target: dependency.to,
+    type: 'default',
+    style: {
+      stroke: color,
+      strokeWidth: 2,
+      strokeDasharray: dependency.kind === 'prerequisite' ? '8 6' : '2 6',
+    },
+    markerEnd:
+      dependency.kind === 'prerequisite'
+        ? { type: MarkerType.ArrowClosed, color, width: 20, height: 20 }
+        : undefined,
+  };
+};
+
+const LegendLine = ({ dash, color }: { dash?: string; color: string }) => (
+  <svg width="32" height="8" className="shrink-0">
+    <line x1="0" y1="4" x2="32" y2="4" stroke={color} strokeWidth="2" strokeDasharray={dash} />
+  </svg>
+);
+
+const MapLegend = () => (
+  <div className="absolute top-20 left-4 glass-effect px-4 py-3 rounded-xl border border-primary/20 shadow-soft space-y-1.5 text-xs">
+    <div className="flex items-center gap-2">
+      <LegendLine color="hsl(var(--accent))" />
+      <span className="text-foreground/80">Part of</span>
+    </div>
+    <div className="flex items-center gap-2">
+      <LegendLine dash="8 6" color="hsl(var(--secondary))" />
+      <span className="text-foreground/80">Prerequisite</span>
+    </div>
+    <div className="flex items-center gap-2">
+      <LegendLine dash="2 6" color="hsl(var(--muted-foreground))" />
+      <span className="text-foreground/80">Related</span>
+    </div>
+  </div>
+);
+
+export const LearningMapFlow = ({
+  data,
+  title,
+  level,
+  initialViewport,
+  focusedNodeId,
+  onViewportChange,
+  onNodeFocus,
+  onExpandNode,
+  expandingNodeId,
+  progress,
+  onStatusChange,
+  onEdit,
+  positions,
+  onPositionsChange,
+}: LearningMapFlowProps) => {
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
 
+  // Focus lives in the parent when it listens for it (e.g. in the URL), otherwise here.
+  const [localFocus, setLocalFocus] = useState<string>();
+  const focused = onNodeFocus ? focusedNodeId : localFocus;
+  const setFocused = onNodeFocus ?? setLocalFocus;
+
+  const completion = useMemo(() => (progress ? computeCompletion(data, progress) : undefined), [data, progress]);
+
+  const editable = !!onEdit;
+  const [editingNodeId, setEditingNodeId] = useState<string>();
+  const [deletingNodeId, setDeletingNodeId] = useState<string>();
+  const [dropTargetId, setDropTargetId] = useState<string>();
+  const editing = editable ? editingNodeId : undefined;
+  const dropTarget = editable ? dropTargetId : undefined;
+
+  // Dragged positions live in the parent when it listens for them, otherwise here.
+  const [localPositions, setLocalPositions] = useState(NO_POSITIONS);
+  const pinned = onPositionsChange ? positions ?? NO_POSITIONS : localPositions;
+  const setPinned = onPositionsChange ?? setLocalPositions;
+
+  const flagsRef = useRef({ focused, expandingNodeId, progress, completion, editing, dropTarget });
+  flagsRef.current = { focused, expandingNodeId, progress, completion, editing, dropTarget };
+  const onExpandRef = useRef(onExpandNode);
+  onExpandRef.current = onExpandNode;
+  const expandable = !!onExpandNode;
+  const onStatusChangeRef = useRef(onStatusChange);
+  onStatusChangeRef.current = onStatusChange;
+  const trackable = !!onStatusChange;
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const onEditRef = useRef(onEdit);
+  onEditRef.current = onEdit;
+  const setFocusedRef = useRef(setFocused);
+  setFocusedRef.current = setFocused;
+
+  const [layout, setLayout] = useState<LayoutAlgorithm>('radial');
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+
+  // A new layout starts from scratch, so dragged nodes rejoin it.
+  const changeLayout = (next: LayoutAlgorithm) => {
+    setLayout(next);
+    if (Object.keys(pinned).length > 0) setPinned(NO_POSITIONS, 'Reset dragged nodes');
+  };
+
+  const cycles = useMemo(() => findDependencyCycles(data.dependencies), [data.dependencies]);
+
+  const withFlags = useCallback((node: Node): Node => {
+    const flags = flagsRef.current;
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        focused: node.id === flags.focused,
+        expanding: node.id === flags.expandingNodeId,
+        status: flags.progress && node.id !== 'main' ? flags.progress[node.id] ?? 'not_started' : undefined,
+        completion: flags.completion?.get(node.id),
+        editing: node.id === flags.editing,
+        dropTarget: node.id === flags.dropTarget,
+      },
+    };
+  }, []);
+
+  useEffect(() => {
+    setNodes((current) =>
+      current.map((node) =>
+        node.data.focused === (node.id === focused) &&
+        node.data.expanding === (node.id === expandingNodeId) &&
+        node.data.status === (progress && node.id !== 'main' ? progress[node.id] ?? 'not_started' : undefined) &&
+        node.data.completion === completion?.get(node.id) &&
+        node.data.editing === (node.id === editing) &&
+        node.data.dropTarget === (node.id === dropTarget)
+          ? node
+          : withFlags(node),
+      ),
+    );
+  }, [focused, expandingNodeId, progress, completion, editing, dropTarget, setNodes, withFlags]);
+
+  const editActions = useMemo<MapEditActions | null>(() => {
+    if (!editable) return null;
+    const apply = (next: LearningMapData, label: string) => onEditRef.current?.(next, label);
+    const nameOf = (nodeId: string) => findNode(dataRef.current, nodeId)?.name ?? nodeId;
+    const addNode = (parentId: string | null, index?: number) => {
+      const map = dataRef.current;
+      const name = parentId === null ? 'New branch' : 'New subtopic';
+      const id = createIdRegistry(['main', ...collectNodeIds(map)]).claim('', name);
+      apply(
+        insertNode(map, parentId, { id, name, description: '' }, index),
+        parentId === null ? 'Added a branch' : `Added a subtopic under "${nameOf(parentId)}"`,
+      );
+      setFocusedRef.current(id);
+      setEditingNodeId(id);
+    };
+
+    return {
+      startEditing: setEditingNodeId,
+      stopEditing: () => setEditingNodeId(undefined),
+      rename: (nodeId, name, description) => {
+        const map = dataRef.current;
+        setEditingNodeId(undefined);
+        if (nodeId === 'main') {
+          if (name !== map.topic) apply({ ...map, topic: name }, `Renamed the topic to "${name}"`);
+          return;
+        }
+        const node = findNode(map, nodeId);
+        if (!node || (node.name === name && node.description === description)) return;
+        apply(
+          updateNode(map, nodeId, (current) => ({ ...current, name, description })),
+          node.name === name ? `Edited "${name}"` : `Renamed "${node.name}" to "${name}"`,
+        );
+      },
+      addChild: (nodeId) => addNode(nodeId === 'main' ? null : nodeId),
+      addSibling: (nodeId) => {
+        const location = locateNode(dataRef.current, nodeId);
+        if (location) addNode(location.parentId, location.index + 1);
+      },
+      move: (nodeId, offset) => {
+        const map = dataRef.current;
+        const location = locateNode(map, nodeId);
+        if (!location) return;
+        const siblings = location.parentId === null ? map.branches : findNode(map, location.parentId)?.subtopics ?? [];
+        const index = location.index + offset;
+        if (index < 0 || index >= siblings.length) return;
+        apply(moveNode(map, nodeId, location.parentId, index), `Moved "${nameOf(nodeId)}" ${offset < 0 ? 'up' : 'down'}`);
+      },
+      remove: setDeletingNodeId,
+    };
+  }, [editable]);
+
+  /** The node the dragged node's center is over, when dropping it there would re-parent it. */
+  const dropTargetFor = (dragged: Node): string | undefined => {
+    const location = editable ? locateNode(data, dragged.id) : null;
+    if (!location) return undefined;
+    const x = dragged.position.x + (dragged.measured?.width ?? 0) / 2;
+    const y = dragged.position.y + (dragged.measured?.height ?? 0) / 2;
+    const target = nodes.find(({ id, position, measured }) =>
+      id !== dragged.id &&
+      x >= position.x && x <= position.x + (measured?.width ?? 0) &&
+      y >= position.y && y <= position.y + (measured?.height ?? 0),
+    );
+    // Dropping on the current parent changes nothing, and a node can't go inside itself.
+    if (!target || target.id === (location.parentId ?? 'main')) return undefined;
+    if (findNodePath(data, target.id)?.some((node) => node.id === dragged.id)) return undefined;
+    return target.id;
+  };
+
+  const handleDragStop = (dragged: Node) => {
+    const target = dropTargetFor(dragged);
+    const name = dragged.id === 'main' ? data.topic : findNode(data, dragged.id)?.name;
+    setDropTargetId(undefined);
+    if (!target) {
+      const { x, y } = dragged.position;
+      if (pinned[dragged.id]?.x !== x || pinned[dragged.id]?.y !== y) {
+        setPinned({ ...pinned, [dragged.id]: { x, y } }, `Dragged "${name}"`);
+      }
+      return;
+    }
+
+    // Re-parented nodes take their place in the layout under the new parent.
+    if (pinned[dragged.id]) {
+      const { [dragged.id]: _, ...rest } = pinned;
+      setPinned(rest, `Released "${name}"`);
+    }
+    onEdit?.(
+      moveNode(data, dragged.id, target === 'main' ? null : target),
+      target === 'main' ? `Made "${name}" a branch` : `Moved "${name}" under "${findNode(data, target)?.name}"`,
+    );
+  };
+
+  const deleting = editable && deletingNodeId ? findNode(data, deletingNodeId) : null;
+  const deletingBelow = deleting ? countNodes(deleting) - 1 : 0;
+
+  const handleDelete = () => {
+    if (!deleting) return;
+    onEdit?.(removeNode(data, deleting.id), `Deleted "${deleting.name}"`);
+    if (focused && findNodePath(data, focused)?.some((node) => node.id === deleting.id)) setFocused(undefined);
+    setDeletingNodeId(undefined);
+  };
+
   useEffect(() => {
     if (!data || !data.branches) return;
 
     const newNodes: Node[] = [];
     const newEdges: Edge[] = [];
+    const onExpand = (nodeId: string) => (expandable ? () => onExpandRef.current?.(nodeId) : undefined);
+    const onStatus = (nodeId: string) =>
+      trackable ? (status: NodeStatus) => onStatusChangeRef.current?.(nodeId, status) : undefined;
+
+    const addSubtopics = (parentId: string, subtopics: Subtopic[], depth: number) => {
+      subtopics.forEach((subtopic) => {
+        newNodes.push({
+          id: subtopic.id,
+          type: 'custom',
+          position: { x: 0, y: 0 },
+          data: {
+            label: subtopic.name,
+            description: subtopic.description,
+            type: 'subtopic',
+            onExpand: onExpand(subtopic.id),
+            onStatusChange: onStatus(subtopic.id),
+          },
+        });
+
+        // Edge from parent to subtopic
+        newEdges.push({
+          id: `${parentId}-${subtopic.id}`,
+          source: parentId,
+          target: subtopic.id,
+          type: 'smoothstep',
+          style: {
+            stroke: 'hsl(var(--accent))',
+            strokeWidth: depth === 2 ? 2 : 1.5,
+          },
+          markerEnd: {
+            type: MarkerType.ArrowClosed,
+            color: 'hsl(var(--accent))',
+            width: 20,
+            height: 20,
+          },
+        });
 
-    // Main topic node (center)
+        if (subtopic.subtopics) addSubtopics(subtopic.id, subtopic.subtopics, depth + 1);
+      });
+    };
+
+    // Main topic node
     newNodes.push({
       id: 'main',
       type: 'custom',
-      position: { x: 400, y: 50 },
+      position: { x: 0, y: 0 },
       data: { 
         label: data.topic,
         type: 'main',
@@ -145,26 +643,19 @@ export const LearningMapFlow = ({ data }: LearningMapFlowProps) => {
       },
     });
 
-    // Calculate branch positions in a radial layout
-    const branchCount = data.branches.length;
-    const radius = 280;
-    const angleStep = (2 * Math.PI) / branchCount;
-
     data.branches.forEach((branch, branchIndex) => {
-      const angle = angleStep * branchIndex - Math.PI / 2; // Start from top
-      const branchX = 400 + radius * Math.cos(angle);
-      const branchY = 220 + radius * Math.sin(angle);
-
       // Branch node
       newNodes.push({
         id: branch.id,
         type: 'custom',
-        position: { x: branchX, y: branchY },
+        position: { x: 0, y: 0 },
         data: { 
           label: branch.name,
           description: branch.description,
           type: 'branch',
-          badge: `Branch ${branchIndex + 1}`
+          badge: `Branch ${branchIndex + 1}`,
+          onExpand: onExpand(branch.id),
+          onStatusChange: onStatus(branch.id),
         },
       });
 
@@ -187,47 +678,29 @@ export const LearningMapFlow = ({ data }: LearningMapFlowProps) => {
         },
       });
 
-      // Subtopic nodes
-      branch.subtopics.forEach((subtopic, subtopicIndex) => {
-        const subtopicAngle = angle + (subtopicIndex - (branch.subtopics.length - 1) / 2) * 0.35;
-        const subtopicRadius = 200;
-        const subtopicX = branchX + subtopicRadius * Math.cos(subtopicAngle);
-        const subtopicY = branchY + subtopicRadius * Math.sin(subtopicAngle);
+      addSubtopics(branch.id, branch.subtopics, 2);
+    });
 
-        newNodes.push({
-          id: subtopic.id,
-          type: 'custom',
-          position: { x: subtopicX, y: subtopicY },
-          data: { 
-            label: subtopic.name,
-            description: subtopic.description,
-            type: 'subtopic'
-          },
-        });
+    // Cross-links between nodes, drawn over the containment tree
+    const cyclic = cyclicEdgeKeys(cycles);
+    for (const dependency of data.dependencies ?? []) {
+      const onCycle = dependency.kind === 'prerequisite' && cyclic.has(`${dependency.from}->${dependency.to}`);
+      newEdges.push(dependencyEdge(dependency, onCycle));
+    }
 
-        // Edge from branch to subtopic
-        newEdges.push({
-          id: `${branch.id}-${subtopic.id}`,
-          source: branch.id,
-          target: subtopic.id,
-          type: 'smoothstep',
-          style: { 
-            stroke: 'hsl(var(--accent))',
-            strokeWidth: 2,
-          },
-          markerEnd: {
-            type: MarkerType.ArrowClosed,
-            color: 'hsl(var(--accent))',
-            width: 20,
-            height: 20,
-          },
-        });
-      });
+    // Nodes already on screen keep their place until AutoLayout moves them;
+    // new ones start from a layout based on estimated sizes.
+    const estimated = computeLayout(layoutRef.current, toLayoutTree(data, (_, type) => ESTIMATED_SIZES[type]));
+    setNodes((current) => {
+      const previous = new Map(current.map((node) => [node.id, node.position]));
+      return newNodes.map((node) =>
+        withFlags({ ...node, position: previous.get(node.id) ?? estimated[node.id] ?? node.position }),
+      );
     });
-
-    setNodes(newNodes);
     setEdges(newEdges);
-  }, [data, setNodes, setEdges]);
+  }, [data, cycles, expandable, trackable, setNodes, setEdges, withFlags]);
+
+  const nodeName = (id: string) => findNode(data, id)?.name ?? id;
 
   return (
     <div className="w-full h-[750px] rounded-3xl border-2 border-primary/30 overflow-hidden glass-effect shadow-glow relative group">
@@ -241,35 +714,105 @@ export const LearningMapFlow = ({ data }: LearningMapFlowProps) => {
         </defs>
       </svg>
       
-      <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        nodeTypes={nodeTypes}
-        connectionMode={ConnectionMode.Loose}
-        fitView
-        minZoom={0.4}
-        maxZoom={1.5}
-        defaultViewport={{ x: 0, y: 0, zoom: 0.75 }}
-        className="bg-background/30"
-      >
-        <Background 
-          variant={BackgroundVariant.Dots}
-          gap={24}
-          size={2}
-          color="hsl(var(--primary) / 0.15)"
-          className="opacity-60"
-        />
-        <Controls 
-          className="glass-effect border-2 border-primary/20 rounded-xl shadow-soft !bg-card/50 backdrop-blur-xl [&_button]:!bg-transparent [&_button]:!border-primary/20 [&_button:hover]:!bg-primary/10 [&_button]:!text-foreground [&_button]:transition-all"
-        />
-      </ReactFlow>
+      <LayoutDirectionContext.Provider value={layout === 'tree-lr' ? 'horizontal' : 'vertical'}>
+        <MapEditContext.Provider value={editActions}>
+          <ReactFlow
+            nodes={nodes}
+            edges={edges}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            nodeTypes={nodeTypes}
+            connectionMode={ConnectionMode.Loose}
+            fitView={!initialViewport}
+            minZoom={0.2}
+            maxZoom={1.5}
+            defaultViewport={initialViewport ?? { x: 0, y: 0, zoom: 0.75 }}
+            onMoveEnd={(_, viewport) => onViewportChange?.(viewport)}
+            onNodeClick={(_, node) => setFocused(node.id)}
+            onNodeDoubleClick={(_, node) => {
+              if (!editable) return;
+              setFocused(node.id);
+              setEditingNodeId(node.id);
+            }}
+            onNodeDrag={(_, node) => setDropTargetId(dropTargetFor(node))}
+            onNodeDragStop={(_, node) => handleDragStop(node)}
+            onPaneClick={() => setFocused(undefined)}
+            zoomOnDoubleClick={!editable}
+            deleteKeyCode={null}
+            className="bg-background/30"
+          >
+            <AutoLayout
+              data={data}
+              algorithm={layout}
+              focusedNodeId={focusedNodeId}
+              fit={!initialViewport}
+              pinned={pinned}
+            />
+            <MapExportMenu
+              data={data}
+              title={title ?? data.topic}
+              level={level}
+              progress={progress}
+              direction={layout === 'tree-lr' ? 'horizontal' : 'vertical'}
+            />
+            <Background 
+              variant={BackgroundVariant.Dots}
+              gap={24}
+              size={2}
+              color="hsl(var(--primary) / 0.15)"
+              className="opacity-60"
+            />
+            <Controls 
+              className="glass-effect border-2 border-primary/20 rounded-xl shadow-soft !bg-card/50 backdrop-blur-xl [&_button]:!bg-transparent [&_button]:!border-primary/20 [&_button:hover]:!bg-primary/10 [&_button]:!text-foreground [&_button]:transition-all"
+            />
+          </ReactFlow>
+        </MapEditContext.Provider>
+      </LayoutDirectionContext.Provider>
       
+      <LayoutToolbar value={layout} onChange={changeLayout} />
+
+      {data.dependencies?.length ? <MapLegend /> : null}
+
+      {cycles.length > 0 && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 max-w-xl glass-effect px-4 py-3 rounded-xl border-2 border-destructive/40 shadow-medium text-sm">
+          <div className="flex items-center gap-2 font-semibold text-destructive">
+            <AlertTriangle className="w-4 h-4" />
+            Circular prerequisites
+          </div>
+          <ul className="mt-1 space-y-0.5 text-foreground/80">
+            {cycles.map((cycle) => (
+              <li key={cycle.join('>')}>{cycle.map(nodeName).join(' → ')}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeletingNodeId(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingBelow > 0
+                ? `Its ${deletingBelow} ${deletingBelow === 1 ? 'subtopic' : 'subtopics'} and any links to them will be removed too.`
+                : 'Any links to it will be removed too.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Corner decorations */}
       <div className="absolute top-4 right-4 flex items-center gap-2 glass-effect px-4 py-2 rounded-xl border border-accent/30 animate-pulse-glow">
-        <TrendingUp className="w-4 h-4 text-accent" />
-        <span className="text-xs font-bold text-accent uppercase tracking-wider">Live Preview</span>
+        {editable ? <Pencil className="w-4 h-4 text-accent" /> : <TrendingUp className="w-4 h-4 text-accent" />}
+        <span className="text-xs font-bold text-accent uppercase tracking-wider">{editable ? 'Editing' : 'Live Preview'}</span>
       </div>
     </div>
   );
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Panel, useReactFlow } from '@xyflow/react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile, fileSlug } from '@/lib/download';
+import { exportLearningMap, MAP_FORMATS, type MapFormat } from '@/lib/mapFormats';
+import {
+  createCanvasMeasurer,
+  type NodeBox,
+  PNG_SCALES,
+  readExportTheme,
+  renderMapSvg,
+  svgToPdf,
+  svgToPng,
+} from '@/lib/mapExport';
+import type { MapProgress } from '@/lib/progress';
+import type { LearningLevel, LearningMapData } from '@shared/learningMap';
+import { Download, FileCode2, FileImage, FileText, ListTree, Loader2 } from 'lucide-react';
+
+interface MapExportMenuProps {
+  data: LearningMapData;
+  title: string;
+  level?: LearningLevel;
+  progress?: MapProgress;
+  direction: 'vertical' | 'horizontal';
+}
+
+/** Image and outline exports of the whole map; must be rendered inside `ReactFlow`. */
+export const MapExportMenu = ({ data, title, level, progress, direction }: MapExportMenuProps) => {
+  const { getNodes } = useReactFlow();
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const render = () => {
+    const boxes: Record<string, NodeBox> = {};
+    for (const node of getNodes()) {
+      const { width, height } = node.measured ?? {};
+      if (width && height) boxes[node.id] = { ...node.position, width, height };
+    }
+    const theme = readExportTheme();
+    return { theme, image: renderMapSvg(data, boxes, { title, theme, direction, measureText: createCanvasMeasurer() }) };
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setExporting(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportPng = (scale: number) =>
+    run(async () => {
+      const { blob, scale: used } = await svgToPng(render().image, scale);
+      downloadFile(`${fileSlug(title)}${scale > 1 ? `@${scale}x` : ''}.png`, blob, 'image/png');
+      if (used < scale) {
+        toast({
+          title: 'Map exported at a smaller size',
+          description: `The map is too large for ${scale}×, so it was saved at ${used.toFixed(1)}×.`,
+        });
+      }
+    });
+
+  const exportSvg = () =>
+    run(async () => {
+      downloadFile(`${fileSlug(title)}.svg`, render().image.svg, 'image/svg+xml');
+    });
+
+  const exportPdf = () =>
+    run(async () => {
+      const { image, theme } = render();
+      downloadFile(`${fileSlug(title)}.pdf`, await svgToPdf(image, { title, theme }), 'application/pdf');
+    });
+
+  const exportOutline = (format: MapFormat) => {
+    const { contents, extension, mimeType } = exportLearningMap(format, data, { title, level, progress });
+    downloadFile(`${fileSlug(title)}.${extension}`, contents, mimeType);
+  };
+
+  return (
+    <Panel position="bottom-right">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={exporting}
+            className="glass-effect border-primary/20 shadow-soft hover:bg-primary/10"
+          >
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuLabel>PNG image</DropdownMenuLabel>
+          {PNG_SCALES.map((scale) => (
+            <DropdownMenuItem key={scale} onSelect={() => exportPng(scale)}>
+              <FileImage className="w-4 h-4 mr-2" />
+              {scale}× scale
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={exportSvg}>
+            <FileCode2 className="w-4 h-4 mr-2" />
+            SVG vector
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={exportPdf}>
+            <FileText className="w-4 h-4 mr-2" />
+            PDF document
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Outline and mind map</DropdownMenuLabel>
+          {MAP_FORMATS.map(({ format, label }) => (
+            <DropdownMenuItem key={format} onSelect={() => exportOutline(format)}>
+              <ListTree className="w-4 h-4 mr-2" />
+              {label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </Panel>
+  );
+};
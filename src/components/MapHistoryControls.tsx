@@ -0,0 +1,101 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import type { MapHistory } from '@/lib/mapHistory';
+import { Check, History, Loader2, Redo2, Undo2 } from 'lucide-react';
+
+interface MapHistoryControlsProps {
+  history: MapHistory;
+  busy: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Undoes or redoes until `cursor` entries are applied. */
+  onJump: (cursor: number) => void;
+}
+
+const formatTime = (at: string) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/** Undo and redo buttons, plus a list of this session's changes to jump back or forward to. */
+export const MapHistoryControls = ({
+  history,
+  busy,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump,
+}: MapHistoryControlsProps) => {
+  const { entries, cursor } = history;
+
+  return (
+    <div className="flex">
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={onUndo}
+        disabled={!canUndo}
+        title="Undo (Ctrl+Z)"
+        aria-label="Undo"
+        className="rounded-r-none"
+      >
+        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Undo2 className="w-4 h-4" />}
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={onRedo}
+        disabled={!canRedo}
+        title="Redo (Ctrl+Shift+Z)"
+        aria-label="Redo"
+        className="rounded-none border-x-0"
+      >
+        <Redo2 className="w-4 h-4" />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={busy || entries.length === 0}
+            title="History"
+            aria-label="History"
+            className="rounded-l-none"
+          >
+            <History className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72 max-h-96 overflow-y-auto">
+          <DropdownMenuLabel>This session's changes</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {entries
+            .map((entry, index) => ({ entry, position: index + 1 }))
+            .reverse()
+            .map(({ entry, position }) => (
+              <DropdownMenuItem
+                key={entry.id}
+                onSelect={() => onJump(position)}
+                className={cn('gap-2', position > cursor && 'text-muted-foreground line-through')}
+              >
+                <Check className={cn('w-4 h-4 shrink-0', position !== cursor && 'invisible')} />
+                <span className="flex-1 truncate">{entry.label}</span>
+                <span className="text-xs text-muted-foreground">{formatTime(entry.at)}</span>
+              </DropdownMenuItem>
+            ))}
+          <DropdownMenuItem onSelect={() => onJump(0)} className="gap-2">
+            <Check className={cn('w-4 h-4 shrink-0', cursor !== 0 && 'invisible')} />
+            <span className="flex-1">Before these changes</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
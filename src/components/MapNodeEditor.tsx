@@ -0,0 +1,155 @@
+import { type ReactNode, useState } from 'react';
+import { NodeToolbar, Position } from '@xyflow/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, Check, CornerDownRight, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+/** What map nodes can do to the tree while the map is in edit mode. */
+export interface MapEditActions {
+  startEditing: (nodeId: string) => void;
+  stopEditing: () => void;
+  rename: (nodeId: string, name: string, description: string) => void;
+  addChild: (nodeId: string) => void;
+  addSibling: (nodeId: string) => void;
+  /** Moves a node one place earlier (-1) or later (1) among its siblings. */
+  move: (nodeId: string, offset: -1 | 1) => void;
+  /** Asks for confirmation before removing the node and everything below it. */
+  remove: (nodeId: string) => void;
+}
+
+interface NodeEditFormProps {
+  name: string;
+  description?: string;
+  /** The topic has no description to edit. */
+  withDescription: boolean;
+  onSave: (name: string, description: string) => void;
+  onCancel: () => void;
+}
+
+/** Inline name and description fields shown in place of a node's text. */
+export const NodeEditForm = ({ name, description = '', withDescription, onSave, onCancel }: NodeEditFormProps) => {
+  const [draftName, setDraftName] = useState(name);
+  const [draftDescription, setDraftDescription] = useState(description);
+  const valid = draftName.trim().length > 0;
+
+  const save = () => {
+    if (valid) onSave(draftName.trim(), draftDescription.trim());
+  };
+
+  return (
+    <form
+      className="nodrag nowheel space-y-2"
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onSubmit={(e) => {
+        e.preventDefault();
+        save();
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <Input
+        autoFocus
+        value={draftName}
+        onChange={(e) => setDraftName(e.target.value)}
+        onFocus={(e) => e.target.select()}
+        placeholder="Name"
+        aria-label="Node name"
+        className="h-9 font-semibold text-foreground"
+      />
+      {withDescription && (
+        <Textarea
+          value={draftDescription}
+          onChange={(e) => setDraftDescription(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) save();
+          }}
+          placeholder="What this node covers"
+          aria-label="Node description"
+          className="min-h-[72px] text-sm text-foreground"
+        />
+      )}
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          <X className="w-4 h-4 mr-1" />
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!valid}>
+          <Check className="w-4 h-4 mr-1" />
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+interface NodeEditToolbarProps {
+  nodeId: string;
+  isVisible: boolean;
+  /** The topic can only be renamed and given branches. */
+  isTopic: boolean;
+  actions: MapEditActions;
+}
+
+const ToolbarButton = ({
+  label,
+  onClick,
+  children,
+  className,
+}: {
+  label: string;
+  onClick: () => void;
+  children: ReactNode;
+  className?: string;
+}) => (
+  <Button
+    size="icon"
+    variant="ghost"
+    title={label}
+    aria-label={label}
+    onClick={(e) => {
+      e.stopPropagation();
+      onClick();
+    }}
+    className={cn('h-8 w-8', className)}
+  >
+    {children}
+  </Button>
+);
+
+/** Buttons above the focused node for changing the tree around it. */
+export const NodeEditToolbar = ({ nodeId, isVisible, isTopic, actions }: NodeEditToolbarProps) => (
+  <NodeToolbar isVisible={isVisible} position={Position.Top}>
+    <div className="flex items-center gap-0.5 rounded-xl border border-primary/20 bg-card/90 p-1 shadow-medium backdrop-blur">
+      <ToolbarButton label="Edit name and description" onClick={() => actions.startEditing(nodeId)}>
+        <Pencil className="w-4 h-4" />
+      </ToolbarButton>
+      <ToolbarButton label={isTopic ? 'Add branch' : 'Add subtopic'} onClick={() => actions.addChild(nodeId)}>
+        <CornerDownRight className="w-4 h-4" />
+      </ToolbarButton>
+      {!isTopic && (
+        <>
+          <ToolbarButton label="Add sibling" onClick={() => actions.addSibling(nodeId)}>
+            <Plus className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton label="Move earlier" onClick={() => actions.move(nodeId, -1)}>
+            <ArrowUp className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton label="Move later" onClick={() => actions.move(nodeId, 1)}>
+            <ArrowDown className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton
+            label="Delete"
+            onClick={() => actions.remove(nodeId)}
+            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+          >
+            <Trash2 className="w-4 h-4" />
+          </ToolbarButton>
+        </>
+      )}
+    </div>
+  </NodeToolbar>
+);
@@ -0,0 +1,40 @@
+import type { ReactNode } from 'react';
+import { formatHours } from '@/lib/studyPlan';
+import { Clock, Map } from 'lucide-react';
+
+interface MapTitleCardProps {
+  title: string;
+  branchCount: number;
+  /** Estimated study hours for the whole map; hidden when zero. */
+  totalHours?: number;
+  /** Rendered on the right; defaults to the "Interactive" pill. */
+  actions?: ReactNode;
+}
+
+export const MapTitleCard = ({ title, branchCount, totalHours, actions }: MapTitleCardProps) => (
+  <div className="glass-effect p-8 rounded-2xl border-2 border-primary/20 shadow-glow">
+    <div className="flex flex-col md:flex-row md:items-start justify-between gap-6">
+      <div className="space-y-2">
+        <h2 className="text-4xl font-display font-bold text-gradient"
+            style={{ backgroundImage: 'linear-gradient(135deg, hsl(var(--primary)), hsl(var(--secondary)))' }}>
+          {title}
+        </h2>
+        <p className="text-muted-foreground flex flex-wrap items-center gap-2">
+          <Map className="w-5 h-5 text-accent" />
+          Explore {branchCount} main learning areas below
+          {!!totalHours && (
+            <>
+              <Clock className="w-5 h-5 text-accent ml-2" />
+              About {formatHours(totalHours)} of study
+            </>
+          )}
+        </p>
+      </div>
+      {actions ?? (
+        <div className="px-6 py-3 rounded-xl glass-effect border-2 border-accent/30 animate-pulse-glow">
+          <span className="text-sm font-bold text-accent uppercase tracking-wider">Interactive</span>
+        </div>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,52 @@
+import type { ReactNode } from 'react';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { Sheet, SheetContent, SheetTitle } from '@/components/ui/sheet';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+interface MapWorkspaceProps {
+  /** The map itself. */
+  children: ReactNode;
+  /** Detail content for the selected node; the panel is closed while this is empty. */
+  detail?: ReactNode;
+  onCloseDetail: () => void;
+}
+
+/**
+ * Puts the map next to a resizable detail panel on wide screens. On phones
+ * the panel slides up as a sheet over the map instead.
+ */
+export const MapWorkspace = ({ children, detail, onCloseDetail }: MapWorkspaceProps) => {
+  const isMobile = useIsMobile();
+
+  if (isMobile) {
+    return (
+      <>
+        {children}
+        <Sheet open={!!detail} onOpenChange={(open) => !open && onCloseDetail()}>
+          <SheetContent side="bottom" className="h-[85vh] p-0 [&>button]:hidden">
+            <SheetTitle className="sr-only">Node details</SheetTitle>
+            {detail}
+          </SheetContent>
+        </Sheet>
+      </>
+    );
+  }
+
+  return (
+    <ResizablePanelGroup direction="horizontal" autoSaveId="map-workspace" className="!h-[750px]">
+      <ResizablePanel id="map" order={1} minSize={40}>
+        {children}
+      </ResizablePanel>
+      {detail && (
+        <>
+          <ResizableHandle withHandle className="mx-3 bg-transparent" />
+          <ResizablePanel id="detail" order={2} defaultSize={32} minSize={22} maxSize={55}>
+            <aside className="h-full glass-effect rounded-3xl border-2 border-primary/30 shadow-glow overflow-hidden">
+              {detail}
+            </aside>
+          </ResizablePanel>
+        </>
+      )}
+    </ResizablePanelGroup>
+  );
+};
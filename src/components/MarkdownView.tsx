@@ -0,0 +1,62 @@
+import { useMemo } from 'react';
+import { type MarkdownInline, parseMarkdown } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+const Inline = ({ nodes }: { nodes: MarkdownInline[] }) => (
+  <>
+    {nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'strong':
+          return <strong key={index}><Inline nodes={node.children} /></strong>;
+        case 'em':
+          return <em key={index}><Inline nodes={node.children} /></em>;
+        case 'code':
+          return <code key={index}>{node.text}</code>;
+        case 'link':
+          return (
+            <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+              <Inline nodes={node.children} />
+            </a>
+          );
+      }
+    })}
+  </>
+);
+
+/** Renders learner notes written in the supported Markdown subset. */
+export const MarkdownView = ({ source, className }: { source: string; className?: string }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={cn('prose prose-sm dark:prose-invert max-w-none break-words', className)}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${block.level + 2}` as 'h3' | 'h4' | 'h5';
+            return <Heading key={index}><Inline nodes={block.children} /></Heading>;
+          }
+          case 'paragraph':
+            return <p key={index}><Inline nodes={block.children} /></p>;
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}><Inline nodes={item} /></li>
+                ))}
+              </List>
+            );
+          }
+          case 'quote':
+            return <blockquote key={index}><Inline nodes={block.children} /></blockquote>;
+          case 'code':
+            return <pre key={index}><code>{block.text}</code></pre>;
+          case 'rule':
+            return <hr key={index} />;
+        }
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import { Fragment } from 'react';
+import { NodeEstimate } from '@/components/NodeEstimate';
+import { NodeNotesEditor } from '@/components/NodeNotesEditor';
+import { NodeQuizDialog } from '@/components/NodeQuizDialog';
+import { NodeResources } from '@/components/NodeResources';
+import { NodeStatusSelect } from '@/components/NodeStatusControl';
+import { RegenerateBranchDialog } from '@/components/RegenerateBranchDialog';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { NodeStatus } from '@/lib/progress';
+import type { LearningLevel, LearningMapData, Resource } from '@shared/learningMap';
+import { findNodePath } from '@shared/mapTree';
+import { BookOpen, NotebookPen, X } from 'lucide-react';
+
+interface NodeDetailPanelProps {
+  map: LearningMapData;
+  nodeId: string;
+  onClose: () => void;
+  /** Moves the selection, e.g. when a breadcrumb is clicked. */
+  onNodeFocus: (nodeId: string | undefined) => void;
+  /** Shows the node's status; leave unset when progress isn't tracked. */
+  status?: NodeStatus;
+  onStatusChange?: (status: NodeStatus) => void;
+  /** Makes the effort estimate editable. */
+  onEstimateChange?: (hours: number | undefined) => void;
+  onResourcesChange?: (resources: Resource[]) => void;
+  onGenerateResources?: () => void;
+  generatingResources?: boolean;
+  /** Saved map the learner's notes belong to; leave unset to hide notes. */
+  notesMapId?: string;
+  /** Saved map and level to quiz the learner on; leave unset to hide "Quiz me". */
+  quiz?: { mapId: string; level: LearningLevel };
+  /** Offers "Regenerate branch" on branches; `onAccept` takes the rewritten map. */
+  regenerate?: { level: LearningLevel; onAccept: (map: LearningMapData) => Promise<void> | void };
+}
+
+const SectionTitle = ({ icon: Icon, children }: { icon: typeof BookOpen; children: string }) => (
+  <h4 className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-accent">
+    <Icon className="w-4 h-4" />
+    {children}
+  </h4>
+);
+
+/** Everything about the selected node: where it sits, its status, effort, resources and notes. */
+export const NodeDetailPanel = ({
+  map,
+  nodeId,
+  onClose,
+  onNodeFocus,
+  status,
+  onStatusChange,
+  onEstimateChange,
+  onResourcesChange,
+  onGenerateResources,
+  generatingResources,
+  notesMapId,
+  quiz,
+  regenerate,
+}: NodeDetailPanelProps) => {
+  const path = findNodePath(map, nodeId);
+  if (!path) return null;
+  const node = path[path.length - 1];
+  const canRegenerate = regenerate && path.length === 1;
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="space-y-3 p-5 border-b border-border/50">
+        <div className="flex items-start justify-between gap-3">
+          <Breadcrumb className="min-w-0 pt-1">
+            <BreadcrumbList className="text-xs">
+              <BreadcrumbItem>
+                <BreadcrumbLink asChild>
+                  <button type="button" onClick={() => onNodeFocus('main')}>
+                    {map.topic}
+                  </button>
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              {path.slice(0, -1).map((ancestor) => (
+                <Fragment key={ancestor.id}>
+                  <BreadcrumbSeparator />
+                  <BreadcrumbItem>
+                    <BreadcrumbLink asChild>
+                      <button type="button" onClick={() => onNodeFocus(ancestor.id)}>
+                        {ancestor.name}
+                      </button>
+                    </BreadcrumbLink>
+                  </BreadcrumbItem>
+                </Fragment>
+              ))}
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbPage>{node.name}</BreadcrumbPage>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+          <Button variant="ghost" size="icon" className="shrink-0" onClick={onClose} aria-label="Close details">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <h3 className="font-display font-bold text-2xl leading-tight">{node.name}</h3>
+        {(status || quiz || canRegenerate) && (
+          <div className="flex flex-wrap items-center gap-2">
+            {status && <NodeStatusSelect status={status} onChange={onStatusChange} />}
+            {quiz && <NodeQuizDialog mapId={quiz.mapId} map={map} level={quiz.level} node={node} />}
+            {canRegenerate && (
+              <RegenerateBranchDialog map={map} level={regenerate.level} branch={node} onAccept={regenerate.onAccept} />
+            )}
+          </div>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-6 p-5">
+          <div className="space-y-2">
+            <p className="text-sm text-foreground/80 leading-relaxed">{node.description}</p>
+            <NodeEstimate node={node} onChange={onEstimateChange} />
+          </div>
+
+          <section className="space-y-3">
+            <SectionTitle icon={BookOpen}>Resources</SectionTitle>
+            <NodeResources
+              resources={node.resources ?? []}
+              onChange={onResourcesChange}
+              onGenerate={onGenerateResources}
+              generating={generatingResources}
+            />
+          </section>
+
+          {notesMapId && (
+            <section className="space-y-3">
+              <SectionTitle icon={NotebookPen}>My notes</SectionTitle>
+              <NodeNotesEditor mapId={notesMapId} nodeId={node.id} />
+            </section>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { formatHours } from '@/lib/studyPlan';
+import { MAX_ESTIMATED_HOURS, type MapNode, roundHours } from '@shared/learningMap';
+import { totalHours } from '@shared/mapTree';
+import { Clock } from 'lucide-react';
+
+interface NodeEstimateProps {
+  node: MapNode;
+  /** Makes the estimate editable; `undefined` clears it. */
+  onChange?: (hours: number | undefined) => void;
+}
+
+/** The node's own study effort, plus the total with everything below it. */
+export const NodeEstimate = ({ node, onChange }: NodeEstimateProps) => {
+  const [draft, setDraft] = useState<string>();
+  const withChildren = node.subtopics?.length ? totalHours(node) : undefined;
+  const value = draft ?? (node.estimatedHours !== undefined ? String(node.estimatedHours) : '');
+
+  const commit = () => {
+    if (draft === undefined) return;
+    setDraft(undefined);
+    const hours = Number(draft);
+    const next = draft.trim() && Number.isFinite(hours) && hours > 0
+      ? roundHours(Math.min(hours, MAX_ESTIMATED_HOURS))
+      : undefined;
+    if (next !== node.estimatedHours) onChange?.(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+      <Clock className="w-4 h-4 text-accent" />
+      {onChange ? (
+        <label className="flex items-center gap-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={MAX_ESTIMATED_HOURS}
+            step={0.25}
+            value={value}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            placeholder="–"
+            className="h-8 w-20"
+            aria-label="Estimated hours"
+          />
+          hours
+        </label>
+      ) : (
+        <span>{node.estimatedHours !== undefined ? formatHours(node.estimatedHours) : 'No estimate'}</span>
+      )}
+      {withChildren !== undefined && <span>· {formatHours(withChildren)} with subtopics</span>}
+    </div>
+  );
+};
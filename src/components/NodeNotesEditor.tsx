@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from 'react';
+import { MarkdownView } from '@/components/MarkdownView';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { useNodeNote, useSaveNodeNote } from '@/hooks/use-learning-maps';
+import { Bold, Code, Heading, Italic, Link2, List, ListOrdered } from 'lucide-react';
+
+// How long typing has to pause before the note is saved.
+const AUTOSAVE_DELAY_MS = 800;
+
+type Wrap = { before: string; after?: string; placeholder: string; linePrefix?: boolean };
+
+const FORMATS: { label: string; icon: typeof Bold; wrap: Wrap }[] = [
+  { label: 'Heading', icon: Heading, wrap: { before: '## ', placeholder: 'Heading', linePrefix: true } },
+  { label: 'Bold', icon: Bold, wrap: { before: '**', after: '**', placeholder: 'bold text' } },
+  { label: 'Italic', icon: Italic, wrap: { before: '*', after: '*', placeholder: 'italic text' } },
+  { label: 'Code', icon: Code, wrap: { before: '`', after: '`', placeholder: 'code' } },
+  { label: 'Link', icon: Link2, wrap: { before: '[', after: '](https://)', placeholder: 'link text' } },
+  { label: 'Bulleted list', icon: List, wrap: { before: '- ', placeholder: 'Item', linePrefix: true } },
+  { label: 'Numbered list', icon: ListOrdered, wrap: { before: '1. ', placeholder: 'Item', linePrefix: true } },
+];
+
+interface NodeNotesEditorProps {
+  mapId: string;
+  nodeId: string;
+}
+
+/** Markdown notes for one node, saved for the signed-in user as they type. */
+export const NodeNotesEditor = ({ mapId, nodeId }: NodeNotesEditorProps) => {
+  const { data: saved, isLoading, error } = useNodeNote(mapId, nodeId);
+  const saveNote = useSaveNodeNote(mapId);
+  const [draft, setDraft] = useState<string>();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const body = draft ?? saved ?? '';
+  const dirty = draft !== undefined && draft !== (saved ?? '');
+
+  // Save once typing pauses, and flush whatever is pending when the node changes.
+  const pendingRef = useRef<{ nodeId: string; body: string } | null>(null);
+  pendingRef.current = dirty ? { nodeId, body } : null;
+  const { mutate } = saveNote;
+
+  useEffect(() => {
+    if (!dirty) return;
+    const timer = setTimeout(() => mutate({ nodeId, body }), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [dirty, nodeId, body, mutate]);
+
+  useEffect(
+    () => () => {
+      if (pendingRef.current) mutate(pendingRef.current);
+    },
+    [mutate],
+  );
+
+  const applyFormat = ({ before, after = '', placeholder, linePrefix }: Wrap) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const selected = body.slice(start, end) || placeholder;
+    const prefix = linePrefix && start > 0 && body[start - 1] !== '\n' ? `\n${before}` : before;
+    setDraft(body.slice(0, start) + prefix + selected + after + body.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + prefix.length, start + prefix.length + selected.length);
+    });
+  };
+
+  if (isLoading) return <Skeleton className="h-48 rounded-xl" />;
+  if (error) {
+    return <p className="text-sm text-destructive">Couldn't load your notes for this node.</p>;
+  }
+
+  const saveState = saveNote.isError
+    ? 'Not saved'
+    : saveNote.isPending
+      ? 'Saving…'
+      : dirty
+        ? 'Unsaved changes'
+        : body
+          ? 'Saved'
+          : '';
+
+  return (
+    <Tabs defaultValue="write" className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <TabsList>
+          <TabsTrigger value="write">Write</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+        <span className={`text-xs ${saveNote.isError ? 'text-destructive' : 'text-muted-foreground'}`}>{saveState}</span>
+      </div>
+
+      <TabsContent value="write" className="space-y-2 mt-0">
+        <div className="flex flex-wrap gap-1">
+          {FORMATS.map(({ label, icon: Icon, wrap }) => (
+            <Button
+              key={label}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => applyFormat(wrap)}
+              title={label}
+              aria-label={label}
+            >
+              <Icon className="w-3.5 h-3.5" />
+            </Button>
+          ))}
+        </div>
+        <Textarea
+          ref={textareaRef}
+          value={body}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => dirty && mutate({ nodeId, body })}
+          placeholder="Write notes in Markdown: **bold**, *italic*, - lists, [links](https://...)"
+          className="min-h-[220px] font-mono text-sm bg-background/40"
+        />
+      </TabsContent>
+
+      <TabsContent value="preview" className="mt-0 min-h-[220px] rounded-md border border-border/60 p-3 bg-background/40">
+        {body.trim() ? (
+          <MarkdownView source={body} />
+        ) : (
+          <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+};
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { GenerationErrorAlert } from '@/components/GenerationErrorAlert';
+import { QuizQuestionCard } from '@/components/QuizQuestionCard';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useGenerateQuiz } from '@/hooks/use-learning-maps';
+import type { LearningLevel, LearningMapData, MapNode } from '@shared/learningMap';
+import { GraduationCap, RotateCcw } from 'lucide-react';
+
+interface NodeQuizDialogProps {
+  mapId: string;
+  map: LearningMapData;
+  level: LearningLevel;
+  node: MapNode;
+}
+
+/** "Quiz me": writes a short quiz on the node, walks through it and keeps the questions for review. */
+export const NodeQuizDialog = ({ mapId, map, level, node }: NodeQuizDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [index, setIndex] = useState(0);
+  const [correct, setCorrect] = useState(0);
+  const quiz = useGenerateQuiz();
+  const items = quiz.data ?? [];
+  const finished = items.length > 0 && index >= items.length;
+
+  const start = () => {
+    setIndex(0);
+    setCorrect(0);
+    quiz.mutate({ mapId, map, level, nodeId: node.id });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next && !quiz.data && !quiz.isPending) start();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8">
+          <GraduationCap className="w-4 h-4 mr-2" />
+          Quiz me
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Quiz: {node.name}</DialogTitle>
+          <DialogDescription>
+            Questions you answer come back on the Review page when they're due.
+          </DialogDescription>
+        </DialogHeader>
+
+        {quiz.isPending && (
+          <div className="space-y-3">
+            <Skeleton className="h-6 w-3/4" />
+            <Skeleton className="h-12" />
+            <Skeleton className="h-12" />
+            <Skeleton className="h-12" />
+          </div>
+        )}
+
+        {quiz.isError && <GenerationErrorAlert error={quiz.error} onRetry={start} />}
+
+        {items.length > 0 && !finished && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                Question {index + 1} of {items.length}
+              </p>
+              <Progress value={(index / items.length) * 100} className="h-1.5" />
+            </div>
+            <QuizQuestionCard
+              key={items[index].id}
+              item={items[index]}
+              topic={map.topic}
+              level={level}
+              onAnswered={(grade) => grade.correct && setCorrect((count) => count + 1)}
+              onNext={() => setIndex((current) => current + 1)}
+              nextLabel={index + 1 < items.length ? 'Next question' : 'See results'}
+            />
+          </div>
+        )}
+
+        {finished && (
+          <div className="space-y-4 text-center">
+            <p className="text-3xl font-display font-bold">
+              {correct} / {items.length}
+            </p>
+            <p className="text-sm text-muted-foreground">correct answers on {node.name}</p>
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={start}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                New quiz
+              </Button>
+              <Button asChild>
+                <Link to="/review">Go to reviews</Link>
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,325 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  type Resource,
+  RESOURCE_TYPES,
+  type ResourceType,
+  type SchemaViolation,
+  validateResources,
+} from '@shared/learningMap';
+import {
+  ArrowDown,
+  ArrowUp,
+  BookOpen,
+  Dumbbell,
+  ExternalLink,
+  FileText,
+  GraduationCap,
+  Loader2,
+  Pencil,
+  PlayCircle,
+  Plus,
+  Sparkles,
+  Trash2,
+} from 'lucide-react';
+
+const TYPE_ICONS: Record<ResourceType, typeof FileText> = {
+  article: FileText,
+  video: PlayCircle,
+  course: GraduationCap,
+  book: BookOpen,
+  exercise: Dumbbell,
+};
+
+const TYPE_LABELS: Record<ResourceType, string> = {
+  article: 'Article',
+  video: 'Video',
+  course: 'Course',
+  book: 'Book',
+  exercise: 'Exercise',
+};
+
+const formatMinutes = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h${minutes % 60 ? ` ${minutes % 60} min` : ''}`;
+
+interface ResourceDraft {
+  title: string;
+  url: string;
+  type: ResourceType;
+  minutes: string;
+  free: boolean;
+}
+
+const toDraft = (resource?: Resource): ResourceDraft => ({
+  title: resource?.title ?? '',
+  url: resource?.url ?? '',
+  type: resource?.type ?? 'article',
+  minutes: resource?.estimatedMinutes?.toString() ?? '',
+  free: resource?.free ?? true,
+});
+
+/** Add/edit form for one resource, checked with the same rules as generated ones. */
+const ResourceForm = ({
+  initial,
+  otherUrls,
+  onSave,
+  onCancel,
+}: {
+  initial?: Resource;
+  otherUrls: string[];
+  onSave: (resource: Resource) => void;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = useState(() => toDraft(initial));
+  const [error, setError] = useState<string>();
+  const update = (changes: Partial<ResourceDraft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = draft.url.trim();
+    if (otherUrls.includes(url)) {
+      setError('This node already has a resource with that URL.');
+      return;
+    }
+
+    const violations: SchemaViolation[] = [];
+    const [resource] = validateResources(
+      [{
+        title: draft.title,
+        url,
+        type: draft.type,
+        estimatedMinutes: draft.minutes.trim() ? Number(draft.minutes) : undefined,
+        free: draft.free,
+      }],
+      'resource',
+      false,
+      violations,
+      [],
+    );
+    if (!resource) {
+      const [violation] = violations;
+      setError(
+        violation.path.endsWith('.estimatedMinutes')
+          ? 'Minutes must be a positive number.'
+          : `The resource ${violation.message}.`,
+      );
+      return;
+    }
+    onSave(resource);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-xl border-2 border-primary/20 p-4 bg-background/40">
+      <div className="space-y-1.5">
+        <Label htmlFor="resource-title">Title</Label>
+        <Input id="resource-title" value={draft.title} onChange={(e) => update({ title: e.target.value })} autoFocus />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="resource-url">URL</Label>
+        <Input
+          id="resource-url"
+          type="url"
+          placeholder="https://"
+          value={draft.url}
+          onChange={(e) => update({ url: e.target.value })}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label>Type</Label>
+          <Select value={draft.type} onValueChange={(value) => update({ type: value as ResourceType })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESOURCE_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="resource-minutes">Minutes</Label>
+          <Input
+            id="resource-minutes"
+            type="number"
+            min={1}
+            value={draft.minutes}
+            onChange={(e) => update({ minutes: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch id="resource-free" checked={draft.free} onCheckedChange={(free) => update({ free })} />
+        <Label htmlFor="resource-free">Free to use</Label>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm">
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+interface NodeResourcesProps {
+  resources: Resource[];
+  /** Lets the learner add, edit, remove and reorder resources; leave unset for read-only maps. */
+  onChange?: (resources: Resource[]) => void;
+  /** Shows a "Find resources" action that asks the model for suggestions. */
+  onGenerate?: () => void;
+  generating?: boolean;
+}
+
+/** The study resources of one node, with editing controls when `onChange` is set. */
+export const NodeResources = ({ resources, onChange, onGenerate, generating }: NodeResourcesProps) => {
+  // Index of the resource being edited, or 'new' while adding one.
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+
+  const move = (from: number, to: number) => {
+    const next = [...resources];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange?.(next);
+  };
+
+  const save = (resource: Resource) => {
+    onChange?.(
+      editing === 'new'
+        ? [...resources, resource]
+        : resources.map((existing, index) => (index === editing ? resource : existing)),
+    );
+    setEditing(null);
+  };
+
+  const otherUrls = resources.filter((_, index) => index !== editing).map((resource) => resource.url);
+
+  return (
+    <div className="space-y-3">
+      {resources.length === 0 && editing !== 'new' && (
+        <p className="text-sm text-muted-foreground">
+          No resources yet.{onGenerate ? ' Find some with AI or add your own.' : ''}
+        </p>
+      )}
+
+      {resources.map((resource, index) => {
+        if (index === editing) {
+          return (
+            <ResourceForm
+              key={resource.url}
+              initial={resource}
+              otherUrls={otherUrls}
+              onSave={save}
+              onCancel={() => setEditing(null)}
+            />
+          );
+        }
+
+        const Icon = TYPE_ICONS[resource.type];
+        return (
+          <div key={resource.url} className="group/resource rounded-xl border border-border/60 p-3 bg-background/40 space-y-2">
+            <div className="flex items-start gap-3">
+              <div className="p-2 rounded-lg bg-primary/10 text-primary shrink-0">
+                <Icon className="w-4 h-4" />
+              </div>
+              <a
+                href={resource.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex-1 min-w-0 font-medium leading-snug hover:text-primary hover:underline break-words"
+              >
+                {resource.title}
+                <ExternalLink className="inline w-3 h-3 ml-1 opacity-60" />
+              </a>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                <span>{TYPE_LABELS[resource.type]}</span>
+                {resource.estimatedMinutes && <span>· {formatMinutes(resource.estimatedMinutes)}</span>}
+                {resource.free !== undefined && (
+                  <Badge variant={resource.free ? 'secondary' : 'outline'} className="text-[10px] px-1.5 py-0">
+                    {resource.free ? 'Free' : 'Paid'}
+                  </Badge>
+                )}
+              </div>
+              {onChange && (
+                <div className="flex items-center opacity-0 group-hover/resource:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === 0}
+                    onClick={() => move(index, index - 1)}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === resources.length - 1}
+                    onClick={() => move(index, index + 1)}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setEditing(index)}
+                    aria-label="Edit resource"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-destructive hover:text-destructive"
+                    onClick={() => onChange(resources.filter((_, i) => i !== index))}
+                    aria-label="Remove resource"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {editing === 'new' && (
+        <ResourceForm otherUrls={otherUrls} onSave={save} onCancel={() => setEditing(null)} />
+      )}
+
+      {(onChange || onGenerate) && (
+        <div className="flex gap-2">
+          {onChange && (
+            <Button variant="outline" className="flex-1" onClick={() => setEditing('new')} disabled={editing !== null}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          )}
+          {onGenerate && (
+            <Button className="flex-1 bg-gradient-primary hover:shadow-glow" onClick={onGenerate} disabled={generating}>
+              {generating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+              Find resources
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import type { ReactNode } from 'react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuLabel,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { NODE_STATUS_LABELS, NODE_STATUSES, type NodeStatus, nextStatus } from '@/lib/progress';
+import { CheckCircle2, Circle, CircleDot, SkipForward } from 'lucide-react';
+
+const STATUS_ICONS: Record<NodeStatus, typeof Circle> = {
+  not_started: Circle,
+  in_progress: CircleDot,
+  done: CheckCircle2,
+  skipped: SkipForward,
+};
+
+const STATUS_STYLES: Record<NodeStatus, string> = {
+  not_started: 'text-muted-foreground border-border/60',
+  in_progress: 'text-secondary border-secondary/40 bg-secondary/10',
+  done: 'text-primary border-primary/40 bg-primary/10',
+  skipped: 'text-muted-foreground border-border/40 line-through',
+};
+
+interface NodeStatusProps {
+  status: NodeStatus;
+  /** Leave unset to show the status without letting it change. */
+  onChange?: (status: NodeStatus) => void;
+}
+
+/** Pill showing a node's status; clicking moves it on to the next one. */
+export const NodeStatusButton = ({ status, onChange }: NodeStatusProps) => {
+  const Icon = STATUS_ICONS[status];
+  return (
+    <button
+      type="button"
+      disabled={!onChange}
+      onClick={(e) => {
+        e.stopPropagation();
+        onChange?.(nextStatus(status));
+      }}
+      title={onChange ? 'Click to update, right-click for all options' : undefined}
+      className={cn(
+        'nodrag inline-flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs font-semibold transition-colors',
+        onChange && 'hover:border-primary cursor-pointer',
+        STATUS_STYLES[status],
+      )}
+    >
+      <Icon className="w-3.5 h-3.5" />
+      {NODE_STATUS_LABELS[status]}
+    </button>
+  );
+};
+
+/** Right-click menu for picking any status, including "skipped". */
+export const NodeStatusMenu = ({ status, onChange, children }: NodeStatusProps & { children: ReactNode }) => {
+  if (!onChange) return <>{children}</>;
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+      <ContextMenuContent className="w-48">
+        <ContextMenuLabel>Progress</ContextMenuLabel>
+        <ContextMenuSeparator />
+        <ContextMenuRadioGroup value={status} onValueChange={(value) => onChange(value as NodeStatus)}>
+          {NODE_STATUSES.map((option) => {
+            const Icon = STATUS_ICONS[option];
+            return (
+              <ContextMenuRadioItem key={option} value={option}>
+                <Icon className="w-4 h-4 mr-2" />
+                {NODE_STATUS_LABELS[option]}
+              </ContextMenuRadioItem>
+            );
+          })}
+        </ContextMenuRadioGroup>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
+
+/** Dropdown with every status, for places with room to spare such as the detail panel. */
+export const NodeStatusSelect = ({ status, onChange }: NodeStatusProps) => (
+  <Select value={status} onValueChange={(value) => onChange?.(value as NodeStatus)} disabled={!onChange}>
+    <SelectTrigger className={cn('h-8 w-40 text-xs font-semibold', STATUS_STYLES[status])}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {NODE_STATUSES.map((option) => {
+        const Icon = STATUS_ICONS[option];
+        return (
+          <SelectItem key={option} value={option}>
+            <span className="flex items-center gap-2">
+              <Icon className="w-4 h-4" />
+              {NODE_STATUS_LABELS[option]}
+            </span>
+          </SelectItem>
+        );
+      })}
+    </SelectContent>
+  </Select>
+);
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { GenerationErrorAlert } from '@/components/GenerationErrorAlert';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { useAnswerQuestion } from '@/hooks/use-learning-maps';
+import type { ReviewItem } from '@/lib/quizRepository';
+import { cn } from '@/lib/utils';
+import type { LearningLevel } from '@shared/learningMap';
+import type { AnswerGrade } from '@shared/quiz';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+
+interface QuizQuestionCardProps {
+  item: ReviewItem;
+  topic: string;
+  level: LearningLevel;
+  /** Called once the answer is graded and saved. */
+  onAnswered?: (grade: AnswerGrade) => void;
+  onNext: () => void;
+  nextLabel?: string;
+}
+
+const nextReviewLabel = (days: number) => (days === 1 ? 'tomorrow' : `in ${days} days`);
+
+/** One quiz question: collects an answer, grades it and shows when it comes back for review. */
+export const QuizQuestionCard = ({ item, topic, level, onAnswered, onNext, nextLabel = 'Next' }: QuizQuestionCardProps) => {
+  const { question } = item;
+  const [choice, setChoice] = useState<string>();
+  const [text, setText] = useState('');
+  const answer = useAnswerQuestion();
+  const result = answer.data;
+
+  const canSubmit = question.kind === 'multiple_choice' ? choice !== undefined : text.trim().length > 0;
+
+  const handleSubmit = () =>
+    answer.mutate(
+      { item, response: question.kind === 'multiple_choice' ? Number(choice) : text.trim(), topic, level },
+      { onSuccess: ({ grade }) => onAnswered?.(grade) },
+    );
+
+  return (
+    <div className="space-y-4">
+      <p className="font-semibold leading-relaxed">{question.prompt}</p>
+
+      {question.kind === 'multiple_choice' ? (
+        <RadioGroup value={choice} onValueChange={setChoice} disabled={!!result || answer.isPending}>
+          {question.choices.map((label, index) => {
+            const value = String(index);
+            const isAnswer = !!result && index === question.answerIndex;
+            const isWrongPick = !!result && value === choice && !result.grade.correct;
+            return (
+              <Label
+                key={value}
+                htmlFor={`${item.id}-${value}`}
+                className={cn(
+                  'flex items-center gap-3 rounded-lg border border-border/60 p-3 font-normal cursor-pointer',
+                  isAnswer && 'border-green-500/60 bg-green-500/10',
+                  isWrongPick && 'border-destructive/60 bg-destructive/10',
+                )}
+              >
+                <RadioGroupItem id={`${item.id}-${value}`} value={value} />
+                {label}
+              </Label>
+            );
+          })}
+        </RadioGroup>
+      ) : (
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={!!result || answer.isPending}
+          placeholder="Answer in a sentence or two"
+          className="min-h-[100px]"
+        />
+      )}
+
+      {answer.isError && <GenerationErrorAlert error={answer.error} />}
+
+      {result && (
+        <div
+          className={cn(
+            'rounded-lg border p-3 space-y-2 text-sm',
+            result.grade.correct ? 'border-green-500/40 bg-green-500/5' : 'border-destructive/40 bg-destructive/5',
+          )}
+        >
+          <p className="flex items-center gap-2 font-semibold">
+            {result.grade.correct ? (
+              <CheckCircle2 className="w-4 h-4 text-green-500" />
+            ) : (
+              <XCircle className="w-4 h-4 text-destructive" />
+            )}
+            {result.grade.correct ? 'Correct' : 'Not quite'}
+            {question.kind === 'short_answer' && (
+              <span className="font-normal text-muted-foreground">· {Math.round(result.grade.score * 100)}%</span>
+            )}
+          </p>
+          <p className="text-foreground/80">{result.grade.feedback}</p>
+          {question.kind === 'short_answer' && (
+            <p className="text-muted-foreground">
+              <span className="font-medium">Model answer:</span> {question.answer}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">Next review {nextReviewLabel(result.next.intervalDays)}.</p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        {result ? (
+          <Button onClick={onNext}>{nextLabel}</Button>
+        ) : (
+          <Button onClick={handleSubmit} disabled={!canSubmit || answer.isPending}>
+            {answer.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {answer.isPending && question.kind === 'short_answer' ? 'Grading…' : 'Check answer'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { GenerationErrorAlert } from '@/components/GenerationErrorAlert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { useRegenerateBranch } from '@/hooks/use-learning-maps';
+import { diffDependencies, diffNodes, type NodeDiff, summarizeDiff } from '@/lib/mapDiff';
+import { cn } from '@/lib/utils';
+import { type LearningLevel, type LearningMapData, MAX_FEEDBACK_LENGTH, type MapNode } from '@shared/learningMap';
+import { findNode } from '@shared/mapTree';
+import { Check, Loader2, Minus, Pencil, Plus, RefreshCw, RotateCcw, X } from 'lucide-react';
+
+interface RegenerateBranchDialogProps {
+  map: LearningMapData;
+  level: LearningLevel;
+  branch: MapNode;
+  /** Takes the map with the rewritten branch in place of the old one. */
+  onAccept: (map: LearningMapData) => Promise<void> | void;
+}
+
+const STATUS_STYLES = {
+  added: { icon: Plus, row: 'bg-primary/5', text: 'text-primary' },
+  removed: { icon: Minus, row: 'bg-destructive/5', text: 'text-muted-foreground line-through' },
+  changed: { icon: Pencil, row: 'bg-accent/5', text: 'text-foreground' },
+  unchanged: { icon: Check, row: '', text: 'text-muted-foreground' },
+};
+
+const formatHours = (hours?: number) => (hours === undefined ? 'no estimate' : `${hours}h`);
+
+const DiffRow = ({ diff, depth }: { diff: NodeDiff; depth: number }) => {
+  const { node, before, status } = diff;
+  const style = STATUS_STYLES[status];
+  const Icon = style.icon;
+
+  return (
+    <li>
+      <div className={cn('flex gap-2 rounded-md px-2 py-1.5', style.row)} style={{ marginLeft: depth * 16 }}>
+        <Icon className={cn('mt-0.5 w-4 h-4 shrink-0', style.text, status === 'unchanged' && 'invisible')} />
+        <div className="min-w-0 space-y-0.5 text-sm">
+          <p className={cn('font-medium', style.text)}>
+            {before && before.name !== node.name && (
+              <span className="mr-2 text-muted-foreground line-through">{before.name}</span>
+            )}
+            {node.name}
+          </p>
+          {status !== 'unchanged' && (
+            <p className={cn('text-xs', status === 'removed' ? style.text : 'text-muted-foreground')}>
+              {before && before.description !== node.description && (
+                <span className="mr-1 line-through">{before.description}</span>
+              )}
+              {node.description}
+            </p>
+          )}
+          {before && before.estimatedHours !== node.estimatedHours && (
+            <p className="text-xs text-muted-foreground">
+              {formatHours(before.estimatedHours)} → {formatHours(node.estimatedHours)}
+            </p>
+          )}
+        </div>
+      </div>
+      {diff.children.length > 0 && (
+        <ul className="space-y-1 pt-1">
+          {diff.children.map((child) => (
+            <DiffRow key={`${child.status}:${child.node.id}`} diff={child} depth={depth + 1} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * "Regenerate branch": rewrites one branch with optional feedback, shows what
+ * would change and replaces the branch only when the learner accepts.
+ */
+export const RegenerateBranchDialog = ({ map, level, branch, onAccept }: RegenerateBranchDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [feedback, setFeedback] = useState('');
+  const [accepting, setAccepting] = useState(false);
+  const rewrite = useRegenerateBranch();
+
+  const proposed = rewrite.data;
+  const rewritten = proposed ? findNode(proposed, branch.id) : null;
+  const diff = rewritten ? diffNodes(branch, rewritten) : null;
+  const summary = diff ? summarizeDiff(diff) : null;
+  const links = proposed ? diffDependencies(map, proposed) : null;
+
+  const generate = () => rewrite.mutate({ map, level, nodeId: branch.id, feedback });
+
+  const handleOpenChange = (next: boolean) => {
+    if (accepting) return;
+    setOpen(next);
+    if (!next) rewrite.reset();
+  };
+
+  const accept = async () => {
+    if (!proposed) return;
+    setAccepting(true);
+    try {
+      await onAccept(proposed);
+      setOpen(false);
+      setFeedback('');
+      rewrite.reset();
+    } catch {
+      // The caller reports the error; the proposal stays up so it can be retried.
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8">
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Regenerate branch
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Regenerate: {branch.name}</DialogTitle>
+          <DialogDescription>
+            Rewrites this branch with the rest of the map as context. Nothing changes until you accept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!proposed && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              generate();
+            }}
+          >
+            <Textarea
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) generate();
+              }}
+              maxLength={MAX_FEEDBACK_LENGTH}
+              disabled={rewrite.isPending}
+              placeholder="What should be different? e.g. more hands-on, skip the history (optional)"
+              aria-label="Feedback for the rewrite"
+              className="min-h-[88px]"
+            />
+            {rewrite.isPending && (
+              <div className="space-y-2">
+                <Skeleton className="h-6 w-2/3" />
+                <Skeleton className="h-6 ml-4" />
+                <Skeleton className="h-6 ml-4" />
+              </div>
+            )}
+            {rewrite.isError && <GenerationErrorAlert error={rewrite.error} onRetry={generate} />}
+            <DialogFooter>
+              <Button type="submit" disabled={rewrite.isPending}>
+                {rewrite.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                )}
+                {rewrite.isPending ? 'Rewriting...' : 'Regenerate'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {diff && summary && links && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{summary.added} added</Badge>
+              <Badge variant="secondary">{summary.changed} changed</Badge>
+              <Badge variant="secondary">{summary.removed} removed</Badge>
+              {links.added.length + links.removed.length > 0 && (
+                <Badge variant="outline">
+                  {links.added.length} new {links.added.length === 1 ? 'link' : 'links'}, {links.removed.length} dropped
+                </Badge>
+              )}
+            </div>
+            <ul className="max-h-[50vh] space-y-1 overflow-y-auto rounded-lg border border-border/50 p-2">
+              <DiffRow diff={diff} depth={0} />
+            </ul>
+            <DialogFooter className="gap-2 sm:gap-2">
+              <Button variant="ghost" onClick={() => rewrite.reset()} disabled={accepting}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Try again
+              </Button>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={accepting}>
+                <X className="w-4 h-4 mr-2" />
+                Reject
+              </Button>
+              <Button onClick={accept} disabled={accepting}>
+                {accepting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+                Accept
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
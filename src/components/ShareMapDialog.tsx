@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useCreateShareToken, useRevokeShareToken } from '@/hooks/use-learning-maps';
+import { Copy, Link2, Loader2, Share2 } from 'lucide-react';
+
+interface ShareMapDialogProps {
+  mapId: string;
+  shareToken: string | null;
+}
+
+/** Creates, copies and revokes the public read-only link for a map. */
+export const ShareMapDialog = ({ mapId, shareToken }: ShareMapDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const location = useLocation();
+  const { toast } = useToast();
+  const createToken = useCreateShareToken();
+  const revokeToken = useRevokeShareToken();
+
+  // Carry the current viewport and focus so the link opens where the owner is looking.
+  const shareUrl = shareToken ? `${window.location.origin}/shared/${shareToken}${location.search}` : '';
+
+  const handleError = (title: string, error: unknown) => {
+    console.error(title, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreate = async () => {
+    try {
+      await createToken.mutateAsync(mapId);
+    } catch (error) {
+      handleError('Could not create share link', error);
+    }
+  };
+
+  const handleRevoke = async () => {
+    try {
+      await revokeToken.mutateAsync(mapId);
+      toast({ title: 'Share link revoked', description: 'The old link no longer opens this map.' });
+    } catch (error) {
+      handleError('Could not revoke share link', error);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(shareUrl);
+    toast({ title: 'Link copied', description: 'Anyone with the link can view this map.' });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="bg-gradient-primary hover:shadow-glow transition-all duration-300">
+          <Share2 className="w-4 h-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share a read-only view</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view this map without signing in. They can't edit it or see your other maps.
+          </DialogDescription>
+        </DialogHeader>
+
+        {shareToken ? (
+          <div className="flex gap-2">
+            <Input value={shareUrl} readOnly onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={handleCopy}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This map isn't shared yet.</p>
+        )}
+
+        <DialogFooter className="gap-2">
+          {shareToken ? (
+            <Button
+              variant="outline"
+              onClick={handleRevoke}
+              disabled={revokeToken.isPending}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              Stop sharing
+            </Button>
+          ) : (
+            <Button onClick={handleCreate} disabled={createToken.isPending}>
+              {createToken.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Link2 className="w-4 h-4 mr-2" />
+              )}
+              Create link
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
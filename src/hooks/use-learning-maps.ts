@@ -0,0 +1,289 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  type LearningLevel,
+  type LearningMapData,
+  parseLearningMap,
+  type Resource,
+  UNBOUNDED_LIMITS,
+} from '@shared/learningMap';
+import { findNode, setNodeEstimate, setNodeResources } from '@shared/mapTree';
+import { gradeChoice } from '@shared/quiz';
+import {
+  expandLearningMapNode,
+  generateNodeResources,
+  generateQuiz,
+  gradeShortAnswer,
+  regenerateBranch,
+} from '@/lib/learningMapApi';
+import { loadGenerationQuota } from '@/lib/generationLimits';
+import type { MapProgress, NodeStatus } from '@/lib/progress';
+import { loadNote, saveNote, searchNotes } from '@/lib/notesRepository';
+import { loadProgress, saveProgress, setNodeStatus } from '@/lib/progressRepository';
+import { loadDueReviews, recordAnswer, type ReviewItem, saveQuiz } from '@/lib/quizRepository';
+import {
+  createShareToken,
+  deleteLearningMap,
+  duplicateLearningMap,
+  listLearningMaps,
+  loadLearningMap,
+  loadSharedLearningMap,
+  renameLearningMap,
+  revokeShareToken,
+  saveLearningMap,
+  updateLearningMap,
+  updateNodeEstimate,
+  updateNodeResources,
+} from '@/lib/mapRepository';
+
+export const learningMapKeys = {
+  all: ['learning-maps'] as const,
+  list: (search: string) => [...learningMapKeys.all, 'list', search] as const,
+  detail: (id: string) => [...learningMapKeys.all, 'detail', id] as const,
+  shared: (token: string) => [...learningMapKeys.all, 'shared', token] as const,
+  progress: (id: string) => [...learningMapKeys.all, 'progress', id] as const,
+  note: (id: string, nodeId: string) => [...learningMapKeys.all, 'note', id, nodeId] as const,
+  noteSearch: (query: string) => [...learningMapKeys.all, 'note-search', query] as const,
+  reviews: () => [...learningMapKeys.all, 'reviews'] as const,
+  quota: () => [...learningMapKeys.all, 'quota'] as const,
+};
+
+export function useLearningMaps(search = '') {
+  return useQuery({
+    queryKey: learningMapKeys.list(search.trim()),
+    queryFn: () => listLearningMaps(search),
+  });
+}
+
+export function useLearningMap(id: string | undefined) {
+  return useQuery({
+    queryKey: learningMapKeys.detail(id ?? ''),
+    queryFn: () => loadLearningMap(id!),
+    enabled: !!id,
+  });
+}
+
+export function useSharedLearningMap(token: string | undefined) {
+  return useQuery({
+    queryKey: learningMapKeys.shared(token ?? ''),
+    queryFn: () => loadSharedLearningMap(token!),
+    enabled: !!token,
+  });
+}
+
+export function useMapProgress(mapId: string | null | undefined) {
+  return useQuery({
+    queryKey: learningMapKeys.progress(mapId ?? ''),
+    queryFn: () => loadProgress(mapId!),
+    enabled: !!mapId,
+  });
+}
+
+/** The signed-in user's remaining generations this month. Refreshed whenever map data changes. */
+export function useGenerationQuota() {
+  return useQuery({
+    queryKey: learningMapKeys.quota(),
+    queryFn: loadGenerationQuota,
+  });
+}
+
+/** Updates one node's status, showing it immediately and rolling back if saving fails. */
+export function useSetNodeStatus(mapId: string | null | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = learningMapKeys.progress(mapId ?? '');
+
+  return useMutation({
+    mutationFn: ({ nodeId, status }: { nodeId: string; status: NodeStatus }) =>
+      setNodeStatus(mapId!, nodeId, status),
+    onMutate: async ({ nodeId, status }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<MapProgress>(queryKey);
+      queryClient.setQueryData<MapProgress>(queryKey, (current = {}) => {
+        const { [nodeId]: _, ...rest } = current;
+        return status === 'not_started' ? rest : { ...rest, [nodeId]: status };
+      });
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
+
+export function useNodeNote(mapId: string | null | undefined, nodeId: string | undefined) {
+  return useQuery({
+    queryKey: learningMapKeys.note(mapId ?? '', nodeId ?? ''),
+    queryFn: () => loadNote(mapId!, nodeId!),
+    enabled: !!mapId && !!nodeId,
+  });
+}
+
+/** Saves a node's note and keeps the cached copy in step with what was written. */
+export function useSaveNodeNote(mapId: string | null | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ nodeId, body }: { nodeId: string; body: string }) => saveNote(mapId!, nodeId, body),
+    onSuccess: (_, { nodeId, body }) => {
+      queryClient.setQueryData(learningMapKeys.note(mapId ?? '', nodeId), body);
+      queryClient.invalidateQueries({ queryKey: [...learningMapKeys.all, 'note-search'] });
+    },
+  });
+}
+
+/** Notes matching `query` across all maps; idle until the query has two characters. */
+export function useNoteSearch(query: string) {
+  const term = query.trim();
+  return useQuery({
+    queryKey: learningMapKeys.noteSearch(term),
+    queryFn: () => searchNotes(term),
+    enabled: term.length >= 2,
+  });
+}
+
+/** Review items that are due now across all maps. */
+export function useDueReviews() {
+  return useQuery({
+    queryKey: learningMapKeys.reviews(),
+    queryFn: loadDueReviews,
+  });
+}
+
+/** Writes a quiz for a node of a saved map and stores its questions for review. */
+export function useGenerateQuiz() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ mapId, ...options }: { mapId: string; map: LearningMapData; level: LearningLevel; nodeId: string }) =>
+      saveQuiz(mapId, options.nodeId, await generateQuiz(options)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: learningMapKeys.reviews() }),
+  });
+}
+
+/**
+ * Grades an answer (a choice index, or free text graded by the model),
+ * records it and reschedules the item.
+ */
+export function useAnswerQuestion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      item,
+      response,
+      topic,
+      level,
+    }: {
+      item: ReviewItem;
+      response: number | string;
+      topic: string;
+      level: LearningLevel;
+    }) => {
+      const { question } = item;
+      const grade =
+        question.kind === 'multiple_choice'
+          ? gradeChoice(question, Number(response))
+          : await gradeShortAnswer({ topic, level, question, answer: String(response) });
+      const answer = question.kind === 'multiple_choice' ? question.choices[Number(response)] ?? '' : String(response);
+      const next = await recordAnswer(item, { ...grade, answer });
+      return { grade, next };
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: learningMapKeys.reviews() }),
+  });
+}
+
+function useInvalidatingMutation<TArgs, TResult>(mutationFn: (args: TArgs) => Promise<TResult>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: learningMapKeys.all }),
+  });
+}
+
+export function useSaveLearningMap() {
+  return useInvalidatingMutation(saveLearningMap);
+}
+
+/** Saves an imported map together with the progress its file carried. */
+export function useImportLearningMap() {
+  return useInvalidatingMutation(
+    async ({ progress, ...map }: Parameters<typeof saveLearningMap>[0] & { progress: MapProgress }) => {
+      const id = await saveLearningMap(map);
+      await saveProgress(id, progress);
+      return id;
+    },
+  );
+}
+
+/** Saves a tree the learner edited by hand; blank descriptions get a default. */
+export function useUpdateLearningMap() {
+  return useInvalidatingMutation(({ id, data }: { id: string; data: LearningMapData }) =>
+    updateLearningMap(id, parseLearningMap(data, { limits: UNBOUNDED_LIMITS })),
+  );
+}
+
+export function useRenameLearningMap() {
+  return useInvalidatingMutation(({ id, title }: { id: string; title: string }) =>
+    renameLearningMap(id, title),
+  );
+}
+
+export function useDuplicateLearningMap() {
+  return useInvalidatingMutation(duplicateLearningMap);
+}
+
+export function useDeleteLearningMap() {
+  return useInvalidatingMutation(deleteLearningMap);
+}
+
+export function useCreateShareToken() {
+  return useInvalidatingMutation(createShareToken);
+}
+
+export function useRevokeShareToken() {
+  return useInvalidatingMutation(revokeShareToken);
+}
+
+/** Generates children for a node; when `mapId` is set the expanded map is saved over the stored one. */
+export function useExpandLearningMapNode() {
+  return useInvalidatingMutation(
+    async ({ mapId, ...options }: { mapId?: string; map: LearningMapData; level: LearningLevel; nodeId: string }) => {
+      const expanded = await expandLearningMapNode(options);
+      if (mapId) await updateLearningMap(mapId, expanded);
+      return expanded;
+    },
+  );
+}
+
+/** Rewrites one branch for the learner to review; nothing is saved until they accept it. */
+export function useRegenerateBranch() {
+  return useMutation({ mutationFn: regenerateBranch });
+}
+
+/** Generates resources for a node; when `mapId` is set they're saved to the stored map. */
+export function useGenerateNodeResources() {
+  return useInvalidatingMutation(
+    async ({ mapId, ...options }: { mapId?: string; map: LearningMapData; level: LearningLevel; nodeId: string }) => {
+      const updated = await generateNodeResources(options);
+      if (mapId) await updateNodeResources(mapId, options.nodeId, findNode(updated, options.nodeId)?.resources ?? []);
+      return updated;
+    },
+  );
+}
+
+/** Replaces a node's resources after the learner adds, edits, removes or reorders them. */
+export function useUpdateNodeResources() {
+  return useInvalidatingMutation(
+    async ({ mapId, map, nodeId, resources }: { mapId?: string; map: LearningMapData; nodeId: string; resources: Resource[] }) => {
+      if (mapId) await updateNodeResources(mapId, nodeId, resources);
+      return setNodeResources(map, nodeId, resources);
+    },
+  );
+}
+
+/** Sets or clears a node's effort estimate after the learner edits it. */
+export function useUpdateNodeEstimate() {
+  return useInvalidatingMutation(
+    async ({ mapId, map, nodeId, hours }: { mapId?: string; map: LearningMapData; nodeId: string; hours: number | undefined }) => {
+      if (mapId) await updateNodeEstimate(mapId, nodeId, hours);
+      return setNodeEstimate(map, nodeId, hours);
+    },
+  );
+}
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSessionState } from '@/hooks/use-session-state';
+import {
+  EMPTY_HISTORY,
+  invertCommand,
+  type MapCommand,
+  type MapHistory,
+  recordEntry,
+  trimHistory,
+  truncateAfter,
+} from '@/lib/mapHistory';
+
+interface MapHistoryOptions {
+  /** Makes the map match `command.after`. Commands are applied one at a time. */
+  apply: (command: MapCommand) => Promise<void> | void;
+  onError: (error: unknown) => void;
+}
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Undo and redo for one map, kept for the rest of the browser session.
+ * Changes are recorded after they are made; undoing and redoing replay them
+ * through `apply`. Ctrl+Z (⌘Z) undoes and Ctrl+Shift+Z or Ctrl+Y redoes,
+ * except while typing, where the field's own undo applies.
+ */
+export function useMapHistory(mapId: string | undefined, { apply, onError }: MapHistoryOptions) {
+  // Each tree change holds two copies of the map, so a long history may only fit in storage in part.
+  const [history, setHistory] = useSessionState<MapHistory>(`learning-map-history:${mapId ?? ''}`, EMPTY_HISTORY, {
+    shrink: trimHistory,
+  });
+  const [busy, setBusy] = useState(false);
+
+  const latest = useRef({ history, busy, apply, onError });
+  latest.current = { history, busy, apply, onError };
+
+  const record = useCallback(
+    (label: string, command: MapCommand) => setHistory((current) => recordEntry(current, label, command)),
+    [setHistory],
+  );
+
+  const discardAfter = useCallback(
+    (entryId: string | null) => setHistory((current) => truncateAfter(current, entryId)),
+    [setHistory],
+  );
+
+  /** Undoes or redoes entries until `target` of them are applied. */
+  const jumpTo = useCallback(
+    async (target: number) => {
+      const { history: { entries, cursor }, busy: running } = latest.current;
+      if (running || target === cursor || target < 0 || target > entries.length) return;
+
+      setBusy(true);
+      latest.current.busy = true;
+      let position = cursor;
+      try {
+        while (position !== target) {
+          const undoing = position > target;
+          const entry = entries[undoing ? position - 1 : position];
+          await latest.current.apply(undoing ? invertCommand(entry.command) : entry.command);
+          position += undoing ? -1 : 1;
+          const applied = position;
+          setHistory((current) => ({ ...current, cursor: applied }));
+        }
+      } catch (error) {
+        latest.current.onError(error);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [setHistory],
+  );
+
+  const undo = useCallback(() => jumpTo(latest.current.history.cursor - 1), [jumpTo]);
+  const redo = useCallback(() => jumpTo(latest.current.history.cursor + 1), [jumpTo]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) redo();
+        else undo();
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  return {
+    history,
+    busy,
+    canUndo: !busy && history.cursor > 0,
+    canRedo: !busy && history.cursor < history.entries.length,
+    record,
+    discardAfter,
+    undo,
+    redo,
+    jumpTo,
+  };
+}
@@ -0,0 +1,57 @@
+import { useCallback, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { Viewport } from '@xyflow/react';
+
+const parseViewport = (params: URLSearchParams): Viewport | undefined => {
+  const x = Number(params.get('x'));
+  const y = Number(params.get('y'));
+  const zoom = Number(params.get('zoom'));
+  if (!params.has('x') || !params.has('y') || !params.has('zoom')) return undefined;
+  if (![x, y, zoom].every(Number.isFinite) || zoom <= 0) return undefined;
+  return { x, y, zoom };
+};
+
+/**
+ * Keeps the flow viewport and focused node in the query string
+ * (`?x=&y=&zoom=&focus=`) so a copied link reopens the same view.
+ * URL updates replace the current history entry rather than adding one.
+ */
+export function useMapUrlState() {
+  const [params, setParams] = useSearchParams();
+  // The flow only reads its viewport on mount, so later URL changes are write-only.
+  const [initialViewport] = useState(() => parseViewport(params));
+  const focusedNodeId = params.get('focus') ?? undefined;
+
+  const setViewport = useCallback(
+    (viewport: Viewport) => {
+      setParams(
+        (current) => {
+          const next = new URLSearchParams(current);
+          next.set('x', String(Math.round(viewport.x)));
+          next.set('y', String(Math.round(viewport.y)));
+          next.set('zoom', viewport.zoom.toFixed(2));
+          return next;
+        },
+        { replace: true },
+      );
+    },
+    [setParams],
+  );
+
+  const setFocusedNodeId = useCallback(
+    (nodeId: string | undefined) => {
+      setParams(
+        (current) => {
+          const next = new URLSearchParams(current);
+          if (nodeId) next.set('focus', nodeId);
+          else next.delete('focus');
+          return next;
+        },
+        { replace: true },
+      );
+    },
+    [setParams],
+  );
+
+  return { initialViewport, focusedNodeId, setViewport, setFocusedNodeId };
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const read = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = sessionStorage.getItem(key);
+    return stored === null ? fallback : (JSON.parse(stored) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+interface SessionStateOptions<T> {
+  /**
+   * A smaller version of a value that doesn't fit in storage, or null when
+   * there is none. Should be a stable function.
+   */
+  shrink?: (value: T) => T | null;
+}
+
+/** Stores `value` under `key`, shrinking it until it fits, or removes the key when it never does. */
+const write = <T>(key: string, value: T, shrink?: (value: T) => T | null) => {
+  for (let next: T | null = value; next !== null; next = shrink?.(next) ?? null) {
+    try {
+      sessionStorage.setItem(key, JSON.stringify(next));
+      return;
+    } catch {
+      // Over quota: try a smaller value.
+    }
+  }
+  // Better nothing after a reload than what was stored before this change.
+  try {
+    sessionStorage.removeItem(key);
+  } catch {
+    // Storage disabled: the value still lives for this page.
+  }
+};
+
+/**
+ * Like `useState`, but kept in sessionStorage under `key` so it survives
+ * reloading the tab. Switching to another key picks up what is stored there.
+ * `fallback` should be a constant, as it is compared by identity.
+ */
+export function useSessionState<T>(key: string, fallback: T, { shrink }: SessionStateOptions<T> = {}) {
+  const [state, setState] = useState(() => ({ key, value: read(key, fallback) }));
+  const value = state.key === key ? state.value : read(key, fallback);
+
+  useEffect(() => {
+    if (state.value !== fallback) {
+      write(state.key, state.value, shrink);
+      return;
+    }
+    try {
+      sessionStorage.removeItem(state.key);
+    } catch {
+      // Storage disabled: the value still lives for this page.
+    }
+  }, [state, fallback, shrink]);
+
+  const setValue = useCallback(
+    (next: T | ((current: T) => T)) =>
+      setState((current) => {
+        const base = current.key === key ? current.value : read(key, fallback);
+        return { key, value: typeof next === 'function' ? (next as (current: T) => T)(base) : next };
+      }),
+    [key, fallback],
+  );
+
+  return [value, setValue] as const;
+}
@@ -14,13 +14,575 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      branches: {
+        Row: {
+          created_at: string
+          description: string
+          estimated_hours: number | null
+          id: string
+          map_id: string
+          name: string
+          node_id: string
+          position: number
+          resources: Json
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          estimated_hours?: number | null
+          id?: string
+          map_id: string
+          name: string
+          node_id: string
+          position: number
+          resources?: Json
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          estimated_hours?: number | null
+          id?: string
+          map_id?: string
+          name?: string
+          node_id?: string
+          position?: number
+          resources?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "branches_map_id_fkey"
+            columns: ["map_id"]
+            isOneToOne: false
+            referencedRelation: "learning_maps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generation_cache: {
+        Row: {
+          created_at: string
+          expires_at: string
+          key: string
+          level: string
+          map: Json
+          model: string
+          topic: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          key: string
+          level: string
+          map: Json
+          model: string
+          topic: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          key?: string
+          level?: string
+          map?: Json
+          model?: string
+          topic?: string
+        }
+        Relationships: []
+      }
+      generation_plans: {
+        Row: {
+          burst: number
+          id: string
+          monthly_quota: number
+          name: string
+          refill_per_minute: number
+        }
+        Insert: {
+          burst: number
+          id: string
+          monthly_quota: number
+          name: string
+          refill_per_minute: number
+        }
+        Update: {
+          burst?: number
+          id?: string
+          monthly_quota?: number
+          name?: string
+          refill_per_minute?: number
+        }
+        Relationships: []
+      }
+      generation_usage: {
+        Row: {
+          created_at: string
+          id: string
+          level: string
+          mode: string
+          model: string
+          provider: string
+          streamed: boolean
+          succeeded: boolean | null
+          topic: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          level: string
+          mode?: string
+          model: string
+          provider: string
+          streamed?: boolean
+          succeeded?: boolean | null
+          topic: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          level?: string
+          mode?: string
+          model?: string
+          provider?: string
+          streamed?: boolean
+          succeeded?: boolean | null
+          topic?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      learning_maps: {
+        Row: {
+          created_at: string
+          dependencies: Json
+          id: string
+          level: string
+          share_token: string | null
+          title: string
+          topic: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          dependencies?: Json
+          id?: string
+          level?: string
+          share_token?: string | null
+          title: string
+          topic: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          dependencies?: Json
+          id?: string
+          level?: string
+          share_token?: string | null
+          title?: string
+          topic?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      node_notes: {
+        Row: {
+          body: string
+          id: string
+          map_id: string
+          node_id: string
+          search: unknown
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          id?: string
+          map_id: string
+          node_id: string
+          search?: never
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          body?: string
+          id?: string
+          map_id?: string
+          node_id?: string
+          search?: never
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "node_notes_map_id_fkey"
+            columns: ["map_id"]
+            isOneToOne: false
+            referencedRelation: "learning_maps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      node_progress: {
+        Row: {
+          id: string
+          map_id: string
+          node_id: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          map_id: string
+          node_id: string
+          status: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          id?: string
+          map_id?: string
+          node_id?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "node_progress_map_id_fkey"
+            columns: ["map_id"]
+            isOneToOne: false
+            referencedRelation: "learning_maps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_attempts: {
+        Row: {
+          answer: string
+          correct: boolean
+          created_at: string
+          feedback: string | null
+          id: string
+          quality: number
+          review_item_id: string
+          score: number
+          user_id: string
+        }
+        Insert: {
+          answer: string
+          correct: boolean
+          created_at?: string
+          feedback?: string | null
+          id?: string
+          quality: number
+          review_item_id: string
+          score: number
+          user_id?: string
+        }
+        Update: {
+          answer?: string
+          correct?: boolean
+          created_at?: string
+          feedback?: string | null
+          id?: string
+          quality?: number
+          review_item_id?: string
+          score?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_review_item_id_fkey"
+            columns: ["review_item_id"]
+            isOneToOne: false
+            referencedRelation: "review_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_limit_buckets: {
+        Row: {
+          key: string
+          tokens: number
+          updated_at: string
+        }
+        Insert: {
+          key: string
+          tokens: number
+          updated_at?: string
+        }
+        Update: {
+          key?: string
+          tokens?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      review_items: {
+        Row: {
+          created_at: string
+          due_at: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          last_reviewed_at: string | null
+          map_id: string
+          node_id: string
+          question: Json
+          question_id: string
+          repetitions: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          map_id: string
+          node_id: string
+          question: Json
+          question_id: string
+          repetitions?: number
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          map_id?: string
+          node_id?: string
+          question?: Json
+          question_id?: string
+          repetitions?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_items_map_id_fkey"
+            columns: ["map_id"]
+            isOneToOne: false
+            referencedRelation: "learning_maps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subtopics: {
+        Row: {
+          branch_id: string
+          created_at: string
+          description: string
+          estimated_hours: number | null
+          id: string
+          map_id: string
+          name: string
+          node_id: string
+          parent_id: string | null
+          position: number
+          resources: Json
+        }
+        Insert: {
+          branch_id: string
+          created_at?: string
+          description?: string
+          estimated_hours?: number | null
+          id?: string
+          map_id: string
+          name: string
+          node_id: string
+          parent_id?: string | null
+          position: number
+          resources?: Json
+        }
+        Update: {
+          branch_id?: string
+          created_at?: string
+          description?: string
+          estimated_hours?: number | null
+          id?: string
+          map_id?: string
+          name?: string
+          node_id?: string
+          parent_id?: string | null
+          position?: number
+          resources?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subtopics_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subtopics_map_id_fkey"
+            columns: ["map_id"]
+            isOneToOne: false
+            referencedRelation: "learning_maps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subtopics_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "subtopics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_plans: {
+        Row: {
+          plan_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          plan_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          plan_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_plans_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "generation_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      due_review_items: {
+        Args: { _limit?: number }
+        Returns: {
+          due_at: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          map_id: string
+          map_level: string
+          map_title: string
+          map_topic: string
+          node_id: string
+          node_name: string
+          question: Json
+          repetitions: number
+        }[]
+      }
+      generation_quota: {
+        Args: { _user_id: string }
+        Returns: {
+          burst: number
+          monthly_quota: number
+          plan_id: string
+          plan_name: string
+          refill_per_minute: number
+          resets_at: string
+          used: number
+        }[]
+      }
+      get_shared_learning_map: {
+        Args: { _token: string }
+        Returns: Json
+      }
+      insert_map_tree: {
+        Args: { _data: Json; _map_id: string }
+        Returns: undefined
+      }
+      insert_subtopic_tree: {
+        Args: {
+          _branch_id: string
+          _map_id: string
+          _nodes: Json
+          _parent_id: string
+        }
+        Returns: undefined
+      }
+      my_generation_quota: {
+        Args: never
+        Returns: {
+          burst: number
+          monthly_quota: number
+          plan_id: string
+          plan_name: string
+          refill_per_minute: number
+          resets_at: string
+          used: number
+        }[]
+      }
+      owns_learning_map: {
+        Args: { _map_id: string }
+        Returns: boolean
+      }
+      replace_learning_map_tree: {
+        Args: { _data: Json; _map_id: string }
+        Returns: undefined
+      }
+      reserve_generation: {
+        Args: {
+          _level: string
+          _mode: string
+          _model: string
+          _provider: string
+          _streamed: boolean
+          _topic: string
+          _user_id: string
+        }
+        Returns: {
+          burst: number
+          monthly_quota: number
+          plan_name: string
+          refill_per_minute: number
+          resets_at: string
+          usage_id: string
+          used: number
+        }[]
+      }
+      save_learning_map: {
+        Args: { _data: Json; _level: string; _title: string }
+        Returns: string
+      }
+      search_node_notes: {
+        Args: { _query: string }
+        Returns: {
+          body: string
+          map_id: string
+          map_title: string
+          node_id: string
+          node_name: string
+          updated_at: string
+        }[]
+      }
+      subtopic_tree: {
+        Args: { _branch_id: string; _parent_id: string }
+        Returns: Json
+      }
+      take_rate_limit_token: {
+        Args: { _capacity: number; _key: string; _refill_per_second: number }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          reset_seconds: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,12 @@
+/** Saves `contents` as a file through the browser's download prompt. */
+export const downloadFile = (name: string, contents: BlobPart, type: string) => {
+  const url = URL.createObjectURL(contents instanceof Blob ? contents : new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** A file name stem from a title, e.g. "Machine Learning 101" → "machine-learning-101". */
+export const fileSlug = (title: string) => title.replace(/[^\w-]+/g, '-').toLowerCase();
@@ -0,0 +1,52 @@
+import {
+  codeForStatus,
+  errorBody,
+  GenerationError,
+  type GenerationErrorCode,
+  isGenerationErrorBody,
+} from '@shared/errors';
+
+/**
+ * The error to throw for a failed generator request. `body` is the parsed
+ * response body, if any; `status` is 0 when no response arrived at all.
+ */
+export const generatorError = (body: unknown, status: number) => {
+  if (isGenerationErrorBody(body)) return new GenerationError(body);
+  return new GenerationError(errorBody(status === 0 ? 'NETWORK_ERROR' : codeForStatus(status)));
+};
+
+/** Any error as a `GenerationError`, so UI can treat them the same way. */
+export const toGenerationError = (error: unknown) =>
+  error instanceof GenerationError
+    ? error
+    : new GenerationError(errorBody('INTERNAL', error instanceof Error && error.message ? { error: error.message } : {}));
+
+const TITLES: Record<GenerationErrorCode, string> = {
+  TOPIC_REQUIRED: 'Topic required',
+  INVALID_REQUEST: 'Request not accepted',
+  UNAUTHENTICATED: 'Sign in required',
+  RATE_LIMITED: 'Slow down a little',
+  QUOTA_EXCEEDED: 'Monthly limit reached',
+  CREDITS_EXHAUSTED: 'AI service unavailable',
+  UPSTREAM_TIMEOUT: 'Generation timed out',
+  UPSTREAM_ERROR: 'AI service error',
+  PARSE_FAILED: 'Unreadable answer',
+  VALIDATION_FAILED: 'Incomplete answer',
+  UNSAFE_TOPIC: 'Topic not supported',
+  NOT_CONFIGURED: 'AI service not set up',
+  NETWORK_ERROR: 'Connection problem',
+  INTERNAL: 'Something went wrong',
+};
+
+export const generationErrorTitle = (code: GenerationErrorCode) => TITLES[code];
+
+const sentence = (text: string) => (/[.!?]$/.test(text) ? text : `${text}.`);
+
+/** Toast title and text for generator errors, or nothing for other errors. */
+export const describeGenerationError = (error: unknown) => {
+  if (!(error instanceof GenerationError)) return undefined;
+  return {
+    title: TITLES[error.code],
+    description: `${sentence(error.message)} ${error.remediation}`,
+  };
+};
@@ -0,0 +1,24 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/** The signed-in user's plan and what's left of this month's generations. */
+export interface GenerationQuota {
+  planName: string;
+  monthlyQuota: number;
+  used: number;
+  remaining: number;
+  /** ISO timestamp of the start of next month (UTC). */
+  resetsAt: string;
+}
+
+export const loadGenerationQuota = async (): Promise<GenerationQuota | null> => {
+  const { data, error } = await supabase.rpc('my_generation_quota').maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    planName: data.plan_name,
+    monthlyQuota: data.monthly_quota,
+    used: data.used,
+    remaining: Math.max(0, data.monthly_quota - data.used),
+    resetsAt: data.resets_at,
+  };
+};
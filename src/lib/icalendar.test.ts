@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { studyPlanToICalendar } from './icalendar';
+import type { StudyPlan } from './studyPlan';
+
+const PLAN: StudyPlan = {
+  weeks: [
+    {
+      number: 1,
+      start: new Date(2026, 0, 5),
+      end: new Date(2026, 0, 11),
+      hours: 5,
+      sessions: [
+        { nodeId: 'a', name: 'Ownership, borrowing; lifetimes', hours: 3, continued: false },
+        { nodeId: 'b', name: 'Traits', hours: 2, continued: true },
+      ],
+    },
+  ],
+  totalHours: 5,
+  unplannedHours: 0,
+  unestimated: [],
+};
+
+const NOW = new Date('2026-01-01T09:30:00.000Z');
+
+const calendar = (plan: StudyPlan = PLAN, title = 'Rust') =>
+  studyPlanToICalendar(plan, { title, uidPrefix: 'map-1', now: NOW });
+
+/** Joins folded lines back together. */
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+describe('studyPlanToICalendar', () => {
+  it('writes one all-day event per week', () => {
+    const lines = unfold(calendar()).split('\r\n');
+    expect(lines).toContain('UID:map-1-week-1@ai-learning-pathways');
+    expect(lines).toContain('DTSTAMP:20260101T093000Z');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260105');
+    expect(lines).toContain('DTEND;VALUE=DATE:20260112');
+    expect(lines).toContain('SUMMARY:Rust: week 1 (5h)');
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1);
+  });
+
+  it('escapes text values', () => {
+    expect(unfold(calendar())).toContain(
+      'DESCRIPTION:- Ownership\\, borrowing\\; lifetimes: 3h\\n- Traits (continued): 2h',
+    );
+  });
+
+  it('ends every line with CRLF', () => {
+    const ics = calendar();
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const title = 'Études de géométrie différentielle — ∂ and ∇ '.repeat(4);
+    const ics = calendar(PLAN, title);
+    const encoder = new TextEncoder();
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:${title}: week 1 (5h)`);
+  });
+});
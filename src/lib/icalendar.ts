@@ -0,0 +1,66 @@
+// iCalendar (RFC 5545) export for study plans: one all-day event per week,
+// listing the nodes to work through that week.
+
+import { addDays, format } from 'date-fns';
+import { formatHours, type StudyPlan } from '@/lib/studyPlan';
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space.
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const dateValue = (date: Date) => format(date, 'yyyyMMdd');
+
+interface ICalendarOptions {
+  /** Shown in each event's title, usually the map title. */
+  title: string;
+  /** Stable prefix for event UIDs, so re-importing updates events instead of duplicating them. */
+  uidPrefix: string;
+  now?: Date;
+}
+
+export const studyPlanToICalendar = (plan: StudyPlan, { title, uidPrefix, now = new Date() }: ICalendarOptions) => {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AI Learning Pathways//Study plan//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(`Study plan: ${title}`)}`,
+  ];
+
+  for (const week of plan.weeks) {
+    const description = week.sessions
+      .map((session) => `- ${session.name}${session.continued ? ' (continued)' : ''}: ${formatHours(session.hours)}`)
+      .join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uidPrefix}-week-${week.number}@ai-learning-pathways`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${dateValue(week.start)}`,
+      `DTEND;VALUE=DATE:${dateValue(addDays(week.end, 1))}`,
+      `SUMMARY:${escapeText(`${title}: week ${week.number} (${formatHours(week.hours)})`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
@@ -0,0 +1,123 @@
+import { supabase } from '@/integrations/supabase/client';
+import { generatorError } from '@/lib/generationErrors';
+import {
+  type LearningLevel,
+  type LearningMapData,
+  validateBranchRewrite,
+  validateExpansion,
+  validateResourceList,
+} from '@shared/learningMap';
+import { appendChildren, collectNodeIds, findNode, setNodeResources, walkNodes } from '@shared/mapTree';
+import {
+  type AnswerGrade,
+  type QuizQuestion,
+  type ShortAnswerQuestion,
+  validateGrade,
+  validateQuiz,
+} from '@shared/quiz';
+
+interface NodeRequestOptions {
+  map: LearningMapData;
+  level: LearningLevel;
+  nodeId: string;
+}
+
+/** Calls `generate-learning-map` and returns the raw response body. */
+const invokeGenerator = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('generate-learning-map', { body });
+
+  if (error) {
+    // Without a response (e.g. offline) `context` is the fetch error.
+    if (!(error.context instanceof Response)) throw generatorError(null, 0);
+    throw generatorError(await error.context.json().catch(() => null), error.context.status);
+  }
+  return data;
+};
+
+/** Calls `generate-learning-map` in one of its node modes. */
+const invokeNodeMode = (mode: 'expand' | 'resources' | 'quiz', { map, level, nodeId }: NodeRequestOptions) =>
+  invokeGenerator({ mode, level, map, nodeId });
+
+/** Asks `generate-learning-map` for children of one node and returns the map with them appended. */
+export const expandLearningMapNode = async (options: NodeRequestOptions): Promise<LearningMapData> => {
+  const data = await invokeNodeMode('expand', options);
+
+  const result = validateExpansion(data, collectNodeIds(options.map), { repair: false });
+  if (result.ok === false) {
+    throw new Error('Invalid subtopics received for the expanded node');
+  }
+  return appendChildren(options.map, options.nodeId, result.subtopics);
+};
+
+interface RegenerateOptions extends NodeRequestOptions {
+  /** What the learner wants done differently, e.g. "more hands-on". */
+  feedback?: string;
+}
+
+/**
+ * Has `generate-learning-map` rewrite one branch, using the rest of the map as
+ * context, and returns the map with the new branch in its place. Subtopics the
+ * rewrite kept hold on to the resources they had.
+ */
+export const regenerateBranch = async ({ feedback, ...options }: RegenerateOptions): Promise<LearningMapData> => {
+  const data = await invokeGenerator({ mode: 'regenerate', ...options, feedback: feedback?.trim() || undefined });
+
+  const result = validateBranchRewrite(data, options.map, options.nodeId, { repair: false });
+  if (result.ok === false) {
+    throw new Error('Invalid branch received from the rewrite');
+  }
+
+  let map = result.map;
+  walkNodes({ topic: map.topic, branches: [result.branch] }, ({ node }) => {
+    const resources = findNode(options.map, node.id)?.resources;
+    if (!node.resources && resources?.length) map = setNodeResources(map, node.id, resources);
+  });
+  return map;
+};
+
+/**
+ * Asks `generate-learning-map` for study resources for one node and returns
+ * the map with the new ones added after the node's existing resources.
+ */
+export const generateNodeResources = async (options: NodeRequestOptions): Promise<LearningMapData> => {
+  const data = await invokeNodeMode('resources', options);
+
+  const result = validateResourceList(data, { repair: false });
+  if (result.ok === false) {
+    throw new Error('Invalid resources received for this node');
+  }
+
+  const existing = findNode(options.map, options.nodeId)?.resources ?? [];
+  const known = new Set(existing.map((resource) => resource.url));
+  const added = result.resources.filter((resource) => !known.has(resource.url));
+  return setNodeResources(options.map, options.nodeId, [...existing, ...added]);
+};
+
+/** Asks `generate-learning-map` for review questions about one node. */
+export const generateQuiz = async (options: NodeRequestOptions): Promise<QuizQuestion[]> => {
+  const data = await invokeNodeMode('quiz', options);
+
+  const result = validateQuiz(data, { repair: false });
+  if (result.ok === false) {
+    throw new Error('Invalid quiz received for this node');
+  }
+  return result.questions;
+};
+
+interface GradeOptions {
+  topic: string;
+  level: LearningLevel;
+  question: ShortAnswerQuestion;
+  answer: string;
+}
+
+/** Has the model grade a free-text answer against the question's model answer. */
+export const gradeShortAnswer = async ({ topic, level, question, answer }: GradeOptions): Promise<AnswerGrade> => {
+  const data = await invokeGenerator({ mode: 'grade', topic, level, question, answer });
+
+  const result = validateGrade(data, { repair: false });
+  if (result.ok === false) {
+    throw new Error('Invalid grade received for this answer');
+  }
+  return result.grade;
+};
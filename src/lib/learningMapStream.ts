@@ -0,0 +1,94 @@
+import { supabase } from '@/integrations/supabase/client';
+import { generatorError } from '@/lib/generationErrors';
+import type { LearningLevel, LearningMapData } from '@shared/learningMap';
+import { GenerationError } from '@shared/errors';
+import { createStreamEventDecoder, type LearningMapStreamEvent } from '@shared/learningMapStream';
+
+const FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-learning-map`;
+
+interface StreamOptions {
+  topic: string;
+  level: LearningLevel;
+  signal?: AbortSignal;
+  onEvent: (event: LearningMapStreamEvent) => void;
+}
+
+/**
+ * Calls `generate-learning-map` in streaming mode and reports each event as it
+ * arrives. `supabase.functions.invoke` buffers the whole body, so this talks to
+ * the function endpoint directly. Abort the signal to cancel mid-stream.
+ * Failures, including error events, are thrown as a `GenerationError`.
+ */
+export const streamLearningMap = async ({ topic, level, signal, onEvent }: StreamOptions) => {
+  const publishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  const { data: { session } } = await supabase.auth.getSession();
+
+  let response: Response;
+  try {
+    response = await fetch(FUNCTION_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: publishableKey,
+        Authorization: `Bearer ${session?.access_token ?? publishableKey}`,
+      },
+      body: JSON.stringify({ topic, level, stream: true }),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw generatorError(null, 0);
+  }
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw generatorError(body, response.status);
+  }
+
+  const decode = createStreamEventDecoder();
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    for (const event of decode(value)) {
+      if (event.type === 'error') {
+        const { type: _type, ...body } = event;
+        throw new GenerationError(body);
+      }
+      onEvent(event);
+    }
+  }
+};
+
+/** Folds a stream event into the partially received map. */
+export const applyStreamEvent = (
+  map: LearningMapData | null,
+  event: LearningMapStreamEvent,
+): LearningMapData | null => {
+  switch (event.type) {
+    case 'topic':
+      return { topic: event.topic, branches: map?.branches ?? [] };
+    case 'branch':
+      return {
+        topic: map?.topic ?? '',
+        branches: [...(map?.branches ?? []), { ...event.branch, subtopics: [] }],
+      };
+    case 'subtopic':
+      if (!map) return map;
+      return {
+        ...map,
+        branches: map.branches.map((branch) =>
+          branch.id === event.branchId
+            ? { ...branch, subtopics: [...branch.subtopics, event.subtopic] }
+            : branch,
+        ),
+      };
+    case 'rejected':
+      // Nothing to show; if the model is re-prompted, `done` brings the whole map.
+      return map;
+    case 'done':
+      return event.map;
+    default:
+      return map;
+  }
+};
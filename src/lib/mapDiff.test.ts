@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { Dependency, LearningMapData, MapNode } from '@shared/learningMap';
+import { diffDependencies, diffNodes, type NodeDiff, summarizeDiff } from './mapDiff';
+
+const node = (id: string, subtopics?: MapNode[], extra: Partial<MapNode> = {}): MapNode => ({
+  id,
+  name: id,
+  description: `About ${id}`,
+  ...(subtopics && { subtopics }),
+  ...extra,
+});
+
+/** Each node's id and status, depth first. */
+const statuses = (diff: NodeDiff): string[] => [
+  `${diff.node.id}:${diff.status}`,
+  ...diff.children.flatMap(statuses),
+];
+
+describe('diffNodes', () => {
+  it('marks nothing when the node is the same', () => {
+    const before = node('soil', [node('ph'), node('clay')]);
+    expect(statuses(diffNodes(before, structuredClone(before)))).toEqual([
+      'soil:unchanged',
+      'ph:unchanged',
+      'clay:unchanged',
+    ]);
+  });
+
+  it('lists added children in order and removed ones after them', () => {
+    const diff = diffNodes(node('soil', [node('ph'), node('clay')]), node('soil', [node('compost'), node('ph')]));
+    expect(statuses(diff)).toEqual(['soil:unchanged', 'compost:added', 'ph:unchanged', 'clay:removed']);
+  });
+
+  it('marks a changed node and keeps what it was', () => {
+    const before = node('ph', undefined, { estimatedHours: 2 });
+    const diff = diffNodes(node('soil', [before]), node('soil', [node('ph', undefined, { estimatedHours: 3 })]));
+    expect(diff.children[0]).toMatchObject({ status: 'changed', before });
+    expect(diff.children[0].node.estimatedHours).toBe(3);
+  });
+
+  it('pairs a child that kept its name under a new id', () => {
+    const diff = diffNodes(node('soil', [node('ph')]), node('soil', [node('soil-ph', undefined, { name: ' PH ' })]));
+    expect(statuses(diff)).toEqual(['soil:unchanged', 'soil-ph:changed']);
+    expect(diff.children[0].before?.id).toBe('ph');
+  });
+
+  it('prefers a match by id to one by name', () => {
+    const diff = diffNodes(
+      node('soil', [node('a', undefined, { name: 'Clay' }), node('b', undefined, { name: 'Sand' })]),
+      node('soil', [node('x', undefined, { name: 'Sand' }), node('b', undefined, { name: 'Loam' })]),
+    );
+    expect(diff.children.map((child) => [child.node.id, child.status, child.before?.id])).toEqual([
+      ['x', 'added', undefined],
+      ['b', 'changed', 'b'],
+      ['a', 'removed', undefined],
+    ]);
+  });
+
+  it('marks everything below an added or removed node', () => {
+    const diff = diffNodes(node('soil', [node('ph', [node('lime')])]), node('soil', [node('clay', [node('loam')])]));
+    expect(statuses(diff)).toEqual(['soil:unchanged', 'clay:added', 'loam:added', 'ph:removed', 'lime:removed']);
+  });
+});
+
+describe('summarizeDiff', () => {
+  it('counts the nodes that changed at every depth', () => {
+    const diff = diffNodes(
+      node('soil', [node('ph', [node('lime')]), node('clay')]),
+      node(
+        'soil',
+        [node('ph', [node('lime', undefined, { description: 'Raises the pH' })]), node('loam', [node('silt')])],
+        { name: 'Soils' },
+      ),
+    );
+    expect(summarizeDiff(diff)).toEqual({ added: 2, removed: 1, changed: 2 });
+  });
+
+  it('counts nothing for an unchanged node', () => {
+    expect(summarizeDiff(diffNodes(node('soil'), node('soil')))).toEqual({ added: 0, removed: 0, changed: 0 });
+  });
+});
+
+describe('diffDependencies', () => {
+  const mapWith = (dependencies?: Dependency[]): LearningMapData => ({
+    topic: 'Gardening',
+    branches: [],
+    ...(dependencies && { dependencies }),
+  });
+
+  it('lists the links only one of the maps has', () => {
+    const kept: Dependency = { from: 'soil', to: 'plants', kind: 'prerequisite' };
+    const gone: Dependency = { from: 'water', to: 'plants', kind: 'related' };
+    const added: Dependency = { from: 'soil', to: 'water', kind: 'related' };
+    expect(diffDependencies(mapWith([kept, gone]), mapWith([added, kept]))).toEqual({
+      added: [added],
+      removed: [gone],
+    });
+  });
+
+  it('treats a link whose kind changed as removed and added', () => {
+    const before: Dependency = { from: 'soil', to: 'plants', kind: 'prerequisite' };
+    const after: Dependency = { ...before, kind: 'related' };
+    expect(diffDependencies(mapWith([before]), mapWith([after]))).toEqual({ added: [after], removed: [before] });
+  });
+
+  it('handles maps without links', () => {
+    const link: Dependency = { from: 'soil', to: 'plants', kind: 'prerequisite' };
+    expect(diffDependencies(mapWith(), mapWith([link]))).toEqual({ added: [link], removed: [] });
+    expect(diffDependencies(mapWith(), mapWith())).toEqual({ added: [], removed: [] });
+  });
+});
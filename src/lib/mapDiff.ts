@@ -0,0 +1,76 @@
+// Before/after comparison of a node's subtree, for reviewing a rewrite before
+// it replaces what the learner has.
+
+import type { Dependency, LearningMapData, MapNode } from '@shared/learningMap';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface NodeDiff {
+  status: DiffStatus;
+  /** The node as it is after the change, or as it was when removed. */
+  node: MapNode;
+  /** The node before the change, for changed nodes. */
+  before?: MapNode;
+  children: NodeDiff[];
+}
+
+export type DiffSummary = Record<Exclude<DiffStatus, 'unchanged'>, number>;
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+const sameFields = (a: MapNode, b: MapNode) =>
+  a.name === b.name && a.description === b.description && a.estimatedHours === b.estimatedHours;
+
+const whole = (status: 'added' | 'removed') => (node: MapNode): NodeDiff => ({
+  status,
+  node,
+  children: (node.subtopics ?? []).map(whole(status)),
+});
+
+/**
+ * Compares two versions of a node. Children are paired by id first, then by
+ * name, so a subtopic that was rewritten under a new id but kept its name
+ * shows up as changed rather than removed and added again.
+ */
+export const diffNodes = (before: MapNode, after: MapNode): NodeDiff => {
+  const unmatched = [...(before.subtopics ?? [])];
+  const take = (matches: (node: MapNode) => boolean) => {
+    const index = unmatched.findIndex(matches);
+    return index < 0 ? undefined : unmatched.splice(index, 1)[0];
+  };
+
+  const pairs = (after.subtopics ?? []).map((child) => ({ child, match: take((old) => old.id === child.id) }));
+  for (const pair of pairs) {
+    pair.match ??= take((old) => nameKey(old.name) === nameKey(pair.child.name));
+  }
+
+  const changed = !sameFields(before, after);
+  return {
+    status: changed ? 'changed' : 'unchanged',
+    node: after,
+    ...(changed && { before }),
+    children: [
+      ...pairs.map(({ child, match }) => (match ? diffNodes(match, child) : whole('added')(child))),
+      ...unmatched.map(whole('removed')),
+    ],
+  };
+};
+
+/** How many nodes in the diff were added, removed or changed. */
+export const summarizeDiff = (diff: NodeDiff, summary: DiffSummary = { added: 0, removed: 0, changed: 0 }) => {
+  if (diff.status !== 'unchanged') summary[diff.status] += 1;
+  for (const child of diff.children) summarizeDiff(child, summary);
+  return summary;
+};
+
+const dependencyKey = ({ kind, from, to }: Dependency) => `${kind}:${from}:${to}`;
+
+/** Dependencies that only one of the two maps has. */
+export const diffDependencies = (before: LearningMapData, after: LearningMapData) => {
+  const beforeKeys = new Set((before.dependencies ?? []).map(dependencyKey));
+  const afterKeys = new Set((after.dependencies ?? []).map(dependencyKey));
+  return {
+    added: (after.dependencies ?? []).filter((dependency) => !beforeKeys.has(dependencyKey(dependency))),
+    removed: (before.dependencies ?? []).filter((dependency) => !afterKeys.has(dependencyKey(dependency))),
+  };
+};
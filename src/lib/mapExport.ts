@@ -0,0 +1,585 @@
+// Exports of the whole map graph, not just the part on screen. The graph is
+// drawn as a standalone SVG from the node boxes React Flow has laid out, in
+// the app's theme colors; PNG and PDF exports rasterize that SVG.
+
+import type { LearningMapData } from '@shared/learningMap';
+import { cyclicEdgeKeys, findDependencyCycles } from '@shared/dependencies';
+import { totalMapHours, walkNodes } from '@shared/mapTree';
+import { A4_LANDSCAPE, buildPdf, type PdfColor, type PdfPage } from '@/lib/pdf';
+import { formatHours } from '@/lib/studyPlan';
+
+/** Theme colors as CSS variable values, e.g. `195 100% 60%`. */
+export interface ExportTheme {
+  background: string;
+  foreground: string;
+  card: string;
+  primary: string;
+  primaryForeground: string;
+  secondary: string;
+  accent: string;
+  mutedForeground: string;
+  destructive: string;
+}
+
+const THEME_VARIABLES: Record<keyof ExportTheme, string> = {
+  background: '--background',
+  foreground: '--foreground',
+  card: '--card',
+  primary: '--primary',
+  primaryForeground: '--primary-foreground',
+  secondary: '--secondary',
+  accent: '--accent',
+  mutedForeground: '--muted-foreground',
+  destructive: '--destructive',
+};
+
+/** The colors from `index.css`, for when there is no document to read them from. */
+export const DEFAULT_EXPORT_THEME: ExportTheme = {
+  background: '222 47% 11%',
+  foreground: '210 40% 98%',
+  card: '220 40% 14%',
+  primary: '195 100% 60%',
+  primaryForeground: '222 47% 11%',
+  secondary: '280 80% 65%',
+  accent: '170 75% 55%',
+  mutedForeground: '220 15% 65%',
+  destructive: '0 84% 60%',
+};
+
+/** Reads the current theme from the CSS variables on `element`. */
+export const readExportTheme = (element: Element = document.documentElement): ExportTheme => {
+  const style = getComputedStyle(element);
+  const theme = { ...DEFAULT_EXPORT_THEME };
+  for (const key of Object.keys(THEME_VARIABLES) as (keyof ExportTheme)[]) {
+    const value = style.getPropertyValue(THEME_VARIABLES[key]).trim();
+    if (value) theme[key] = value;
+  }
+  return theme;
+};
+
+/** Top-left corner and size of a node, in flow coordinates. */
+export interface NodeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextStyle {
+  size: number;
+  bold?: boolean;
+  display?: boolean;
+}
+
+/** Width of `text` in pixels. */
+export type MeasureText = (text: string, style: TextStyle) => number;
+
+/** A font-agnostic guess, used when no canvas is available to measure with. */
+export const estimateTextWidth: MeasureText = (text, { size, bold }) => text.length * size * (bold ? 0.58 : 0.52);
+
+const SANS = "Inter, system-ui, -apple-system, 'Segoe UI', sans-serif";
+const DISPLAY = `'Space Grotesk', ${SANS}`;
+
+const cssFont = ({ size, bold, display }: TextStyle) =>
+  `${bold ? 700 : 400} ${size}px ${display ? DISPLAY : SANS}`;
+
+/** Measures with a 2D canvas, so wrapping matches the fonts the browser has. */
+export const createCanvasMeasurer = (): MeasureText => {
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) return estimateTextWidth;
+  return (text, style) => {
+    context.font = cssFont(style);
+    return context.measureText(text).width;
+  };
+};
+
+export interface MapSvgOptions {
+  title: string;
+  theme?: ExportTheme;
+  /** Which sides edges leave and enter nodes, matching the on-screen layout. */
+  direction?: 'vertical' | 'horizontal';
+  measureText?: MeasureText;
+}
+
+export interface RenderedSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const PADDING = 48;
+const NODE_PADDING = 20;
+// Room around each node for its glow.
+const GLOW = 24;
+
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const hsl = (value: string) => `hsl(${value.trim().split(/[\s,]+/).join(', ')})`;
+
+/** Breaks `text` into lines no wider than `width`, splitting words that don't fit on a line of their own. */
+export const wrapText = (text: string, width: number, style: TextStyle, measure: MeasureText): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measure(candidate, style) <= width) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = '';
+    for (const char of word) {
+      if (line && measure(line + char, style) > width) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/** Keeps the lines that fit in `maxLines`, ending the last kept one with an ellipsis. */
+const clampLines = (lines: string[], maxLines: number, width: number, style: TextStyle, measure: MeasureText) => {
+  if (lines.length <= maxLines) return lines;
+  if (maxLines <= 0) return [];
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && measure(`${last}…`, style) > width) last = last.slice(0, -1);
+  kept[maxLines - 1] = `${last.trimEnd()}…`;
+  return kept;
+};
+
+const textLines = (lines: string[], x: number, y: number, lineHeight: number, attributes: string) =>
+  lines
+    .map((line, i) => `<text x="${x}" y="${y + i * lineHeight}" ${attributes}>${escapeXml(line)}</text>`)
+    .join('');
+
+type NodeKind = 'main' | 'branch' | 'subtopic';
+
+interface ExportNode {
+  id: string;
+  kind: NodeKind;
+  label: string;
+  description?: string;
+  badge?: string;
+}
+
+type EdgeKind = 'branch' | 'part' | 'prerequisite' | 'related' | 'cycle';
+
+interface ExportEdge {
+  source: string;
+  target: string;
+  kind: EdgeKind;
+}
+
+const collectGraph = (map: LearningMapData) => {
+  const nodes: ExportNode[] = [{ id: 'main', kind: 'main', label: map.topic, badge: '🎯 Start' }];
+  const edges: ExportEdge[] = [];
+  walkNodes(map, ({ node, depth, parent, index }) => {
+    nodes.push({
+      id: node.id,
+      kind: depth === 1 ? 'branch' : 'subtopic',
+      label: node.name,
+      description: node.description,
+      badge: depth === 1 ? `Branch ${index + 1}` : undefined,
+    });
+    edges.push({ source: parent?.id ?? 'main', target: node.id, kind: depth === 1 ? 'branch' : 'part' });
+  });
+
+  const cyclic = cyclicEdgeKeys(findDependencyCycles(map.dependencies));
+  for (const { from, to, kind } of map.dependencies ?? []) {
+    const onCycle = kind === 'prerequisite' && cyclic.has(`${from}->${to}`);
+    edges.push({ source: from, target: to, kind: onCycle ? 'cycle' : kind });
+  }
+  return { nodes, edges };
+};
+
+/**
+ * Draws the whole map as a standalone SVG: a header with the title, a summary
+ * line and a legend, then every node in `boxes` with the edges between them.
+ */
+export const renderMapSvg = (
+  map: LearningMapData,
+  boxes: Record<string, NodeBox>,
+  {
+    title,
+    theme = DEFAULT_EXPORT_THEME,
+    direction = 'vertical',
+    measureText: measure = estimateTextWidth,
+  }: MapSvgOptions,
+): RenderedSvg => {
+  const graph = collectGraph(map);
+  const nodes = graph.nodes.filter((node) => boxes[node.id]);
+  const edges = graph.edges.filter((edge) => boxes[edge.source] && boxes[edge.target]);
+  const color = {
+    background: hsl(theme.background),
+    foreground: hsl(theme.foreground),
+    card: hsl(theme.card),
+    primary: hsl(theme.primary),
+    primaryForeground: hsl(theme.primaryForeground),
+    secondary: hsl(theme.secondary),
+    accent: hsl(theme.accent),
+    muted: hsl(theme.mutedForeground),
+    destructive: hsl(theme.destructive),
+  };
+
+  // Header: title, summary and legend, each on its own row.
+  const titleStyle: TextStyle = { size: 36, bold: true, display: true };
+  const summaryStyle: TextStyle = { size: 16 };
+  const legendStyle: TextStyle = { size: 14 };
+  const hours = totalMapHours(map);
+  const summary = [
+    title !== map.topic && map.topic,
+    `${nodes.length - 1} ${nodes.length === 2 ? 'node' : 'nodes'}`,
+    hours > 0 && `About ${formatHours(hours)} of study`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const edgeKinds = new Set(edges.map((edge) => edge.kind));
+  const legend: { label: string; swatch: string }[] = [
+    { label: 'Topic', swatch: `<rect x="0" y="-11" width="22" height="14" rx="4" fill="url(#node-main)" />` },
+    {
+      label: 'Learning area',
+      swatch: `<rect x="1" y="-10" width="20" height="12" rx="4" fill="${color.card}" stroke="${color.secondary}" stroke-width="2" />`,
+    },
+    {
+      label: 'Subtopic',
+      swatch: `<rect x="1" y="-10" width="20" height="12" rx="4" fill="${color.card}" stroke="${color.accent}" stroke-width="2" />`,
+    },
+    { label: 'Part of', swatch: `<line x1="0" y1="-4" x2="32" y2="-4" stroke="${color.accent}" stroke-width="2" />` },
+  ];
+  if (edgeKinds.has('prerequisite')) {
+    legend.push({
+      label: 'Prerequisite',
+      swatch: `<line x1="0" y1="-4" x2="32" y2="-4" stroke="${color.secondary}" stroke-width="2" stroke-dasharray="8 6" />`,
+    });
+  }
+  if (edgeKinds.has('related')) {
+    legend.push({
+      label: 'Related',
+      swatch: `<line x1="0" y1="-4" x2="32" y2="-4" stroke="${color.muted}" stroke-width="2" stroke-dasharray="2 6" />`,
+    });
+  }
+  if (edgeKinds.has('cycle')) {
+    legend.push({
+      label: 'Circular prerequisite',
+      swatch: `<line x1="0" y1="-4" x2="32" y2="-4" stroke="${color.destructive}" stroke-width="2" stroke-dasharray="8 6" />`,
+    });
+  }
+
+  let legendX = 0;
+  const legendItems = legend.map(({ label, swatch }) => {
+    const swatchWidth = swatch.startsWith('<line') ? 32 : 22;
+    const item = `<g transform="translate(${legendX}, 0)">${swatch}<text x="${swatchWidth + 8}" y="0" font-size="14" fill="${color.foreground}" fill-opacity="0.8">${escapeXml(label)}</text></g>`;
+    legendX += swatchWidth + 8 + measure(label, legendStyle) + 24;
+    return item;
+  });
+  const legendWidth = legendX - 24;
+  const headerWidth = Math.max(measure(title, titleStyle), measure(summary, summaryStyle), legendWidth);
+  const headerHeight = 36 + 12 + 20 + 20 + 20 + 40;
+
+  // Graph bounds, with room for the glow around the outermost nodes.
+  const allBoxes = nodes.map((node) => boxes[node.id]);
+  const minX = Math.min(...allBoxes.map((box) => box.x)) - GLOW;
+  const minY = Math.min(...allBoxes.map((box) => box.y)) - GLOW;
+  const maxX = Math.max(...allBoxes.map((box) => box.x + box.width)) + GLOW;
+  const maxY = Math.max(...allBoxes.map((box) => box.y + box.height)) + GLOW;
+  const graphWidth = nodes.length > 0 ? maxX - minX : 0;
+  const graphHeight = nodes.length > 0 ? maxY - minY : 0;
+
+  const width = Math.ceil(Math.max(graphWidth, headerWidth) + PADDING * 2);
+  const height = Math.ceil(headerHeight + graphHeight + PADDING * 2);
+  // Centers the graph under the header when the header is the wider of the two.
+  const offsetX = PADDING + (width - PADDING * 2 - graphWidth) / 2 - minX;
+  const offsetY = PADDING + headerHeight - minY;
+  const place = (box: NodeBox): NodeBox => ({ ...box, x: box.x + offsetX, y: box.y + offsetY });
+
+  const horizontal = direction === 'horizontal';
+  const anchors = (source: NodeBox, target: NodeBox) =>
+    horizontal
+      ? {
+          sx: source.x + source.width,
+          sy: source.y + source.height / 2,
+          tx: target.x,
+          ty: target.y + target.height / 2,
+        }
+      : {
+          sx: source.x + source.width / 2,
+          sy: source.y + source.height,
+          tx: target.x + target.width / 2,
+          ty: target.y,
+        };
+
+  const edgeStyles: Record<EdgeKind, { stroke: string; width: number; dash?: string; marker?: string }> = {
+    branch: { stroke: 'url(#gradient-primary)', width: 3, marker: 'arrow-primary' },
+    part: { stroke: color.accent, width: 2, marker: 'arrow-accent' },
+    prerequisite: { stroke: color.secondary, width: 2, dash: '8 6', marker: 'arrow-secondary' },
+    related: { stroke: color.muted, width: 2, dash: '2 6' },
+    cycle: { stroke: color.destructive, width: 2, dash: '8 6', marker: 'arrow-destructive' },
+  };
+
+  const edgeMarkup = edges.map((edge) => {
+    const { sx, sy, tx, ty } = anchors(place(boxes[edge.source]), place(boxes[edge.target]));
+    let path: string;
+    if (edge.kind === 'branch' || edge.kind === 'part') {
+      // Stepped like React Flow's smoothstep edges.
+      path = horizontal
+        ? `M ${sx} ${sy} H ${(sx + tx) / 2} V ${ty} H ${tx}`
+        : `M ${sx} ${sy} V ${(sy + ty) / 2} H ${tx} V ${ty}`;
+    } else {
+      const bend = Math.max(40, Math.abs(horizontal ? tx - sx : ty - sy) / 2);
+      path = horizontal
+        ? `M ${sx} ${sy} C ${sx + bend} ${sy}, ${tx - bend} ${ty}, ${tx} ${ty}`
+        : `M ${sx} ${sy} C ${sx} ${sy + bend}, ${tx} ${ty - bend}, ${tx} ${ty}`;
+    }
+    const style = edgeStyles[edge.kind];
+    return `<path d="${path}" fill="none" stroke="${style.stroke}" stroke-width="${style.width}"${style.dash ? ` stroke-dasharray="${style.dash}"` : ''}${style.marker ? ` marker-end="url(#${style.marker})"` : ''} />`;
+  });
+
+  const kindStyles: Record<NodeKind, { accent: string; glowOpacity: number; borderOpacity: number; label: TextStyle }> = {
+    main: { accent: color.primary, glowOpacity: 0.4, borderOpacity: 0.5, label: { size: 24, bold: true, display: true } },
+    branch: { accent: color.secondary, glowOpacity: 0.3, borderOpacity: 0.4, label: { size: 18, bold: true, display: true } },
+    subtopic: { accent: color.accent, glowOpacity: 0.2, borderOpacity: 0.3, label: { size: 16, bold: true, display: true } },
+  };
+  const badgeStyle: TextStyle = { size: 12, bold: true };
+  const descriptionStyle: TextStyle = { size: 14 };
+
+  const nodeMarkup = nodes.map((node) => {
+    const box = place(boxes[node.id]);
+    const style = kindStyles[node.kind];
+    const isMain = node.kind === 'main';
+    const textColor = isMain ? color.primaryForeground : color.foreground;
+    const innerWidth = box.width - NODE_PADDING * 2;
+    const parts = [
+      `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="16" fill="${style.accent}" fill-opacity="${style.glowOpacity}" filter="url(#glow)" />`,
+      `<rect x="${box.x + 1}" y="${box.y + 1}" width="${box.width - 2}" height="${box.height - 2}" rx="16" fill="${isMain ? 'url(#node-main)' : color.card}" stroke="${style.accent}" stroke-opacity="${style.borderOpacity}" stroke-width="2" />`,
+    ];
+
+    let labelWidth = innerWidth;
+    if (node.badge) {
+      const badgeWidth = measure(node.badge, badgeStyle) + 24;
+      const bx = box.x + box.width - NODE_PADDING - badgeWidth;
+      const by = box.y + NODE_PADDING;
+      parts.push(
+        isMain
+          ? `<rect x="${bx}" y="${by}" width="${badgeWidth}" height="22" rx="11" fill="${color.primaryForeground}" fill-opacity="0.2" />`
+          : `<rect x="${bx}" y="${by}" width="${badgeWidth}" height="22" rx="11" fill="${color.primary}" fill-opacity="0.1" stroke="${color.primary}" stroke-opacity="0.3" />`,
+        `<text x="${bx + 12}" y="${by + 15}" font-size="12" font-weight="600" fill="${isMain ? color.primaryForeground : color.primary}">${escapeXml(node.badge)}</text>`,
+      );
+      labelWidth -= badgeWidth + 12;
+    }
+
+    const lineHeight = style.label.size * 1.25;
+    const available = box.height - NODE_PADDING * 2;
+    const labelLines = clampLines(
+      wrapText(node.label, labelWidth, style.label, measure),
+      Math.max(1, Math.floor(available / lineHeight)),
+      labelWidth,
+      style.label,
+      measure,
+    );
+    parts.push(
+      textLines(
+        labelLines,
+        box.x + NODE_PADDING,
+        box.y + NODE_PADDING + style.label.size,
+        lineHeight,
+        `font-family="${escapeXml(DISPLAY)}" font-size="${style.label.size}" font-weight="700" fill="${textColor}"`,
+      ),
+    );
+
+    if (node.description) {
+      const top = NODE_PADDING + labelLines.length * lineHeight + 12;
+      const descriptionLineHeight = 22;
+      const lines = clampLines(
+        wrapText(node.description, innerWidth, descriptionStyle, measure),
+        Math.floor((box.height - top - NODE_PADDING) / descriptionLineHeight),
+        innerWidth,
+        descriptionStyle,
+        measure,
+      );
+      parts.push(
+        textLines(
+          lines,
+          box.x + NODE_PADDING,
+          box.y + top + 14,
+          descriptionLineHeight,
+          `font-size="14" fill="${textColor}" fill-opacity="${isMain ? 0.9 : 0.7}"`,
+        ),
+      );
+    }
+    return `<g>${parts.join('')}</g>`;
+  });
+
+  const marker = (id: string, fill: string) =>
+    `<marker id="${id}" viewBox="0 0 10 10" refX="9" refY="5" markerUnits="userSpaceOnUse" markerWidth="14" markerHeight="14" orient="auto"><path d="M 0 0 L 10 5 L 0 10 z" fill="${fill}" /></marker>`;
+
+  // The edge gradient spans the whole image: a bounding-box gradient disappears on straight edges.
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(SANS)}">`,
+    '<defs>',
+    `<linearGradient id="gradient-primary" gradientUnits="userSpaceOnUse" x1="0" y1="0" x2="${width}" y2="0"><stop offset="0%" stop-color="${color.primary}" /><stop offset="100%" stop-color="${color.secondary}" /></linearGradient>`,
+    `<linearGradient id="gradient-title" x1="0" y1="0" x2="1" y2="1"><stop offset="0%" stop-color="${color.primary}" /><stop offset="100%" stop-color="${color.secondary}" /></linearGradient>`,
+    `<linearGradient id="node-main" x1="0" y1="0" x2="1" y2="1"><stop offset="0%" stop-color="${color.primary}" /><stop offset="50%" stop-color="${color.primary}" stop-opacity="0.9" /><stop offset="100%" stop-color="${color.secondary}" /></linearGradient>`,
+    '<filter id="glow" x="-50%" y="-50%" width="200%" height="200%"><feGaussianBlur stdDeviation="12" /></filter>',
+    `<pattern id="dots" width="24" height="24" patternUnits="userSpaceOnUse"><circle cx="1" cy="1" r="1" fill="${color.primary}" fill-opacity="0.1" /></pattern>`,
+    marker('arrow-primary', color.primary),
+    marker('arrow-accent', color.accent),
+    marker('arrow-secondary', color.secondary),
+    marker('arrow-destructive', color.destructive),
+    '</defs>',
+    `<rect width="${width}" height="${height}" fill="${color.background}" />`,
+    `<rect width="${width}" height="${height}" fill="url(#dots)" />`,
+    `<text x="${PADDING}" y="${PADDING + 32}" font-family="${escapeXml(DISPLAY)}" font-size="36" font-weight="700" fill="url(#gradient-title)">${escapeXml(title)}</text>`,
+    `<text x="${PADDING}" y="${PADDING + 36 + 12 + 16}" font-size="16" fill="${color.muted}">${escapeXml(summary)}</text>`,
+    `<g transform="translate(${PADDING}, ${PADDING + 36 + 12 + 20 + 20 + 14})">${legendItems.join('')}</g>`,
+    `<g>${edgeMarkup.join('')}</g>`,
+    `<g>${nodeMarkup.join('')}</g>`,
+    '</svg>',
+  ].join('');
+
+  return { svg, width, height };
+};
+
+// Browsers refuse canvases beyond roughly this many pixels (Safari is the strictest).
+const MAX_CANVAS_PIXELS = 16_777_216;
+const MAX_CANVAS_SIDE = 16_384;
+
+export const PNG_SCALES = [1, 2, 3] as const;
+
+/** The largest scale up to `scale` at which a `width` × `height` image still fits on a canvas. */
+export const fitCanvasScale = (width: number, height: number, scale: number) =>
+  Math.min(scale, MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height, Math.sqrt(MAX_CANVAS_PIXELS / (width * height)));
+
+const loadSvgImage = (svg: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The map image could not be drawn.'));
+    // A data URL keeps the canvas untainted in every browser, unlike a blob URL.
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Your browser cannot draw images for export.');
+  return { canvas, context };
+};
+
+/** Rasterizes the SVG; `scale` is lowered when the image would not fit on a canvas. */
+export const svgToPng = async ({ svg, width, height }: RenderedSvg, scale: number) => {
+  const effectiveScale = fitCanvasScale(width, height, scale);
+  const image = await loadSvgImage(svg);
+  const { canvas, context } = createCanvas(width * effectiveScale, height * effectiveScale);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('The PNG could not be created.');
+  return { blob, scale: effectiveScale };
+};
+
+/** A page-sized slice of the image, in image pixels. */
+export interface PageTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Splits an image over pages. Images that fit at `minScale` points per pixel
+ * or more go on one page; larger ones are printed at `minScale` and tiled
+ * row by row.
+ */
+export const paginate = (
+  image: { width: number; height: number },
+  area: { width: number; height: number },
+  minScale = 0.5,
+) => {
+  const scale = Math.max(minScale, Math.min(1, area.width / image.width, area.height / image.height));
+  const tileWidth = area.width / scale;
+  const tileHeight = area.height / scale;
+  const columns = Math.max(1, Math.ceil(image.width / tileWidth - 1e-6));
+  const rows = Math.max(1, Math.ceil(image.height / tileHeight - 1e-6));
+
+  const tiles: PageTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = column * tileWidth;
+      const y = row * tileHeight;
+      tiles.push({ x, y, width: Math.min(tileWidth, image.width - x), height: Math.min(tileHeight, image.height - y) });
+    }
+  }
+  return { scale, tiles };
+};
+
+const hslToRgb = (value: string): PdfColor => {
+  const [h, s, l] = value.trim().split(/[\s,]+/).map((part) => parseFloat(part));
+  const lightness = l / 100;
+  const amount = (s / 100) * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return lightness - amount * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+const PAGE_MARGIN = 28;
+const FOOTER = 20;
+// Raster pixels per point; about 144 dpi.
+const PDF_RESOLUTION = 2;
+
+const dataUrlBytes = (url: string) => {
+  const binary = atob(url.slice(url.indexOf(',') + 1));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/** Prints the SVG over as many A4 landscape pages as it needs, each with a title footer. */
+export const svgToPdf = async (
+  { svg, width, height }: RenderedSvg,
+  { title, theme = DEFAULT_EXPORT_THEME }: { title: string; theme?: ExportTheme },
+) => {
+  const page = A4_LANDSCAPE;
+  const area = { width: page.width - PAGE_MARGIN * 2, height: page.height - PAGE_MARGIN * 2 - FOOTER };
+  const { scale, tiles } = paginate({ width, height }, area);
+  const image = await loadSvgImage(svg);
+  const background = hslToRgb(theme.background);
+
+  const pages: PdfPage[] = tiles.map((tile, i) => {
+    const drawWidth = tile.width * scale;
+    const drawHeight = tile.height * scale;
+    const { canvas, context } = createCanvas(drawWidth * PDF_RESOLUTION, drawHeight * PDF_RESOLUTION);
+    context.fillStyle = hsl(theme.background);
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, tile.x, tile.y, tile.width, tile.height, 0, 0, canvas.width, canvas.height);
+
+    return {
+      ...page,
+      background,
+      image: {
+        image: { data: dataUrlBytes(canvas.toDataURL('image/jpeg', 0.92)), width: canvas.width, height: canvas.height },
+        x: PAGE_MARGIN,
+        y: page.height - PAGE_MARGIN - drawHeight,
+        width: drawWidth,
+        height: drawHeight,
+      },
+      texts: [
+        {
+          x: PAGE_MARGIN,
+          y: PAGE_MARGIN - 4,
+          size: 9,
+          value: tiles.length > 1 ? `${title} - page ${i + 1} of ${tiles.length}` : title,
+          color: hslToRgb(theme.mutedForeground),
+        },
+      ],
+    };
+  });
+
+  return new Blob([buildPdf(pages, { title })], { type: 'application/pdf' });
+};
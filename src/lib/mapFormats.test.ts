@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { LearningMapData } from '@shared/learningMap';
+import {
+  exportLearningMap,
+  importLearningMap,
+  importLearningMapFile,
+  MAP_FORMATS,
+  mapToMarkdown,
+  type MapFormat,
+} from './mapFormats';
+
+const MAP: LearningMapData = {
+  topic: 'Rust',
+  branches: [
+    {
+      id: 'basics',
+      name: 'Variables — and mutability',
+      description: 'Bindings are immutable unless marked `mut`.',
+      estimatedHours: 2,
+      subtopics: [
+        {
+          id: 'setup',
+          name: 'Setting up',
+          description: 'Before you start:\n1. Install rustup\n2) Run cargo new\n- check rustc --version\n# not a heading',
+          subtopics: [
+            { id: 'editors', name: '**Editors**: and plugins', description: '* rust-analyzer\n+ clippy\n```sh' },
+          ],
+        },
+        { id: 'shadowing', name: 'Shadowing', description: '1.5 hours is plenty, and 1\\. stays escaped.' },
+      ],
+    },
+    {
+      id: 'ownership',
+      name: 'Ownership #',
+      description: 'Who frees what.\n\\ and a backslash',
+      estimatedHours: 4.5,
+      subtopics: [{ id: 'borrowing', name: '[x] Borrowing', description: 'References without moves.' }],
+    },
+  ],
+  dependencies: [
+    { from: 'basics', to: 'ownership', kind: 'prerequisite' },
+    { from: 'borrowing', to: 'shadowing', kind: 'related' },
+  ],
+};
+
+const roundTrip = async (format: MapFormat, map: LearningMapData = MAP, progress = {}) => {
+  const { contents, extension } = exportLearningMap(format, map, { title: 'My map', progress });
+  if (typeof contents !== 'string') {
+    // jsdom's File can't be read back, so this stands in for the picked file.
+    const file = { name: `map.${extension}`, arrayBuffer: async () => contents.slice().buffer } as unknown as File;
+    return importLearningMapFile(file);
+  }
+  return importLearningMap(contents, { fileName: `map.${extension}` });
+};
+
+describe('round trips', () => {
+  it.each(MAP_FORMATS.map((entry) => entry.format))('reads back the map it wrote as %s', async (format) => {
+    const imported = await roundTrip(format);
+    expect(imported.format).toBe(format);
+    expect(imported.data).toEqual(MAP);
+    expect(imported.repairs).toEqual([]);
+  });
+
+  it('keeps resources in JSON', async () => {
+    const map: LearningMapData = {
+      ...MAP,
+      branches: [
+        { ...MAP.branches[0], resources: [{ title: 'The Book', url: 'https://doc.rust-lang.org/book/', type: 'book' }] },
+        MAP.branches[1],
+      ],
+    };
+    const imported = await roundTrip('json', map);
+    expect(imported.data).toEqual(map);
+    expect(imported.title).toBe('My map');
+  });
+
+  it.each(['freemind', 'xmind'] as const)('keeps progress in %s', async (format) => {
+    const progress = { basics: 'done', setup: 'in_progress', borrowing: 'skipped' } as const;
+    expect((await roundTrip(format, MAP, progress)).progress).toEqual(progress);
+  });
+});
+
+describe('Markdown', () => {
+  it('escapes description lines that would read as outline structure', () => {
+    const markdown = mapToMarkdown(MAP);
+    expect(markdown).toContain('  1\\. Install rustup\\\n');
+    expect(markdown).toContain('  \\- check rustc --version\\\n');
+    expect(markdown).toContain('  \\# not a heading\n');
+  });
+
+  it('marks names that would otherwise be split or cleaned up', () => {
+    const markdown = mapToMarkdown(MAP);
+    expect(markdown).toContain('## Variables — and mutability <!-- id: basics; hours: 2 -->');
+    expect(markdown).toContain('## Ownership # <!-- id: ownership; hours: 4.5; requires: basics -->');
+    expect(markdown).toContain('- **Editors**: and plugins <!-- id: editors -->\n');
+    expect(mapToMarkdown({ ...MAP, branches: [{ ...MAP.branches[0], id: 'variables-and-mutability' }] })).toContain(
+      '## Variables — and mutability <!-- hours: 2 -->',
+    );
+    expect(mapToMarkdown({ topic: 'T', branches: [{ id: 'c', name: 'C #', description: 'd', subtopics: [] }] })).toContain(
+      '## C # <!-- -->',
+    );
+  });
+
+  it('still reads descriptions given after the name in hand-written outlines', () => {
+    const { data } = importLearningMap('# Rust\n\n- **Ownership** – who frees what\n  - Borrowing — references\n');
+    expect(data.branches[0]).toMatchObject({ name: 'Ownership', description: 'who frees what' });
+    expect(data.branches[0].subtopics[0]).toMatchObject({ name: 'Borrowing', description: 'references' });
+  });
+
+  it('joins wrapped description lines with spaces', () => {
+    const { data } = importLearningMap('# Rust\n\n## Ownership\n\nWho frees\nwhat.\n');
+    expect(data.branches[0].description).toBe('Who frees what.');
+  });
+});
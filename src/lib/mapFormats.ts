@@ -0,0 +1,832 @@
+// Text formats for learning maps, so maps can be brought in from outlines
+// people already keep and taken out to other tools. Importing never calls the
+// generator: the parsed outline goes through the same validation (and repair)
+// as generated maps.
+//
+// - Markdown: `# Topic`, then branches as `##` headings or top-level bullets,
+//   nested bullets for subtopics and indented text for descriptions.
+//   Description lines that would read as headings or bullets are escaped with
+//   a backslash, and line breaks within them are written as hard breaks.
+// - OPML: one outline per node with the description in `_note`.
+// - JSON: a versioned envelope around `LearningMapData`; the only format that
+//   keeps resources.
+// - FreeMind (`.mm`) and XMind (`.xmind`) for desktop mind-mapping tools,
+//   with descriptions as notes, progress as task icons and dependencies as
+//   arrow links or relationships.
+//
+// Markdown and OPML carry ids, estimates and dependencies as node metadata
+// (an HTML comment after the name, or outline attributes), so every format
+// reads back the nodes, descriptions, estimates and dependencies it wrote.
+
+import {
+  type Dependency,
+  LEARNING_LEVELS,
+  type LearningLevel,
+  type LearningMapData,
+  type MapNode,
+  UNBOUNDED_LIMITS,
+  createIdRegistry,
+  slugify,
+  validateLearningMap,
+} from '@shared/learningMap';
+import { collectNodeIds } from '@shared/mapTree';
+import { type MapProgress, type NodeStatus } from '@/lib/progress';
+import { createZip, isZip, readZip } from '@/lib/zip';
+
+export type MapFormat = 'markdown' | 'opml' | 'json' | 'freemind' | 'xmind';
+
+export const MAP_FORMATS: { format: MapFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'markdown', label: 'Markdown outline', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'opml', label: 'OPML', extension: 'opml', mimeType: 'text/x-opml' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'freemind', label: 'FreeMind', extension: 'mm', mimeType: 'application/x-freemind' },
+  { format: 'xmind', label: 'XMind', extension: 'xmind', mimeType: 'application/vnd.xmind.workbook' },
+];
+
+/** What a file says about the map besides its tree. */
+export interface MapFileInfo {
+  title?: string;
+  level?: LearningLevel;
+}
+
+export interface ImportedMap extends MapFileInfo {
+  data: LearningMapData;
+  format: MapFormat;
+  /** Statuses from mind-map task markers, keyed by the imported node ids. */
+  progress: MapProgress;
+  /** What validation had to fix, e.g. generated ids or filled-in descriptions. */
+  repairs: string[];
+}
+
+/** The file couldn't be read as a learning map; `message` is meant for the user. */
+export class MapImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapImportError';
+  }
+}
+
+/** A node as read from a file, before validation fills gaps. */
+interface RawNode {
+  /** Preferred id; a slug of the name is used when unset. */
+  id?: string;
+  /** What links in the file call this node, if it differs from `id`. */
+  ref?: string;
+  name: string;
+  description: string;
+  estimatedHours?: number;
+  subtopics: RawNode[];
+  /** Ids of prerequisites of this node. */
+  requires: string[];
+  /** Ids of nodes this one is related to. */
+  related: string[];
+  status?: NodeStatus;
+}
+
+/** A dependency between two nodes, by their `ref` (or `id`). */
+interface RawLink {
+  from: string;
+  to: string;
+  kind: Dependency['kind'];
+}
+
+interface RawMap extends MapFileInfo {
+  topic: string;
+  branches: RawNode[];
+  links?: RawLink[];
+}
+
+const rawNode = (name: string, description = ''): RawNode => ({
+  name,
+  description,
+  subtopics: [],
+  requires: [],
+  related: [],
+});
+
+// Ids are settled here rather than by validation, so links can be pointed at
+// the final id of whatever node they name.
+const toValidationInput = ({ topic, branches, links = [] }: RawMap) => {
+  const registry = createIdRegistry(['main']);
+  const idByRef = new Map<string, string>();
+  const progress: MapProgress = {};
+  const claim = (node: RawNode) => {
+    const ref = node.ref ?? node.id;
+    node.id = registry.claim(node.id ?? '', node.name);
+    if (ref && !idByRef.has(ref)) idByRef.set(ref, node.id);
+    if (node.status && node.status !== 'not_started') progress[node.id] = node.status;
+    node.subtopics.forEach(claim);
+  };
+  branches.forEach(claim);
+
+  const resolve = (ref: string) => idByRef.get(ref) ?? ref;
+  const dependencies: Dependency[] = links.map(({ from, to, kind }) => ({ from: resolve(from), to: resolve(to), kind }));
+  const convert = (node: RawNode): Record<string, unknown> => {
+    node.requires.forEach((from) => dependencies.push({ from: resolve(from), to: node.id!, kind: 'prerequisite' }));
+    node.related.forEach((to) => dependencies.push({ from: node.id!, to: resolve(to), kind: 'related' }));
+    return {
+      id: node.id,
+      name: node.name,
+      description: node.description,
+      estimatedHours: node.estimatedHours,
+      subtopics: node.subtopics.map(convert),
+    };
+  };
+  return { input: { topic, branches: branches.map(convert), dependencies }, progress };
+};
+
+const validateImport = (
+  input: unknown,
+  format: MapFormat,
+  info: MapFileInfo,
+  topic?: string,
+  progress: MapProgress = {},
+): ImportedMap => {
+  const result = validateLearningMap(input, { repair: true, limits: UNBOUNDED_LIMITS, topic });
+  if (result.ok === false) {
+    const [first] = result.violations;
+    throw new MapImportError(
+      first.path === 'topic'
+        ? 'The file has no topic. Start it with a "# Topic" heading or a single top-level outline.'
+        : `The file isn't a valid learning map: ${first.path || 'map'} ${first.message}.`,
+    );
+  }
+  if (result.map.branches.length === 0) {
+    throw new MapImportError('The file has no branches to put on the map.');
+  }
+  // Validation drops nodes it can't use; their statuses go with them.
+  const ids = new Set(collectNodeIds(result.map));
+  return {
+    data: result.map,
+    format,
+    progress: Object.fromEntries(Object.entries(progress).filter(([id]) => ids.has(id))),
+    repairs: result.repairs,
+    ...info,
+  };
+};
+
+/** Dependencies as `requires`/`related` lists keyed by the node that carries them. */
+const dependencyLists = (map: LearningMapData) => {
+  const requires = new Map<string, string[]>();
+  const related = new Map<string, string[]>();
+  for (const { from, to, kind } of map.dependencies ?? []) {
+    if (kind === 'prerequisite') requires.set(to, [...(requires.get(to) ?? []), from]);
+    else related.set(from, [...(related.get(from) ?? []), to]);
+  }
+  const involved = new Set<string>();
+  for (const { from, to } of map.dependencies ?? []) involved.add(from).add(to);
+  return { requires, related, involved };
+};
+
+const splitList = (value: string | null | undefined) =>
+  (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+
+const parseHours = (value: string | null | undefined) => {
+  const hours = Number(value);
+  return value && Number.isFinite(hours) ? hours : undefined;
+};
+
+// --- Markdown ---------------------------------------------------------------
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const BULLET = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const METADATA = /\s*<!--(.*?)-->\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+// A hard line break: a backslash at the end of a line.
+const HARD_BREAK = /\\$/;
+
+const metadataComment = (node: MapNode, lists: ReturnType<typeof dependencyLists>) => {
+  const fields: string[] = [];
+  // Ids are left out where importing would come up with the same one.
+  if (lists.involved.has(node.id) || node.id !== slugify(node.name)) fields.push(`id: ${node.id}`);
+  if (node.estimatedHours !== undefined) fields.push(`hours: ${node.estimatedHours}`);
+  const requires = lists.requires.get(node.id);
+  if (requires) fields.push(`requires: ${requires.join(', ')}`);
+  const related = lists.related.get(node.id);
+  if (related) fields.push(`related: ${related.join(', ')}`);
+  if (fields.length > 0) return ` <!-- ${fields.join('; ')} -->`;
+  // Names after a metadata comment are read as written, so an empty one keeps
+  // names that would otherwise be cleaned up or split apart.
+  return readsAsWritten(node.name) ? '' : ' <!-- -->';
+};
+
+/**
+ * Escapes what would make a description line read as a heading, bullet or
+ * fence, and what the unescaping would otherwise take away.
+ */
+const escapeDescriptionLine = (line: string) =>
+  line.replace(/^[\\#*+\-`~]/, '\\$&').replace(/^(\d+)(?=\\*[.)])/, '$1\\');
+
+const unescapeDescriptionLine = (line: string) =>
+  line.replace(/^\\([\\#*+\-`~])/, '$1').replace(/^(\d+)\\(?=\\*[.)])/, '$1');
+
+/** Description lines, indented by `indent`, with hard breaks between them. */
+const descriptionLines = (description: string, indent: string) => {
+  const lines = description.split('\n').map((line) => line.trim()).filter(Boolean);
+  return lines.map((line, i) => `${indent}${escapeDescriptionLine(line)}${i < lines.length - 1 ? '\\' : ''}`);
+};
+
+/** `# Topic`, a `##` section per branch, and nested bullets below it. */
+export const mapToMarkdown = (map: LearningMapData): string => {
+  const lists = dependencyLists(map);
+  const lines = [`# ${map.topic}`, ''];
+
+  const addSubtopics = (nodes: MapNode[], depth: number) => {
+    const indent = '  '.repeat(depth);
+    for (const node of nodes) {
+      lines.push(`${indent}- ${node.name}${metadataComment(node, lists)}`);
+      lines.push(...descriptionLines(node.description, `${indent}  `));
+      addSubtopics(node.subtopics ?? [], depth + 1);
+    }
+  };
+
+  for (const branch of map.branches) {
+    lines.push(`## ${branch.name}${metadataComment(branch, lists)}`, '');
+    if (branch.description) lines.push(...descriptionLines(branch.description, ''), '');
+    if (branch.subtopics.length > 0) {
+      addSubtopics(branch.subtopics, 0);
+      lines.push('');
+    }
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+};
+
+const cleanName = (text: string) =>
+  text
+    .replace(/^\[[ xX]\]\s+/, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^(\*\*|__|\*|_)(.+)\1$/, '$2')
+    .trim();
+
+/** "**Name** – description" and "Name — description" carry the description on the same line. */
+const splitInlineDescription = (text: string) => {
+  const bold = text.match(/^(?:\[[ xX]\]\s+)?(\*\*|__)(.+?)\1\s*(?:[:—–-]\s*)?(.*)$/);
+  if (bold) return { name: cleanName(bold[2]), description: bold[3].trim() };
+  const dashed = text.match(/^(.+?)\s+[—–]\s+(.+)$/);
+  if (dashed) return { name: cleanName(dashed[1]), description: dashed[2].trim() };
+  return { name: cleanName(text), description: '' };
+};
+
+/** Whether a name comes back unchanged without a metadata comment to mark where it ends. */
+const readsAsWritten = (name: string) => splitInlineDescription(name).name === name && !/\s#+$/.test(name);
+
+const nodeFromLine = (text: string): RawNode => {
+  const metadata = text.match(METADATA);
+  // Exports write a comment for names that need it, so a name before one is taken as it is.
+  const { name, description } = metadata
+    ? { name: text.slice(0, metadata.index).trim(), description: '' }
+    : splitInlineDescription(text);
+  const node = rawNode(name, description);
+  for (const field of metadata?.[1].split(';') ?? []) {
+    const separator = field.indexOf(':');
+    if (separator < 0) continue;
+    const key = field.slice(0, separator).trim().toLowerCase();
+    const value = field.slice(separator + 1).trim();
+    if (key === 'id' && value) node.id = value;
+    else if (key === 'hours') node.estimatedHours = parseHours(value);
+    else if (key === 'requires') node.requires = splitList(value);
+    else if (key === 'related') node.related = splitList(value);
+  }
+  return node;
+};
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+/**
+ * Reads a Markdown outline. Headings nest by level below `# Topic`; bullets
+ * nest by indentation below the latest heading, or become branches when there
+ * is none. Text indented under a bullet, or following a heading, is the
+ * node's description; its lines are joined with spaces, or kept apart by
+ * hard breaks.
+ */
+export const parseMarkdownOutline = (text: string): RawMap => {
+  let topic = '';
+  const branches: RawNode[] = [];
+  let headings: { level: number; node: RawNode }[] = [];
+  let bullets: { indent: number; node: RawNode }[] = [];
+  let describing: { node: RawNode; minIndent: number } | null = null;
+  let inFence = false;
+
+  const attach = (node: RawNode, parent: RawNode | undefined) => (parent ? parent.subtopics : branches).push(node);
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence || !line.trim()) continue;
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      bullets = [];
+      if (level === 1 && !topic) {
+        topic = cleanName(heading[2].replace(METADATA, ''));
+        headings = [];
+        describing = null;
+        continue;
+      }
+      const node = nodeFromLine(heading[2]);
+      headings = headings.filter((entry) => entry.level < level);
+      attach(node, headings[headings.length - 1]?.node);
+      headings.push({ level, node });
+      describing = { node, minIndent: 0 };
+      continue;
+    }
+
+    const bullet = line.match(BULLET);
+    if (bullet) {
+      const indent = indentOf(bullet[1]);
+      const node = nodeFromLine(bullet[2]);
+      bullets = bullets.filter((entry) => entry.indent < indent);
+      attach(node, bullets[bullets.length - 1]?.node ?? headings[headings.length - 1]?.node);
+      bullets.push({ indent, node });
+      describing = { node, minIndent: indent + 1 };
+      continue;
+    }
+
+    if (describing && indentOf(line) >= describing.minIndent) {
+      const { node } = describing;
+      const text = unescapeDescriptionLine(line.trim());
+      if (!node.description) node.description = text;
+      else if (HARD_BREAK.test(node.description)) node.description = `${node.description.slice(0, -1)}\n${text}`;
+      else node.description = `${node.description} ${text}`;
+    }
+  }
+
+  return { topic, branches };
+};
+
+// --- OPML -------------------------------------------------------------------
+
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`).replace(/\r?\n/g, '&#10;');
+
+/** OPML 2.0 with the topic as the single top-level outline, as mind-mapping tools expect. */
+export const mapToOpml = (map: LearningMapData, { title }: MapFileInfo = {}, now = new Date()): string => {
+  const lists = dependencyLists(map);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title ?? map.topic)}</title>`,
+    `    <dateCreated>${now.toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    `    <outline text="${escapeXml(map.topic)}">`,
+  ];
+
+  const addOutline = (node: MapNode, depth: number) => {
+    const attributes = [`text="${escapeXml(node.name)}"`, `_note="${escapeXml(node.description)}"`, `id="${escapeXml(node.id)}"`];
+    if (node.estimatedHours !== undefined) attributes.push(`estimatedHours="${node.estimatedHours}"`);
+    const requires = lists.requires.get(node.id);
+    if (requires) attributes.push(`requires="${escapeXml(requires.join(', '))}"`);
+    const related = lists.related.get(node.id);
+    if (related) attributes.push(`related="${escapeXml(related.join(', '))}"`);
+
+    const indent = '  '.repeat(depth + 3);
+    const children = node.subtopics ?? [];
+    if (children.length === 0) {
+      lines.push(`${indent}<outline ${attributes.join(' ')}/>`);
+      return;
+    }
+    lines.push(`${indent}<outline ${attributes.join(' ')}>`);
+    children.forEach((child) => addOutline(child, depth + 1));
+    lines.push(`${indent}</outline>`);
+  };
+  map.branches.forEach((branch) => addOutline(branch, 0));
+
+  lines.push('    </outline>', '  </body>', '</opml>');
+  return `${lines.join('\n')}\n`;
+};
+
+const childOutlines = (element: Element) =>
+  Array.from(element.children).filter((child) => child.tagName.toLowerCase() === 'outline');
+
+const outlineNode = (outline: Element): RawNode => {
+  const node = rawNode(
+    (outline.getAttribute('text') ?? outline.getAttribute('title') ?? '').trim(),
+    (outline.getAttribute('_note') ?? outline.getAttribute('description') ?? '').trim(),
+  );
+  node.id = outline.getAttribute('id')?.trim() || undefined;
+  node.estimatedHours = parseHours(outline.getAttribute('estimatedHours'));
+  node.requires = splitList(outline.getAttribute('requires'));
+  node.related = splitList(outline.getAttribute('related'));
+  node.subtopics = childOutlines(outline).map(outlineNode);
+  return node;
+};
+
+/**
+ * Reads OPML. A single top-level outline is the topic; several are branches
+ * under the document title.
+ */
+export const parseOpml = (text: string): RawMap => {
+  const xml = new DOMParser().parseFromString(text, 'text/xml');
+  const body = xml.querySelector('opml > body');
+  if (xml.querySelector('parsererror') || !body) {
+    throw new MapImportError("This isn't a readable OPML file.");
+  }
+
+  const title = xml.querySelector('opml > head > title')?.textContent?.trim() || undefined;
+  const outlines = childOutlines(body);
+  if (outlines.length === 1) {
+    const root = outlines[0];
+    return {
+      title,
+      topic: (root.getAttribute('text') ?? root.getAttribute('title') ?? '').trim(),
+      branches: childOutlines(root).map(outlineNode),
+    };
+  }
+  return { title, topic: title ?? '', branches: outlines.map(outlineNode) };
+};
+
+// --- JSON -------------------------------------------------------------------
+
+export const MAP_FILE_KIND = 'ai-learning-map';
+export const MAP_FILE_VERSION = 1;
+
+/** The JSON file format. Bump `version` when the shape of `map` changes incompatibly. */
+export interface MapFileEnvelope {
+  kind: typeof MAP_FILE_KIND;
+  version: number;
+  exportedAt: string;
+  title: string;
+  level?: LearningLevel;
+  map: LearningMapData;
+}
+
+export const mapToJson = (map: LearningMapData, { title, level }: MapFileInfo = {}, now = new Date()): string => {
+  const envelope: MapFileEnvelope = {
+    kind: MAP_FILE_KIND,
+    version: MAP_FILE_VERSION,
+    exportedAt: now.toISOString(),
+    title: title ?? map.topic,
+    ...(level && { level }),
+    map,
+  };
+  return `${JSON.stringify(envelope, null, 2)}\n`;
+};
+
+/** Reads a JSON envelope, or a bare `LearningMapData` object. Returns the unvalidated map. */
+export const parseMapJson = (text: string): { map: unknown } & MapFileInfo => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new MapImportError("This isn't valid JSON.");
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new MapImportError("This JSON file doesn't contain a learning map.");
+  }
+
+  const record = parsed as Record<string, unknown>;
+  if (record.kind === undefined && 'branches' in record) return { map: record };
+  if (record.kind !== MAP_FILE_KIND) {
+    throw new MapImportError("This JSON file doesn't contain a learning map.");
+  }
+  if (typeof record.version !== 'number' || record.version > MAP_FILE_VERSION) {
+    throw new MapImportError('This map was exported by a newer version of the app. Update and try again.');
+  }
+  return {
+    map: record.map,
+    title: typeof record.title === 'string' && record.title.trim() ? record.title.trim() : undefined,
+    level: LEARNING_LEVELS.find((level) => level === record.level),
+  };
+};
+
+// --- FreeMind -----------------------------------------------------------------
+
+// Task icons closest to each status; "not started" has none.
+const FREEMIND_ICONS: Partial<Record<NodeStatus, string>> = {
+  in_progress: 'hourglass',
+  done: 'button_ok',
+  skipped: 'button_cancel',
+};
+
+const FREEMIND_HOURS_ATTRIBUTE = 'Estimated hours';
+
+/** FreeMind 1.0 XML: descriptions as HTML notes, statuses as icons, dependencies as arrow links. */
+export const mapToFreeMind = (map: LearningMapData, progress: MapProgress = {}): string => {
+  const lines = [
+    '<map version="1.0.1">',
+    '<!-- To view this file, download free mind mapping software FreeMind from http://freemind.sourceforge.net -->',
+    `<node ID="main" TEXT="${escapeXml(map.topic)}">`,
+  ];
+  const outgoing = new Map<string, Dependency[]>();
+  for (const dependency of map.dependencies ?? []) {
+    outgoing.set(dependency.from, [...(outgoing.get(dependency.from) ?? []), dependency]);
+  }
+
+  const addNode = (node: MapNode, position?: 'left' | 'right') => {
+    lines.push(`<node ID="${escapeXml(node.id)}" TEXT="${escapeXml(node.name)}"${position ? ` POSITION="${position}"` : ''}>`);
+    if (node.description) {
+      const paragraphs = node.description.split(/\n+/).map((line) => `<p>${escapeXml(line.trim())}</p>`);
+      lines.push(`<richcontent TYPE="NOTE"><html><head></head><body>${paragraphs.join('')}</body></html></richcontent>`);
+    }
+    const icon = FREEMIND_ICONS[progress[node.id]];
+    if (icon) lines.push(`<icon BUILTIN="${icon}"/>`);
+    if (node.estimatedHours !== undefined) {
+      lines.push(`<attribute NAME="${FREEMIND_HOURS_ATTRIBUTE}" VALUE="${node.estimatedHours}"/>`);
+    }
+    for (const { to, kind } of outgoing.get(node.id) ?? []) {
+      const arrow = kind === 'prerequisite' ? 'Default' : 'None';
+      lines.push(`<arrowlink DESTINATION="${escapeXml(to)}" ENDARROW="${arrow}" STARTARROW="None"/>`);
+    }
+    (node.subtopics ?? []).forEach((child) => addNode(child));
+    lines.push('</node>');
+  };
+  // Alternating sides keeps the map balanced around the topic.
+  map.branches.forEach((branch, i) => addNode(branch, i % 2 === 0 ? 'right' : 'left'));
+
+  lines.push('</node>', '</map>');
+  return `${lines.join('\n')}\n`;
+};
+
+const childElements = (element: Element, tagName: string) =>
+  Array.from(element.children).filter((child) => child.tagName.toLowerCase() === tagName);
+
+const richContent = (node: Element, type: string) => {
+  const element = childElements(node, 'richcontent').find((child) => child.getAttribute('TYPE') === type);
+  if (!element) return '';
+  // Keep paragraph breaks; other HTML whitespace is insignificant.
+  const paragraphs = Array.from(element.querySelectorAll('p'), (p) => p.textContent ?? '');
+  return (paragraphs.length > 0 ? paragraphs : [element.textContent ?? ''])
+    .map((text) => text.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+// Ids FreeMind and Freeplane generate carry no meaning, so those nodes get a slug instead.
+const GENERATED_FREEMIND_ID = /^(ID|Freemind_Link)_\d+$/i;
+
+const statusFromIcons = (icons: string[]): NodeStatus | undefined => {
+  if (icons.includes('button_ok')) return 'done';
+  if (icons.includes('button_cancel')) return 'skipped';
+  if (icons.includes('hourglass') || icons.includes('clock')) return 'in_progress';
+  return undefined;
+};
+
+/** Reads a FreeMind or Freeplane `.mm` file. The root node is the topic. */
+export const parseFreeMind = (text: string): RawMap => {
+  const xml = new DOMParser().parseFromString(text, 'text/xml');
+  const root = xml.querySelector('map > node');
+  if (xml.querySelector('parsererror') || !root) {
+    throw new MapImportError("This isn't a readable FreeMind file.");
+  }
+
+  const links: RawLink[] = [];
+  const readNode = (element: Element): RawNode => {
+    const ref = element.getAttribute('ID') ?? undefined;
+    const node = rawNode(
+      (element.getAttribute('TEXT') ?? richContent(element, 'NODE')).trim(),
+      richContent(element, 'NOTE') || richContent(element, 'DETAILS'),
+    );
+    node.ref = ref;
+    node.id = ref && !GENERATED_FREEMIND_ID.test(ref) ? ref : undefined;
+    node.status = statusFromIcons(childElements(element, 'icon').map((icon) => icon.getAttribute('BUILTIN') ?? ''));
+    const hours = childElements(element, 'attribute').find((attribute) => /hour/i.test(attribute.getAttribute('NAME') ?? ''));
+    node.estimatedHours = parseHours(hours?.getAttribute('VALUE'));
+
+    for (const link of childElements(element, 'arrowlink')) {
+      const to = link.getAttribute('DESTINATION');
+      if (!ref || !to) continue;
+      const arrowless = link.getAttribute('ENDARROW') === 'None' && link.getAttribute('STARTARROW') !== 'Default';
+      links.push({ from: ref, to, kind: arrowless ? 'related' : 'prerequisite' });
+    }
+    node.subtopics = childElements(element, 'node').map(readNode);
+    return node;
+  };
+
+  return {
+    topic: (root.getAttribute('TEXT') ?? richContent(root, 'NODE')).trim(),
+    branches: childElements(root, 'node').map(readNode),
+    links,
+  };
+};
+
+// --- XMind --------------------------------------------------------------------
+
+// Task markers closest to each status; "not started" has none.
+const XMIND_MARKERS: Partial<Record<NodeStatus, string>> = {
+  in_progress: 'task-half',
+  done: 'task-done',
+  skipped: 'symbol-minus',
+};
+
+const XMIND_RELATIONSHIP_TITLES: Record<Dependency['kind'], string> = {
+  prerequisite: 'Prerequisite',
+  related: 'Related',
+};
+
+interface XMindTopic {
+  id: string;
+  class: 'topic';
+  title: string;
+  structureClass?: string;
+  notes?: { plain: { content: string } };
+  markers?: { markerId: string }[];
+  labels?: string[];
+  children?: { attached: XMindTopic[] };
+}
+
+/** The `content.json` of an XMind (2020 and later) workbook: one sheet with the map. */
+export const mapToXMindContent = (map: LearningMapData, { title }: MapFileInfo = {}, progress: MapProgress = {}) => {
+  const topic = (node: MapNode): XMindTopic => {
+    const marker = XMIND_MARKERS[progress[node.id]];
+    const children = (node.subtopics ?? []).map(topic);
+    return {
+      id: node.id,
+      class: 'topic',
+      title: node.name,
+      ...(node.description && { notes: { plain: { content: node.description } } }),
+      ...(marker && { markers: [{ markerId: marker }] }),
+      ...(node.estimatedHours !== undefined && { labels: [`${node.estimatedHours}h`] }),
+      ...(children.length > 0 && { children: { attached: children } }),
+    };
+  };
+
+  return [
+    {
+      id: 'sheet-1',
+      class: 'sheet',
+      title: title ?? map.topic,
+      rootTopic: {
+        id: 'main',
+        class: 'topic',
+        title: map.topic,
+        structureClass: 'org.xmind.ui.map.unbalanced',
+        children: { attached: map.branches.map(topic) },
+      },
+      relationships: (map.dependencies ?? []).map(({ from, to, kind }, i) => ({
+        id: `relationship-${i + 1}`,
+        end1Id: from,
+        end2Id: to,
+        title: XMIND_RELATIONSHIP_TITLES[kind],
+      })),
+    },
+  ];
+};
+
+/** A complete `.xmind` workbook. */
+export const mapToXMind = (map: LearningMapData, info: MapFileInfo = {}, progress: MapProgress = {}): Uint8Array => {
+  const encoder = new TextEncoder();
+  const json = (value: unknown) => encoder.encode(JSON.stringify(value));
+  return createZip([
+    { name: 'content.json', data: json(mapToXMindContent(map, info, progress)) },
+    { name: 'metadata.json', data: json({ creator: { name: 'AI Learning Pathways', version: '1' } }) },
+    { name: 'manifest.json', data: json({ 'file-entries': { 'content.json': {}, 'metadata.json': {} } }) },
+  ]);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// XMind generates long random ids; those nodes get a slug instead.
+const GENERATED_XMIND_ID = /^[a-z0-9]{20,}$/i;
+
+const statusFromMarkers = (markers: string[]): NodeStatus | undefined => {
+  if (markers.includes('task-done')) return 'done';
+  if (markers.some((marker) => /^symbol-(minus|wrong)$/.test(marker))) return 'skipped';
+  if (markers.some((marker) => marker.startsWith('task-') && marker !== 'task-start')) return 'in_progress';
+  return undefined;
+};
+
+/** Reads the `content.json` of an XMind workbook; the first sheet's central topic is the topic. */
+export const parseXMindContent = (text: string): RawMap => {
+  let sheets: unknown;
+  try {
+    sheets = JSON.parse(text);
+  } catch {
+    throw new MapImportError("This isn't a readable XMind file.");
+  }
+  const sheet = (Array.isArray(sheets) ? sheets : [sheets]).find((entry) => isRecord(entry) && isRecord(entry.rootTopic));
+  if (!isRecord(sheet)) throw new MapImportError("This XMind file doesn't contain a map.");
+
+  const readTopic = (raw: unknown): RawNode | null => {
+    if (!isRecord(raw)) return null;
+    const ref = typeof raw.id === 'string' ? raw.id : undefined;
+    const notes = isRecord(raw.notes) && isRecord(raw.notes.plain) ? raw.notes.plain.content : undefined;
+    const node = rawNode(typeof raw.title === 'string' ? raw.title.trim() : '', typeof notes === 'string' ? notes.trim() : '');
+    node.ref = ref;
+    node.id = ref && !GENERATED_XMIND_ID.test(ref) ? ref : undefined;
+
+    const markers = Array.isArray(raw.markers) ? raw.markers : [];
+    node.status = statusFromMarkers(markers.map((marker) => (isRecord(marker) ? String(marker.markerId) : '')));
+    const labels = Array.isArray(raw.labels) ? raw.labels : [];
+    const hours = labels.map((label) => String(label).match(/^\s*(\d+(?:\.\d+)?)\s*h(?:ours?)?\s*$/i)).find(Boolean);
+    node.estimatedHours = hours ? Number(hours[1]) : undefined;
+
+    const attached = isRecord(raw.children) && Array.isArray(raw.children.attached) ? raw.children.attached : [];
+    node.subtopics = attached.map(readTopic).filter((child): child is RawNode => child !== null);
+    return node;
+  };
+
+  const root = readTopic(sheet.rootTopic)!;
+  const links: RawLink[] = (Array.isArray(sheet.relationships) ? sheet.relationships : [])
+    .filter(isRecord)
+    .filter((relationship) => typeof relationship.end1Id === 'string' && typeof relationship.end2Id === 'string')
+    .map((relationship) => ({
+      from: relationship.end1Id as string,
+      to: relationship.end2Id as string,
+      kind: /related/i.test(String(relationship.title ?? '')) ? 'related' : 'prerequisite',
+    }));
+
+  return {
+    title: typeof sheet.title === 'string' && sheet.title.trim() ? sheet.title.trim() : undefined,
+    topic: root.name,
+    branches: root.subtopics,
+    links,
+  };
+};
+
+// --- Import and export --------------------------------------------------------
+
+/** Picks the format from the file extension, or from the content for pasted text. */
+export const detectMapFormat = (text: string, fileName?: string): MapFormat => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'opml' || extension === 'xml') return 'opml';
+  if (extension === 'md' || extension === 'markdown' || extension === 'txt') return 'markdown';
+  if (extension === 'mm') return 'freemind';
+  if (extension === 'xmind') return 'xmind';
+
+  const start = text.trimStart();
+  if (start.startsWith('[') || (start.startsWith('{') && /"rootTopic"\s*:/.test(start))) return 'xmind';
+  if (start.startsWith('{')) return 'json';
+  if (start.startsWith('<') && /<opml[\s>]/i.test(start)) return 'opml';
+  if (start.startsWith('<') && /<map[\s>]/i.test(start)) return 'freemind';
+  return 'markdown';
+};
+
+export interface ImportOptions {
+  fileName?: string;
+  /** Overrides detection. */
+  format?: MapFormat;
+}
+
+const PARSERS: Record<Exclude<MapFormat, 'json'>, (text: string) => RawMap> = {
+  markdown: parseMarkdownOutline,
+  opml: parseOpml,
+  freemind: parseFreeMind,
+  xmind: parseXMindContent,
+};
+
+/** Builds a map from file contents. Throws `MapImportError` when that isn't possible. */
+export const importLearningMap = (text: string, { fileName, format }: ImportOptions = {}): ImportedMap => {
+  const detected = format ?? detectMapFormat(text, fileName);
+  // Untitled outlines fall back to the file name as their topic.
+  const fallbackTopic = fileName?.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+
+  if (detected === 'json') {
+    const { map, ...info } = parseMapJson(text);
+    return validateImport(map, 'json', info, fallbackTopic);
+  }
+  const { title, level, ...raw } = PARSERS[detected](text);
+  const { input, progress } = toValidationInput(raw);
+  return validateImport(input, detected, { title, level }, fallbackTopic, progress);
+};
+
+/** Like `importLearningMap`, for a file that may also be a zipped XMind workbook. */
+export const importLearningMapFile = async (file: File): Promise<ImportedMap> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isZip(bytes)) return importLearningMap(new TextDecoder().decode(bytes), { fileName: file.name });
+
+  let content: Uint8Array | undefined;
+  try {
+    const entries = await readZip(bytes);
+    content = entries.get('content.json');
+    if (!content && entries.has('content.xml')) {
+      throw new MapImportError('This is an XMind 8 file. Open it in a newer XMind, save it, and import it again.');
+    }
+  } catch (error) {
+    if (error instanceof MapImportError) throw error;
+    throw new MapImportError(error instanceof Error ? error.message : 'The file could not be unpacked.');
+  }
+  if (!content) throw new MapImportError("This archive doesn't contain a map.");
+  return importLearningMap(new TextDecoder().decode(content), { fileName: file.name, format: 'xmind' });
+};
+
+export interface ExportInfo extends MapFileInfo {
+  /** Shown as task icons and markers in the mind-map formats. */
+  progress?: MapProgress;
+}
+
+/** Serializes a map; returns the file contents with the extension and MIME type to save them under. */
+export const exportLearningMap = (format: MapFormat, map: LearningMapData, { progress, ...info }: ExportInfo = {}) => {
+  const { extension, mimeType } = MAP_FORMATS.find((entry) => entry.format === format)!;
+  const contents = (() => {
+    switch (format) {
+      case 'markdown':
+        return mapToMarkdown(map);
+      case 'opml':
+        return mapToOpml(map, info);
+      case 'json':
+        return mapToJson(map, info);
+      case 'freemind':
+        return mapToFreeMind(map, progress);
+      case 'xmind':
+        return mapToXMind(map, info, progress);
+    }
+  })();
+  return { contents, extension, mimeType };
+};
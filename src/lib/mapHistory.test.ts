@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { LearningMapData } from '@shared/learningMap';
+import {
+  EMPTY_HISTORY,
+  invertCommand,
+  type MapCommand,
+  type MapHistory,
+  MAX_HISTORY_ENTRIES,
+  recordEntry,
+  trimHistory,
+  truncateAfter,
+} from './mapHistory';
+
+const status = (n: number): MapCommand => ({ kind: 'status', nodeId: `node-${n}`, before: 'not_started', after: 'done' });
+
+/** A history of `count` status changes, with `cursor` of them applied if given. */
+const historyOf = (count: number, cursor?: number): MapHistory => {
+  let history = EMPTY_HISTORY;
+  for (let n = 1; n <= count; n++) history = recordEntry(history, `Change ${n}`, status(n));
+  return cursor === undefined ? history : { ...history, cursor };
+};
+
+const labels = (history: MapHistory) => history.entries.map((entry) => entry.label);
+
+describe('recordEntry', () => {
+  it('appends an applied entry', () => {
+    const history = recordEntry(EMPTY_HISTORY, 'Marked done', status(1));
+    expect(history.cursor).toBe(1);
+    expect(history.entries[0]).toMatchObject({ label: 'Marked done', command: status(1) });
+    expect(history.entries[0].id).toEqual(expect.any(String));
+    expect(Number.isNaN(Date.parse(history.entries[0].at))).toBe(false);
+  });
+
+  it('drops what could be redone', () => {
+    const history = recordEntry(historyOf(3, 1), 'Change 4', status(4));
+    expect(labels(history)).toEqual(['Change 1', 'Change 4']);
+    expect(history.cursor).toBe(2);
+  });
+
+  it('keeps only the newest entries', () => {
+    const history = historyOf(MAX_HISTORY_ENTRIES + 5);
+    expect(history.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.entries[0].label).toBe('Change 6');
+    expect(history.cursor).toBe(MAX_HISTORY_ENTRIES);
+  });
+});
+
+describe('truncateAfter', () => {
+  it('removes the entries after the given one', () => {
+    const history = historyOf(4);
+    const truncated = truncateAfter(history, history.entries[1].id);
+    expect(labels(truncated)).toEqual(['Change 1', 'Change 2']);
+    expect(truncated.cursor).toBe(2);
+  });
+
+  it('leaves the cursor alone when it is before the cut', () => {
+    const history = historyOf(4, 1);
+    expect(truncateAfter(history, history.entries[2].id).cursor).toBe(1);
+  });
+
+  it('removes everything for null or an unknown entry', () => {
+    expect(truncateAfter(historyOf(3), null)).toEqual(EMPTY_HISTORY);
+    expect(truncateAfter(historyOf(3), 'gone')).toEqual(EMPTY_HISTORY);
+  });
+});
+
+describe('trimHistory', () => {
+  it('drops the oldest half of what can be undone', () => {
+    const trimmed = trimHistory(historyOf(5, 4))!;
+    expect(labels(trimmed)).toEqual(['Change 3', 'Change 4', 'Change 5']);
+    expect(trimmed.cursor).toBe(2);
+  });
+
+  it('drops the furthest redo entries once nothing can be undone', () => {
+    const trimmed = trimHistory(historyOf(5, 0))!;
+    expect(labels(trimmed)).toEqual(['Change 1', 'Change 2']);
+    expect(trimmed.cursor).toBe(0);
+  });
+
+  it('ends with an empty history, then nothing', () => {
+    let history: MapHistory | null = historyOf(MAX_HISTORY_ENTRIES, 30);
+    let last = history;
+    while (history) {
+      last = history;
+      history = trimHistory(history);
+    }
+    expect(last).toEqual(EMPTY_HISTORY);
+  });
+});
+
+describe('invertCommand', () => {
+  it('swaps both sides of each kind of command', () => {
+    const before: LearningMapData = { topic: 'Before', branches: [] };
+    const after: LearningMapData = { topic: 'After', branches: [] };
+    expect(invertCommand({ kind: 'tree', before, after })).toEqual({ kind: 'tree', before: after, after: before });
+    expect(invertCommand(status(1))).toEqual({ kind: 'status', nodeId: 'node-1', before: 'done', after: 'not_started' });
+    expect(invertCommand({ kind: 'positions', before: {}, after: { a: { x: 1, y: 2 } } })).toEqual({
+      kind: 'positions',
+      before: { a: { x: 1, y: 2 } },
+      after: {},
+    });
+  });
+
+  it('gives back the original command when applied twice', () => {
+    expect(invertCommand(invertCommand(status(2)))).toEqual(status(2));
+  });
+});
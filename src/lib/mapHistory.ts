@@ -0,0 +1,72 @@
+// Undo history for a saved map. Every entry holds both sides of one change, so
+// it can be replayed in either direction, and is plain JSON so the history can
+// be kept in sessionStorage for the rest of the browser session.
+
+import type { LearningMapData } from '@shared/learningMap';
+import type { NodeStatus } from '@/lib/progress';
+
+/** Where the learner dragged nodes, by node id; other nodes follow the layout. */
+export type NodePositions = Record<string, { x: number; y: number }>;
+
+export const NO_POSITIONS: NodePositions = {};
+
+export type MapCommand =
+  | { kind: 'tree'; before: LearningMapData; after: LearningMapData }
+  | { kind: 'status'; nodeId: string; before: NodeStatus; after: NodeStatus }
+  | { kind: 'positions'; before: NodePositions; after: NodePositions };
+
+export interface HistoryEntry {
+  id: string;
+  /** What the change did, e.g. `Deleted "Loops"`. */
+  label: string;
+  /** ISO timestamp. */
+  at: string;
+  command: MapCommand;
+}
+
+export interface MapHistory {
+  /** Oldest first. */
+  entries: HistoryEntry[];
+  /** How many entries are applied; the rest can be redone. */
+  cursor: number;
+}
+
+/** Older entries are dropped beyond this, keeping the stored history small. */
+export const MAX_HISTORY_ENTRIES = 50;
+
+export const EMPTY_HISTORY: MapHistory = { entries: [], cursor: 0 };
+
+/** Adds a change that has just been made; anything that could be redone is dropped. */
+export const recordEntry = (history: MapHistory, label: string, command: MapCommand): MapHistory => {
+  const entry: HistoryEntry = { id: crypto.randomUUID(), label, at: new Date().toISOString(), command };
+  const entries = [...history.entries.slice(0, history.cursor), entry].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, cursor: entries.length };
+};
+
+/** Removes every entry after the one with `entryId`, or all of them when it is null or gone. */
+export const truncateAfter = (history: MapHistory, entryId: string | null): MapHistory => {
+  const keep = history.entries.findIndex((entry) => entry.id === entryId) + 1;
+  return { entries: history.entries.slice(0, keep), cursor: Math.min(history.cursor, keep) };
+};
+
+/**
+ * A shorter history for when the whole one doesn't fit in storage. The oldest
+ * half of what can be undone goes first, then the furthest half of what can be
+ * redone, so the entries kept still replay from the current map. Null when
+ * there is nothing left to drop.
+ */
+export const trimHistory = ({ entries, cursor }: MapHistory): MapHistory | null => {
+  if (entries.length === 0) return null;
+  if (cursor > 0) {
+    const drop = Math.ceil(cursor / 2);
+    return { entries: entries.slice(drop), cursor: cursor - drop };
+  }
+  return { entries: entries.slice(0, Math.floor(entries.length / 2)), cursor: 0 };
+};
+
+/** The command that takes the map back to where `command` started. */
+export const invertCommand = (command: MapCommand): MapCommand => ({
+  ...command,
+  before: command.after,
+  after: command.before,
+} as MapCommand);
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { LearningMapData } from '@shared/learningMap';
+import {
+  computeLayout,
+  DEFAULT_LAYOUT_OPTIONS,
+  LAYOUT_ALGORITHMS,
+  type LayoutNode,
+  type LayoutPositions,
+  layoutForce,
+  layoutTree,
+  pinPositions,
+  toLayoutTree,
+} from './mapLayout';
+
+const subtopic = (id: string, subtopics?: LearningMapData['branches'][number]['subtopics']) => ({
+  id,
+  name: id,
+  description: '',
+  ...(subtopics && { subtopics }),
+});
+
+const MAP: LearningMapData = {
+  topic: 'Cooking',
+  branches: [
+    { ...subtopic('knives'), subtopics: [subtopic('grip'), subtopic('dicing', [subtopic('brunoise')])] },
+    { ...subtopic('heat'), subtopics: [subtopic('searing'), subtopic('braising'), subtopic('steaming')] },
+    { ...subtopic('sauces'), subtopics: [subtopic('roux'), subtopic('emulsions')] },
+    { ...subtopic('baking'), subtopics: [subtopic('bread'), subtopic('pastry')] },
+  ],
+  dependencies: [{ from: 'knives', to: 'heat', kind: 'prerequisite' }],
+};
+
+const SIZES = { main: { width: 220, height: 90 }, branch: { width: 180, height: 70 }, subtopic: { width: 150, height: 56 } };
+
+const tree = (): LayoutNode => toLayoutTree(MAP, (_id, type) => SIZES[type]);
+const links = MAP.dependencies!.map(({ from, to }) => ({ source: from, target: to }));
+
+const boxes = (root: LayoutNode, positions: LayoutPositions) => {
+  const list: { id: string; x: number; y: number; width: number; height: number }[] = [];
+  const walk = (node: LayoutNode) => {
+    list.push({ id: node.id, ...positions[node.id], width: node.width, height: node.height });
+    node.children.forEach(walk);
+  };
+  walk(root);
+  return list;
+};
+
+const overlaps = (root: LayoutNode, positions: LayoutPositions) => {
+  const list = boxes(root, positions);
+  const found: string[] = [];
+  for (let i = 0; i < list.length; i++) {
+    for (let j = i + 1; j < list.length; j++) {
+      const [a, b] = [list[i], list[j]];
+      const apart = a.x + a.width <= b.x || b.x + b.width <= a.x || a.y + a.height <= b.y || b.y + b.height <= a.y;
+      if (!apart) found.push(`${a.id} / ${b.id}`);
+    }
+  }
+  return found;
+};
+
+describe('computeLayout', () => {
+  it.each(LAYOUT_ALGORITHMS)('places every node with %s', (algorithm) => {
+    const positions = computeLayout(algorithm, tree(), links);
+    expect(Object.keys(positions).sort()).toEqual(boxes(tree(), positions).map((box) => box.id).sort());
+    for (const point of Object.values(positions)) {
+      expect(Number.isFinite(point.x) && Number.isFinite(point.y)).toBe(true);
+    }
+  });
+
+  it.each(LAYOUT_ALGORITHMS)('is deterministic with %s', (algorithm) => {
+    expect(computeLayout(algorithm, tree(), links)).toEqual(computeLayout(algorithm, tree(), links));
+  });
+
+  it.each(LAYOUT_ALGORITHMS)('never overlaps nodes with %s', (algorithm) => {
+    expect(overlaps(tree(), computeLayout(algorithm, tree(), links))).toEqual([]);
+  });
+});
+
+describe('layoutTree', () => {
+  it('puts each level of the tree on its own row', () => {
+    const positions = layoutTree(tree(), 'TB');
+    const rowOf = (id: string) => positions[id].y;
+    expect(rowOf('main')).toBeLessThan(rowOf('knives'));
+    expect(rowOf('knives')).toBeLessThan(rowOf('grip'));
+    expect(rowOf('dicing')).toBeLessThan(rowOf('brunoise'));
+    expect(rowOf('knives')).toBe(rowOf('baking'));
+  });
+
+  it('lays the same levels out in columns from left to right', () => {
+    const positions = layoutTree(tree(), 'LR');
+    expect(positions.main.x).toBeLessThan(positions.knives.x);
+    expect(positions.knives.x).toBe(positions.baking.x);
+  });
+});
+
+describe('layoutForce', () => {
+  it('keeps the topic node where the radial layout puts it', () => {
+    const positions = layoutForce(tree(), links, DEFAULT_LAYOUT_OPTIONS);
+    expect(positions.main).toEqual({ x: -SIZES.main.width / 2, y: -SIZES.main.height / 2 });
+  });
+});
+
+describe('pinPositions', () => {
+  it('moves dragged nodes and leaves the rest of the layout alone', () => {
+    const layout = computeLayout('radial', tree());
+    const pinned = { heat: { x: 1000, y: -400 }, gone: { x: 5, y: 5 } };
+    const positions = pinPositions(layout, pinned);
+
+    expect(positions.heat).toEqual({ x: 1000, y: -400 });
+    expect(positions).not.toHaveProperty('gone');
+    for (const id of Object.keys(layout).filter((id) => id !== 'heat')) {
+      expect(positions[id]).toEqual(layout[id]);
+    }
+  });
+
+  it('does not change the layout it was given', () => {
+    const layout = computeLayout('tree-tb', tree());
+    const before = structuredClone(layout);
+    pinPositions(layout, { grip: { x: 0, y: 0 } });
+    expect(layout).toEqual(before);
+  });
+});
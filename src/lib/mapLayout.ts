@@ -0,0 +1,383 @@
+// Layout algorithms for learning map graphs. Everything here is a pure
+// function of the node tree and the measured node sizes, so results are
+// deterministic and independent of React Flow.
+
+import type { LearningMapData, Subtopic } from '@shared/learningMap';
+
+export type LayoutAlgorithm = 'radial' | 'tree-tb' | 'tree-lr' | 'force';
+
+export const LAYOUT_ALGORITHMS: LayoutAlgorithm[] = ['radial', 'tree-tb', 'tree-lr', 'force'];
+
+export interface LayoutNode {
+  id: string;
+  width: number;
+  height: number;
+  children: LayoutNode[];
+}
+
+/** An extra link the force layout pulls together, e.g. a prerequisite. */
+export interface LayoutLink {
+  source: string;
+  target: string;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Top-left corner of every node, keyed by node id. */
+export type LayoutPositions = Record<string, Point>;
+
+export interface LayoutOptions {
+  /** Space between neighbouring nodes. */
+  nodeGap: number;
+  /** Space between one level of the tree and the next. */
+  levelGap: number;
+  /** Simulation steps for the force layout. */
+  iterations: number;
+}
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  nodeGap: 32,
+  levelGap: 96,
+  iterations: 300,
+};
+
+type Centers = Map<string, Point>;
+
+export type MapNodeType = 'main' | 'branch' | 'subtopic';
+
+/** The map as a layout tree rooted at the topic node (id `main`). */
+export const toLayoutTree = (
+  map: LearningMapData,
+  sizeOf: (id: string, type: MapNodeType) => { width: number; height: number },
+): LayoutNode => {
+  const subtopicNode = (subtopic: Subtopic): LayoutNode => ({
+    id: subtopic.id,
+    ...sizeOf(subtopic.id, 'subtopic'),
+    children: (subtopic.subtopics ?? []).map(subtopicNode),
+  });
+
+  return {
+    id: 'main',
+    ...sizeOf('main', 'main'),
+    children: map.branches.map((branch) => ({
+      id: branch.id,
+      ...sizeOf(branch.id, 'branch'),
+      children: branch.subtopics.map(subtopicNode),
+    })),
+  };
+};
+
+const flatten = (root: LayoutNode): LayoutNode[] => {
+  const nodes: LayoutNode[] = [];
+  const walk = (node: LayoutNode) => {
+    nodes.push(node);
+    node.children.forEach(walk);
+  };
+  walk(root);
+  return nodes;
+};
+
+const toTopLeft = (root: LayoutNode, centers: Centers): LayoutPositions => {
+  const positions: LayoutPositions = {};
+  for (const node of flatten(root)) {
+    const center = centers.get(node.id) ?? { x: 0, y: 0 };
+    positions[node.id] = { x: center.x - node.width / 2, y: center.y - node.height / 2 };
+  }
+  return positions;
+};
+
+/**
+ * Layered tree: each level sits on its own row (`TB`) or column (`LR`) and
+ * every subtree gets a band wide enough for all of its descendants.
+ */
+export const layoutTree = (
+  root: LayoutNode,
+  direction: 'TB' | 'LR',
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS,
+): LayoutPositions => {
+  const breadthOf = (node: LayoutNode) => (direction === 'TB' ? node.width : node.height);
+  const depthOf = (node: LayoutNode) => (direction === 'TB' ? node.height : node.width);
+
+  // Thickest node on each level decides where the next level starts.
+  const levelSize: number[] = [];
+  const measureLevels = (node: LayoutNode, depth: number) => {
+    levelSize[depth] = Math.max(levelSize[depth] ?? 0, depthOf(node));
+    node.children.forEach((child) => measureLevels(child, depth + 1));
+  };
+  measureLevels(root, 0);
+
+  const levelCenter: number[] = [];
+  levelSize.forEach((size, depth) => {
+    levelCenter[depth] =
+      depth === 0 ? 0 : levelCenter[depth - 1] + levelSize[depth - 1] / 2 + options.levelGap + size / 2;
+  });
+
+  const bandCache = new Map<string, number>();
+  const band = (node: LayoutNode): number => {
+    const cached = bandCache.get(node.id);
+    if (cached !== undefined) return cached;
+    const childBand = node.children.reduce((sum, child) => sum + band(child), 0)
+      + options.nodeGap * Math.max(0, node.children.length - 1);
+    const size = Math.max(breadthOf(node), childBand);
+    bandCache.set(node.id, size);
+    return size;
+  };
+
+  const centers: Centers = new Map();
+  const place = (node: LayoutNode, start: number, depth: number) => {
+    const middle = start + band(node) / 2;
+    centers.set(
+      node.id,
+      direction === 'TB' ? { x: middle, y: levelCenter[depth] } : { x: levelCenter[depth], y: middle },
+    );
+
+    const childBand = node.children.reduce((sum, child) => sum + band(child), 0)
+      + options.nodeGap * Math.max(0, node.children.length - 1);
+    let cursor = middle - childBand / 2;
+    for (const child of node.children) {
+      place(child, cursor, depth + 1);
+      cursor += band(child) + options.nodeGap;
+    }
+  };
+  place(root, -band(root) / 2, 0);
+
+  return toTopLeft(root, centers);
+};
+
+const radialCenters = (root: LayoutNode, options: LayoutOptions): Centers => {
+  const diagonal = (node: LayoutNode) => Math.hypot(node.width, node.height);
+
+  // Each subtree gets a wedge of the circle proportional to its leaf count.
+  const leafCache = new Map<string, number>();
+  const leaves = (node: LayoutNode): number => {
+    const cached = leafCache.get(node.id);
+    if (cached !== undefined) return cached;
+    const count = node.children.length === 0
+      ? 1
+      : node.children.reduce((sum, child) => sum + leaves(child), 0);
+    leafCache.set(node.id, count);
+    return count;
+  };
+
+  const wedges = new Map<string, { start: number; size: number; depth: number }>();
+  const assign = (node: LayoutNode, start: number, size: number, depth: number) => {
+    wedges.set(node.id, { start, size, depth });
+    let cursor = start;
+    for (const child of node.children) {
+      const childSize = (size * leaves(child)) / leaves(node);
+      assign(child, cursor, childSize, depth + 1);
+      cursor += childSize;
+    }
+  };
+  assign(root, -Math.PI / 2 - Math.PI / Math.max(1, root.children.length), 2 * Math.PI, 0);
+
+  // Ring radii: far enough from the previous ring, and wide enough that
+  // neighbours on the same ring never overlap.
+  const nodes = flatten(root);
+  const maxDepth = Math.max(...nodes.map((node) => wedges.get(node.id)!.depth));
+  const ringDiagonal: number[] = [];
+  for (const node of nodes) {
+    const { depth } = wedges.get(node.id)!;
+    ringDiagonal[depth] = Math.max(ringDiagonal[depth] ?? 0, diagonal(node));
+  }
+
+  const radius: number[] = [0];
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    let ring = radius[depth - 1] + (ringDiagonal[depth - 1] + ringDiagonal[depth]) / 2 + options.levelGap / 2;
+    for (const node of nodes) {
+      const wedge = wedges.get(node.id)!;
+      if (wedge.depth !== depth) continue;
+      const chord = 2 * Math.sin(Math.min(wedge.size, Math.PI) / 2);
+      ring = Math.max(ring, (ringDiagonal[depth] + options.nodeGap) / chord);
+    }
+    radius[depth] = ring;
+  }
+
+  const centers: Centers = new Map();
+  for (const node of nodes) {
+    const wedge = wedges.get(node.id)!;
+    const angle = wedge.start + wedge.size / 2;
+    centers.set(node.id, {
+      x: radius[wedge.depth] * Math.cos(angle),
+      y: radius[wedge.depth] * Math.sin(angle),
+    });
+  }
+  return centers;
+};
+
+/** Concentric rings around the root, one per level, sized so no two nodes overlap. */
+export const layoutRadial = (
+  root: LayoutNode,
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS,
+): LayoutPositions => toTopLeft(root, radialCenters(root, options));
+
+/**
+ * Pushes overlapping boxes apart along the axis where they overlap least.
+ * Nodes in `pinned` never move.
+ */
+const separate = (nodes: LayoutNode[], centers: Centers, gap: number, pinned: Set<string>) => {
+  for (let pass = 0; pass < 50; pass++) {
+    let moved = false;
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = nodes[i];
+        const b = nodes[j];
+        const pa = centers.get(a.id)!;
+        const pb = centers.get(b.id)!;
+        const overlapX = (a.width + b.width) / 2 + gap - Math.abs(pa.x - pb.x);
+        const overlapY = (a.height + b.height) / 2 + gap - Math.abs(pa.y - pb.y);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        moved = true;
+        const share = pinned.has(a.id) || pinned.has(b.id) ? 1 : 0.5;
+        const horizontal = overlapX < overlapY;
+        const sign = horizontal ? Math.sign(pb.x - pa.x) || 1 : Math.sign(pb.y - pa.y) || 1;
+        const push = (horizontal ? overlapX : overlapY) * share;
+        const moveA = pinned.has(a.id) ? 0 : push;
+        const moveB = pinned.has(b.id) ? 0 : push;
+        if (horizontal) {
+          pa.x -= sign * moveA;
+          pb.x += sign * moveB;
+        } else {
+          pa.y -= sign * moveA;
+          pb.y += sign * moveB;
+        }
+      }
+    }
+    if (!moved) return;
+  }
+};
+
+/**
+ * Fruchterman–Reingold simulation seeded with the radial layout, so the same
+ * map always settles the same way. Tree edges and `links` attract, every pair
+ * of nodes repels, and a final pass removes any remaining overlap.
+ */
+export const layoutForce = (
+  root: LayoutNode,
+  links: LayoutLink[] = [],
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS,
+): LayoutPositions => {
+  const nodes = flatten(root);
+  const centers = radialCenters(root, options);
+  const pinned = new Set([root.id]);
+
+  const springs: LayoutLink[] = [];
+  for (const node of nodes) {
+    for (const child of node.children) springs.push({ source: node.id, target: child.id });
+  }
+  for (const link of links) {
+    if (centers.has(link.source) && centers.has(link.target)) springs.push(link);
+  }
+
+  const averageSize = nodes.reduce((sum, node) => sum + Math.max(node.width, node.height), 0) / nodes.length;
+  // A tight ideal distance keeps the map compact; `separate` fixes any overlap.
+  const ideal = averageSize * 0.8;
+  const startTemperature = ideal;
+
+  for (let step = 0; step < options.iterations; step++) {
+    const temperature = startTemperature * (1 - step / options.iterations);
+    const force = new Map<string, Point>(nodes.map((node) => [node.id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const pa = centers.get(nodes[i].id)!;
+        const pb = centers.get(nodes[j].id)!;
+        let dx = pa.x - pb.x;
+        let dy = pa.y - pb.y;
+        if (dx === 0 && dy === 0) {
+          // Coincident nodes: nudge deterministically by index.
+          dx = (j - i) * 0.01;
+          dy = 0.01;
+        }
+        const distance = Math.hypot(dx, dy);
+        const repulsion = (ideal * ideal) / distance;
+        const fa = force.get(nodes[i].id)!;
+        const fb = force.get(nodes[j].id)!;
+        fa.x += (dx / distance) * repulsion;
+        fa.y += (dy / distance) * repulsion;
+        fb.x -= (dx / distance) * repulsion;
+        fb.y -= (dy / distance) * repulsion;
+      }
+    }
+
+    for (const { source, target } of springs) {
+      const pa = centers.get(source)!;
+      const pb = centers.get(target)!;
+      const dx = pa.x - pb.x;
+      const dy = pa.y - pb.y;
+      const distance = Math.hypot(dx, dy) || 0.01;
+      const attraction = (distance * distance) / ideal;
+      const fa = force.get(source)!;
+      const fb = force.get(target)!;
+      fa.x -= (dx / distance) * attraction;
+      fa.y -= (dy / distance) * attraction;
+      fb.x += (dx / distance) * attraction;
+      fb.y += (dy / distance) * attraction;
+    }
+
+    for (const node of nodes) {
+      if (pinned.has(node.id)) continue;
+      const f = force.get(node.id)!;
+      const magnitude = Math.hypot(f.x, f.y);
+      if (magnitude === 0) continue;
+      const limit = Math.min(magnitude, temperature);
+      const p = centers.get(node.id)!;
+      p.x += (f.x / magnitude) * limit;
+      p.y += (f.y / magnitude) * limit;
+    }
+  }
+
+  separate(nodes, centers, options.nodeGap, pinned);
+  return toTopLeft(root, centers);
+};
+
+export const computeLayout = (
+  algorithm: LayoutAlgorithm,
+  root: LayoutNode,
+  links: LayoutLink[] = [],
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS,
+): LayoutPositions => {
+  switch (algorithm) {
+    case 'radial':
+      return layoutRadial(root, options);
+    case 'tree-tb':
+      return layoutTree(root, 'TB', options);
+    case 'tree-lr':
+      return layoutTree(root, 'LR', options);
+    case 'force':
+      return layoutForce(root, links, options);
+  }
+};
+
+/** `positions` with every node in `pinned` moved to where the learner dragged it. */
+export const pinPositions = (positions: LayoutPositions, pinned: LayoutPositions): LayoutPositions => {
+  const result = { ...positions };
+  for (const [id, point] of Object.entries(pinned)) {
+    if (result[id]) result[id] = point;
+  }
+  return result;
+};
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
+
+/** Positions part-way between two layouts, `t` running from 0 to 1. */
+export const interpolatePositions = (
+  from: LayoutPositions,
+  to: LayoutPositions,
+  t: number,
+): LayoutPositions => {
+  const eased = easeInOutCubic(Math.min(1, Math.max(0, t)));
+  const positions: LayoutPositions = {};
+  for (const [id, target] of Object.entries(to)) {
+    const start = from[id] ?? target;
+    positions[id] = {
+      x: start.x + (target.x - start.x) * eased,
+      y: start.y + (target.y - start.y) * eased,
+    };
+  }
+  return positions;
+};
@@ -0,0 +1,221 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables, TablesUpdate } from '@/integrations/supabase/types';
+import {
+  type Dependency,
+  type LearningLevel,
+  type LearningMapData,
+  parseLearningMap,
+  type Resource,
+  type Subtopic,
+  UNBOUNDED_LIMITS,
+} from '@shared/learningMap';
+
+export type LearningMapRow = Tables<'learning_maps'>;
+
+export interface LearningMapSummary extends LearningMapRow {
+  branchCount: number;
+}
+
+export interface SavedLearningMap extends Omit<LearningMapRow, 'dependencies'> {
+  data: LearningMapData;
+}
+
+/** What a share-token holder gets to see: the map, without ownership details. */
+export interface SharedLearningMap {
+  title: string;
+  topic: string;
+  level: LearningLevel;
+  updatedAt: string;
+  data: LearningMapData;
+}
+
+/** Inserts a map and its tree in one transaction; returns the id of the new `learning_maps` row. */
+export const saveLearningMap = async ({
+  data,
+  level,
+  title,
+}: {
+  data: LearningMapData;
+  level: LearningLevel;
+  title?: string;
+}): Promise<string> => {
+  const { data: id, error } = await supabase.rpc('save_learning_map', {
+    _title: title?.trim() || data.topic,
+    _level: level,
+    _data: toJson(data),
+  });
+  if (error) throw error;
+  return id;
+};
+
+// Maps, dependencies and resources are plain objects, which the generated Json type can't see.
+const toJson = (value: LearningMapData | Dependency[] | Resource[]) => value as unknown as Json;
+
+/** Spreads a node's stored resources into it, leaving the field out when there are none. */
+const withResources = (stored: Json) => {
+  const resources = stored as unknown as Resource[];
+  return resources.length > 0 ? { resources } : {};
+};
+
+const withEstimate = (stored: number | null) => (stored !== null ? { estimatedHours: stored } : {});
+
+/** Lists saved maps, most recently updated first, optionally filtered by title or topic. */
+export const listLearningMaps = async (search = ''): Promise<LearningMapSummary[]> => {
+  let query = supabase
+    .from('learning_maps')
+    .select('*, branches(count)')
+    .order('updated_at', { ascending: false });
+
+  const term = search.trim().replace(/[%,()]/g, ' ');
+  if (term) {
+    query = query.or(`title.ilike.%${term}%,topic.ilike.%${term}%`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data.map(({ branches, ...row }) => ({
+    ...row,
+    branchCount: branches[0]?.count ?? 0,
+  }));
+};
+
+export const loadLearningMap = async (id: string): Promise<SavedLearningMap> => {
+  const { data, error } = await supabase
+    .from('learning_maps')
+    .select(
+      '*, branches(node_id, name, description, estimated_hours, resources, position, subtopics(id, parent_id, node_id, name, description, estimated_hours, resources, position))',
+    )
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+
+  const { branches, dependencies, ...row } = data;
+  const byPosition = (a: { position: number }, b: { position: number }) => a.position - b.position;
+  const links = dependencies as unknown as Dependency[];
+
+  return {
+    ...row,
+    data: {
+      topic: row.topic,
+      branches: [...branches].sort(byPosition).map((branch) => ({
+        id: branch.node_id,
+        name: branch.name,
+        description: branch.description,
+        ...withEstimate(branch.estimated_hours),
+        ...withResources(branch.resources),
+        subtopics: buildSubtopicTree(branch.subtopics),
+      })),
+      ...(links.length > 0 && { dependencies: links }),
+    },
+  };
+};
+
+type SubtopicRow = Pick<
+  Tables<'subtopics'>,
+  'id' | 'parent_id' | 'node_id' | 'name' | 'description' | 'estimated_hours' | 'resources' | 'position'
+>;
+
+/** Rebuilds the nested subtopics of one branch from its flat rows. */
+const buildSubtopicTree = (rows: SubtopicRow[], parentId: string | null = null): Subtopic[] =>
+  rows
+    .filter((row) => row.parent_id === parentId)
+    .sort((a, b) => a.position - b.position)
+    .map((row) => {
+      const children = buildSubtopicTree(rows, row.id);
+      return {
+        id: row.node_id,
+        name: row.name,
+        description: row.description,
+        ...withEstimate(row.estimated_hours),
+        ...withResources(row.resources),
+        ...(children.length > 0 && { subtopics: children }),
+      };
+    });
+
+/**
+ * Replaces a saved map's tree with `data`, e.g. after expanding a node. It runs
+ * as one transaction, so a failed save leaves the previous tree in place.
+ */
+export const updateLearningMap = async (id: string, data: LearningMapData) => {
+  const { error } = await supabase.rpc('replace_learning_map_tree', { _map_id: id, _data: toJson(data) });
+  if (error) throw error;
+};
+
+type NodeFields = Pick<TablesUpdate<'subtopics'> & TablesUpdate<'branches'>, 'resources' | 'estimated_hours'>;
+
+/** Updates columns of one node without rewriting the rest of the tree. */
+const updateNodeRow = async (mapId: string, nodeId: string, fields: NodeFields) => {
+  // Node ids are unique across a map, so the node is either a subtopic or a branch.
+  const { data: subtopics, error: subtopicError } = await supabase
+    .from('subtopics')
+    .update(fields)
+    .eq('map_id', mapId)
+    .eq('node_id', nodeId)
+    .select('id');
+  if (subtopicError) throw subtopicError;
+  if (subtopics.length > 0) return;
+
+  const { error } = await supabase.from('branches').update(fields).eq('map_id', mapId).eq('node_id', nodeId);
+  if (error) throw error;
+};
+
+/** Saves one node's resource list. */
+export const updateNodeResources = (mapId: string, nodeId: string, resources: Resource[]) =>
+  updateNodeRow(mapId, nodeId, { resources: toJson(resources) });
+
+/** Saves one node's effort estimate; `undefined` clears it. */
+export const updateNodeEstimate = (mapId: string, nodeId: string, estimatedHours: number | undefined) =>
+  updateNodeRow(mapId, nodeId, { estimated_hours: estimatedHours ?? null });
+
+export const renameLearningMap = async (id: string, title: string) => {
+  const { error } = await supabase.from('learning_maps').update({ title: title.trim() }).eq('id', id);
+  if (error) throw error;
+};
+
+export const duplicateLearningMap = async (id: string): Promise<string> => {
+  const original = await loadLearningMap(id);
+  return saveLearningMap({
+    data: original.data,
+    level: original.level as LearningLevel,
+    title: `${original.title} (copy)`,
+  });
+};
+
+export const deleteLearningMap = async (id: string) => {
+  const { error } = await supabase.from('learning_maps').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/** Mints a new public share token for a map, replacing any previous one. */
+export const createShareToken = async (id: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('learning_maps')
+    .update({ share_token: crypto.randomUUID() })
+    .eq('id', id)
+    .select('share_token')
+    .single();
+  if (error) throw error;
+  return data.share_token!;
+};
+
+export const revokeShareToken = async (id: string) => {
+  const { error } = await supabase.from('learning_maps').update({ share_token: null }).eq('id', id);
+  if (error) throw error;
+};
+
+/** Loads a map by share token; works for signed-out visitors. Returns null for unknown tokens. */
+export const loadSharedLearningMap = async (token: string): Promise<SharedLearningMap | null> => {
+  const { data, error } = await supabase.rpc('get_shared_learning_map', { _token: token });
+  if (error) throw error;
+  if (!data) return null;
+
+  const shared = data as { title: string; topic: string; level: LearningLevel; updated_at: string };
+  return {
+    title: shared.title,
+    topic: shared.topic,
+    level: shared.level,
+    updatedAt: shared.updated_at,
+    data: parseLearningMap(data, { repair: false, limits: UNBOUNDED_LIMITS }),
+  };
+};
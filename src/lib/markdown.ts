@@ -0,0 +1,140 @@
+// A small Markdown subset for learner notes: headings, paragraphs, lists,
+// quotes, code blocks, rules, and bold/italic/code/link inlines. It parses to
+// a plain tree that the view renders as React elements, so no HTML from a
+// note is ever injected into the page.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+
+    const [, code, strong, strongAlt, em, emAlt, label, href] = match;
+    if (code !== undefined) nodes.push({ type: 'code', text: code });
+    else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    } else nodes.push({ type: 'link', href, children: parseInline(label) });
+
+    rest = rest.slice(match.index + match[0].length);
+  }
+  return nodes;
+};
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+const RULE = /^(?:-{3,}|\*{3,}|_{3,})\s*$/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  const collect = (pattern: RegExp) => {
+    const items: string[] = [];
+    while (i < lines.length && pattern.test(lines[i])) {
+      items.push(lines[i].replace(pattern, '$1'));
+      i++;
+    }
+    return items;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+    } else if (FENCE.test(line)) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) code.push(lines[i]);
+      i++;
+      blocks.push({ type: 'code', text: code.join('\n') });
+    } else if (HEADING.test(line)) {
+      const [, hashes, text] = HEADING.exec(line)!;
+      blocks.push({ type: 'heading', level: hashes.length as 1 | 2 | 3, children: parseInline(text) });
+      i++;
+    } else if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+    } else if (BULLET.test(line) || NUMBERED.test(line)) {
+      const ordered = !BULLET.test(line);
+      blocks.push({ type: 'list', ordered, items: collect(ordered ? NUMBERED : BULLET).map(parseInline) });
+    } else if (QUOTE.test(line)) {
+      blocks.push({ type: 'quote', children: parseInline(collect(QUOTE).join(' ')) });
+    } else {
+      const text: string[] = [];
+      while (
+        i < lines.length &&
+        lines[i].trim() &&
+        ![FENCE, HEADING, RULE, BULLET, NUMBERED, QUOTE].some((pattern) => pattern.test(lines[i]))
+      ) {
+        text.push(lines[i].trim());
+        i++;
+      }
+      blocks.push({ type: 'paragraph', children: parseInline(text.join(' ')) });
+    }
+  }
+  return blocks;
+};
+
+/** The note as plain text with Markdown syntax stripped, for previews and snippets. */
+export const markdownToText = (source: string): string => {
+  const inlineText = (nodes: MarkdownInline[]): string =>
+    nodes.map((node) => ('children' in node ? inlineText(node.children) : node.text)).join('');
+
+  return parseMarkdown(source)
+    .map((block) => {
+      switch (block.type) {
+        case 'list':
+          return block.items.map(inlineText).join(' ');
+        case 'code':
+          return block.text;
+        case 'rule':
+          return '';
+        default:
+          return inlineText(block.children);
+      }
+    })
+    .filter(Boolean)
+    .join(' ');
+};
+
+/** A short plain-text excerpt of the note centred on the first match of `term`. */
+export const noteExcerpt = (source: string, term: string, radius = 80): string => {
+  const text = markdownToText(source);
+  const words = term.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const lower = text.toLowerCase();
+  const hit = words.map((word) => lower.indexOf(word)).find((index) => index >= 0) ?? 0;
+
+  const start = Math.max(0, hit - radius);
+  const end = Math.min(text.length, hit + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type NoteSearchResult = Database['public']['Functions']['search_node_notes']['Returns'][number];
+
+/** The signed-in user's note on one node, or an empty string if there is none. */
+export const loadNote = async (mapId: string, nodeId: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('node_notes')
+    .select('body')
+    .eq('map_id', mapId)
+    .eq('node_id', nodeId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.body ?? '';
+};
+
+/** Saves a node's note; clearing it removes the row. */
+export const saveNote = async (mapId: string, nodeId: string, body: string) => {
+  if (!body.trim()) {
+    const { error } = await supabase.from('node_notes').delete().eq('map_id', mapId).eq('node_id', nodeId);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase
+    .from('node_notes')
+    .upsert({ map_id: mapId, node_id: nodeId, body }, { onConflict: 'user_id,map_id,node_id' });
+  if (error) throw error;
+};
+
+/** Searches the signed-in user's notes across all of their maps. */
+export const searchNotes = async (query: string): Promise<NoteSearchResult[]> => {
+  const { data, error } = await supabase.rpc('search_node_notes', { _query: query.trim() });
+  if (error) throw error;
+  return data;
+};
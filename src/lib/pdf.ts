@@ -0,0 +1,136 @@
+// A minimal PDF 1.4 writer: pages with a background, one JPEG image and a few
+// lines of Helvetica text each. Enough for paginated map exports without
+// pulling in a PDF library.
+
+/** A baseline JPEG, embedded as-is. */
+export interface PdfImage {
+  data: Uint8Array;
+  /** Pixel size of the JPEG. */
+  width: number;
+  height: number;
+}
+
+/** RGB components from 0 to 1. */
+export type PdfColor = [number, number, number];
+
+export interface PdfText {
+  /** Baseline start, in points from the bottom-left corner. */
+  x: number;
+  y: number;
+  size: number;
+  value: string;
+  color?: PdfColor;
+}
+
+export interface PdfPage {
+  /** Page size in points (1/72 inch). */
+  width: number;
+  height: number;
+  background?: PdfColor;
+  image?: { image: PdfImage; x: number; y: number; width: number; height: number };
+  texts?: PdfText[];
+}
+
+export const A4_LANDSCAPE = { width: 842, height: 595 };
+
+const number = (value: number) => String(Math.round(value * 100) / 100);
+
+const color = (value: PdfColor) => value.map(number).join(' ');
+
+// The standard Helvetica font only covers Latin-1; anything else prints as '?'.
+const literal = (value: string) =>
+  `(${value.replace(/[^\x20-\xff]/g, '?').replace(/[\\()]/g, (char) => `\\${char}`)})`;
+
+// Document info strings are UTF-16BE, so titles keep their characters.
+const unicodeString = (value: string) => {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) hex += value.charCodeAt(i).toString(16).padStart(4, '0');
+  return `<${hex.toUpperCase()}>`;
+};
+
+const latin1 = (value: string) => Uint8Array.from(value, (char) => char.charCodeAt(0) & 0xff);
+
+const pageContent = (page: PdfPage) => {
+  const ops: string[] = [];
+  if (page.background) ops.push(`${color(page.background)} rg 0 0 ${number(page.width)} ${number(page.height)} re f`);
+  if (page.image) {
+    const { x, y, width, height } = page.image;
+    ops.push(`q ${number(width)} 0 0 ${number(height)} ${number(x)} ${number(y)} cm /Im0 Do Q`);
+  }
+  for (const text of page.texts ?? []) {
+    ops.push(
+      `BT ${color(text.color ?? [0, 0, 0])} rg /F1 ${number(text.size)} Tf ${number(text.x)} ${number(text.y)} Td ${literal(text.value)} Tj ET`,
+    );
+  }
+  return ops.join('\n');
+};
+
+/** Serializes the pages into a complete PDF file. */
+export const buildPdf = (pages: PdfPage[], { title }: { title?: string } = {}): Uint8Array => {
+  // Fixed objects first, then three per page: the page, its content stream and its image.
+  const CATALOG = 1;
+  const PAGES = 2;
+  const FONT = 3;
+  const INFO = 4;
+  const pageObject = (index: number) => 5 + index * 3;
+
+  const objects: (string | Uint8Array)[][] = [];
+  objects[CATALOG] = [`<< /Type /Catalog /Pages ${PAGES} 0 R >>`];
+  objects[PAGES] = [
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObject(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+  ];
+  objects[FONT] = ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'];
+  objects[INFO] = [`<< /Producer (AI Learning Pathways)${title ? ` /Title ${unicodeString(title)}` : ''} >>`];
+
+  pages.forEach((page, i) => {
+    const id = pageObject(i);
+    const resources = `/Font << /F1 ${FONT} 0 R >>${page.image ? ` /XObject << /Im0 ${id + 2} 0 R >>` : ''}`;
+    objects[id] = [
+      `<< /Type /Page /Parent ${PAGES} 0 R /MediaBox [0 0 ${number(page.width)} ${number(page.height)}] /Resources << ${resources} >> /Contents ${id + 1} 0 R >>`,
+    ];
+    const content = pageContent(page);
+    objects[id + 1] = [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`];
+    if (page.image) {
+      const { data, width, height } = page.image.image;
+      objects[id + 2] = [
+        `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${data.length} >>\nstream\n`,
+        data,
+        '\nendstream',
+      ];
+    } else {
+      // Keeps object numbering regular; nothing references it.
+      objects[id + 2] = ['null'];
+    }
+  });
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? latin1(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // The binary comment marks the file as binary for transfer tools.
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    objects[id].forEach(write);
+    write('\nendobj\n');
+  }
+
+  const xref = length;
+  write(`xref\n0 ${objects.length}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objects.length; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${objects.length} /Root ${CATALOG} 0 R /Info ${INFO} 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const file = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    file.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return file;
+};
@@ -0,0 +1,71 @@
+import type { LearningMapData, MapNode } from '@shared/learningMap';
+
+export type NodeStatus = 'not_started' | 'in_progress' | 'done' | 'skipped';
+
+export const NODE_STATUSES: NodeStatus[] = ['not_started', 'in_progress', 'done', 'skipped'];
+
+export const NODE_STATUS_LABELS: Record<NodeStatus, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  done: 'Done',
+  skipped: 'Skipped',
+};
+
+/** Status by node id. Nodes that aren't listed haven't been started. */
+export type MapProgress = Record<string, NodeStatus>;
+
+/** The status a quick click on a node moves to; skipping is left to the menu. */
+export const nextStatus = (status: NodeStatus): NodeStatus => {
+  switch (status) {
+    case 'not_started':
+      return 'in_progress';
+    case 'in_progress':
+      return 'done';
+    default:
+      return 'not_started';
+  }
+};
+
+export interface Completion {
+  done: number;
+  /** Nodes that count towards completion, i.e. everything not skipped. */
+  total: number;
+  percent: number;
+}
+
+const toCompletion = (done: number, total: number): Completion => ({
+  done,
+  total,
+  percent: total === 0 ? 0 : Math.round((done / total) * 100),
+});
+
+/**
+ * Completion of every branch (the branch plus everything below it) and of the
+ * whole map under the `main` key. Skipped nodes are left out of the total, and
+ * progress for ids that are no longer in the map is ignored.
+ */
+export const computeCompletion = (map: LearningMapData, progress: MapProgress): Map<string, Completion> => {
+  const result = new Map<string, Completion>();
+  const tally = (node: MapNode): { done: number; total: number } => {
+    const status = progress[node.id] ?? 'not_started';
+    let done = status === 'done' ? 1 : 0;
+    let total = status === 'skipped' ? 0 : 1;
+    for (const child of node.subtopics ?? []) {
+      const counts = tally(child);
+      done += counts.done;
+      total += counts.total;
+    }
+    return { done, total };
+  };
+
+  let done = 0;
+  let total = 0;
+  for (const branch of map.branches) {
+    const counts = tally(branch);
+    result.set(branch.id, toCompletion(counts.done, counts.total));
+    done += counts.done;
+    total += counts.total;
+  }
+  result.set('main', toCompletion(done, total));
+  return result;
+};
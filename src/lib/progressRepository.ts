@@ -0,0 +1,34 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { MapProgress, NodeStatus } from '@/lib/progress';
+
+/** The signed-in user's progress on one of their maps. */
+export const loadProgress = async (mapId: string): Promise<MapProgress> => {
+  const { data, error } = await supabase.from('node_progress').select('node_id, status').eq('map_id', mapId);
+  if (error) throw error;
+  return Object.fromEntries(data.map((row) => [row.node_id, row.status as NodeStatus]));
+};
+
+/** Records a node's status; going back to "not started" removes the row. */
+export const setNodeStatus = async (mapId: string, nodeId: string, status: NodeStatus) => {
+  if (status === 'not_started') {
+    const { error } = await supabase.from('node_progress').delete().eq('map_id', mapId).eq('node_id', nodeId);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase
+    .from('node_progress')
+    .upsert({ map_id: mapId, node_id: nodeId, status }, { onConflict: 'user_id,map_id,node_id' });
+  if (error) throw error;
+};
+
+/** Records several statuses at once, e.g. those carried by an imported file. */
+export const saveProgress = async (mapId: string, progress: MapProgress) => {
+  const rows = Object.entries(progress)
+    .filter(([, status]) => status !== 'not_started')
+    .map(([nodeId, status]) => ({ map_id: mapId, node_id: nodeId, status }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from('node_progress').upsert(rows, { onConflict: 'user_id,map_id,node_id' });
+  if (error) throw error;
+};
@@ -0,0 +1,109 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { qualityFromScore, schedule } from '@/lib/spacedRepetition';
+import type { LearningLevel } from '@shared/learningMap';
+import type { AnswerGrade, QuizQuestion } from '@shared/quiz';
+
+/** A stored quiz question with its spaced-repetition state. */
+export interface ReviewItem {
+  id: string;
+  mapId: string;
+  nodeId: string;
+  question: QuizQuestion;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: string;
+}
+
+/** A due review item with what's needed to show and grade it outside its map. */
+export interface DueReviewItem extends ReviewItem {
+  mapTitle: string;
+  topic: string;
+  level: LearningLevel;
+  nodeName: string;
+}
+
+export interface QuizAnswer extends AnswerGrade {
+  answer: string;
+}
+
+const toReviewItem = (row: {
+  id: string;
+  map_id: string;
+  node_id: string;
+  question: Json;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: string;
+}): ReviewItem => ({
+  id: row.id,
+  mapId: row.map_id,
+  nodeId: row.node_id,
+  question: row.question as unknown as QuizQuestion,
+  easeFactor: row.ease_factor,
+  intervalDays: row.interval_days,
+  repetitions: row.repetitions,
+  dueAt: row.due_at,
+});
+
+/**
+ * Stores a node's quiz questions as review items and returns them in quiz
+ * order. A question that was asked before keeps its review schedule.
+ */
+export const saveQuiz = async (mapId: string, nodeId: string, questions: QuizQuestion[]): Promise<ReviewItem[]> => {
+  const { data, error } = await supabase
+    .from('review_items')
+    .upsert(
+      questions.map((question) => ({
+        map_id: mapId,
+        node_id: nodeId,
+        question_id: question.id,
+        question: question as unknown as Json,
+      })),
+      { onConflict: 'user_id,map_id,node_id,question_id' },
+    )
+    .select();
+  if (error) throw error;
+
+  const items = data.map(toReviewItem);
+  return questions.map((question) => items.find((item) => item.question.id === question.id)!);
+};
+
+/** Records a graded answer and moves the item to its next review date. */
+export const recordAnswer = async (item: ReviewItem, { answer, correct, score, feedback }: QuizAnswer) => {
+  const quality = qualityFromScore(score, correct);
+  const next = schedule(item, quality);
+
+  const { error: attemptError } = await supabase
+    .from('quiz_attempts')
+    .insert({ review_item_id: item.id, answer, correct, score, quality, feedback });
+  if (attemptError) throw attemptError;
+
+  const { error } = await supabase
+    .from('review_items')
+    .update({
+      ease_factor: next.easeFactor,
+      interval_days: next.intervalDays,
+      repetitions: next.repetitions,
+      due_at: next.dueAt.toISOString(),
+      last_reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', item.id);
+  if (error) throw error;
+  return next;
+};
+
+/** The signed-in user's review items that are due now, across all of their maps. */
+export const loadDueReviews = async (): Promise<DueReviewItem[]> => {
+  const { data, error } = await supabase.rpc('due_review_items');
+  if (error) throw error;
+  return data.map((row) => ({
+    ...toReviewItem(row),
+    mapTitle: row.map_title,
+    topic: row.map_topic,
+    level: row.map_level as LearningLevel,
+    nodeName: row.node_name,
+  }));
+};
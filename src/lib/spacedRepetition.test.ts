@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_EASE, MIN_EASE, qualityFromScore, schedule } from './spacedRepetition';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+const FRESH = { easeFactor: INITIAL_EASE, intervalDays: 0, repetitions: 0 };
+
+describe('qualityFromScore', () => {
+  it('rates correct answers 3 to 5 by score', () => {
+    expect(qualityFromScore(1, true)).toBe(5);
+    expect(qualityFromScore(0.8, true)).toBe(4);
+    expect(qualityFromScore(0.6, true)).toBe(3);
+  });
+
+  it('rates wrong answers 0 to 2 by score', () => {
+    expect(qualityFromScore(0.5, false)).toBe(2);
+    expect(qualityFromScore(0.2, false)).toBe(1);
+    expect(qualityFromScore(0, false)).toBe(0);
+  });
+});
+
+describe('schedule', () => {
+  it('reviews after 1, then 6 days, then by the ease factor', () => {
+    const first = schedule(FRESH, 4, NOW);
+    expect(first).toMatchObject({ repetitions: 1, intervalDays: 1, easeFactor: 2.5 });
+
+    const second = schedule(first, 4, NOW);
+    expect(second).toMatchObject({ repetitions: 2, intervalDays: 6 });
+
+    const third = schedule(second, 4, NOW);
+    expect(third).toMatchObject({ repetitions: 3, intervalDays: Math.round(6 * second.easeFactor) });
+  });
+
+  it('sets the due date the interval after now', () => {
+    const next = schedule({ easeFactor: 2.5, intervalDays: 6, repetitions: 2 }, 5, NOW);
+    expect(next.dueAt.getTime() - NOW.getTime()).toBe(next.intervalDays * 24 * 60 * 60 * 1000);
+  });
+
+  it('starts a forgotten item over and lowers its ease', () => {
+    const next = schedule({ easeFactor: 2.5, intervalDays: 15, repetitions: 3 }, 1, NOW);
+    expect(next).toMatchObject({ repetitions: 0, intervalDays: 1 });
+    expect(next.easeFactor).toBeLessThan(2.5);
+  });
+
+  it('raises the ease after a perfect answer', () => {
+    expect(schedule(FRESH, 5, NOW).easeFactor).toBe(2.6);
+  });
+
+  it('never lets the ease drop below the minimum', () => {
+    let state = { ...FRESH };
+    for (let i = 0; i < 10; i++) state = schedule(state, 0, NOW);
+    expect(state.easeFactor).toBe(MIN_EASE);
+  });
+
+  it('clamps and rounds out-of-range ratings', () => {
+    expect(schedule(FRESH, 9, NOW)).toEqual(schedule(FRESH, 5, NOW));
+    expect(schedule(FRESH, -3, NOW)).toEqual(schedule(FRESH, 0, NOW));
+    expect(schedule(FRESH, 3.4, NOW)).toEqual(schedule(FRESH, 3, NOW));
+  });
+});
@@ -0,0 +1,46 @@
+// SM-2 spaced repetition. Each answer is rated 0-5; ratings of 3 and up count
+// as recalled and push the next review further out, anything lower starts the
+// item over while still lowering its ease.
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: Date;
+}
+
+export const INITIAL_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The SM-2 rating for a graded answer. */
+export const qualityFromScore = (score: number, correct: boolean): number => {
+  if (!correct) return score >= 0.4 ? 2 : score > 0 ? 1 : 0;
+  return score >= 0.9 ? 5 : score >= 0.75 ? 4 : 3;
+};
+
+/** The next review for an item, given its current state and a 0-5 rating. */
+export const schedule = (
+  state: Pick<ReviewSchedule, 'easeFactor' | 'intervalDays' | 'repetitions'>,
+  quality: number,
+  now = new Date(),
+): ReviewSchedule => {
+  const q = Math.min(5, Math.max(0, Math.round(quality)));
+  const easeFactor = Math.max(MIN_EASE, state.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  let repetitions = 0;
+  let intervalDays = 1;
+  if (q >= 3) {
+    repetitions = state.repetitions + 1;
+    intervalDays =
+      repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(Math.max(1, state.intervalDays) * easeFactor);
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+};
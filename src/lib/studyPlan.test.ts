@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { LearningMapData, Subtopic } from '@shared/learningMap';
+import { buildStudyPlan, MAX_PLAN_WEEKS, studyOrder } from './studyPlan';
+
+const START = new Date(2026, 0, 5);
+
+const node = (id: string, estimatedHours?: number, subtopics?: Subtopic[]): Subtopic => ({
+  id,
+  name: id,
+  description: '',
+  ...(estimatedHours !== undefined && { estimatedHours }),
+  ...(subtopics && { subtopics }),
+});
+
+const MAP: LearningMapData = {
+  topic: 'Rust',
+  branches: [
+    { ...node('ownership', 3), subtopics: [node('borrowing', 2), node('lifetimes', 4)] },
+    { ...node('basics', 2), subtopics: [node('variables', 1)] },
+  ],
+  dependencies: [{ from: 'basics', to: 'ownership', kind: 'prerequisite' }],
+};
+
+const ids = (map: LearningMapData) => studyOrder(map).map((entry) => entry.id);
+
+describe('studyOrder', () => {
+  it('keeps tree order when nothing needs to wait', () => {
+    expect(ids({ ...MAP, dependencies: [] })).toEqual(['ownership', 'borrowing', 'lifetimes', 'basics', 'variables']);
+  });
+
+  it('moves a node after its prerequisites and its subtopics after it', () => {
+    expect(ids(MAP)).toEqual(['basics', 'ownership', 'borrowing', 'lifetimes', 'variables']);
+  });
+
+  it('places every node once even when prerequisites form a cycle', () => {
+    const order = ids({
+      ...MAP,
+      dependencies: [
+        { from: 'basics', to: 'ownership', kind: 'prerequisite' },
+        { from: 'ownership', to: 'basics', kind: 'prerequisite' },
+      ],
+    });
+    expect(order[0]).toBe('ownership');
+    expect([...order].sort()).toEqual(['basics', 'borrowing', 'lifetimes', 'ownership', 'variables']);
+  });
+});
+
+describe('buildStudyPlan', () => {
+  it('fills each week up to the budget and carries the rest of a node over', () => {
+    const plan = buildStudyPlan(MAP, { startDate: START, hoursPerWeek: 4 });
+
+    expect(plan.totalHours).toBe(12);
+    expect(plan.weeks.map((week) => week.hours)).toEqual([4, 4, 4]);
+    expect(plan.weeks[0].sessions).toEqual([
+      { nodeId: 'basics', name: 'basics', hours: 2, continued: false },
+      { nodeId: 'ownership', name: 'ownership', hours: 2, continued: false },
+    ]);
+    expect(plan.weeks[1].sessions).toEqual([
+      { nodeId: 'ownership', name: 'ownership', hours: 1, continued: true },
+      { nodeId: 'borrowing', name: 'borrowing', hours: 2, continued: false },
+      { nodeId: 'lifetimes', name: 'lifetimes', hours: 1, continued: false },
+    ]);
+    expect(plan.weeks[2].sessions).toEqual([
+      { nodeId: 'lifetimes', name: 'lifetimes', hours: 3, continued: true },
+      { nodeId: 'variables', name: 'variables', hours: 1, continued: false },
+    ]);
+  });
+
+  it('numbers the weeks and dates them a week apart', () => {
+    const [first, second] = buildStudyPlan(MAP, { startDate: START, hoursPerWeek: 5 }).weeks;
+    expect(first).toMatchObject({ number: 1, start: START, end: new Date(2026, 0, 11) });
+    expect(second).toMatchObject({ number: 2, start: new Date(2026, 0, 12), end: new Date(2026, 0, 18) });
+  });
+
+  it('leaves out done and skipped nodes', () => {
+    const plan = buildStudyPlan(MAP, {
+      startDate: START,
+      hoursPerWeek: 10,
+      progress: { basics: 'done', lifetimes: 'skipped', variables: 'in_progress' },
+    });
+    expect(plan.totalHours).toBe(6);
+    expect(plan.weeks[0].sessions.map((session) => session.nodeId)).toEqual(['ownership', 'borrowing', 'variables']);
+  });
+
+  it('plans nodes without an estimate at the default effort and lists them', () => {
+    const map: LearningMapData = { topic: 'T', branches: [{ ...node('a'), subtopics: [node('b', 2)] }] };
+    const plan = buildStudyPlan(map, { startDate: START, hoursPerWeek: 5, defaultHours: 1.5 });
+    expect(plan.unestimated).toEqual(['a']);
+    expect(plan.totalHours).toBe(3.5);
+  });
+
+  it('plans nothing without an hours budget', () => {
+    expect(buildStudyPlan(MAP, { startDate: START, hoursPerWeek: 0 }).weeks).toEqual([]);
+  });
+
+  it('stops after the last plannable week', () => {
+    const map: LearningMapData = { topic: 'T', branches: [{ ...node('huge', 300), subtopics: [node('more', 20)] }] };
+    const plan = buildStudyPlan(map, { startDate: START, hoursPerWeek: 1 });
+    expect(plan.weeks).toHaveLength(MAX_PLAN_WEEKS);
+    expect(plan.totalHours).toBe(320);
+    expect(plan.unplannedHours).toBe(320 - MAX_PLAN_WEEKS);
+  });
+});
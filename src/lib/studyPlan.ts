@@ -0,0 +1,141 @@
+import { addDays } from 'date-fns';
+import type { LearningMapData, MapNode } from '@shared/learningMap';
+import { walkNodes } from '@shared/mapTree';
+import type { MapProgress } from '@/lib/progress';
+
+/** Study time for one node within a week. A node bigger than what's left of a week continues the next. */
+export interface PlanSession {
+  nodeId: string;
+  name: string;
+  hours: number;
+  /** True when this picks up a node started in an earlier week. */
+  continued: boolean;
+}
+
+export interface PlanWeek {
+  /** 1-based week number. */
+  number: number;
+  start: Date;
+  /** The last day of the week. */
+  end: Date;
+  hours: number;
+  sessions: PlanSession[];
+}
+
+export interface StudyPlan {
+  weeks: PlanWeek[];
+  totalHours: number;
+  /** Hours that didn't fit within `MAX_PLAN_WEEKS`. */
+  unplannedHours: number;
+  /** Nodes planned with the default effort because they have no estimate. */
+  unestimated: string[];
+}
+
+export interface StudyPlanOptions {
+  startDate: Date;
+  hoursPerWeek: number;
+  /** Done and skipped nodes are left out. */
+  progress?: MapProgress;
+  /** Effort assumed for nodes without an estimate. */
+  defaultHours?: number;
+}
+
+/** The hours-per-week range the planner offers. */
+export const MIN_HOURS_PER_WEEK = 1;
+export const MAX_HOURS_PER_WEEK = 80;
+
+/** Plans stop after this many weeks, about five years. */
+export const MAX_PLAN_WEEKS = 260;
+
+// Leftovers smaller than this (rounding, odd budgets) don't open another session.
+const EPSILON = 1 / 8;
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+/**
+ * Orders the map for study: tree order (each node before its subtopics),
+ * except that a node waits until all of its prerequisites have been placed.
+ * Prerequisite cycles can't be honoured, so the earliest waiting node goes next.
+ */
+export const studyOrder = (map: LearningMapData): MapNode[] => {
+  const nodes: MapNode[] = [];
+  const parentOf = new Map<string, string | null>();
+  walkNodes(map, ({ node, parent }) => {
+    nodes.push(node);
+    parentOf.set(node.id, parent?.id ?? null);
+  });
+
+  const prerequisites = new Map<string, string[]>();
+  for (const { from, to, kind } of map.dependencies ?? []) {
+    if (kind === 'prerequisite') prerequisites.set(to, [...(prerequisites.get(to) ?? []), from]);
+  }
+
+  const placed = new Set<string>();
+  const ordered: MapNode[] = [];
+  const isReady = (node: MapNode) => {
+    const parent = parentOf.get(node.id);
+    return (!parent || placed.has(parent)) && (prerequisites.get(node.id) ?? []).every((id) => placed.has(id));
+  };
+
+  while (ordered.length < nodes.length) {
+    const waiting = nodes.filter((node) => !placed.has(node.id));
+    const next = waiting.find(isReady) ?? waiting[0];
+    placed.add(next.id);
+    ordered.push(next);
+  }
+  return ordered;
+};
+
+/**
+ * Lays the map out over weeks from `startDate`, filling each week up to
+ * `hoursPerWeek`. Whatever doesn't fit in `MAX_PLAN_WEEKS` is left unplanned.
+ */
+export const buildStudyPlan = (
+  map: LearningMapData,
+  { startDate, hoursPerWeek, progress = {}, defaultHours = 1 }: StudyPlanOptions,
+): StudyPlan => {
+  const unestimated: string[] = [];
+  const weeks: PlanWeek[] = [];
+  let totalHours = 0;
+  let unplannedHours = 0;
+
+  const openWeek = () => {
+    const start = addDays(startDate, weeks.length * 7);
+    const week: PlanWeek = { number: weeks.length + 1, start, end: addDays(start, 6), hours: 0, sessions: [] };
+    weeks.push(week);
+    return week;
+  };
+
+  if (hoursPerWeek <= 0) return { weeks, totalHours, unplannedHours, unestimated };
+
+  let week: PlanWeek | null = null;
+  for (const node of studyOrder(map)) {
+    const status = progress[node.id];
+    if (status === 'done' || status === 'skipped') continue;
+
+    if (node.estimatedHours === undefined) unestimated.push(node.id);
+    let remaining = node.estimatedHours ?? defaultHours;
+    totalHours += remaining;
+
+    let continued = false;
+    while (remaining > EPSILON) {
+      if (!week || hoursPerWeek - week.hours <= EPSILON) {
+        if (weeks.length >= MAX_PLAN_WEEKS) {
+          unplannedHours += remaining;
+          break;
+        }
+        week = openWeek();
+      }
+      const hours = Math.min(remaining, hoursPerWeek - week.hours);
+      week.sessions.push({ nodeId: node.id, name: node.name, hours: round(hours), continued });
+      week.hours = round(week.hours + hours);
+      remaining -= hours;
+      continued = true;
+    }
+  }
+
+  return { weeks, totalHours: round(totalHours), unplannedHours: round(unplannedHours), unestimated };
+};
+
+/** "1.5h", "3h" */
+export const formatHours = (hours: number) => `${round(hours)}h`;
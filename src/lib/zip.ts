@@ -0,0 +1,125 @@
+// Just enough ZIP support for mind-map packages: writing uncompressed
+// archives, and reading stored or deflated entries (the latter through the
+// browser's DecompressionStream). No ZIP64, encryption or multi-disk archives.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_DIRECTORY = 0x06054b50;
+// Bit 11 marks names as UTF-8.
+const UTF8_FLAG = 0x0800;
+
+/** True when `data` starts like a ZIP archive. */
+export const isZip = (data: Uint8Array) =>
+  data.length >= 4 && new DataView(data.buffer, data.byteOffset, 4).getUint32(0, true) === LOCAL_HEADER;
+
+/** Packs the entries into an archive without compressing them. */
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const records = entries.map((entry) => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+  const localSize = records.reduce((sum, record) => sum + 30 + record.nameBytes.length + record.data.length, 0);
+  const centralSize = records.reduce((sum, record) => sum + 46 + record.nameBytes.length, 0);
+  const archive = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(archive.buffer);
+
+  let offset = 0;
+  const offsets: number[] = [];
+  for (const record of records) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_HEADER, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint32(offset + 14, record.crc, true);
+    view.setUint32(offset + 18, record.data.length, true);
+    view.setUint32(offset + 22, record.data.length, true);
+    view.setUint16(offset + 26, record.nameBytes.length, true);
+    archive.set(record.nameBytes, offset + 30);
+    archive.set(record.data, offset + 30 + record.nameBytes.length);
+    offset += 30 + record.nameBytes.length + record.data.length;
+  }
+
+  const directoryStart = offset;
+  records.forEach((record, i) => {
+    view.setUint32(offset, CENTRAL_HEADER, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint32(offset + 16, record.crc, true);
+    view.setUint32(offset + 20, record.data.length, true);
+    view.setUint32(offset + 24, record.data.length, true);
+    view.setUint16(offset + 28, record.nameBytes.length, true);
+    view.setUint32(offset + 42, offsets[i], true);
+    archive.set(record.nameBytes, offset + 46);
+    offset += 46 + record.nameBytes.length;
+  });
+
+  view.setUint32(offset, END_OF_DIRECTORY, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, offset - directoryStart, true);
+  view.setUint32(offset + 16, directoryStart, true);
+  return archive;
+};
+
+const inflate = async (data: Uint8Array) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot unpack compressed files.');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Unpacks every file in the archive, keyed by its path. */
+export const readZip = async (data: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end-of-directory record sits at the end, followed by a comment of up to 64 KiB.
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('The archive is damaged.');
+
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+  let offset = view.getUint32(end + 16, true);
+  for (let count = view.getUint16(end + 10, true); count > 0; count--) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER) throw new Error('The archive is damaged.');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    // Local headers repeat the name and may carry a different extra field.
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const contents = data.subarray(start, start + compressedSize);
+    if (method === 0) files.set(name, contents);
+    else if (method === 8) files.set(name, await inflate(contents));
+    else throw new Error(`"${name}" uses an unsupported compression method.`);
+  }
+  return files;
+};
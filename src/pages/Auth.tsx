@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Navigate, useLocation, type Location } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { KeyRound, Loader2, Mail, Map, Sparkles } from 'lucide-react';
+
+type PasswordMode = 'sign-in' | 'sign-up';
+
+const Auth = () => {
+  const { user, loading: authLoading } = useAuth();
+  const location = useLocation();
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<PasswordMode>('sign-in');
+  const [submitting, setSubmitting] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}` : '/';
+
+  if (!authLoading && user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    if (!email.trim()) {
+      toast({ title: 'Email required', description: 'Please enter your email address.', variant: 'destructive' });
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Authentication error:', error);
+      toast({
+        title: 'Authentication failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePassword = () =>
+    run(async () => {
+      if (mode === 'sign-in') {
+        const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+        if (error) throw error;
+        return;
+      }
+
+      const { data, error } = await supabase.auth.signUp({
+        email: email.trim(),
+        password,
+        options: { emailRedirectTo: `${window.location.origin}${redirectTo}` },
+      });
+      if (error) throw error;
+      if (!data.session) {
+        toast({
+          title: 'Check your inbox',
+          description: `We sent a confirmation link to ${email.trim()}.`,
+        });
+      }
+    });
+
+  const handleMagicLink = () =>
+    run(async () => {
+      const { error } = await supabase.auth.signInWithOtp({
+        email: email.trim(),
+        options: { emailRedirectTo: `${window.location.origin}${redirectTo}` },
+      });
+      if (error) throw error;
+      setMagicLinkSent(true);
+    });
+
+  const emailField = (
+    <div className="space-y-2">
+      <Label htmlFor="email">Email</Label>
+      <Input
+        id="email"
+        type="email"
+        autoComplete="email"
+        placeholder="you@example.com"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        disabled={submitting}
+        className="h-12 glass-effect border-2 border-primary/20 focus:border-primary transition-all duration-300"
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen relative overflow-hidden flex items-center justify-center px-4">
+      <div className="fixed inset-0 bg-gradient-mesh opacity-60 pointer-events-none" />
+      <div className="fixed inset-0 bg-background/80 backdrop-blur-3xl pointer-events-none" />
+      <div className="fixed top-20 left-20 w-96 h-96 bg-primary/20 rounded-full blur-3xl animate-float pointer-events-none" />
+
+      <Card className="relative w-full max-w-md glass-effect border-2 border-primary/20 shadow-glow animate-fade-in-up">
+        <CardHeader className="text-center space-y-4">
+          <div className="mx-auto w-14 h-14 rounded-2xl bg-gradient-primary flex items-center justify-center shadow-medium">
+            <Map className="w-8 h-8 text-primary-foreground" />
+          </div>
+          <CardTitle className="text-3xl font-display">
+            {mode === 'sign-in' ? 'Welcome back' : 'Create your account'}
+          </CardTitle>
+          <CardDescription className="flex items-center justify-center gap-2">
+            <Sparkles className="w-4 h-4 text-accent" />
+            Sign in to generate and keep your learning maps
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="password" className="space-y-6">
+            <TabsList className="grid grid-cols-2 w-full">
+              <TabsTrigger value="password">
+                <KeyRound className="w-4 h-4 mr-2" />
+                Password
+              </TabsTrigger>
+              <TabsTrigger value="magic-link">
+                <Mail className="w-4 h-4 mr-2" />
+                Magic link
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password" className="space-y-4">
+              {emailField}
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && !submitting && handlePassword()}
+                  disabled={submitting}
+                  className="h-12 glass-effect border-2 border-primary/20 focus:border-primary transition-all duration-300"
+                />
+              </div>
+              <Button
+                onClick={handlePassword}
+                disabled={submitting || !password}
+                className="w-full h-12 font-bold bg-gradient-primary hover:shadow-glow transition-all duration-300"
+              >
+                {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {mode === 'sign-in' ? 'Sign in' : 'Sign up'}
+              </Button>
+              <p className="text-sm text-center text-muted-foreground">
+                {mode === 'sign-in' ? "Don't have an account?" : 'Already have an account?'}{' '}
+                <button
+                  type="button"
+                  className="text-primary font-semibold hover:underline"
+                  onClick={() => setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in')}
+                >
+                  {mode === 'sign-in' ? 'Sign up' : 'Sign in'}
+                </button>
+              </p>
+            </TabsContent>
+
+            <TabsContent value="magic-link" className="space-y-4">
+              {magicLinkSent ? (
+                <p className="text-center text-foreground/80 py-6">
+                  Check <span className="font-semibold">{email.trim()}</span> for a sign-in link.
+                </p>
+              ) : (
+                <>
+                  {emailField}
+                  <Button
+                    onClick={handleMagicLink}
+                    disabled={submitting}
+                    className="w-full h-12 font-bold bg-gradient-primary hover:shadow-glow transition-all duration-300"
+                  >
+                    {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Email me a sign-in link
+                  </Button>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
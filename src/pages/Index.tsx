@@ -1,33 +1,101 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AppHeader } from '@/components/AppHeader';
 import { LearningMapFlow } from '@/components/LearningMapFlow';
-import { supabase } from '@/integrations/supabase/client';
+import { MapTitleCard } from '@/components/MapTitleCard';
+import { MapWorkspace } from '@/components/MapWorkspace';
+import { GenerationErrorAlert } from '@/components/GenerationErrorAlert';
+import { GenerationQuotaNote } from '@/components/GenerationQuotaNote';
+import { MapHistoryControls } from '@/components/MapHistoryControls';
+import { NodeDetailPanel } from '@/components/NodeDetailPanel';
+import { useMapHistory } from '@/hooks/use-map-history';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Sparkles, BookOpen, Map, Zap, Brain, TrendingUp, Star } from 'lucide-react';
-
-interface LearningMapData {
-  topic: string;
-  branches: Array<{
-    id: string;
-    name: string;
-    description: string;
-    subtopics: Array<{
-      id: string;
-      name: string;
-      description: string;
-    }>;
-  }>;
-}
+import {
+  useExpandLearningMapNode,
+  useGenerateNodeResources,
+  useGenerationQuota,
+  useMapProgress,
+  useSaveLearningMap,
+  useSetNodeStatus,
+  useUpdateLearningMap,
+  useUpdateNodeEstimate,
+  useUpdateNodeResources,
+} from '@/hooks/use-learning-maps';
+import { describeGenerationError } from '@/lib/generationErrors';
+import { applyStreamEvent, streamLearningMap } from '@/lib/learningMapStream';
+import type { MapCommand } from '@/lib/mapHistory';
+import { NODE_STATUS_LABELS, type NodeStatus } from '@/lib/progress';
+import { Loader2, Sparkles, BookOpen, Map, Zap, Brain, TrendingUp, Star, XCircle, ExternalLink } from 'lucide-react';
+import { type LearningLevel, type LearningMapData, parseLearningMap, type Resource } from '@shared/learningMap';
+import { findNode, totalMapHours } from '@shared/mapTree';
 
 const Index = () => {
   const [topic, setTopic] = useState('');
-  const [level, setLevel] = useState<'beginner' | 'intermediate' | 'advanced'>('beginner');
+  const [level, setLevel] = useState<LearningLevel>('beginner');
   const [loading, setLoading] = useState(false);
+  const [generationError, setGenerationError] = useState<unknown>(null);
   const [learningMap, setLearningMap] = useState<LearningMapData | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const [savedMapId, setSavedMapId] = useState<string | null>(null);
+  // Keys the history of a map that couldn't be saved; saved maps share theirs with the map page.
+  const [generationId, setGenerationId] = useState<string>();
+  const saveMap = useSaveLearningMap();
+  const expandNode = useExpandLearningMapNode();
+  const { data: progress } = useMapProgress(savedMapId);
+  const setNodeStatus = useSetNodeStatus(savedMapId);
+  const generateResources = useGenerateNodeResources();
+  const updateResources = useUpdateNodeResources();
+  const updateEstimate = useUpdateNodeEstimate();
+  const updateMap = useUpdateLearningMap();
+  const { data: quota } = useGenerationQuota();
+  const [focusedNodeId, setFocusedNodeId] = useState<string>();
+
+  const selectedNode = learningMap && focusedNodeId ? findNode(learningMap, focusedNodeId) : null;
+  const nodeName = (nodeId: string) => (learningMap && findNode(learningMap, nodeId)?.name) ?? nodeId;
+
+  // Tree changes replayed from the history are shown at once and saved when the map is.
+  const applyCommand = async (command: MapCommand) => {
+    switch (command.kind) {
+      case 'tree':
+        if (savedMapId) await updateMap.mutateAsync({ id: savedMapId, data: command.after });
+        setLearningMap(command.after);
+        return;
+      case 'status':
+        if (savedMapId) await setNodeStatus.mutateAsync({ nodeId: command.nodeId, status: command.after });
+        return;
+      case 'positions':
+        // Nodes can't be dragged here, so there are no positions to restore.
+        return;
+    }
+  };
+
+  const history = useMapHistory(savedMapId ?? (generationId && `unsaved-${generationId}`), {
+    apply: applyCommand,
+    onError: (error) =>
+      toast({
+        title: 'Could not restore that version',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      }),
+  });
+
+  const recordTree = (label: string, before: LearningMapData, after: LearningMapData) =>
+    history.record(label, { kind: 'tree', before, after });
+
+  const autoSave = async (map: LearningMapData) => {
+    try {
+      setSavedMapId(await saveMap.mutateAsync({ data: map, level }));
+      return true;
+    } catch (error) {
+      console.error('Error saving learning map:', error);
+      return false;
+    }
+  };
 
   const handleGenerate = async () => {
     if (!topic.trim()) {
@@ -39,39 +107,187 @@ const Index = () => {
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
+    setGenerationError(null);
     setLearningMap(null);
+    setSavedMapId(null);
+    setGenerationId(crypto.randomUUID());
+    setFocusedNodeId(undefined);
 
     try {
-      const { data, error } = await supabase.functions.invoke('generate-learning-map', {
-        body: { topic, level },
-      });
+      let map: LearningMapData | null = null;
 
-      if (error) {
-        throw error;
-      }
+      await streamLearningMap({
+        topic,
+        level,
+        signal: controller.signal,
+        onEvent: (event) => {
+          if (event.type === 'done') {
+            map = parseLearningMap(event.map, { repair: false });
+          }
+          setLearningMap((current) => applyStreamEvent(current, event));
+        },
+      });
 
-      if (!data || !data.branches) {
-        throw new Error('Invalid learning map structure received');
+      if (!map) {
+        throw new Error('The learning map stream ended before the map was complete');
       }
 
-      setLearningMap(data);
+      const saved = await autoSave(map);
       toast({
         title: '✨ Learning map generated!',
-        description: `Explore the interactive map for "${data.topic}"`,
+        description: saved
+          ? `Explore the interactive map for "${map.topic}" — it's saved in My Maps.`
+          : `Explore the interactive map for "${map.topic}". It couldn't be saved to My Maps.`,
       });
-    } catch (error: any) {
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast({
+          title: 'Generation cancelled',
+          description: 'Showing the part of the map generated so far.',
+        });
+        return;
+      }
       console.error('Error generating learning map:', error);
+      setGenerationError(error);
+    } finally {
+      abortRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const handleExpand = async (nodeId: string) => {
+    if (!learningMap) return;
+    try {
+      const expanded = await expandNode.mutateAsync({
+        mapId: savedMapId ?? undefined,
+        map: learningMap,
+        level,
+        nodeId,
+      });
+      setLearningMap(expanded);
+      recordTree(`Expanded "${nodeName(nodeId)}"`, learningMap, expanded);
+      toast({
+        title: 'Node expanded',
+        description: `Added a deeper level under "${findNode(expanded, nodeId)?.name}".`,
+      });
+    } catch (error) {
+      console.error('Error expanding node:', error);
       toast({
-        title: 'Generation failed',
-        description: error.message || 'Failed to generate learning map. Please try again.',
+        title: 'Expand failed',
+        description: error instanceof Error ? error.message : 'Failed to expand this node. Please try again.',
+        ...describeGenerationError(error),
         variant: 'destructive',
       });
-    } finally {
-      setLoading(false);
     }
   };
 
+  const handleStatusChange = (nodeId: string, status: NodeStatus) => {
+    const before = progress?.[nodeId] ?? 'not_started';
+    setNodeStatus.mutate(
+      { nodeId, status },
+      {
+        onSuccess: () =>
+          history.record(`Marked "${nodeName(nodeId)}" as ${NODE_STATUS_LABELS[status].toLowerCase()}`, {
+            kind: 'status',
+            nodeId,
+            before,
+            after: status,
+          }),
+        onError: (error) =>
+          toast({
+            title: 'Progress not saved',
+            description: error instanceof Error ? error.message : 'Please try again.',
+            variant: 'destructive',
+          }),
+      },
+    );
+  };
+
+  const handleGenerateResources = async (nodeId: string) => {
+    if (!learningMap) return;
+    try {
+      const updated = await generateResources.mutateAsync({
+        mapId: savedMapId ?? undefined,
+        map: learningMap,
+        level,
+        nodeId,
+      });
+      setLearningMap(updated);
+      recordTree(`Found resources for "${nodeName(nodeId)}"`, learningMap, updated);
+    } catch (error) {
+      console.error('Error finding resources:', error);
+      toast({
+        title: 'Could not find resources',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        ...describeGenerationError(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleResourcesChange = async (nodeId: string, resources: Resource[]) => {
+    if (!learningMap) return;
+    try {
+      const updated = await updateResources.mutateAsync({
+        mapId: savedMapId ?? undefined,
+        map: learningMap,
+        nodeId,
+        resources,
+      });
+      setLearningMap(updated);
+      recordTree(`Updated resources for "${nodeName(nodeId)}"`, learningMap, updated);
+    } catch (error) {
+      console.error('Error saving resources:', error);
+      toast({
+        title: 'Resources not saved',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleEstimateChange = async (nodeId: string, hours: number | undefined) => {
+    if (!learningMap) return;
+    try {
+      const updated = await updateEstimate.mutateAsync({ mapId: savedMapId ?? undefined, map: learningMap, nodeId, hours });
+      setLearningMap(updated);
+      recordTree(`Changed the estimate for "${nodeName(nodeId)}"`, learningMap, updated);
+    } catch (error) {
+      console.error('Error saving estimate:', error);
+      toast({
+        title: 'Estimate not saved',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Rethrows so the dialog keeps the proposal up when saving fails.
+  const handleRegenerate = async (nodeId: string, next: LearningMapData) => {
+    if (!learningMap) return;
+    try {
+      if (savedMapId) await updateMap.mutateAsync({ id: savedMapId, data: next });
+      setLearningMap(next);
+      recordTree(`Regenerated "${nodeName(nodeId)}"`, learningMap, next);
+      toast({ title: 'Branch regenerated', description: `"${findNode(next, nodeId)?.name}" has been rewritten.` });
+    } catch (error) {
+      console.error('Error saving regenerated branch:', error);
+      toast({
+        title: 'Branch not saved',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !loading) {
       handleGenerate();
@@ -96,29 +312,7 @@ const Index = () => {
       <div className="fixed bottom-20 right-20 w-96 h-96 bg-secondary/20 rounded-full blur-3xl animate-float [animation-delay:2s] pointer-events-none" />
       <div className="fixed top-1/2 left-1/2 w-96 h-96 bg-accent/20 rounded-full blur-3xl animate-float [animation-delay:4s] pointer-events-none" />
 
-      {/* Header */}
-      <header className="relative border-b border-border/50 glass-effect sticky top-0 z-50 shadow-medium">
-        <div className="container mx-auto px-4 py-6">
-          <div className="flex items-center gap-4 animate-slide-in">
-            <div className="relative group">
-              <div className="absolute inset-0 bg-gradient-primary rounded-2xl blur-xl group-hover:blur-2xl transition-all duration-500 opacity-70" />
-              <div className="relative w-14 h-14 rounded-2xl bg-gradient-primary flex items-center justify-center shadow-medium transform group-hover:scale-110 transition-transform duration-300">
-                <Map className="w-8 h-8 text-primary-foreground" />
-              </div>
-            </div>
-            <div>
-              <h1 className="text-3xl font-display font-bold text-gradient animate-shimmer" 
-                  style={{ backgroundSize: '200% 100%', backgroundImage: 'linear-gradient(90deg, hsl(var(--primary)), hsl(var(--secondary)), hsl(var(--accent)), hsl(var(--primary)))' }}>
-                AI Learning Pathways
-              </h1>
-              <p className="text-sm text-muted-foreground mt-1 flex items-center gap-2">
-                <Sparkles className="w-4 h-4 text-accent animate-pulse" />
-                Visualize your learning journey with AI
-              </p>
-            </div>
-          </div>
-        </div>
-      </header>
+      <AppHeader />
 
       <main className="relative container mx-auto px-4 py-12 max-w-7xl">
         {/* Input Section */}
@@ -156,7 +350,7 @@ const Index = () => {
                   <TrendingUp className="w-4 h-4 text-secondary" />
                   Learning Level
                 </label>
-                <Select value={level} onValueChange={(v: any) => setLevel(v)} disabled={loading}>
+                <Select value={level} onValueChange={(v) => setLevel(v as LearningLevel)} disabled={loading}>
                   <SelectTrigger className="h-14 glass-effect border-2 border-secondary/20 focus:border-secondary focus:ring-4 focus:ring-secondary/20 transition-all duration-300">
                     <SelectValue />
                   </SelectTrigger>
@@ -177,7 +371,7 @@ const Index = () => {
 
             <Button
               onClick={handleGenerate}
-              disabled={loading}
+              disabled={loading || quota?.remaining === 0}
               className="w-full h-14 text-lg font-bold bg-gradient-primary hover:shadow-glow transform hover:scale-[1.02] active:scale-[0.98] transition-all duration-300 relative overflow-hidden group/btn"
               size="lg"
             >
@@ -198,6 +392,21 @@ const Index = () => {
               </div>
             </Button>
 
+            {loading && (
+              <Button
+                variant="outline"
+                onClick={handleCancel}
+                className="w-full h-12 glass-effect border-2 border-destructive/30 hover:border-destructive hover:bg-destructive/10 transition-all duration-300"
+              >
+                <XCircle className="h-5 w-5 mr-2 text-destructive" />
+                Cancel generation
+              </Button>
+            )}
+
+            {generationError != null && !loading && <GenerationErrorAlert error={generationError} onRetry={handleGenerate} />}
+
+            {quota && <GenerationQuotaNote quota={quota} />}
+
             {/* Example Topics */}
             <div className="pt-4 border-t border-border/30">
               <p className="text-sm text-muted-foreground mb-3 flex items-center gap-2">
@@ -229,24 +438,70 @@ const Index = () => {
         {/* Learning Map Visualization */}
         {learningMap && (
           <div className="animate-fade-in-up space-y-6">
-            <div className="glass-effect p-8 rounded-2xl border-2 border-primary/20 shadow-glow">
-              <div className="flex items-start justify-between mb-6">
-                <div className="space-y-2">
-                  <h2 className="text-4xl font-display font-bold text-gradient" 
-                      style={{ backgroundImage: 'linear-gradient(135deg, hsl(var(--primary)), hsl(var(--secondary)))' }}>
-                    {learningMap.topic}
-                  </h2>
-                  <p className="text-muted-foreground flex items-center gap-2">
-                    <Map className="w-5 h-5 text-accent" />
-                    Explore {learningMap.branches.length} main learning areas below
-                  </p>
-                </div>
-                <div className="px-6 py-3 rounded-xl glass-effect border-2 border-accent/30 animate-pulse-glow">
-                  <span className="text-sm font-bold text-accent uppercase tracking-wider">Interactive</span>
-                </div>
-              </div>
-            </div>
-            <LearningMapFlow data={learningMap} />
+            <MapTitleCard
+              title={learningMap.topic}
+              branchCount={learningMap.branches.length}
+              totalHours={totalMapHours(learningMap)}
+              actions={
+                loading ? undefined : (
+                  <div className="flex flex-wrap gap-2">
+                    <MapHistoryControls
+                      history={history.history}
+                      busy={history.busy}
+                      canUndo={history.canUndo}
+                      canRedo={history.canRedo}
+                      onUndo={history.undo}
+                      onRedo={history.redo}
+                      onJump={history.jumpTo}
+                    />
+                    {savedMapId && (
+                      <Button asChild className="bg-gradient-primary hover:shadow-glow transition-all duration-300">
+                        <Link to={`/map/${savedMapId}`}>
+                          <ExternalLink className="w-4 h-4 mr-2" />
+                          Open & share
+                        </Link>
+                      </Button>
+                    )}
+                  </div>
+                )
+              }
+            />
+            <MapWorkspace
+              onCloseDetail={() => setFocusedNodeId(undefined)}
+              detail={
+                selectedNode && !loading && (
+                  <NodeDetailPanel
+                    key={selectedNode.id}
+                    map={learningMap}
+                    nodeId={selectedNode.id}
+                    onClose={() => setFocusedNodeId(undefined)}
+                    onNodeFocus={setFocusedNodeId}
+                    status={savedMapId ? progress?.[selectedNode.id] ?? 'not_started' : undefined}
+                    onStatusChange={(status) => handleStatusChange(selectedNode.id, status)}
+                    onEstimateChange={(hours) => handleEstimateChange(selectedNode.id, hours)}
+                    onResourcesChange={(resources) => handleResourcesChange(selectedNode.id, resources)}
+                    onGenerateResources={() => handleGenerateResources(selectedNode.id)}
+                    generatingResources={
+                      generateResources.isPending && generateResources.variables?.nodeId === selectedNode.id
+                    }
+                    notesMapId={savedMapId ?? undefined}
+                    quiz={savedMapId ? { mapId: savedMapId, level } : undefined}
+                    regenerate={{ level, onAccept: (next) => handleRegenerate(selectedNode.id, next) }}
+                  />
+                )
+              }
+            >
+              <LearningMapFlow
+                data={learningMap}
+                level={level}
+                focusedNodeId={focusedNodeId}
+                onNodeFocus={setFocusedNodeId}
+                onExpandNode={loading ? undefined : handleExpand}
+                expandingNodeId={expandNode.isPending ? expandNode.variables?.nodeId : undefined}
+                progress={savedMapId ? progress : undefined}
+                onStatusChange={savedMapId ? handleStatusChange : undefined}
+              />
+            </MapWorkspace>
           </div>
         )}
 
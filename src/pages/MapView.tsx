@@ -0,0 +1,365 @@
+import { Link, useParams } from 'react-router-dom';
+import { AppHeader } from '@/components/AppHeader';
+import { LearningMapFlow } from '@/components/LearningMapFlow';
+import { MapHistoryControls } from '@/components/MapHistoryControls';
+import { MapTitleCard } from '@/components/MapTitleCard';
+import { MapWorkspace } from '@/components/MapWorkspace';
+import { NodeDetailPanel } from '@/components/NodeDetailPanel';
+import { ShareMapDialog } from '@/components/ShareMapDialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  useExpandLearningMapNode,
+  useGenerateNodeResources,
+  useLearningMap,
+  useMapProgress,
+  useSetNodeStatus,
+  useUpdateLearningMap,
+  useUpdateNodeEstimate,
+  useUpdateNodeResources,
+} from '@/hooks/use-learning-maps';
+import { useMapHistory } from '@/hooks/use-map-history';
+import { useMapUrlState } from '@/hooks/use-map-url-state';
+import { useSessionState } from '@/hooks/use-session-state';
+import { useToast } from '@/hooks/use-toast';
+import { describeGenerationError } from '@/lib/generationErrors';
+import { type MapCommand, NO_POSITIONS, type NodePositions } from '@/lib/mapHistory';
+import { NODE_STATUS_LABELS, type NodeStatus } from '@/lib/progress';
+import type { LearningLevel, LearningMapData, Resource } from '@shared/learningMap';
+import { findNode, setNodeEstimate, setNodeResources, totalMapHours } from '@shared/mapTree';
+import { CalendarRange, Library, Loader2, Pencil, Save, X } from 'lucide-react';
+
+const MapView = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: map, isLoading, error } = useLearningMap(id);
+  const { initialViewport, focusedNodeId, setViewport, setFocusedNodeId } = useMapUrlState();
+  const expandNode = useExpandLearningMapNode();
+  const { data: progress } = useMapProgress(id);
+  const setNodeStatus = useSetNodeStatus(id);
+  const generateResources = useGenerateNodeResources();
+  const updateResources = useUpdateNodeResources();
+  const updateEstimate = useUpdateNodeEstimate();
+  const saveEdits = useUpdateLearningMap();
+  const { toast } = useToast();
+  // The edited tree while in edit mode; nothing is saved until the learner asks.
+  const [draft, setDraft] = useSessionState<LearningMapData | null>(`learning-map-draft:${id}`, null);
+  // The last history entry before edit mode, so discarding can drop what came after.
+  const [editBase, setEditBase] = useSessionState<string | null>(`learning-map-edit-base:${id}`, null);
+  const [positions, setPositions] = useSessionState<NodePositions>(`learning-map-positions:${id}`, NO_POSITIONS);
+
+  const data = draft ?? map?.data;
+  const selectedNode = data && focusedNodeId ? findNode(data, focusedNodeId) : null;
+  const nodeName = (nodeId: string) => (data && findNode(data, nodeId)?.name) ?? nodeId;
+
+  const showError = (title: string) => (error: unknown) =>
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again.',
+      ...describeGenerationError(error),
+      variant: 'destructive',
+    });
+
+  // Tree changes replayed from the history go to the draft in edit mode and are saved otherwise.
+  const applyCommand = async (command: MapCommand) => {
+    switch (command.kind) {
+      case 'tree':
+        if (draft) setDraft(command.after);
+        else if (map) await saveEdits.mutateAsync({ id: map.id, data: command.after });
+        return;
+      case 'status':
+        await setNodeStatus.mutateAsync({ nodeId: command.nodeId, status: command.after });
+        return;
+      case 'positions':
+        setPositions(command.after);
+        return;
+    }
+  };
+
+  const history = useMapHistory(id, { apply: applyCommand, onError: showError('Could not restore that version') });
+
+  const recordTree = (label: string, before: LearningMapData, after: LearningMapData) =>
+    history.record(label, { kind: 'tree', before, after });
+
+  const editDraft = (next: LearningMapData, label: string) => {
+    if (!draft) return;
+    recordTree(label, draft, next);
+    setDraft(next);
+  };
+
+  const handlePositionsChange = (next: NodePositions, label: string) => {
+    history.record(label, { kind: 'positions', before: positions, after: next });
+    setPositions(next);
+  };
+
+  const handleStatusChange = (nodeId: string, status: NodeStatus) => {
+    const before = progress?.[nodeId] ?? 'not_started';
+    setNodeStatus.mutate(
+      { nodeId, status },
+      {
+        onSuccess: () =>
+          history.record(`Marked "${nodeName(nodeId)}" as ${NODE_STATUS_LABELS[status].toLowerCase()}`, {
+            kind: 'status',
+            nodeId,
+            before,
+            after: status,
+          }),
+        onError: showError('Progress not saved'),
+      },
+    );
+  };
+
+  const handleExpand = async (nodeId: string) => {
+    if (!map) return;
+    try {
+      const expanded = await expandNode.mutateAsync({
+        mapId: map.id,
+        map: map.data,
+        level: map.level as LearningLevel,
+        nodeId,
+      });
+      recordTree(`Expanded "${nodeName(nodeId)}"`, map.data, expanded);
+      toast({
+        title: 'Node expanded',
+        description: `Added a deeper level under "${findNode(expanded, nodeId)?.name}".`,
+      });
+    } catch (error) {
+      console.error('Error expanding node:', error);
+      showError('Expand failed')(error);
+    }
+  };
+
+  const handleGenerateResources = async (nodeId: string) => {
+    if (!map) return;
+    try {
+      const updated = await generateResources.mutateAsync({
+        mapId: draft ? undefined : map.id,
+        map: draft ?? map.data,
+        level: map.level as LearningLevel,
+        nodeId,
+      });
+      const label = `Found resources for "${nodeName(nodeId)}"`;
+      if (draft) editDraft(setNodeResources(draft, nodeId, findNode(updated, nodeId)?.resources ?? []), label);
+      else recordTree(label, map.data, updated);
+    } catch (error) {
+      console.error('Error finding resources:', error);
+      showError('Could not find resources')(error);
+    }
+  };
+
+  const handleResourcesChange = (nodeId: string, resources: Resource[]) => {
+    if (!map) return;
+    const label = `Updated resources for "${nodeName(nodeId)}"`;
+    if (draft) {
+      editDraft(setNodeResources(draft, nodeId, resources), label);
+      return;
+    }
+    updateResources.mutate(
+      { mapId: map.id, map: map.data, nodeId, resources },
+      {
+        onSuccess: (updated) => recordTree(label, map.data, updated),
+        onError: showError('Resources not saved'),
+      },
+    );
+  };
+
+  const handleEstimateChange = (nodeId: string, hours: number | undefined) => {
+    if (!map) return;
+    const label = `Changed the estimate for "${nodeName(nodeId)}"`;
+    if (draft) {
+      editDraft(setNodeEstimate(draft, nodeId, hours), label);
+      return;
+    }
+    updateEstimate.mutate(
+      { mapId: map.id, map: map.data, nodeId, hours },
+      {
+        onSuccess: (updated) => recordTree(label, map.data, updated),
+        onError: showError('Estimate not saved'),
+      },
+    );
+  };
+
+  // Rethrows so the dialog keeps the proposal up when saving fails.
+  const handleRegenerate = async (nodeId: string, next: LearningMapData) => {
+    if (!map) return;
+    const label = `Regenerated "${nodeName(nodeId)}"`;
+    if (draft) {
+      editDraft(next, label);
+      return;
+    }
+    try {
+      await saveEdits.mutateAsync({ id: map.id, data: next });
+      recordTree(label, map.data, next);
+      toast({ title: 'Branch regenerated', description: `"${findNode(next, nodeId)?.name}" has been rewritten.` });
+    } catch (error) {
+      console.error('Error saving regenerated branch:', error);
+      showError('Branch not saved')(error);
+      throw error;
+    }
+  };
+
+  const startEditing = () => {
+    if (!map) return;
+    setEditBase(history.history.entries[history.history.cursor - 1]?.id ?? null);
+    setDraft(map.data);
+  };
+
+  // The draft was never saved, so neither were the history entries made while editing.
+  const discardEdits = () => {
+    history.discardAfter(editBase);
+    setDraft(null);
+    setEditBase(null);
+  };
+
+  const handleSaveEdits = async () => {
+    if (!map || !draft) return;
+    try {
+      await saveEdits.mutateAsync({ id: map.id, data: draft });
+      setDraft(null);
+      setEditBase(null);
+      toast({ title: 'Map saved', description: 'Your changes are in your library.' });
+    } catch (error) {
+      console.error('Error saving map:', error);
+      showError('Map not saved')(error);
+    }
+  };
+
+  const historyControls = (
+    <MapHistoryControls
+      history={history.history}
+      busy={history.busy}
+      canUndo={history.canUndo}
+      canRedo={history.canRedo}
+      onUndo={history.undo}
+      onRedo={history.redo}
+      onJump={history.jumpTo}
+    />
+  );
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      <div className="fixed inset-0 bg-gradient-mesh opacity-60 pointer-events-none" />
+      <div className="fixed inset-0 bg-background/80 backdrop-blur-3xl pointer-events-none" />
+
+      <AppHeader />
+
+      <main className="relative container mx-auto px-4 py-12 max-w-7xl space-y-6">
+        {isLoading && (
+          <>
+            <Skeleton className="h-36 rounded-2xl" />
+            <Skeleton className="h-[750px] rounded-3xl" />
+          </>
+        )}
+
+        {(error || (!isLoading && !map)) && (
+          <Card className="border-2 border-dashed border-primary/20 glass-effect">
+            <CardContent className="py-16 text-center space-y-4">
+              <p className="text-lg text-foreground/70">This map doesn't exist or you don't have access to it.</p>
+              <Button asChild variant="outline">
+                <Link to="/maps">
+                  <Library className="w-4 h-4 mr-2" />
+                  Back to My Maps
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {map && data && (
+          <div className="animate-fade-in-up space-y-6">
+            <MapTitleCard
+              title={map.title}
+              branchCount={data.branches.length}
+              totalHours={totalMapHours(data)}
+              actions={
+                draft ? (
+                  <div className="flex flex-wrap gap-2">
+                    {historyControls}
+                    <Button variant="outline" onClick={discardEdits} disabled={saveEdits.isPending}>
+                      <X className="w-4 h-4 mr-2" />
+                      Discard changes
+                    </Button>
+                    <Button
+                      onClick={handleSaveEdits}
+                      disabled={saveEdits.isPending}
+                      className="bg-gradient-primary hover:shadow-glow transition-all duration-300"
+                    >
+                      {saveEdits.isPending ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Save className="w-4 h-4 mr-2" />
+                      )}
+                      Save changes
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {historyControls}
+                    <Button variant="outline" onClick={startEditing}>
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button asChild variant="outline">
+                      <Link to={`/map/${map.id}/plan`}>
+                        <CalendarRange className="w-4 h-4 mr-2" />
+                        Plan
+                      </Link>
+                    </Button>
+                    <ShareMapDialog mapId={map.id} shareToken={map.share_token} />
+                  </div>
+                )
+              }
+            />
+            <MapWorkspace
+              onCloseDetail={() => setFocusedNodeId(undefined)}
+              detail={
+                selectedNode && (
+                  <NodeDetailPanel
+                    key={selectedNode.id}
+                    map={data}
+                    nodeId={selectedNode.id}
+                    onClose={() => setFocusedNodeId(undefined)}
+                    onNodeFocus={setFocusedNodeId}
+                    status={progress?.[selectedNode.id] ?? 'not_started'}
+                    onStatusChange={(status) => handleStatusChange(selectedNode.id, status)}
+                    onEstimateChange={(hours) => handleEstimateChange(selectedNode.id, hours)}
+                    onResourcesChange={(resources) => handleResourcesChange(selectedNode.id, resources)}
+                    onGenerateResources={() => handleGenerateResources(selectedNode.id)}
+                    generatingResources={
+                      generateResources.isPending && generateResources.variables?.nodeId === selectedNode.id
+                    }
+                    notesMapId={map.id}
+                    quiz={{ mapId: map.id, level: map.level as LearningLevel }}
+                    regenerate={{
+                      level: map.level as LearningLevel,
+                      onAccept: (next) => handleRegenerate(selectedNode.id, next),
+                    }}
+                  />
+                )
+              }
+            >
+              <LearningMapFlow
+                data={data}
+                title={map.title}
+                level={map.level as LearningLevel}
+                initialViewport={initialViewport}
+                focusedNodeId={focusedNodeId}
+                onViewportChange={setViewport}
+                onNodeFocus={setFocusedNodeId}
+                onExpandNode={draft ? undefined : handleExpand}
+                expandingNodeId={expandNode.isPending ? expandNode.variables?.nodeId : undefined}
+                progress={progress}
+                onStatusChange={handleStatusChange}
+                onEdit={draft ? editDraft : undefined}
+                positions={positions}
+                onPositionsChange={handlePositionsChange}
+              />
+            </MapWorkspace>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default MapView;
@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { AppHeader } from '@/components/AppHeader';
+import { ImportMapDialog } from '@/components/ImportMapDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useDeleteLearningMap,
+  useDuplicateLearningMap,
+  useLearningMaps,
+  useNoteSearch,
+  useRenameLearningMap,
+} from '@/hooks/use-learning-maps';
+import type { LearningMapSummary } from '@/lib/mapRepository';
+import { noteExcerpt } from '@/lib/markdown';
+import { Copy, ExternalLink, Library, NotebookPen, Pencil, Search, Sparkles, Trash2 } from 'lucide-react';
+
+const levelLabels: Record<string, string> = {
+  beginner: '🌱 Beginner',
+  intermediate: '🚀 Intermediate',
+  advanced: '⚡ Advanced',
+};
+
+const MyMaps = () => {
+  const [search, setSearch] = useState('');
+  const [renaming, setRenaming] = useState<LearningMapSummary | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [deleting, setDeleting] = useState<LearningMapSummary | null>(null);
+  const { toast } = useToast();
+
+  const { data: maps, isLoading, error } = useLearningMaps(search);
+  const { data: notes } = useNoteSearch(search);
+  const renameMap = useRenameLearningMap();
+  const duplicateMap = useDuplicateLearningMap();
+  const deleteMap = useDeleteLearningMap();
+
+  const reportError = (title: string, err: unknown) => {
+    console.error(title, err);
+    toast({
+      title,
+      description: err instanceof Error ? err.message : 'Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const handleRename = async () => {
+    if (!renaming || !newTitle.trim()) return;
+    try {
+      await renameMap.mutateAsync({ id: renaming.id, title: newTitle });
+      toast({ title: 'Map renamed', description: `Now called "${newTitle.trim()}".` });
+      setRenaming(null);
+    } catch (err) {
+      reportError('Rename failed', err);
+    }
+  };
+
+  const handleDuplicate = async (map: LearningMapSummary) => {
+    try {
+      await duplicateMap.mutateAsync(map.id);
+      toast({ title: 'Map duplicated', description: `Created a copy of "${map.title}".` });
+    } catch (err) {
+      reportError('Duplicate failed', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteMap.mutateAsync(deleting.id);
+      toast({ title: 'Map deleted', description: `"${deleting.title}" was removed from your library.` });
+    } catch (err) {
+      reportError('Delete failed', err);
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      <div className="fixed inset-0 bg-gradient-mesh opacity-60 pointer-events-none" />
+      <div className="fixed inset-0 bg-background/80 backdrop-blur-3xl pointer-events-none" />
+
+      <AppHeader />
+
+      <main className="relative container mx-auto px-4 py-12 max-w-7xl space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 animate-fade-in-up">
+          <div className="space-y-2">
+            <h2 className="text-4xl font-display font-bold text-gradient"
+                style={{ backgroundImage: 'linear-gradient(135deg, hsl(var(--primary)), hsl(var(--secondary)))' }}>
+              My Maps
+            </h2>
+            <p className="text-muted-foreground flex items-center gap-2">
+              <Library className="w-5 h-5 text-accent" />
+              Every map you generate or import is saved here automatically
+            </p>
+          </div>
+          <div className="flex gap-3 w-full md:w-auto">
+            <div className="relative flex-1 md:w-80">
+              <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search maps and notes..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="h-12 pl-11 glass-effect border-2 border-primary/20 focus:border-primary transition-all duration-300"
+              />
+            </div>
+            <ImportMapDialog />
+          </div>
+        </div>
+
+        {isLoading && (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {[0, 1, 2].map((i) => (
+              <Skeleton key={i} className="h-48 rounded-2xl" />
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <Card className="border-2 border-destructive/30 glass-effect">
+            <CardContent className="py-10 text-center text-destructive">
+              Couldn't load your maps: {error instanceof Error ? error.message : 'unknown error'}
+            </CardContent>
+          </Card>
+        )}
+
+        {maps && maps.length === 0 && (
+          <Card className="border-2 border-dashed border-primary/20 glass-effect animate-fade-in-up">
+            <CardContent className="py-16 text-center space-y-4">
+              <p className="text-lg text-foreground/70">
+                {search.trim() ? `No maps match "${search.trim()}".` : 'No saved maps yet.'}
+              </p>
+              <Button asChild className="bg-gradient-primary hover:shadow-glow">
+                <Link to="/">
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  Generate a learning map
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {maps && maps.length > 0 && (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {maps.map((map) => (
+              <Card
+                key={map.id}
+                className="glass-effect border-2 border-primary/20 hover:border-primary/50 shadow-soft hover:shadow-medium transition-all duration-300 animate-fade-in-up"
+              >
+                <CardHeader className="space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <CardTitle className="font-display text-xl leading-tight">{map.title}</CardTitle>
+                    <Badge variant="secondary" className="bg-primary/10 text-primary border-primary/30 shrink-0">
+                      {levelLabels[map.level] ?? map.level}
+                    </Badge>
+                  </div>
+                  <CardDescription>
+                    {map.topic} · {map.branchCount} branches · updated{' '}
+                    {formatDistanceToNow(new Date(map.updated_at), { addSuffix: true })}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                  <Button asChild size="sm" className="bg-gradient-primary hover:shadow-glow">
+                    <Link to={`/map/${map.id}`}>
+                      <ExternalLink className="w-4 h-4 mr-2" />
+                      Open
+                    </Link>
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setRenaming(map);
+                      setNewTitle(map.title);
+                    }}
+                  >
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Rename
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDuplicate(map)}
+                    disabled={duplicateMap.isPending}
+                  >
+                    <Copy className="w-4 h-4 mr-2" />
+                    Duplicate
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setDeleting(map)}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {notes && notes.length > 0 && (
+          <section className="space-y-4 animate-fade-in-up">
+            <h3 className="font-display text-2xl font-bold flex items-center gap-2">
+              <NotebookPen className="w-5 h-5 text-accent" />
+              Notes matching "{search.trim()}"
+            </h3>
+            <div className="grid gap-4 md:grid-cols-2">
+              {notes.map((note) => (
+                <Link
+                  key={`${note.map_id}:${note.node_id}`}
+                  to={`/map/${note.map_id}?focus=${encodeURIComponent(note.node_id)}`}
+                  className="block rounded-2xl glass-effect border-2 border-primary/20 hover:border-primary/50 p-5 space-y-2 shadow-soft hover:shadow-medium transition-all duration-300"
+                >
+                  <div className="flex items-baseline justify-between gap-3">
+                    <p className="font-semibold leading-tight">{note.node_name}</p>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {formatDistanceToNow(new Date(note.updated_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <p className="text-xs text-accent">{note.map_title}</p>
+                  <p className="text-sm text-foreground/70">{noteExcerpt(note.body, search)}</p>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename map</DialogTitle>
+            <DialogDescription>Give "{renaming?.title}" a name you'll recognise later.</DialogDescription>
+          </DialogHeader>
+          <Input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={!newTitle.trim() || renameMap.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The map and all of its branches will be permanently removed. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default MyMaps;
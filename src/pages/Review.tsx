@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AppHeader } from '@/components/AppHeader';
+import { QuizQuestionCard } from '@/components/QuizQuestionCard';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useDueReviews } from '@/hooks/use-learning-maps';
+import type { DueReviewItem } from '@/lib/quizRepository';
+import { CalendarCheck, GraduationCap, Library, RotateCcw } from 'lucide-react';
+
+const Review = () => {
+  const { data: due, isLoading, error } = useDueReviews();
+  // The items being reviewed are fixed when a session starts, so answered items
+  // leaving the due list don't shift the question on screen.
+  const [session, setSession] = useState<DueReviewItem[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [correct, setCorrect] = useState(0);
+
+  const start = () => {
+    setSession(due ?? []);
+    setIndex(0);
+    setCorrect(0);
+  };
+
+  const mapCount = new Set(due?.map((item) => item.mapId)).size;
+  const current = session?.[index];
+  const finished = !!session && index >= session.length;
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      <div className="fixed inset-0 bg-gradient-mesh opacity-60 pointer-events-none" />
+      <div className="fixed inset-0 bg-background/80 backdrop-blur-3xl pointer-events-none" />
+
+      <AppHeader />
+
+      <main className="relative container mx-auto px-4 py-12 max-w-3xl space-y-8">
+        <div className="space-y-2 animate-fade-in-up">
+          <h2 className="text-4xl font-display font-bold text-gradient"
+              style={{ backgroundImage: 'linear-gradient(135deg, hsl(var(--primary)), hsl(var(--secondary)))' }}>
+            Review
+          </h2>
+          <p className="text-muted-foreground flex items-center gap-2">
+            <CalendarCheck className="w-5 h-5 text-accent" />
+            Quiz questions come back here when they're due, spaced out as you get them right
+          </p>
+        </div>
+
+        {isLoading && <Skeleton className="h-64 rounded-2xl" />}
+
+        {error && (
+          <Card className="border-2 border-destructive/30 glass-effect">
+            <CardContent className="py-10 text-center text-destructive">
+              Couldn't load your reviews: {error instanceof Error ? error.message : 'unknown error'}
+            </CardContent>
+          </Card>
+        )}
+
+        {!session && due && due.length === 0 && (
+          <Card className="border-2 border-dashed border-primary/20 glass-effect animate-fade-in-up">
+            <CardContent className="py-16 text-center space-y-4">
+              <p className="text-lg text-foreground/70">Nothing to review right now.</p>
+              <p className="text-sm text-muted-foreground">
+                Open a node on one of your maps and choose "Quiz me" to add questions.
+              </p>
+              <Button asChild variant="outline">
+                <Link to="/maps">
+                  <Library className="w-4 h-4 mr-2" />
+                  Go to My Maps
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {!session && due && due.length > 0 && (
+          <Card className="glass-effect border-2 border-primary/20 animate-fade-in-up">
+            <CardContent className="py-12 text-center space-y-4">
+              <p className="text-5xl font-display font-bold">{due.length}</p>
+              <p className="text-foreground/70">
+                {due.length === 1 ? 'question is' : 'questions are'} due from {mapCount}{' '}
+                {mapCount === 1 ? 'map' : 'maps'}
+              </p>
+              <Button onClick={start} className="bg-gradient-primary hover:shadow-glow">
+                <GraduationCap className="w-4 h-4 mr-2" />
+                Start review
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {current && session && (
+          <Card className="glass-effect border-2 border-primary/20 animate-fade-in-up">
+            <CardHeader className="space-y-3">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {index + 1} of {session.length}
+                </p>
+                <Progress value={(index / session.length) * 100} className="h-1.5" />
+              </div>
+              <CardTitle className="font-display text-lg">{current.nodeName}</CardTitle>
+              <CardDescription>
+                <Link to={`/map/${current.mapId}?focus=${encodeURIComponent(current.nodeId)}`} className="hover:underline">
+                  {current.mapTitle}
+                </Link>
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <QuizQuestionCard
+                key={current.id}
+                item={current}
+                topic={current.topic}
+                level={current.level}
+                onAnswered={(grade) => grade.correct && setCorrect((count) => count + 1)}
+                onNext={() => setIndex((value) => value + 1)}
+                nextLabel={index + 1 < session.length ? 'Next question' : 'Finish'}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {finished && session && (
+          <Card className="glass-effect border-2 border-primary/20 animate-fade-in-up">
+            <CardContent className="py-12 text-center space-y-4">
+              <p className="text-5xl font-display font-bold">
+                {correct} / {session.length}
+              </p>
+              <p className="text-foreground/70">answered correctly this session</p>
+              <Button variant="outline" onClick={() => setSession(null)}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Back to reviews
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Review;
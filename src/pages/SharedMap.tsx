@@ -0,0 +1,101 @@
+import { Link, useParams } from 'react-router-dom';
+import { LearningMapFlow } from '@/components/LearningMapFlow';
+import { MapTitleCard } from '@/components/MapTitleCard';
+import { MapWorkspace } from '@/components/MapWorkspace';
+import { NodeDetailPanel } from '@/components/NodeDetailPanel';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useSharedLearningMap } from '@/hooks/use-learning-maps';
+import { useMapUrlState } from '@/hooks/use-map-url-state';
+import { findNode, totalMapHours } from '@shared/mapTree';
+import { Eye, Map, Sparkles } from 'lucide-react';
+
+/** Public, read-only view of a map opened through a share link. */
+const SharedMap = () => {
+  const { token } = useParams<{ token: string }>();
+  const { data: shared, isLoading, error } = useSharedLearningMap(token);
+  const { initialViewport, focusedNodeId, setViewport, setFocusedNodeId } = useMapUrlState();
+  const selectedNode = shared && focusedNodeId ? findNode(shared.data, focusedNodeId) : null;
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      <div className="fixed inset-0 bg-gradient-mesh opacity-60 pointer-events-none" />
+      <div className="fixed inset-0 bg-background/80 backdrop-blur-3xl pointer-events-none" />
+
+      <header className="relative border-b border-border/50 glass-effect sticky top-0 z-50 shadow-medium">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-primary flex items-center justify-center shadow-medium">
+              <Map className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <span className="font-display font-bold text-lg">AI Learning Pathways</span>
+            <span className="hidden sm:flex items-center gap-1 text-xs font-semibold text-accent uppercase tracking-wider px-3 py-1 rounded-lg border border-accent/30">
+              <Eye className="w-3 h-3" />
+              Read-only
+            </span>
+          </div>
+          <Button asChild size="sm" className="bg-gradient-primary hover:shadow-glow">
+            <Link to="/">
+              <Sparkles className="w-4 h-4 mr-2" />
+              Create your own
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="relative container mx-auto px-4 py-12 max-w-7xl space-y-6">
+        {isLoading && (
+          <>
+            <Skeleton className="h-36 rounded-2xl" />
+            <Skeleton className="h-[750px] rounded-3xl" />
+          </>
+        )}
+
+        {(error || (!isLoading && !shared)) && (
+          <Card className="border-2 border-dashed border-primary/20 glass-effect">
+            <CardContent className="py-16 text-center text-lg text-foreground/70">
+              This share link is invalid or has been revoked.
+            </CardContent>
+          </Card>
+        )}
+
+        {shared && (
+          <div className="animate-fade-in-up space-y-6">
+            <MapTitleCard
+              title={shared.title}
+              branchCount={shared.data.branches.length}
+              totalHours={totalMapHours(shared.data)}
+            />
+            <MapWorkspace
+              onCloseDetail={() => setFocusedNodeId(undefined)}
+              detail={
+                selectedNode && (
+                  <NodeDetailPanel
+                    key={selectedNode.id}
+                    map={shared.data}
+                    nodeId={selectedNode.id}
+                    onClose={() => setFocusedNodeId(undefined)}
+                    onNodeFocus={setFocusedNodeId}
+                  />
+                )
+              }
+            >
+              <LearningMapFlow
+                data={shared.data}
+                title={shared.title}
+                level={shared.level}
+                initialViewport={initialViewport}
+                focusedNodeId={focusedNodeId}
+                onViewportChange={setViewport}
+                onNodeFocus={setFocusedNodeId}
+              />
+            </MapWorkspace>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedMap;
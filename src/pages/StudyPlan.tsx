@@ -0,0 +1,255 @@
+import { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format, isWithinInterval, startOfToday } from 'date-fns';
+import { AppHeader } from '@/components/AppHeader';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { useLearningMap, useMapProgress } from '@/hooks/use-learning-maps';
+import { downloadFile, fileSlug } from '@/lib/download';
+import { studyPlanToICalendar } from '@/lib/icalendar';
+import {
+  buildStudyPlan,
+  formatHours,
+  MAX_HOURS_PER_WEEK,
+  MAX_PLAN_WEEKS,
+  MIN_HOURS_PER_WEEK,
+  type PlanWeek,
+} from '@/lib/studyPlan';
+import { cn } from '@/lib/utils';
+import { ArrowLeft, CalendarDays, CalendarRange, Download, Library, TriangleAlert } from 'lucide-react';
+
+const DEFAULT_HOURS_PER_WEEK = 5;
+
+const weekRange = (week: PlanWeek) => `${format(week.start, 'MMM d')} – ${format(week.end, 'MMM d')}`;
+
+const StudyPlan = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: map, isLoading, error } = useLearningMap(id);
+  const { data: progress } = useMapProgress(id);
+  const [startDate, setStartDate] = useState(startOfToday);
+  const [hoursInput, setHoursInput] = useState(String(DEFAULT_HOURS_PER_WEEK));
+  const [skipFinished, setSkipFinished] = useState(true);
+  const [selectedWeek, setSelectedWeek] = useState<number>();
+  const [month, setMonth] = useState<Date>();
+
+  const hoursEntered = Number(hoursInput);
+  const hoursPerWeek =
+    hoursEntered > 0 ? Math.min(Math.max(hoursEntered, MIN_HOURS_PER_WEEK), MAX_HOURS_PER_WEEK) : 0;
+
+  const plan = useMemo(
+    () =>
+      map &&
+      buildStudyPlan(map.data, {
+        startDate,
+        hoursPerWeek,
+        progress: skipFinished ? progress : undefined,
+      }),
+    [map, startDate, hoursPerWeek, skipFinished, progress],
+  );
+
+  const weekOf = (day: Date) => plan?.weeks.find((week) => isWithinInterval(day, { start: week.start, end: week.end }));
+  const focused = plan?.weeks.find((week) => week.number === selectedWeek);
+  const finish = plan?.weeks[plan.weeks.length - 1];
+
+  const handleExport = () => {
+    if (!map || !plan) return;
+    const ics = studyPlanToICalendar(plan, { title: map.title, uidPrefix: map.id });
+    downloadFile(`${fileSlug(map.title)}-plan.ics`, ics, 'text/calendar');
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      <div className="fixed inset-0 bg-gradient-mesh opacity-60 pointer-events-none" />
+      <div className="fixed inset-0 bg-background/80 backdrop-blur-3xl pointer-events-none" />
+
+      <AppHeader />
+
+      <main className="relative container mx-auto px-4 py-12 max-w-7xl space-y-6">
+        {isLoading && (
+          <>
+            <Skeleton className="h-36 rounded-2xl" />
+            <Skeleton className="h-[500px] rounded-3xl" />
+          </>
+        )}
+
+        {(error || (!isLoading && !map)) && (
+          <Card className="border-2 border-dashed border-primary/20 glass-effect">
+            <CardContent className="py-16 text-center space-y-4">
+              <p className="text-lg text-foreground/70">This map doesn't exist or you don't have access to it.</p>
+              <Button asChild variant="outline">
+                <Link to="/maps">
+                  <Library className="w-4 h-4 mr-2" />
+                  Back to My Maps
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {map && plan && (
+          <div className="animate-fade-in-up space-y-6">
+            <div className="glass-effect p-8 rounded-2xl border-2 border-primary/20 shadow-glow flex flex-col md:flex-row md:items-start justify-between gap-6">
+              <div className="space-y-2">
+                <h2 className="text-4xl font-display font-bold text-gradient"
+                    style={{ backgroundImage: 'linear-gradient(135deg, hsl(var(--primary)), hsl(var(--secondary)))' }}>
+                  Study plan: {map.title}
+                </h2>
+                <p className="text-muted-foreground flex items-center gap-2">
+                  <CalendarRange className="w-5 h-5 text-accent" />
+                  {plan.weeks.length > 0 && finish
+                    ? `${formatHours(plan.totalHours)} over ${plan.weeks.length} ${plan.weeks.length === 1 ? 'week' : 'weeks'}, finishing around ${format(finish.end, 'EEEE, MMM d, yyyy')}`
+                    : 'Nothing left to schedule'}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button asChild variant="outline">
+                  <Link to={`/map/${map.id}`}>
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    Back to map
+                  </Link>
+                </Button>
+                <Button
+                  onClick={handleExport}
+                  disabled={plan.weeks.length === 0}
+                  className="bg-gradient-primary hover:shadow-glow transition-all duration-300"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export .ics
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-[auto_1fr]">
+              <Card className="glass-effect border-2 border-primary/20 h-fit">
+                <CardContent className="space-y-5 pt-6">
+                  <div className="space-y-2">
+                    <Label>Start date</Label>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button variant="outline" className="w-full justify-start font-normal">
+                          <CalendarDays className="w-4 h-4 mr-2" />
+                          {format(startDate, 'PPP')}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={startDate}
+                          onSelect={(day) => {
+                            if (!day) return;
+                            setStartDate(day);
+                            setMonth(day);
+                          }}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hours-per-week">Hours per week</Label>
+                    <Input
+                      id="hours-per-week"
+                      type="number"
+                      inputMode="decimal"
+                      min={MIN_HOURS_PER_WEEK}
+                      max={MAX_HOURS_PER_WEEK}
+                      step={0.5}
+                      value={hoursInput}
+                      onChange={(e) => setHoursInput(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="skip-finished">Leave out done and skipped nodes</Label>
+                    <Switch id="skip-finished" checked={skipFinished} onCheckedChange={setSkipFinished} />
+                  </div>
+
+                  {plan.unestimated.length > 0 && (
+                    <p className="flex gap-2 text-xs text-muted-foreground">
+                      <TriangleAlert className="w-4 h-4 shrink-0 text-accent" />
+                      {plan.unestimated.length} {plan.unestimated.length === 1 ? 'node has' : 'nodes have'} no
+                      estimate and {plan.unestimated.length === 1 ? 'is' : 'are'} planned at one hour each. Set
+                      estimates in the map's node details.
+                    </p>
+                  )}
+
+                  <Calendar
+                    month={month ?? startDate}
+                    onMonthChange={setMonth}
+                    modifiers={{
+                      study: (day) => !!weekOf(day),
+                      focused: (day) => !!focused && isWithinInterval(day, { start: focused.start, end: focused.end }),
+                    }}
+                    modifiersClassNames={{
+                      study: 'bg-primary/15 text-foreground rounded-none',
+                      focused: '!bg-primary text-primary-foreground',
+                    }}
+                    onDayClick={(day) => setSelectedWeek(weekOf(day)?.number)}
+                    className="rounded-md border border-border/60"
+                  />
+                </CardContent>
+              </Card>
+
+              <div className="space-y-4">
+                {hoursPerWeek === 0 && (
+                  <p className="text-sm text-destructive">Enter how many hours a week you can study.</p>
+                )}
+                {plan.weeks.map((week) => (
+                  <Card
+                    key={week.number}
+                    onClick={() => setSelectedWeek(week.number)}
+                    className={cn(
+                      'glass-effect border-2 cursor-pointer transition-colors',
+                      week.number === selectedWeek ? 'border-primary/60' : 'border-primary/20 hover:border-primary/40',
+                    )}
+                  >
+                    <CardHeader className="pb-3">
+                      <div className="flex items-baseline justify-between gap-4">
+                        <CardTitle className="font-display text-lg">Week {week.number}</CardTitle>
+                        <span className="text-sm font-semibold text-accent">{formatHours(week.hours)}</span>
+                      </div>
+                      <CardDescription>{weekRange(week)}</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ul className="space-y-1.5 text-sm">
+                        {week.sessions.map((session) => (
+                          <li key={session.nodeId} className="flex justify-between gap-4">
+                            <Link
+                              to={`/map/${map.id}?focus=${encodeURIComponent(session.nodeId)}`}
+                              className="hover:underline"
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              {session.name}
+                              {session.continued && <span className="text-muted-foreground"> (continued)</span>}
+                              {plan.unestimated.includes(session.nodeId) && (
+                                <span className="text-muted-foreground"> · no estimate</span>
+                              )}
+                            </Link>
+                            <span className="shrink-0 text-muted-foreground">{formatHours(session.hours)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                ))}
+                {plan.unplannedHours > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Plans stop after {MAX_PLAN_WEEKS} weeks, leaving {formatHours(plan.unplannedHours)} unplanned. Study
+                    more hours a week to fit the whole map.
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default StudyPlan;
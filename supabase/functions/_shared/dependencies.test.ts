@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { cyclicEdgeKeys, findDependencyCycles } from './dependencies.ts';
+import type { Dependency } from './learningMap.ts';
+
+const prerequisite = (from: string, to: string): Dependency => ({ from, to, kind: 'prerequisite' });
+
+describe('findDependencyCycles', () => {
+  it('finds nothing in an acyclic graph', () => {
+    expect(findDependencyCycles([prerequisite('a', 'b'), prerequisite('b', 'c'), prerequisite('a', 'c')])).toEqual([]);
+    expect(findDependencyCycles()).toEqual([]);
+  });
+
+  it('reports a cycle once, closed on its first node', () => {
+    expect(findDependencyCycles([prerequisite('a', 'b'), prerequisite('b', 'c'), prerequisite('c', 'a')])).toEqual([
+      ['a', 'b', 'c', 'a'],
+    ]);
+  });
+
+  it('finds two-node cycles and separate cycles', () => {
+    const cycles = findDependencyCycles([
+      prerequisite('a', 'b'),
+      prerequisite('b', 'a'),
+      prerequisite('x', 'y'),
+      prerequisite('y', 'z'),
+      prerequisite('z', 'y'),
+    ]);
+    expect(cycles).toEqual([
+      ['a', 'b', 'a'],
+      ['y', 'z', 'y'],
+    ]);
+  });
+
+  it('ignores related links', () => {
+    expect(findDependencyCycles([prerequisite('a', 'b'), { from: 'b', to: 'a', kind: 'related' }])).toEqual([]);
+  });
+});
+
+describe('cyclicEdgeKeys', () => {
+  it('lists the links along each cycle', () => {
+    const keys = cyclicEdgeKeys([['a', 'b', 'c', 'a']]);
+    expect([...keys].sort()).toEqual(['a->b', 'b->c', 'c->a']);
+  });
+});
@@ -0,0 +1,52 @@
+// Graph helpers for the dependency links between learning map nodes. Only
+// prerequisites are directed; "related" links never form cycles.
+
+import type { Dependency } from './learningMap.ts';
+
+/**
+ * Finds circular prerequisite chains. Each cycle is returned once, as the node
+ * ids along it with the first id repeated at the end (`a → b → a`).
+ */
+export const findDependencyCycles = (dependencies: Dependency[] = []): string[][] => {
+  const next = new Map<string, string[]>();
+  for (const { from, to, kind } of dependencies) {
+    if (kind !== 'prerequisite') continue;
+    next.set(from, [...(next.get(from) ?? []), to]);
+  }
+
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const trail: string[] = [];
+  const onTrail = new Set<string>();
+
+  const visit = (id: string) => {
+    trail.push(id);
+    onTrail.add(id);
+    for (const target of next.get(id) ?? []) {
+      if (onTrail.has(target)) {
+        cycles.push([...trail.slice(trail.indexOf(target)), target]);
+      } else if (!done.has(target)) {
+        visit(target);
+      }
+    }
+    trail.pop();
+    onTrail.delete(id);
+    done.add(id);
+  };
+
+  for (const id of next.keys()) {
+    if (!done.has(id)) visit(id);
+  }
+  return cycles;
+};
+
+/** `from->to` keys of the prerequisite links that lie on any cycle. */
+export const cyclicEdgeKeys = (cycles: string[][]): Set<string> => {
+  const keys = new Set<string>();
+  for (const cycle of cycles) {
+    for (let i = 0; i < cycle.length - 1; i++) {
+      keys.add(`${cycle[i]}->${cycle[i + 1]}`);
+    }
+  }
+  return keys;
+};
@@ -0,0 +1,176 @@
+// Error contract for `generate-learning-map`. Every failed response, and every
+// error event in a stream, has a `GenerationErrorBody`, so the client can react
+// to the code instead of parsing the message.
+
+import type { SchemaViolation } from './learningMap.ts';
+
+export type GenerationErrorCode =
+  | 'TOPIC_REQUIRED'
+  | 'INVALID_REQUEST'
+  | 'UNAUTHENTICATED'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'CREDITS_EXHAUSTED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_ERROR'
+  | 'PARSE_FAILED'
+  | 'VALIDATION_FAILED'
+  | 'UNSAFE_TOPIC'
+  | 'NOT_CONFIGURED'
+  | 'NETWORK_ERROR'
+  | 'INTERNAL';
+
+interface ErrorCodeInfo {
+  /** HTTP status the function responds with. */
+  status: number;
+  /** Whether sending the same request again can succeed. */
+  retryable: boolean;
+  /** Default message, used when there's nothing more specific to say. */
+  message: string;
+  /** What the learner can do about it. */
+  remediation: string;
+}
+
+export const ERROR_CODES: Record<GenerationErrorCode, ErrorCodeInfo> = {
+  TOPIC_REQUIRED: {
+    status: 400,
+    retryable: false,
+    message: 'Topic is required',
+    remediation: 'Enter a topic to learn about, like "Photography" or "Rust".',
+  },
+  INVALID_REQUEST: {
+    status: 400,
+    retryable: false,
+    message: 'The request is not valid',
+    remediation: 'Reload the page and try again.',
+  },
+  UNAUTHENTICATED: {
+    status: 401,
+    retryable: false,
+    message: 'Please sign in to generate learning maps',
+    remediation: 'Sign in, then try again.',
+  },
+  RATE_LIMITED: {
+    status: 429,
+    retryable: true,
+    message: 'Too many requests in a short time',
+    remediation: 'Wait a moment, then try again.',
+  },
+  QUOTA_EXCEEDED: {
+    status: 429,
+    retryable: false,
+    message: "You've used all of this month's generations",
+    remediation: 'Your quota resets at the start of next month. Maps you already have stay available.',
+  },
+  CREDITS_EXHAUSTED: {
+    status: 402,
+    retryable: false,
+    message: 'AI service credits exhausted',
+    remediation: 'The AI service needs more credits before it can generate again. Please try later.',
+  },
+  UPSTREAM_TIMEOUT: {
+    status: 504,
+    retryable: true,
+    message: 'The AI service took too long to answer',
+    remediation: 'Try again; it is usually quicker the second time.',
+  },
+  UPSTREAM_ERROR: {
+    status: 502,
+    retryable: true,
+    message: 'The AI service failed to answer',
+    remediation: 'Try again in a moment.',
+  },
+  PARSE_FAILED: {
+    status: 502,
+    retryable: true,
+    message: "The AI's answer couldn't be read",
+    remediation: 'Try again; a fresh answer is usually fine.',
+  },
+  VALIDATION_FAILED: {
+    status: 422,
+    retryable: true,
+    message: "The AI's answer was incomplete",
+    remediation: 'Try again, or rephrase the topic.',
+  },
+  UNSAFE_TOPIC: {
+    status: 422,
+    retryable: false,
+    message: "This topic can't be turned into a learning map",
+    remediation: 'Try a different topic.',
+  },
+  NOT_CONFIGURED: {
+    status: 500,
+    retryable: false,
+    message: 'AI service not configured',
+    remediation: 'The site needs an AI provider set up before it can generate maps.',
+  },
+  // Never sent by the function: the client uses it when a request doesn't get through.
+  NETWORK_ERROR: {
+    status: 503,
+    retryable: true,
+    message: "Couldn't reach the server",
+    remediation: 'Check your connection and try again.',
+  },
+  INTERNAL: {
+    status: 500,
+    retryable: true,
+    message: 'Something went wrong',
+    remediation: 'Try again. If it keeps happening, please let us know.',
+  },
+};
+
+export interface GenerationErrorBody {
+  /** Message for the learner. */
+  error: string;
+  code: GenerationErrorCode;
+  retryable: boolean;
+  /** Seconds to wait before retrying, when known. */
+  retryAfter?: number;
+  remediation: string;
+  violations?: SchemaViolation[];
+}
+
+/** The body for `code`, with its defaults overridden where there's something more specific. */
+export const errorBody = (
+  code: GenerationErrorCode,
+  overrides: Partial<Omit<GenerationErrorBody, 'code'>> = {},
+): GenerationErrorBody => {
+  const { message, retryable, remediation } = ERROR_CODES[code];
+  return { error: message, code, retryable, remediation, ...overrides };
+};
+
+export const isGenerationErrorBody = (value: unknown): value is GenerationErrorBody =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as GenerationErrorBody).error === 'string' &&
+  (value as GenerationErrorBody).code in ERROR_CODES;
+
+/** Best guess at a code for a response that didn't follow the contract, e.g. a proxy's error page. */
+export const codeForStatus = (status: number): GenerationErrorCode => {
+  if (status === 400) return 'INVALID_REQUEST';
+  if (status === 401) return 'UNAUTHENTICATED';
+  if (status === 402) return 'CREDITS_EXHAUSTED';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 408 || status === 504) return 'UPSTREAM_TIMEOUT';
+  if (status === 502 || status === 503) return 'UPSTREAM_ERROR';
+  return 'INTERNAL';
+};
+
+/** A failed generation request, as thrown on the client. */
+export class GenerationError extends Error {
+  code: GenerationErrorCode;
+  retryable: boolean;
+  retryAfter?: number;
+  remediation: string;
+  violations?: SchemaViolation[];
+
+  constructor(body: GenerationErrorBody) {
+    super(body.error);
+    this.name = 'GenerationError';
+    this.code = body.code;
+    this.retryable = body.retryable;
+    this.retryAfter = body.retryAfter;
+    this.remediation = body.remediation;
+    this.violations = body.violations;
+  }
+}
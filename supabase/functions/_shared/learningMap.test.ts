@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type Branch,
+  createIdRegistry,
+  type Dependency,
+  type LearningMapData,
+  LearningMapValidationError,
+  MAX_ESTIMATED_HOURS,
+  parseLearningMap,
+  UNBOUNDED_LIMITS,
+  validateBranchRewrite,
+  validateExpansion,
+  validateLearningMap,
+  validateResourceList,
+} from './learningMap.ts';
+
+const node = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  name: id.toUpperCase(),
+  description: `About ${id}`,
+  ...extra,
+});
+
+const branch = (id: string, count = 2) =>
+  node(id, { subtopics: Array.from({ length: count }, (_, i) => node(`${id}-${i + 1}`)) });
+
+const map = (extra: Record<string, unknown> = {}) => ({
+  topic: 'Gardening',
+  branches: [branch('soil'), branch('plants'), branch('water')],
+  ...extra,
+});
+
+const paths = (result: { ok: boolean } & ({ violations: { path: string }[] } | object)) =>
+  'violations' in result ? result.violations.map((violation) => violation.path) : [];
+
+describe('validateLearningMap', () => {
+  it('accepts a valid map unchanged', () => {
+    const input = map({ dependencies: [{ from: 'soil', to: 'plants', kind: 'prerequisite' }] });
+    const result = validateLearningMap(input);
+    expect(result).toEqual({ ok: true, map: input, repairs: [] });
+  });
+
+  it('rejects anything that is not a map', () => {
+    expect(paths(validateLearningMap(null))).toEqual(['']);
+    expect(paths(validateLearningMap({ topic: 'T' }))).toEqual(['branches']);
+  });
+
+  it('fills in a missing topic from the request', () => {
+    const result = validateLearningMap(map({ topic: ' ' }), { topic: 'Gardening' });
+    expect(result.ok && result.map.topic).toBe('Gardening');
+    expect(result.repairs).toContain('topic: filled in requested topic');
+  });
+
+  it('repairs missing and duplicate ids, missing descriptions and estimates', () => {
+    const input = map({
+      branches: [
+        branch('soil'),
+        node('', { name: 'Plants', description: '', estimatedHours: 500, subtopics: [node('soil-1'), node('seeds')] }),
+        node('water', { estimatedHours: 'lots', subtopics: [node('rain'), node('hoses')] }),
+      ],
+    });
+    const result = validateLearningMap(input);
+    if (result.ok === false) throw new Error(JSON.stringify(result.violations));
+
+    const [, plants, water] = result.map.branches;
+    expect(plants.id).toBe('plants');
+    expect(plants.description).toBe('Core concepts and skills in Plants.');
+    expect(plants.estimatedHours).toBe(MAX_ESTIMATED_HOURS);
+    expect(plants.subtopics[0].id).toBe('soil-1-2');
+    expect(water).not.toHaveProperty('estimatedHours');
+    expect(result.repairs).toHaveLength(5);
+  });
+
+  it('reports the same problems as violations without repair', () => {
+    const input = map({ branches: [branch('soil'), branch('soil'), node('water', { subtopics: [node('rain')] })] });
+    expect(paths(validateLearningMap(input, { repair: false }))).toEqual([
+      'branches[1].id',
+      'branches[1].subtopics[0].id',
+      'branches[1].subtopics[1].id',
+      'branches[2].subtopics',
+    ]);
+  });
+
+  it('trims lists over the limit and rejects lists under it', () => {
+    const tooMany = validateLearningMap(map({ branches: ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => branch(id, 6)) }));
+    expect(tooMany.ok && tooMany.map.branches.map((b) => b.subtopics.length)).toEqual([4, 4, 4, 4, 4]);
+
+    const tooFew = validateLearningMap(map({ branches: [branch('soil'), branch('plants')] }));
+    expect(paths(tooFew)).toEqual(['branches']);
+  });
+
+  it('drops unusable resources and dependencies in repair mode', () => {
+    const input = map({
+      branches: [
+        node('soil', {
+          subtopics: [node('clay'), node('loam')],
+          resources: [
+            { title: 'Guide', url: 'https://example.com/soil', type: 'podcast' },
+            { title: 'Again', url: 'https://example.com/soil' },
+            { title: 'No link', url: 'example.com' },
+          ],
+        }),
+        branch('plants'),
+        branch('water'),
+      ],
+      dependencies: [
+        { from: 'soil', to: 'plants' },
+        { from: 'soil', to: 'nowhere', kind: 'prerequisite' },
+        { from: 'soil', to: 'soil', kind: 'related' },
+        { from: 'soil', to: 'plants', kind: 'prerequisite' },
+      ],
+    });
+    const result = validateLearningMap(input);
+    if (result.ok === false) throw new Error(JSON.stringify(result.violations));
+
+    expect(result.map.branches[0].resources).toEqual([
+      { title: 'Guide', url: 'https://example.com/soil', type: 'article' },
+    ]);
+    expect(result.map.dependencies).toEqual([{ from: 'soil', to: 'plants', kind: 'prerequisite' }]);
+  });
+
+  it('only checks the shape with unbounded limits', () => {
+    expect(validateLearningMap(map({ branches: [] }), { repair: false, limits: UNBOUNDED_LIMITS }).ok).toBe(true);
+  });
+});
+
+describe('parseLearningMap', () => {
+  it('throws the violations', () => {
+    expect(() => parseLearningMap({ topic: 'T', branches: [] })).toThrow(LearningMapValidationError);
+  });
+});
+
+describe('validateExpansion', () => {
+  it('keeps new ids clear of the ones already in the map', () => {
+    const result = validateExpansion({ subtopics: [node('soil'), node('compost')] }, ['main', 'soil']);
+    expect(result.ok && result.subtopics.map((subtopic) => subtopic.id)).toEqual(['soil-2', 'compost']);
+  });
+});
+
+describe('validateBranchRewrite', () => {
+  const deep = (dependencies: Dependency[] = []): LearningMapData => ({
+    topic: 'Gardening',
+    branches: [
+      node('soil', {
+        subtopics: [
+          node('soil-1', { subtopics: [node('ph', { subtopics: [node('lime')] }), node('clay')] }),
+          node('soil-2'),
+        ],
+      }),
+      branch('plants'),
+      branch('water'),
+    ] as Branch[],
+    dependencies,
+  });
+
+  it('keeps the deeper levels under subtopics that kept their id', () => {
+    const result = validateBranchRewrite(
+      { branch: { ...branch('soil'), subtopics: [node('soil-1'), node('compost')] } },
+      deep(),
+      'soil',
+    );
+    expect(result.ok && result.map.branches[0].subtopics).toEqual([
+      node('soil-1', { subtopics: [node('ph', { subtopics: [node('lime')] }), node('clay')] }),
+      node('compost'),
+    ]);
+    expect(result.ok && result.branch.subtopics[0]).toEqual(node('soil-1'));
+  });
+
+  it('leaves out kept nodes whose ids the rewrite now uses', () => {
+    const result = validateBranchRewrite(
+      { branch: { ...branch('soil'), subtopics: [node('soil-1'), node('clay')] } },
+      deep(),
+      'soil',
+    );
+    expect(result.ok && result.map.branches[0].subtopics).toEqual([
+      node('soil-1', { subtopics: [node('ph', { subtopics: [node('lime')] })] }),
+      node('clay'),
+    ]);
+  });
+
+  it('keeps links to deeper nodes that are still there', () => {
+    const dependencies: Dependency[] = [
+      { from: 'lime', to: 'plants-1', kind: 'prerequisite' },
+      { from: 'soil-2', to: 'water', kind: 'related' },
+    ];
+    const result = validateBranchRewrite(
+      { branch: { ...branch('soil'), subtopics: [node('soil-1'), node('compost')] } },
+      deep(dependencies),
+      'soil',
+    );
+    expect(result.ok && result.map.dependencies).toEqual([dependencies[0]]);
+  });
+});
+
+describe('validateResourceList', () => {
+  it('requires enough usable resources', () => {
+    expect(validateResourceList({ resources: [{ title: 'Only one', url: 'https://example.com' }] }).ok).toBe(false);
+  });
+});
+
+describe('createIdRegistry', () => {
+  it('keeps free ids and suffixes taken ones', () => {
+    const registry = createIdRegistry(['main']);
+    expect(registry.claim('roots', 'Roots')).toBe('roots');
+    expect(registry.claim('roots', 'Roots')).toBe('roots-2');
+    expect(registry.claim('', 'Main')).toBe('main-2');
+  });
+});
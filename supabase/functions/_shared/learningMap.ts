@@ -0,0 +1,752 @@
+// Shared learning map contract.
+//
+// This module is imported both by the edge functions (Deno) and by the web
+// client (Vite, through the `@shared` alias), so it must stay free of runtime
+// specific APIs and third-party imports.
+
+export type LearningLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export const LEARNING_LEVELS: LearningLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+/**
+ * A node below the topic. Subtopics can nest to any depth; generated maps
+ * start with two levels and grow when a learner expands a node.
+ */
+export interface Subtopic {
+  id: string;
+  name: string;
+  description: string;
+  /** Hours of study for this node itself, not counting its subtopics. */
+  estimatedHours?: number;
+  resources?: Resource[];
+  subtopics?: Subtopic[];
+}
+
+/** A first-level node. Unlike deeper nodes it always carries a subtopic list. */
+export interface Branch extends Subtopic {
+  subtopics: Subtopic[];
+}
+
+export type MapNode = Branch | Subtopic;
+
+export type DependencyKind = 'prerequisite' | 'related';
+
+export const DEPENDENCY_KINDS: DependencyKind[] = ['prerequisite', 'related'];
+
+/**
+ * A cross-link between two nodes, usually in different branches. For
+ * prerequisites, `from` should be learned before `to`.
+ */
+export interface Dependency {
+  from: string;
+  to: string;
+  kind: DependencyKind;
+}
+
+export type ResourceType = 'article' | 'video' | 'course' | 'book' | 'exercise';
+
+export const RESOURCE_TYPES: ResourceType[] = ['article', 'video', 'course', 'book', 'exercise'];
+
+/** A study material for a node, either generated or added by the learner. */
+export interface Resource {
+  title: string;
+  type: ResourceType;
+  url: string;
+  estimatedMinutes?: number;
+  free?: boolean;
+}
+
+/** Upper bound for one node's effort estimate, in hours. */
+export const MAX_ESTIMATED_HOURS = 200;
+
+/** Effort estimates are kept to the nearest quarter hour. */
+export const roundHours = (hours: number): number => Math.round(hours * 4) / 4;
+
+/** How many resources one generation request should return. */
+export const RESOURCE_LIMITS = { min: 2, max: 6 };
+
+/** Longest feedback a learner can give when asking for a branch to be rewritten. */
+export const MAX_FEEDBACK_LENGTH = 500;
+
+export interface LearningMapData {
+  topic: string;
+  branches: Branch[];
+  dependencies?: Dependency[];
+}
+
+export interface LearningMapLimits {
+  minBranches: number;
+  maxBranches: number;
+  minSubtopics: number;
+  maxSubtopics: number;
+}
+
+export const DEFAULT_LIMITS: LearningMapLimits = {
+  minBranches: 3,
+  maxBranches: 5,
+  minSubtopics: 2,
+  maxSubtopics: 4,
+};
+
+/** Limits for maps that already exist (saved, imported or edited), where only the shape matters. */
+export const UNBOUNDED_LIMITS: LearningMapLimits = {
+  minBranches: 0,
+  maxBranches: Infinity,
+  minSubtopics: 0,
+  maxSubtopics: Infinity,
+};
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+export type LearningMapValidationResult =
+  | { ok: true; map: LearningMapData; repairs: string[] }
+  | { ok: false; violations: SchemaViolation[]; repairs: string[] };
+
+export interface ValidateOptions {
+  /** Fix what can be fixed (ids, descriptions, excess items) instead of reporting it. */
+  repair?: boolean;
+  /** Topic to fall back to when the map has none. */
+  topic?: string;
+  limits?: Partial<LearningMapLimits>;
+}
+
+export class LearningMapValidationError extends Error {
+  violations: SchemaViolation[];
+
+  constructor(violations: SchemaViolation[]) {
+    super(
+      `Learning map failed validation: ${violations
+        .map((v) => `${v.path || '<root>'} ${v.message}`)
+        .join('; ')}`,
+    );
+    this.name = 'LearningMapValidationError';
+    this.violations = violations;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+export const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48) || 'node';
+
+/**
+ * Hands out ids that are unique within one map. Preferred ids are kept when
+ * they are free; otherwise a slug of the node name gets a numeric suffix.
+ */
+export const createIdRegistry = (reserved: Iterable<string> = []) => {
+  const used = new Set<string>(reserved);
+  return {
+    claim(preferred: string, name: string): string {
+      if (preferred && !used.has(preferred)) {
+        used.add(preferred);
+        return preferred;
+      }
+      const base = slugify(preferred || name);
+      let candidate = base;
+      for (let n = 2; used.has(candidate); n++) {
+        candidate = `${base}-${n}`;
+      }
+      used.add(candidate);
+      return candidate;
+    },
+    has: (id: string) => used.has(id),
+  };
+};
+
+export type IdRegistry = ReturnType<typeof createIdRegistry>;
+
+interface NodeContext {
+  path: string;
+  kind: 'branch' | 'subtopic';
+  registry: IdRegistry;
+  repair: boolean;
+  violations: SchemaViolation[];
+  repairs: string[];
+}
+
+const fallbackDescription = (kind: NodeContext['kind'], name: string) =>
+  kind === 'branch' ? `Core concepts and skills in ${name}.` : `Learn the essentials of ${name}.`;
+
+const isWebUrl = (value: string) => /^https?:\/\/[^\s/$.?#][^\s]*$/i.test(value);
+
+/**
+ * Checks a node's resource list. Repair mode drops entries without a title or
+ * a web URL, repeated URLs and bad optional fields, and defaults the type.
+ */
+export const validateResources = (
+  raw: unknown,
+  path: string,
+  repair: boolean,
+  violations: SchemaViolation[],
+  repairs: string[],
+): Resource[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    if (repair) {
+      repairs.push(`${path}: dropped non-array value`);
+    } else {
+      violations.push({ path, message: 'must be an array of resources' });
+    }
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const resources: Resource[] = [];
+
+  raw.forEach((entry, index) => {
+    const itemPath = `${path}[${index}]`;
+    const reject = (message: string) => {
+      if (repair) {
+        repairs.push(`${itemPath}: dropped because it ${message}`);
+      } else {
+        violations.push({ path: itemPath, message });
+      }
+    };
+    const dropField = (field: string, message: string) => {
+      if (repair) {
+        repairs.push(`${itemPath}.${field}: dropped invalid value`);
+      } else {
+        violations.push({ path: `${itemPath}.${field}`, message });
+      }
+    };
+
+    if (!isRecord(entry)) return reject('must be a resource object');
+    const title = asText(entry.title);
+    const url = asText(entry.url);
+    if (!title) return reject('has no title');
+    if (!isWebUrl(url)) return reject('has no http(s) URL');
+    if (seen.has(url)) return reject(`duplicates URL "${url}"`);
+    seen.add(url);
+
+    let type = entry.type as ResourceType;
+    if (!RESOURCE_TYPES.includes(type)) {
+      if (!repair) {
+        violations.push({ path: `${itemPath}.type`, message: `must be one of ${RESOURCE_TYPES.join(', ')}` });
+        return;
+      }
+      type = 'article';
+      repairs.push(`${itemPath}.type: defaulted to "article"`);
+    }
+
+    const resource: Resource = { title, type, url };
+
+    const minutes = entry.estimatedMinutes;
+    if (typeof minutes === 'number' && Number.isFinite(minutes) && minutes > 0) {
+      resource.estimatedMinutes = Math.round(minutes);
+    } else if (minutes !== undefined && minutes !== null) {
+      dropField('estimatedMinutes', 'must be a positive number');
+    }
+
+    if (typeof entry.free === 'boolean') {
+      resource.free = entry.free;
+    } else if (entry.free !== undefined && entry.free !== null) {
+      dropField('free', 'must be a boolean');
+    }
+
+    resources.push(resource);
+  });
+
+  return resources;
+};
+
+/** Validates the fields every node shares; returns null if the node is unusable. */
+const validateNodeFields = (
+  raw: unknown,
+  ctx: NodeContext,
+): Pick<Subtopic, 'id' | 'name' | 'description' | 'estimatedHours' | 'resources'> | null => {
+  const { path, kind, registry, repair, violations, repairs } = ctx;
+
+  if (!isRecord(raw)) {
+    violations.push({ path, message: `must be a ${kind} object` });
+    return null;
+  }
+
+  const name = asText(raw.name);
+  if (!name) {
+    violations.push({ path: `${path}.name`, message: 'must be a non-empty string' });
+    return null;
+  }
+
+  let description = asText(raw.description);
+  if (!description) {
+    if (repair) {
+      description = fallbackDescription(kind, name);
+      repairs.push(`${path}.description: filled in missing description`);
+    } else {
+      violations.push({ path: `${path}.description`, message: 'must be a non-empty string' });
+    }
+  }
+
+  const requestedId = asText(raw.id);
+  let id = requestedId;
+  if (!requestedId || registry.has(requestedId)) {
+    if (repair) {
+      id = registry.claim(requestedId, name);
+      repairs.push(
+        requestedId
+          ? `${path}.id: renamed duplicate id "${requestedId}" to "${id}"`
+          : `${path}.id: generated id "${id}"`,
+      );
+    } else {
+      violations.push({
+        path: `${path}.id`,
+        message: requestedId ? `duplicates id "${requestedId}"` : 'must be a non-empty string',
+      });
+    }
+  } else {
+    registry.claim(requestedId, name);
+  }
+
+  let estimatedHours: number | undefined;
+  const hours = raw.estimatedHours;
+  if (typeof hours === 'number' && Number.isFinite(hours) && hours > 0) {
+    estimatedHours = roundHours(Math.min(hours, MAX_ESTIMATED_HOURS));
+    if (hours > MAX_ESTIMATED_HOURS) {
+      if (repair) {
+        repairs.push(`${path}.estimatedHours: capped at ${MAX_ESTIMATED_HOURS}`);
+      } else {
+        violations.push({ path: `${path}.estimatedHours`, message: `must be at most ${MAX_ESTIMATED_HOURS}` });
+      }
+    }
+  } else if (hours !== undefined && hours !== null) {
+    if (repair) {
+      repairs.push(`${path}.estimatedHours: dropped invalid value`);
+    } else {
+      violations.push({ path: `${path}.estimatedHours`, message: 'must be a positive number' });
+    }
+  }
+
+  const resources = validateResources(raw.resources, `${path}.resources`, repair, violations, repairs);
+  return {
+    id,
+    name,
+    description,
+    ...(estimatedHours !== undefined && { estimatedHours }),
+    ...(resources.length > 0 && { resources }),
+  };
+};
+
+const clampList = <T>(
+  items: T[],
+  path: string,
+  min: number,
+  max: number,
+  label: string,
+  repair: boolean,
+  violations: SchemaViolation[],
+  repairs: string[],
+): T[] => {
+  if (items.length > max) {
+    if (repair) {
+      repairs.push(`${path}: dropped ${items.length - max} ${label} over the limit of ${max}`);
+      return items.slice(0, max);
+    }
+    violations.push({ path, message: `must contain at most ${max} ${label} (got ${items.length})` });
+  } else if (items.length < min) {
+    violations.push({ path, message: `must contain at least ${min} ${label} (got ${items.length})` });
+  }
+  return items;
+};
+
+interface ChildOptions {
+  repair: boolean;
+  limits: LearningMapLimits;
+}
+
+/**
+ * Validates a list of subtopics and, recursively, their own subtopics.
+ * `min`/`max` bound this list only; deeper levels are optional but still
+ * capped at `limits.maxSubtopics`.
+ */
+export const validateSubtopics = (
+  rawList: unknown[],
+  path: string,
+  registry: IdRegistry,
+  options: ChildOptions,
+  bounds: { min: number; max: number },
+  violations: SchemaViolation[],
+  repairs: string[],
+): Subtopic[] => {
+  const { repair, limits } = options;
+  const subtopics = rawList
+    .map((raw, index): Subtopic | null => {
+      const subPath = `${path}[${index}]`;
+      const fields = validateNodeFields(raw, { path: subPath, kind: 'subtopic', registry, repair, violations, repairs });
+      if (!fields) return null;
+
+      const rawChildren = (raw as Record<string, unknown>).subtopics;
+      if (rawChildren === undefined || rawChildren === null) return fields;
+      if (!Array.isArray(rawChildren)) {
+        if (repair) {
+          repairs.push(`${subPath}.subtopics: dropped non-array value`);
+        } else {
+          violations.push({ path: `${subPath}.subtopics`, message: 'must be an array of subtopics' });
+        }
+        return fields;
+      }
+
+      const children = validateSubtopics(
+        rawChildren,
+        `${subPath}.subtopics`,
+        registry,
+        options,
+        { min: 0, max: limits.maxSubtopics },
+        violations,
+        repairs,
+      );
+      return children.length > 0 ? { ...fields, subtopics: children } : fields;
+    })
+    .filter((sub): sub is Subtopic => sub !== null);
+
+  return clampList(subtopics, path, bounds.min, bounds.max, 'subtopics', repair, violations, repairs);
+};
+
+export const validateBranch = (
+  raw: unknown,
+  path: string,
+  registry: IdRegistry,
+  options: ChildOptions,
+  violations: SchemaViolation[],
+  repairs: string[],
+): Branch | null => {
+  const { repair, limits } = options;
+  const fields = validateNodeFields(raw, { path, kind: 'branch', registry, repair, violations, repairs });
+  if (!fields) return null;
+
+  const rawSubtopics = (raw as Record<string, unknown>).subtopics;
+  if (!Array.isArray(rawSubtopics)) {
+    violations.push({ path: `${path}.subtopics`, message: 'must be an array of subtopics' });
+    return null;
+  }
+
+  return {
+    ...fields,
+    subtopics: validateSubtopics(
+      rawSubtopics,
+      `${path}.subtopics`,
+      registry,
+      options,
+      { min: limits.minSubtopics, max: limits.maxSubtopics },
+      violations,
+      repairs,
+    ),
+  };
+};
+
+const collectIds = (nodes: MapNode[], ids: Set<string>): Set<string> => {
+  for (const node of nodes) {
+    ids.add(node.id);
+    if (node.subtopics) collectIds(node.subtopics, ids);
+  }
+  return ids;
+};
+
+/**
+ * Checks dependency entries against the nodes that survived validation.
+ * Repair mode drops entries it can't use and defaults a missing kind.
+ */
+export const validateDependencies = (
+  raw: unknown,
+  branches: Branch[],
+  repair: boolean,
+  violations: SchemaViolation[],
+  repairs: string[],
+): Dependency[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    if (repair) {
+      repairs.push('dependencies: dropped non-array value');
+    } else {
+      violations.push({ path: 'dependencies', message: 'must be an array of dependencies' });
+    }
+    return [];
+  }
+
+  const ids = collectIds(branches, new Set());
+  const seen = new Set<string>();
+  const dependencies: Dependency[] = [];
+
+  raw.forEach((entry, index) => {
+    const path = `dependencies[${index}]`;
+    const reject = (message: string) => {
+      if (repair) {
+        repairs.push(`${path}: dropped because it ${message}`);
+      } else {
+        violations.push({ path, message });
+      }
+    };
+
+    if (!isRecord(entry)) return reject('must be an object');
+    const from = asText(entry.from);
+    const to = asText(entry.to);
+    if (!ids.has(from)) return reject(`references unknown node "${from}"`);
+    if (!ids.has(to)) return reject(`references unknown node "${to}"`);
+    if (from === to) return reject('links a node to itself');
+
+    let kind = entry.kind as DependencyKind;
+    if (!DEPENDENCY_KINDS.includes(kind)) {
+      if (!repair) {
+        violations.push({ path: `${path}.kind`, message: `must be one of ${DEPENDENCY_KINDS.join(', ')}` });
+        return;
+      }
+      kind = 'prerequisite';
+      repairs.push(`${path}.kind: defaulted to "prerequisite"`);
+    }
+
+    const key = `${kind}:${from}:${to}`;
+    if (seen.has(key)) return reject('duplicates an earlier dependency');
+    seen.add(key);
+    dependencies.push({ from, to, kind });
+  });
+
+  return dependencies;
+};
+
+/**
+ * Checks untrusted input (usually model output) against the learning map
+ * contract. With `repair` enabled, recoverable problems are fixed in the
+ * returned copy and listed in `repairs`; everything else is a violation.
+ */
+export const validateLearningMap = (
+  input: unknown,
+  options: ValidateOptions = {},
+): LearningMapValidationResult => {
+  const repair = options.repair ?? true;
+  const limits = { ...DEFAULT_LIMITS, ...options.limits };
+  const violations: SchemaViolation[] = [];
+  const repairs: string[] = [];
+
+  if (!isRecord(input)) {
+    return { ok: false, violations: [{ path: '', message: 'must be a JSON object' }], repairs };
+  }
+
+  let topic = asText(input.topic);
+  if (!topic) {
+    if (repair && options.topic?.trim()) {
+      topic = options.topic.trim();
+      repairs.push('topic: filled in requested topic');
+    } else {
+      violations.push({ path: 'topic', message: 'must be a non-empty string' });
+    }
+  }
+
+  if (!Array.isArray(input.branches)) {
+    violations.push({ path: 'branches', message: 'must be an array of branches' });
+    return { ok: false, violations, repairs };
+  }
+
+  const registry = createIdRegistry(['main']);
+  const branches = input.branches
+    .map((raw, index) =>
+      validateBranch(raw, `branches[${index}]`, registry, { repair, limits }, violations, repairs),
+    )
+    .filter((branch): branch is Branch => branch !== null);
+
+  const clamped = clampList(
+    branches,
+    'branches',
+    limits.minBranches,
+    limits.maxBranches,
+    'branches',
+    repair,
+    violations,
+    repairs,
+  );
+
+  const dependencies = validateDependencies(input.dependencies, clamped, repair, violations, repairs);
+
+  if (violations.length > 0) {
+    return { ok: false, violations, repairs };
+  }
+  return {
+    ok: true,
+    map: { topic, branches: clamped, ...(dependencies.length > 0 && { dependencies }) },
+    repairs,
+  };
+};
+
+/** Like `validateLearningMap`, but throws a `LearningMapValidationError` on failure. */
+export const parseLearningMap = (input: unknown, options: ValidateOptions = {}): LearningMapData => {
+  const result = validateLearningMap(input, options);
+  if (result.ok === false) {
+    throw new LearningMapValidationError(result.violations);
+  }
+  return result.map;
+};
+
+export type ExpansionValidationResult =
+  | { ok: true; subtopics: Subtopic[]; repairs: string[] }
+  | { ok: false; violations: SchemaViolation[]; repairs: string[] };
+
+/**
+ * Checks generated children for an existing node (`{ "subtopics": [...] }`).
+ * Ids already used in the map are passed as `reservedIds` so new ones never clash.
+ */
+export const validateExpansion = (
+  input: unknown,
+  reservedIds: Iterable<string>,
+  options: ValidateOptions = {},
+): ExpansionValidationResult => {
+  const repair = options.repair ?? true;
+  const limits = { ...DEFAULT_LIMITS, ...options.limits };
+  const violations: SchemaViolation[] = [];
+  const repairs: string[] = [];
+
+  if (!isRecord(input) || !Array.isArray(input.subtopics)) {
+    return { ok: false, violations: [{ path: 'subtopics', message: 'must be an array of subtopics' }], repairs };
+  }
+
+  const subtopics = validateSubtopics(
+    input.subtopics,
+    'subtopics',
+    createIdRegistry(['main', ...reservedIds]),
+    { repair, limits },
+    { min: limits.minSubtopics, max: limits.maxSubtopics },
+    violations,
+    repairs,
+  );
+
+  if (violations.length > 0) {
+    return { ok: false, violations, repairs };
+  }
+  return { ok: true, subtopics, repairs };
+};
+
+export type BranchRewriteValidationResult =
+  | { ok: true; branch: Branch; dependencies: Dependency[]; map: LearningMapData; repairs: string[] }
+  | { ok: false; violations: SchemaViolation[]; repairs: string[] };
+
+const dependencyKey = ({ kind, from, to }: Dependency) => `${kind}:${from}:${to}`;
+
+const indexNodes = (nodes: MapNode[], index: Map<string, MapNode>): Map<string, MapNode> => {
+  for (const node of nodes) {
+    index.set(node.id, node);
+    if (node.subtopics) indexNodes(node.subtopics, index);
+  }
+  return index;
+};
+
+const withoutIds = (nodes: Subtopic[], ids: Set<string>): Subtopic[] =>
+  nodes
+    .filter((node) => !ids.has(node.id))
+    .map((node) => (node.subtopics ? { ...node, subtopics: withoutIds(node.subtopics, ids) } : node));
+
+/**
+ * Rewrites only come back one level deep, so a subtopic that kept its id but
+ * has no children of its own gets back the ones it had before, minus any
+ * whose ids the rewrite has since used elsewhere.
+ */
+const keepDeeperLevels = (node: Subtopic, before: Map<string, MapNode>, taken: Set<string>): Subtopic => {
+  const children = node.subtopics?.length
+    ? node.subtopics.map((child) => keepDeeperLevels(child, before, taken))
+    : withoutIds(before.get(node.id)?.subtopics ?? [], taken);
+  return children.length > 0 ? { ...node, subtopics: children } : node;
+};
+
+/**
+ * Checks a rewritten branch (`{ "branch": {...}, "dependencies": [...] }`)
+ * for the branch `branchId` of `map`. The branch keeps its id, and new nodes
+ * never take ids used by the other branches. `map` is the full map with the
+ * branch swapped in: subtopics it kept hold on to their deeper levels, links
+ * to nodes that are gone are dropped and the new ones added.
+ */
+export const validateBranchRewrite = (
+  input: unknown,
+  map: LearningMapData,
+  branchId: string,
+  options: ValidateOptions = {},
+): BranchRewriteValidationResult => {
+  const repair = options.repair ?? true;
+  const limits = { ...DEFAULT_LIMITS, ...options.limits };
+  const violations: SchemaViolation[] = [];
+  const repairs: string[] = [];
+
+  const index = map.branches.findIndex((branch) => branch.id === branchId);
+  if (index < 0) {
+    return { ok: false, violations: [{ path: '', message: `"${branchId}" is not a branch of the map` }], repairs };
+  }
+  if (!isRecord(input) || !isRecord(input.branch)) {
+    return { ok: false, violations: [{ path: 'branch', message: 'must be a branch object' }], repairs };
+  }
+
+  const otherIds = collectIds(map.branches.filter((_, i) => i !== index), new Set());
+  const branch = validateBranch(
+    { ...input.branch, id: branchId },
+    'branch',
+    createIdRegistry(['main', ...otherIds]),
+    { repair, limits },
+    violations,
+    repairs,
+  );
+  if (!branch) {
+    return { ok: false, violations, repairs };
+  }
+
+  const taken = collectIds([branch], new Set(otherIds));
+  const before = indexNodes([map.branches[index]], new Map());
+  const merged = { ...branch, subtopics: branch.subtopics.map((child) => keepDeeperLevels(child, before, taken)) };
+  const branches = map.branches.map((existing, i) => (i === index ? merged : existing));
+  const added = validateDependencies(input.dependencies, branches, repair, violations, repairs);
+  if (violations.length > 0) {
+    return { ok: false, violations, repairs };
+  }
+
+  const ids = collectIds(branches, new Set());
+  const kept = (map.dependencies ?? []).filter(({ from, to }) => ids.has(from) && ids.has(to));
+  const keptKeys = new Set(kept.map(dependencyKey));
+  const dependencies = [...kept, ...added.filter((dependency) => !keptKeys.has(dependencyKey(dependency)))];
+
+  return {
+    ok: true,
+    branch,
+    dependencies: added,
+    map: { topic: map.topic, branches, ...(dependencies.length > 0 && { dependencies }) },
+    repairs,
+  };
+};
+
+export type ResourceListValidationResult =
+  | { ok: true; resources: Resource[]; repairs: string[] }
+  | { ok: false; violations: SchemaViolation[]; repairs: string[] };
+
+/** Checks generated resources for one node (`{ "resources": [...] }`). */
+export const validateResourceList = (
+  input: unknown,
+  options: Pick<ValidateOptions, 'repair'> = {},
+): ResourceListValidationResult => {
+  const repair = options.repair ?? true;
+  const violations: SchemaViolation[] = [];
+  const repairs: string[] = [];
+
+  if (!isRecord(input) || !Array.isArray(input.resources)) {
+    return { ok: false, violations: [{ path: 'resources', message: 'must be an array of resources' }], repairs };
+  }
+
+  const resources = clampList(
+    validateResources(input.resources, 'resources', repair, violations, repairs),
+    'resources',
+    RESOURCE_LIMITS.min,
+    RESOURCE_LIMITS.max,
+    'resources',
+    repair,
+    violations,
+    repairs,
+  );
+
+  if (violations.length > 0) {
+    return { ok: false, violations, repairs };
+  }
+  return { ok: true, resources, repairs };
+};
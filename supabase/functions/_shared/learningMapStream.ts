@@ -0,0 +1,48 @@
+// Server-sent event contract for streamed map generation. Shared by the edge
+// function (which encodes events) and the web client (which decodes them).
+
+import type { GenerationErrorBody } from './errors.ts';
+import type { Branch, LearningMapData, SchemaViolation, Subtopic } from './learningMap.ts';
+
+export type LearningMapStreamEvent =
+  | { type: 'topic'; topic: string }
+  | { type: 'branch'; branch: Omit<Branch, 'subtopics'> }
+  | { type: 'subtopic'; branchId: string; subtopic: Subtopic }
+  // A branch that failed validation and was left out; `path` is where it would have gone.
+  | { type: 'rejected'; path: string; violations: SchemaViolation[] }
+  | { type: 'done'; map: LearningMapData }
+  | ({ type: 'error' } & GenerationErrorBody);
+
+export const encodeStreamEvent = (event: LearningMapStreamEvent): string =>
+  `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * Incremental SSE decoder: feed it decoded text as it arrives and it returns
+ * every event completed so far. Unknown or malformed frames are skipped.
+ */
+export const createStreamEventDecoder = () => {
+  let buffer = '';
+  return (chunk: string): LearningMapStreamEvent[] => {
+    buffer += chunk.replace(/\r\n/g, '\n');
+    const events: LearningMapStreamEvent[] = [];
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = frame
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (data) {
+        try {
+          events.push(JSON.parse(data));
+        } catch {
+          // Ignore frames that aren't ours (comments, keep-alives, partial proxies).
+        }
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+    return events;
+  };
+};
@@ -0,0 +1,176 @@
+// Read and update helpers for learning map trees of any depth. Shared by the
+// edge function and the web client; every update returns a new map and leaves
+// the input untouched.
+
+import type { Branch, LearningMapData, MapNode, Resource, Subtopic } from './learningMap.ts';
+
+export interface NodeVisit {
+  node: MapNode;
+  /** 1 for branches, 2 for their subtopics, and so on. */
+  depth: number;
+  parent: MapNode | null;
+  index: number;
+}
+
+/** Depth-first, pre-order walk over every node below the topic. */
+export const walkNodes = (map: LearningMapData, visit: (entry: NodeVisit) => void) => {
+  const walk = (nodes: MapNode[], depth: number, parent: MapNode | null) => {
+    nodes.forEach((node, index) => {
+      visit({ node, depth, parent, index });
+      if (node.subtopics?.length) walk(node.subtopics, depth + 1, node);
+    });
+  };
+  walk(map.branches, 1, null);
+};
+
+export const collectNodeIds = (map: LearningMapData): string[] => {
+  const ids: string[] = [];
+  walkNodes(map, ({ node }) => ids.push(node.id));
+  return ids;
+};
+
+/** The chain of nodes from a branch down to `nodeId`, or null if it isn't in the map. */
+export const findNodePath = (map: LearningMapData, nodeId: string): MapNode[] | null => {
+  const search = (nodes: MapNode[], trail: MapNode[]): MapNode[] | null => {
+    for (const node of nodes) {
+      const path = [...trail, node];
+      if (node.id === nodeId) return path;
+      const found = node.subtopics ? search(node.subtopics, path) : null;
+      if (found) return found;
+    }
+    return null;
+  };
+  return search(map.branches, []);
+};
+
+export const findNode = (map: LearningMapData, nodeId: string): MapNode | null => {
+  const path = findNodePath(map, nodeId);
+  return path ? path[path.length - 1] : null;
+};
+
+/** Returns a copy of the map with `update` applied to the node with `nodeId`. */
+export const updateNode = (
+  map: LearningMapData,
+  nodeId: string,
+  update: (node: MapNode) => MapNode,
+): LearningMapData => {
+  const apply = <T extends MapNode>(nodes: T[]): T[] =>
+    nodes.map((node) => {
+      if (node.id === nodeId) return update(node) as T;
+      if (!node.subtopics?.length) return node;
+      return { ...node, subtopics: apply(node.subtopics) };
+    });
+  return { ...map, branches: apply<Branch>(map.branches) };
+};
+
+/** Appends generated children under a node, keeping any it already has. */
+export const appendChildren = (
+  map: LearningMapData,
+  nodeId: string,
+  children: Subtopic[],
+): LearningMapData =>
+  updateNode(map, nodeId, (node) => ({
+    ...node,
+    subtopics: [...(node.subtopics ?? []), ...children],
+  }));
+
+/** Replaces a node's resources; an empty list removes the field. */
+export const setNodeResources = (
+  map: LearningMapData,
+  nodeId: string,
+  resources: Resource[],
+): LearningMapData =>
+  updateNode(map, nodeId, ({ resources: _, ...node }) => (resources.length > 0 ? { ...node, resources } : node));
+
+/** Sets a node's own effort estimate; `undefined` removes it. */
+export const setNodeEstimate = (
+  map: LearningMapData,
+  nodeId: string,
+  estimatedHours: number | undefined,
+): LearningMapData =>
+  updateNode(map, nodeId, ({ estimatedHours: _, ...node }) =>
+    estimatedHours !== undefined ? { ...node, estimatedHours } : node,
+  );
+
+/** Hours for a node including everything below it; nodes without an estimate count as zero. */
+export const totalHours = (node: MapNode): number =>
+  (node.estimatedHours ?? 0) + (node.subtopics ?? []).reduce((sum, child) => sum + totalHours(child), 0);
+
+/** Hours for the whole map. */
+export const totalMapHours = (map: LearningMapData): number =>
+  map.branches.reduce((sum, branch) => sum + totalHours(branch), 0);
+
+/** Where a node sits: its parent (null for branches) and its index among its siblings. */
+export const locateNode = (map: LearningMapData, nodeId: string): { parentId: string | null; index: number } | null => {
+  let location: { parentId: string | null; index: number } | null = null;
+  walkNodes(map, ({ node, parent, index }) => {
+    if (node.id === nodeId) location = { parentId: parent?.id ?? null, index };
+  });
+  return location;
+};
+
+/** Applies `update` to the child list of `parentId`, or to the branches when it is null. */
+const updateChildren = (
+  map: LearningMapData,
+  parentId: string | null,
+  update: (children: Subtopic[]) => Subtopic[],
+): LearningMapData => {
+  if (parentId === null) {
+    return { ...map, branches: update(map.branches).map((node) => ({ ...node, subtopics: node.subtopics ?? [] })) };
+  }
+  return updateNode(map, parentId, (node) => ({ ...node, subtopics: update(node.subtopics ?? []) }));
+};
+
+/** Inserts a node under `parentId` (null for a new branch), at `index` or at the end. */
+export const insertNode = (
+  map: LearningMapData,
+  parentId: string | null,
+  node: Subtopic,
+  index?: number,
+): LearningMapData =>
+  updateChildren(map, parentId, (children) => {
+    const at = index ?? children.length;
+    return [...children.slice(0, at), node, ...children.slice(at)];
+  });
+
+/** Removes a node with everything below it, and the dependencies that touched any of them. */
+export const removeNode = (map: LearningMapData, nodeId: string): LearningMapData => {
+  const location = locateNode(map, nodeId);
+  const node = findNode(map, nodeId);
+  if (!location || !node) return map;
+
+  const removed = new Set<string>();
+  const collect = (entry: MapNode) => {
+    removed.add(entry.id);
+    entry.subtopics?.forEach(collect);
+  };
+  collect(node);
+
+  const { dependencies, ...rest } = updateChildren(map, location.parentId, (children) =>
+    children.filter((child) => child.id !== nodeId),
+  );
+  const kept = (dependencies ?? []).filter(({ from, to }) => !removed.has(from) && !removed.has(to));
+  return kept.length > 0 ? { ...rest, dependencies: kept } : rest;
+};
+
+/**
+ * Moves a node with everything below it under `parentId` (null to make it a
+ * branch), ending up at `index` among its new siblings. Returns the map unchanged when
+ * the move would put a node inside itself.
+ */
+export const moveNode = (
+  map: LearningMapData,
+  nodeId: string,
+  parentId: string | null,
+  index?: number,
+): LearningMapData => {
+  const location = locateNode(map, nodeId);
+  const node = findNode(map, nodeId);
+  const targetPath = parentId === null ? [] : findNodePath(map, parentId);
+  if (!location || !node || !targetPath || targetPath.some((ancestor) => ancestor.id === nodeId)) return map;
+
+  const { subtopics, ...fields } = node;
+  const moved: Subtopic = subtopics?.length || parentId === null ? { ...fields, subtopics: subtopics ?? [] } : fields;
+  const without = updateChildren(map, location.parentId, (children) => children.filter((child) => child.id !== nodeId));
+  return insertNode(without, parentId, moved, index);
+};
@@ -0,0 +1,239 @@
+// Quiz contract shared by the edge function and the web client: generated
+// questions for one node and the grade for a free-text answer.
+
+import { createIdRegistry, type SchemaViolation, slugify } from './learningMap.ts';
+
+export interface MultipleChoiceQuestion {
+  id: string;
+  kind: 'multiple_choice';
+  prompt: string;
+  choices: string[];
+  /** Index into `choices` of the correct answer. */
+  answerIndex: number;
+  explanation?: string;
+}
+
+export interface ShortAnswerQuestion {
+  id: string;
+  kind: 'short_answer';
+  prompt: string;
+  /** A model answer the learner's text is graded against. */
+  answer: string;
+  explanation?: string;
+}
+
+export type QuizQuestion = MultipleChoiceQuestion | ShortAnswerQuestion;
+
+/** How many questions one quiz should contain. */
+export const QUIZ_LIMITS = { min: 3, max: 6 };
+
+export const CHOICE_LIMITS = { min: 3, max: 5 };
+
+/** The grade for one short answer; `score` runs from 0 to 1. */
+export interface AnswerGrade {
+  correct: boolean;
+  score: number;
+  feedback: string;
+}
+
+/** Score from which a graded answer counts as correct when the model doesn't say. */
+export const PASSING_SCORE = 0.6;
+
+export type QuizValidationResult =
+  | { ok: true; questions: QuizQuestion[]; repairs: string[] }
+  | { ok: false; violations: SchemaViolation[]; repairs: string[] };
+
+export type GradeValidationResult =
+  | { ok: true; grade: AnswerGrade; repairs: string[] }
+  | { ok: false; violations: SchemaViolation[]; repairs: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// A short stable hash, so prompts that slug to the same prefix get different ids.
+const promptHash = (prompt: string): string => {
+  let hash = 5381;
+  for (const char of prompt.toLowerCase()) {
+    hash = ((hash * 33) ^ char.charCodeAt(0)) >>> 0;
+  }
+  return hash.toString(36);
+};
+
+const questionId = (prompt: string) => `${slugify(prompt).slice(0, 40)}-${promptHash(prompt)}`;
+
+/**
+ * Checks a generated quiz (`{ "questions": [...] }`). Question ids are derived
+ * from the prompt rather than taken from the model, so asking the same
+ * question again lands on the same review item. Repair mode drops unusable
+ * questions and repeated choices and trims the list to the limit.
+ */
+export const validateQuiz = (
+  input: unknown,
+  options: { repair?: boolean } = {},
+): QuizValidationResult => {
+  const repair = options.repair ?? true;
+  const violations: SchemaViolation[] = [];
+  const repairs: string[] = [];
+
+  if (!isRecord(input) || !Array.isArray(input.questions)) {
+    return { ok: false, violations: [{ path: 'questions', message: 'must be an array of questions' }], repairs };
+  }
+
+  const registry = createIdRegistry();
+  const seenPrompts = new Set<string>();
+  const questions: QuizQuestion[] = [];
+
+  input.questions.forEach((entry, index) => {
+    const path = `questions[${index}]`;
+    const reject = (message: string) => {
+      if (repair) {
+        repairs.push(`${path}: dropped because it ${message}`);
+      } else {
+        violations.push({ path, message });
+      }
+    };
+
+    if (!isRecord(entry)) return reject('must be a question object');
+    const prompt = asText(entry.prompt);
+    if (!prompt) return reject('has no prompt');
+    if (seenPrompts.has(prompt.toLowerCase())) return reject('repeats an earlier question');
+
+    const explanation = asText(entry.explanation);
+    const extra = explanation ? { explanation } : {};
+
+    if (entry.kind === 'multiple_choice') {
+      const raw = Array.isArray(entry.choices) ? entry.choices.map(asText) : [];
+      const choices = raw.filter((choice, i) => choice && raw.indexOf(choice) === i);
+      if (choices.length < raw.length && repair) {
+        repairs.push(`${path}.choices: dropped ${raw.length - choices.length} empty or repeated choices`);
+      }
+      if (choices.length < CHOICE_LIMITS.min) return reject(`has fewer than ${CHOICE_LIMITS.min} distinct choices`);
+
+      // The index refers to the raw list, so look the answer up by text.
+      const answer = typeof entry.answerIndex === 'number' ? raw[entry.answerIndex] : undefined;
+      const answerIndex = answer ? choices.indexOf(answer) : -1;
+      if (answerIndex < 0) return reject('has no valid answerIndex');
+      if (choices.length > CHOICE_LIMITS.max) {
+        if (!repair || answerIndex >= CHOICE_LIMITS.max) return reject(`has more than ${CHOICE_LIMITS.max} choices`);
+        repairs.push(`${path}.choices: dropped ${choices.length - CHOICE_LIMITS.max} choices over the limit`);
+      }
+
+      seenPrompts.add(prompt.toLowerCase());
+      questions.push({
+        id: registry.claim(questionId(prompt), prompt),
+        kind: 'multiple_choice',
+        prompt,
+        choices: choices.slice(0, CHOICE_LIMITS.max),
+        answerIndex,
+        ...extra,
+      });
+    } else if (entry.kind === 'short_answer') {
+      const answer = asText(entry.answer);
+      if (!answer) return reject('has no model answer');
+
+      seenPrompts.add(prompt.toLowerCase());
+      questions.push({ id: registry.claim(questionId(prompt), prompt), kind: 'short_answer', prompt, answer, ...extra });
+    } else {
+      reject('must have kind "multiple_choice" or "short_answer"');
+    }
+  });
+
+  if (questions.length > QUIZ_LIMITS.max) {
+    if (repair) {
+      repairs.push(`questions: dropped ${questions.length - QUIZ_LIMITS.max} questions over the limit of ${QUIZ_LIMITS.max}`);
+      questions.length = QUIZ_LIMITS.max;
+    } else {
+      violations.push({ path: 'questions', message: `must contain at most ${QUIZ_LIMITS.max} questions` });
+    }
+  } else if (questions.length < QUIZ_LIMITS.min) {
+    violations.push({
+      path: 'questions',
+      message: `must contain at least ${QUIZ_LIMITS.min} usable questions (got ${questions.length})`,
+    });
+  }
+
+  if (violations.length > 0) {
+    return { ok: false, violations, repairs };
+  }
+  return { ok: true, questions, repairs };
+};
+
+/** Grades a picked choice; no model is needed for multiple choice. */
+export const gradeChoice = (question: MultipleChoiceQuestion, choiceIndex: number): AnswerGrade => {
+  const correct = choiceIndex === question.answerIndex;
+  const right = question.choices[question.answerIndex];
+  return {
+    correct,
+    score: correct ? 1 : 0,
+    feedback: question.explanation ?? (correct ? 'Correct.' : `The answer is "${right}".`),
+  };
+};
+
+/** Whether a value sent back by the client is a usable short-answer question. */
+export const isShortAnswerQuestion = (
+  value: unknown,
+): value is ShortAnswerQuestion =>
+  isRecord(value) && value.kind === 'short_answer' && !!asText(value.prompt) && !!asText(value.answer);
+
+/**
+ * Checks a generated grade (`{ "correct": true, "score": 0.8, "feedback": "..." }`).
+ * Repair mode clamps the score, derives `correct` from it when missing and
+ * fills in empty feedback.
+ */
+export const validateGrade = (
+  input: unknown,
+  options: { repair?: boolean } = {},
+): GradeValidationResult => {
+  const repair = options.repair ?? true;
+  const violations: SchemaViolation[] = [];
+  const repairs: string[] = [];
+
+  if (!isRecord(input)) {
+    return { ok: false, violations: [{ path: '', message: 'must be a grade object' }], repairs };
+  }
+
+  let score = input.score;
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    if (repair && typeof input.correct === 'boolean') {
+      score = input.correct ? 1 : 0;
+      repairs.push('score: derived from "correct"');
+    } else {
+      violations.push({ path: 'score', message: 'must be a number between 0 and 1' });
+    }
+  } else if (score < 0 || score > 1) {
+    if (repair) {
+      // Models sometimes answer on a 0-100 scale.
+      score = score > 1 && score <= 100 ? score / 100 : Math.min(1, Math.max(0, score));
+      repairs.push('score: scaled into 0-1');
+    } else {
+      violations.push({ path: 'score', message: 'must be a number between 0 and 1' });
+    }
+  }
+
+  let correct = input.correct;
+  if (typeof correct !== 'boolean') {
+    if (repair && typeof score === 'number') {
+      correct = score >= PASSING_SCORE;
+      repairs.push('correct: derived from score');
+    } else {
+      violations.push({ path: 'correct', message: 'must be a boolean' });
+    }
+  }
+
+  let feedback = asText(input.feedback);
+  if (!feedback) {
+    if (repair) {
+      feedback = correct ? 'Correct.' : 'Not quite. Compare your answer with the model answer.';
+      repairs.push('feedback: filled in missing feedback');
+    } else {
+      violations.push({ path: 'feedback', message: 'must be a non-empty string' });
+    }
+  }
+
+  if (violations.length > 0) {
+    return { ok: false, violations, repairs };
+  }
+  return { ok: true, grade: { correct: correct as boolean, score: score as number, feedback }, repairs };
+};
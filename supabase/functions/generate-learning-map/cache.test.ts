@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { LearningMapData } from '../_shared/learningMap.ts';
+import { type CacheClaim, type MapCache, resolveMapCache } from './cache.ts';
+
+vi.mock('./supabase.ts', () => ({ getAdminClient: () => ({}) }));
+
+const MEMORY: Record<string, string> = { GENERATION_CACHE_STORE: 'memory' };
+
+const cacheFor = (provider: { name?: string; model?: string; answeredBy?: string } = {}) =>
+  resolveMapCache((name) => MEMORY[name], {
+    name: provider.name ?? 'gateway',
+    model: provider.model ?? 'model-a',
+    answeredBy: provider.answeredBy ?? provider.model ?? 'model-a',
+  })!;
+
+const mapOf = (topic: string): LearningMapData => ({ topic, branches: [] });
+
+/** A fresh topic per test, since the memory store and running generations outlive each cache. */
+let topics = 0;
+const freshTopic = () => `Topic ${++topics}`;
+
+const miss = (claim: CacheClaim) => {
+  expect(claim.hit).toBe(false);
+  return claim as Extract<CacheClaim, { hit: false }>;
+};
+
+/** Gives claims just made time to hash their keys and line up behind a running generation. */
+const lineUp = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+/** Whether `promise` has settled once pending callbacks have run. */
+const isSettled = async (promise: Promise<unknown>) => {
+  let settled = false;
+  promise.then(() => (settled = true), () => (settled = true));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  return settled;
+};
+
+describe('resolveMapCache', () => {
+  it('is off with a zero or unreadable TTL', () => {
+    const provider = { name: 'gateway', model: 'model-a', answeredBy: 'model-a' };
+    expect(resolveMapCache((name) => ({ GENERATION_CACHE_TTL_SECONDS: '0' })[name], provider)).toBeNull();
+    expect(resolveMapCache((name) => ({ GENERATION_CACHE_TTL_SECONDS: 'soon' })[name], provider)).toBeNull();
+  });
+
+  it('serves a settled map for the same topic and level', async () => {
+    const cache = cacheFor();
+    const topic = freshTopic();
+    await miss(await cache.claim(topic, 'beginner')).settle(mapOf(topic));
+
+    expect(await cache.claim(`  ${topic.toUpperCase()} `, 'beginner')).toEqual({ hit: true, map: mapOf(topic) });
+    expect((await cache.claim(topic, 'advanced')).hit).toBe(false);
+    expect((await cacheFor({ model: 'model-b' }).claim(topic, 'beginner')).hit).toBe(false);
+  });
+
+  it('stores nothing for a failed generation', async () => {
+    const cache = cacheFor();
+    const topic = freshTopic();
+    await miss(await cache.claim(topic, 'beginner')).settle(null);
+
+    expect((await cache.claim(topic, 'beginner')).hit).toBe(false);
+  });
+
+  it('stores a fallback model\'s map where the requested model looks', async () => {
+    const topic = freshTopic();
+    await miss(await cacheFor({ model: 'model-a', answeredBy: 'model-b' }).claim(topic, 'beginner')).settle(mapOf(topic));
+
+    expect((await cacheFor({ model: 'model-a' }).claim(topic, 'beginner')).hit).toBe(true);
+    expect((await cacheFor({ model: 'model-b' }).claim(topic, 'beginner')).hit).toBe(false);
+  });
+});
+
+describe('running generations', () => {
+  it('makes identical requests wait for the one already running', async () => {
+    const cache: MapCache = cacheFor();
+    const topic = freshTopic();
+    const first = miss(await cache.claim(topic, 'beginner'));
+
+    const waiting = [cache.claim(topic, 'beginner'), cache.claim(topic, 'beginner')];
+    await lineUp();
+    expect(await isSettled(Promise.race(waiting))).toBe(false);
+
+    await first.settle(mapOf(topic));
+    expect(await Promise.all(waiting)).toEqual([
+      { hit: true, map: mapOf(topic) },
+      { hit: true, map: mapOf(topic) },
+    ]);
+  });
+
+  it('lets one waiter try again each time the running generation fails, and the rest wait for it', async () => {
+    const cache = cacheFor();
+    const topic = freshTopic();
+    let running = miss(await cache.claim(topic, 'beginner'));
+    let waiting = [1, 2, 3].map(() => cache.claim(topic, 'beginner'));
+    await lineUp();
+
+    for (const remaining of [2, 1]) {
+      await running.settle(null);
+      const settled = await Promise.all(waiting.map(isSettled));
+      expect(settled.filter(Boolean)).toHaveLength(1);
+      running = miss(await waiting[settled.indexOf(true)]);
+      waiting = waiting.filter((_, i) => !settled[i]);
+      expect(waiting).toHaveLength(remaining);
+    }
+
+    await running.settle(mapOf(topic));
+    expect(await Promise.all(waiting)).toEqual([{ hit: true, map: mapOf(topic) }]);
+  });
+
+  it('starts a single generation for requests that arrive together', async () => {
+    const cache = cacheFor();
+    const topic = freshTopic();
+    const claims = [1, 2, 3].map(() => cache.claim(topic, 'beginner'));
+    const settled = await Promise.all(claims.map(isSettled));
+    expect(settled.filter(Boolean)).toHaveLength(1);
+
+    await miss(await claims[settled.indexOf(true)]).settle(mapOf(topic));
+    expect((await Promise.all(claims)).filter((claim) => claim.hit)).toHaveLength(2);
+  });
+});
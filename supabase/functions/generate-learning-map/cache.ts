@@ -0,0 +1,181 @@
+import type { LearningLevel, LearningMapData } from '../_shared/learningMap.ts';
+import { MAP_PROMPT_VERSION } from './prompts.ts';
+import type { AIProvider } from './providers.ts';
+import { getAdminClient } from './supabase.ts';
+
+/** Where generated maps are kept between requests. Failures are logged and read as misses. */
+interface CacheStore {
+  get: (key: string) => Promise<LearningMapData | null>;
+  set: (entry: CacheEntry, ttlSeconds: number) => Promise<void>;
+}
+
+interface CacheEntry {
+  key: string;
+  topic: string;
+  level: LearningLevel;
+  model: string;
+  map: LearningMapData;
+}
+
+/** Either a map someone else already generated, or the go-ahead to generate it and `settle` the result. */
+export type CacheClaim =
+  | { hit: true; map: LearningMapData }
+  | { hit: false; settle: (map: LearningMapData | null) => Promise<void> };
+
+export interface MapCache {
+  /**
+   * Looks the map up, waiting for an identical generation that is already
+   * running rather than starting another. On a miss the caller must call
+   * `settle`, with null when generation failed, so waiting requests move on.
+   */
+  claim: (topic: string, level: LearningLevel) => Promise<CacheClaim>;
+}
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Enough for local development; the isolate is recycled long before this matters.
+const MAX_MEMORY_ENTRIES = 200;
+
+const createMemoryStore = (): CacheStore => {
+  const entries = new Map<string, { map: LearningMapData; expiresAt: number }>();
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return Promise.resolve(null);
+      }
+      return Promise.resolve(structuredClone(entry.map));
+    },
+    set: ({ key, map }, ttlSeconds) => {
+      entries.delete(key);
+      entries.set(key, { map: structuredClone(map), expiresAt: Date.now() + ttlSeconds * 1000 });
+      if (entries.size > MAX_MEMORY_ENTRIES) entries.delete(entries.keys().next().value!);
+      return Promise.resolve();
+    },
+  };
+};
+
+const createSupabaseStore = (): CacheStore => ({
+  get: async (key) => {
+    const { data, error } = await getAdminClient()
+      .from('generation_cache')
+      .select('map')
+      .eq('key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+    if (error) {
+      console.error('Failed to read the generation cache:', error);
+      return null;
+    }
+    return (data?.map as LearningMapData | undefined) ?? null;
+  },
+  set: async (entry, ttlSeconds) => {
+    const now = Date.now();
+    const client = getAdminClient();
+    const { error } = await client.from('generation_cache').upsert({
+      ...entry,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + ttlSeconds * 1000).toISOString(),
+    });
+    if (error) {
+      console.error('Failed to write the generation cache:', error);
+      return;
+    }
+    // Writes only happen on misses, which is a cheap enough moment to sweep.
+    const { error: sweepError } = await client
+      .from('generation_cache')
+      .delete()
+      .lt('expires_at', new Date(now).toISOString());
+    if (sweepError) {
+      console.error('Failed to clear expired cache entries:', sweepError);
+    }
+  },
+});
+
+// Module state lives as long as the isolate, so both outlast a single request.
+const memoryStore = createMemoryStore();
+const inFlight = new Map<string, Promise<LearningMapData | null>>();
+
+/** Trims, lowercases and collapses whitespace, so "Machine  learning " and "machine learning" share an entry. */
+const normalizeTopic = (topic: string) => topic.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Sets up the cache for generated maps from the environment, or returns null
+ * when caching is turned off:
+ *
+ * - `GENERATION_CACHE_TTL_SECONDS`: how long a map is served again (default 7 days, `0` turns caching off)
+ * - `GENERATION_CACHE_STORE`: `supabase` (default) or `memory` for local development
+ *
+ * Keys also cover the provider and model, so switching models never serves
+ * maps written by another one. A map written by a fallback model is stored
+ * under the key of the model that was asked for, since that's where the next
+ * lookup goes; the entry's `model` still names the one that wrote it.
+ */
+export const resolveMapCache = (
+  env: (name: string) => string | undefined,
+  provider: Pick<AIProvider, 'name' | 'model' | 'answeredBy'>,
+): MapCache | null => {
+  const ttl = Number(env('GENERATION_CACHE_TTL_SECONDS') ?? DEFAULT_TTL_SECONDS);
+  if (!Number.isFinite(ttl) || ttl <= 0) return null;
+
+  const storeKind = (env('GENERATION_CACHE_STORE') || 'supabase').toLowerCase();
+  if (storeKind !== 'supabase' && storeKind !== 'memory') {
+    console.warn(`Unknown GENERATION_CACHE_STORE "${storeKind}", using memory`);
+  }
+  const store = storeKind === 'supabase' ? createSupabaseStore() : memoryStore;
+  const modelOf = (name: string) => `${provider.name}:${name}`;
+  const keyFor = (topic: string, level: LearningLevel) =>
+    sha256(`${MAP_PROMPT_VERSION}:${modelOf(provider.model)}:${level}:${normalizeTopic(topic)}`);
+
+  /** Marks the generation under `key` as running; only called with nothing else running there. */
+  const start = (key: string, topic: string, level: LearningLevel): CacheClaim => {
+    let resolve!: (map: LearningMapData | null) => void;
+    const flight = new Promise<LearningMapData | null>((done) => (resolve = done));
+    inFlight.set(key, flight);
+
+    return {
+      hit: false,
+      settle: async (map) => {
+        resolve(map);
+        try {
+          if (map) {
+            await store.set({ key, topic: topic.trim(), level, model: modelOf(provider.answeredBy), map }, ttl);
+          }
+        } finally {
+          if (inFlight.get(key) === flight) inFlight.delete(key);
+        }
+      },
+    };
+  };
+
+  const claim = async (topic: string, level: LearningLevel): Promise<CacheClaim> => {
+    const key = await keyFor(topic, level);
+    let looked = false;
+    // Nothing is awaited between finding no generation running and starting
+    // one, so of the requests that find the same gap only the first starts.
+    for (;;) {
+      const running = inFlight.get(key);
+      if (running) {
+        const shared = await running;
+        if (shared) return { hit: true, map: shared };
+        // That generation failed and stored nothing: the first waiter back tries again, the rest wait for it.
+        looked = true;
+        continue;
+      }
+      if (looked) return start(key, topic, level);
+
+      const stored = await store.get(key);
+      if (stored) return { hit: true, map: stored };
+      // Another identical request may have started while this one was looking.
+      looked = true;
+    }
+  };
+
+  return { claim };
+};
@@ -0,0 +1,407 @@
+import {
+  type Branch,
+  type LearningLevel,
+  type LearningMapData,
+  type Resource,
+  slugify,
+  type Subtopic,
+} from '../_shared/learningMap.ts';
+import {
+  type AnswerGrade,
+  type MultipleChoiceQuestion,
+  PASSING_SCORE,
+  type ShortAnswerQuestion,
+} from '../_shared/quiz.ts';
+import type { GenerationTask } from './providers.ts';
+
+// Canned maps for the mock provider, keyed by `${slugify(topic)}:${level}`.
+const FIXTURES: Record<string, LearningMapData> = {
+  'machine-learning:beginner': {
+    topic: 'Machine Learning',
+    branches: [
+      {
+        id: 'ml-foundations',
+        name: 'Math Foundations',
+        description: 'The linear algebra, calculus and probability that models are built on.',
+        subtopics: [
+          { id: 'ml-linear-algebra', name: 'Linear Algebra', description: 'Vectors, matrices and the operations between them.' },
+          { id: 'ml-probability', name: 'Probability & Statistics', description: 'Distributions, expectation and basic inference.' },
+          { id: 'ml-calculus', name: 'Calculus for Optimization', description: 'Derivatives and gradients as the engine of learning.' },
+        ],
+      },
+      {
+        id: 'ml-supervised',
+        name: 'Supervised Learning',
+        description: 'Learning a mapping from labelled examples.',
+        subtopics: [
+          { id: 'ml-regression', name: 'Linear Regression', description: 'Predicting continuous values with a fitted line.' },
+          { id: 'ml-classification', name: 'Classification', description: 'Logistic regression, decision trees and k-NN.' },
+        ],
+      },
+      {
+        id: 'ml-unsupervised',
+        name: 'Unsupervised Learning',
+        description: 'Finding structure in unlabelled data.',
+        subtopics: [
+          { id: 'ml-clustering', name: 'Clustering', description: 'Grouping similar points with k-means and friends.' },
+          { id: 'ml-dim-reduction', name: 'Dimensionality Reduction', description: 'Compressing features with PCA.' },
+        ],
+      },
+      {
+        id: 'ml-practice',
+        name: 'Practical Workflow',
+        description: 'Turning data into a model you can trust.',
+        subtopics: [
+          { id: 'ml-data-prep', name: 'Data Preparation', description: 'Cleaning, splitting and scaling datasets.' },
+          { id: 'ml-evaluation', name: 'Model Evaluation', description: 'Accuracy, precision, recall and cross-validation.' },
+        ],
+      },
+    ],
+    dependencies: [
+      { from: 'ml-calculus', to: 'ml-regression', kind: 'prerequisite' },
+      { from: 'ml-probability', to: 'ml-classification', kind: 'prerequisite' },
+      { from: 'ml-linear-algebra', to: 'ml-dim-reduction', kind: 'prerequisite' },
+      { from: 'ml-evaluation', to: 'ml-supervised', kind: 'related' },
+    ],
+  },
+  'machine-learning:intermediate': {
+    topic: 'Machine Learning',
+    branches: [
+      {
+        id: 'mli-ensembles',
+        name: 'Ensemble Methods',
+        description: 'Combining weak learners into strong ones.',
+        subtopics: [
+          { id: 'mli-random-forests', name: 'Random Forests', description: 'Bagging decision trees to reduce variance.' },
+          { id: 'mli-boosting', name: 'Gradient Boosting', description: 'XGBoost, LightGBM and sequential error correction.' },
+        ],
+      },
+      {
+        id: 'mli-neural-nets',
+        name: 'Neural Networks',
+        description: 'Layered models trained with backpropagation.',
+        subtopics: [
+          { id: 'mli-backprop', name: 'Backpropagation', description: 'Computing gradients through a network.' },
+          { id: 'mli-cnn', name: 'Convolutional Networks', description: 'Spatial feature extraction for images.' },
+          { id: 'mli-regularization', name: 'Regularization', description: 'Dropout, weight decay and early stopping.' },
+        ],
+      },
+      {
+        id: 'mli-feature-eng',
+        name: 'Feature Engineering',
+        description: 'Shaping inputs so models can learn from them.',
+        subtopics: [
+          { id: 'mli-encoding', name: 'Categorical Encoding', description: 'One-hot, target and embedding encodings.' },
+          { id: 'mli-selection', name: 'Feature Selection', description: 'Keeping the signal and dropping the noise.' },
+        ],
+      },
+    ],
+    dependencies: [
+      { from: 'mli-backprop', to: 'mli-cnn', kind: 'prerequisite' },
+      { from: 'mli-selection', to: 'mli-random-forests', kind: 'related' },
+    ],
+  },
+  'machine-learning:advanced': {
+    topic: 'Machine Learning',
+    branches: [
+      {
+        id: 'mla-transformers',
+        name: 'Transformers',
+        description: 'Attention-based architectures behind modern language models.',
+        subtopics: [
+          { id: 'mla-attention', name: 'Self-Attention', description: 'Scaled dot-product and multi-head attention.' },
+          { id: 'mla-pretraining', name: 'Pretraining Objectives', description: 'Masked and causal language modelling.' },
+        ],
+      },
+      {
+        id: 'mla-generative',
+        name: 'Generative Models',
+        description: 'Models that learn to produce new data.',
+        subtopics: [
+          { id: 'mla-vae', name: 'Variational Autoencoders', description: 'Latent variable models and the ELBO.' },
+          { id: 'mla-diffusion', name: 'Diffusion Models', description: 'Denoising as a generative process.' },
+        ],
+      },
+      {
+        id: 'mla-mlops',
+        name: 'ML Systems',
+        description: 'Training and serving models at scale.',
+        subtopics: [
+          { id: 'mla-distributed', name: 'Distributed Training', description: 'Data, tensor and pipeline parallelism.' },
+          { id: 'mla-serving', name: 'Model Serving', description: 'Batching, quantization and latency budgets.' },
+        ],
+      },
+    ],
+  },
+  'web-development:beginner': {
+    topic: 'Web Development',
+    branches: [
+      {
+        id: 'web-html-css',
+        name: 'HTML & CSS',
+        description: 'Structuring and styling web pages.',
+        subtopics: [
+          { id: 'web-semantic-html', name: 'Semantic HTML', description: 'Meaningful markup for content and accessibility.' },
+          { id: 'web-layout', name: 'Flexbox & Grid', description: 'Modern CSS layout techniques.' },
+        ],
+      },
+      {
+        id: 'web-javascript',
+        name: 'JavaScript',
+        description: 'Making pages interactive.',
+        subtopics: [
+          { id: 'web-js-basics', name: 'Language Basics', description: 'Variables, functions, objects and arrays.' },
+          { id: 'web-dom', name: 'The DOM', description: 'Reading and updating the page from code.' },
+          { id: 'web-async', name: 'Async JavaScript', description: 'Promises, async/await and fetch.' },
+        ],
+      },
+      {
+        id: 'web-tooling',
+        name: 'Tooling & Deployment',
+        description: 'Shipping a site from your laptop to the internet.',
+        subtopics: [
+          { id: 'web-git', name: 'Git Basics', description: 'Tracking changes and collaborating.' },
+          { id: 'web-hosting', name: 'Hosting', description: 'Publishing static sites and apps.' },
+        ],
+      },
+    ],
+    dependencies: [
+      { from: 'web-semantic-html', to: 'web-dom', kind: 'prerequisite' },
+      { from: 'web-git', to: 'web-hosting', kind: 'prerequisite' },
+    ],
+  },
+  'data-science:beginner': {
+    topic: 'Data Science',
+    branches: [
+      {
+        id: 'ds-python',
+        name: 'Python for Data',
+        description: 'The language and libraries of everyday analysis.',
+        subtopics: [
+          { id: 'ds-pandas', name: 'pandas', description: 'Loading, filtering and reshaping tables.' },
+          { id: 'ds-numpy', name: 'NumPy', description: 'Fast numerical arrays.' },
+        ],
+      },
+      {
+        id: 'ds-analysis',
+        name: 'Exploratory Analysis',
+        description: 'Getting to know a dataset before modelling it.',
+        subtopics: [
+          { id: 'ds-summary-stats', name: 'Summary Statistics', description: 'Means, medians, spread and outliers.' },
+          { id: 'ds-visualization', name: 'Visualization', description: 'Charts that reveal patterns.' },
+        ],
+      },
+      {
+        id: 'ds-communication',
+        name: 'Communicating Results',
+        description: 'Turning findings into decisions.',
+        subtopics: [
+          { id: 'ds-storytelling', name: 'Data Storytelling', description: 'Framing insights for an audience.' },
+          { id: 'ds-notebooks', name: 'Notebooks & Reports', description: 'Reproducible, shareable analyses.' },
+        ],
+      },
+    ],
+  },
+  'ui-ux-design:beginner': {
+    topic: 'UI/UX Design',
+    branches: [
+      {
+        id: 'ux-research',
+        name: 'User Research',
+        description: 'Understanding who you are designing for.',
+        subtopics: [
+          { id: 'ux-interviews', name: 'User Interviews', description: 'Asking good questions and listening.' },
+          { id: 'ux-personas', name: 'Personas & Journeys', description: 'Modelling users and their goals.' },
+        ],
+      },
+      {
+        id: 'ux-visual',
+        name: 'Visual Design',
+        description: 'Making interfaces clear and attractive.',
+        subtopics: [
+          { id: 'ux-typography', name: 'Typography', description: 'Choosing and pairing type.' },
+          { id: 'ux-color', name: 'Color & Contrast', description: 'Palettes that are accessible and on-brand.' },
+        ],
+      },
+      {
+        id: 'ux-prototyping',
+        name: 'Prototyping',
+        description: 'Testing ideas before building them.',
+        subtopics: [
+          { id: 'ux-wireframes', name: 'Wireframes', description: 'Low-fidelity layouts of key screens.' },
+          { id: 'ux-usability', name: 'Usability Testing', description: 'Watching real users try your design.' },
+        ],
+      },
+    ],
+  },
+};
+
+const GENERIC_BRANCHES = [
+  { name: 'Foundations', description: 'Core vocabulary and ideas', subtopics: ['Key Concepts', 'History & Context'] },
+  { name: 'Tools & Techniques', description: 'The everyday tools of the craft', subtopics: ['Essential Tools', 'Common Techniques'] },
+  { name: 'Practice', description: 'Hands-on projects that build skill', subtopics: ['Guided Exercises', 'First Project'] },
+  { name: 'Going Further', description: 'Where to go once the basics click', subtopics: ['Advanced Topics', 'Community & Resources'] },
+];
+
+// Study hours per generic subtopic; branches themselves get an hour of overview.
+const GENERIC_HOURS: Record<LearningLevel, number> = { beginner: 3, intermediate: 4, advanced: 6 };
+
+/**
+ * Returns the fixture for a topic and level, or a generic map built from a
+ * template so every topic works offline. Output is fully deterministic.
+ */
+export const mockLearningMap = (topic: string, level: LearningLevel): LearningMapData => {
+  const key = `${slugify(topic)}:${level}`;
+  const fixture = FIXTURES[key];
+  if (fixture) {
+    return structuredClone(fixture);
+  }
+
+  const prefix = slugify(topic);
+  return {
+    topic: topic.trim(),
+    branches: GENERIC_BRANCHES.map((branch, index) => ({
+      id: `${prefix}-${index + 1}`,
+      name: branch.name,
+      description: `${branch.description} for ${level} ${topic.trim()} learners.`,
+      estimatedHours: 1,
+      subtopics: branch.subtopics.map((name, subIndex) => ({
+        id: `${prefix}-${index + 1}-${subIndex + 1}`,
+        name,
+        description: `${name} in ${topic.trim()}.`,
+        estimatedHours: GENERIC_HOURS[level],
+      })),
+    })),
+    dependencies: [
+      { from: `${prefix}-1-1`, to: `${prefix}-2-2`, kind: 'prerequisite' },
+      { from: `${prefix}-2-1`, to: `${prefix}-3-2`, kind: 'prerequisite' },
+      { from: `${prefix}-4-2`, to: `${prefix}-3`, kind: 'related' },
+    ],
+  };
+};
+
+const GENERIC_CHILDREN = [
+  { name: 'Key Ideas', description: 'The core ideas behind', estimatedHours: 2 },
+  { name: 'Hands-on Practice', description: 'Exercises that apply', estimatedHours: 3 },
+  { name: 'Common Pitfalls', description: 'Mistakes people make with', estimatedHours: 1 },
+];
+
+/** Deterministic children for an expanded node. */
+export const mockExpansion = (nodeId: string, nodeName: string): { subtopics: Subtopic[] } => ({
+  subtopics: GENERIC_CHILDREN.map((child) => ({
+    id: `${nodeId}-${slugify(child.name)}`,
+    name: `${child.name}: ${nodeName}`,
+    description: `${child.description} ${nodeName}.`,
+    estimatedHours: child.estimatedHours,
+  })),
+});
+
+/** A deterministic rewrite of a branch that mentions the feedback it was given. */
+export const mockRegeneration = (
+  nodeId: string,
+  nodeName: string,
+  feedback: string,
+): { branch: Branch; dependencies: [] } => ({
+  branch: {
+    id: nodeId,
+    name: nodeName,
+    description: feedback ? `${nodeName}, reworked for: ${feedback}.` : `A fresh take on ${nodeName}.`,
+    estimatedHours: 1,
+    subtopics: mockExpansion(nodeId, nodeName).subtopics,
+  },
+  dependencies: [],
+});
+
+/** Deterministic search-style resources, so the links work without a model. */
+export const mockResources = (topic: string, nodeName: string): { resources: Resource[] } => {
+  const query = encodeURIComponent(`${topic} ${nodeName}`);
+  return {
+    resources: [
+      {
+        title: `${nodeName} on Wikipedia`,
+        type: 'article',
+        url: `https://en.wikipedia.org/w/index.php?search=${query}`,
+        estimatedMinutes: 20,
+        free: true,
+      },
+      {
+        title: `${nodeName} explained`,
+        type: 'video',
+        url: `https://www.youtube.com/results?search_query=${query}`,
+        estimatedMinutes: 15,
+        free: true,
+      },
+      {
+        title: `${nodeName} courses`,
+        type: 'course',
+        url: `https://www.coursera.org/search?query=${query}`,
+        estimatedMinutes: 240,
+        free: false,
+      },
+    ],
+  };
+};
+
+/** A fixed quiz about the node, so the review flow can be exercised without a model. */
+export const mockQuiz = (topic: string, nodeName: string): {
+  questions: (Omit<MultipleChoiceQuestion, 'id'> | Omit<ShortAnswerQuestion, 'id'>)[];
+} => ({
+  questions: [
+    {
+      kind: 'multiple_choice',
+      prompt: `Which area of ${topic} does ${nodeName} belong to?`,
+      choices: [topic, 'Medieval history', 'Marine biology', 'Music theory'],
+      answerIndex: 0,
+      explanation: `${nodeName} is part of the ${topic} learning map.`,
+    },
+    {
+      kind: 'multiple_choice',
+      prompt: `What is the best first step when starting ${nodeName}?`,
+      choices: ['Skip to the hardest material', 'Learn the core vocabulary and ideas', 'Memorise every edge case'],
+      answerIndex: 1,
+      explanation: 'Core ideas make the details easier to place.',
+    },
+    {
+      kind: 'short_answer',
+      prompt: `In one sentence, why does ${nodeName} matter when learning ${topic}?`,
+      answer: `${nodeName} is a building block that later parts of ${topic} depend on.`,
+      explanation: 'A good answer connects the node to the rest of the topic.',
+    },
+  ],
+});
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+
+/** Grades by how many of the model answer's words the learner used. */
+export const mockGrade = (expected: string, answer: string): AnswerGrade => {
+  const target = words(expected);
+  const given = words(answer);
+  const hits = [...target].filter((word) => given.has(word)).length;
+  const score = target.size > 0 ? Math.round((hits / target.size) * 100) / 100 : 0;
+  const correct = score >= PASSING_SCORE;
+  return {
+    correct,
+    score,
+    feedback: correct
+      ? 'Good answer: it covers the key points.'
+      : `Partly there. A complete answer would say: ${expected}`,
+  };
+};
+
+/** The canned response for whatever the task asks for. */
+export const mockCompletion = (task: GenerationTask): unknown => {
+  switch (task.kind) {
+    case 'map':
+      return mockLearningMap(task.topic, task.level);
+    case 'expand':
+      return mockExpansion(task.nodeId, task.nodeName);
+    case 'resources':
+      return mockResources(task.topic, task.nodeName);
+    case 'quiz':
+      return mockQuiz(task.topic, task.nodeName);
+    case 'regenerate':
+      return mockRegeneration(task.nodeId, task.nodeName, task.feedback);
+    case 'grade':
+      return mockGrade(task.expected, task.answer);
+  }
+};
@@ -0,0 +1,160 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The handler reads its configuration from Deno.env and registers itself with Deno.serve on import.
+const deno = vi.hoisted(() => {
+  const env: Record<string, string> = {};
+  const state: { handler?: (req: Request) => Promise<Response> } = {};
+  vi.stubGlobal('Deno', {
+    env: { get: (name: string) => env[name] },
+    serve: (handler: (req: Request) => Promise<Response>) => {
+      state.handler = handler;
+    },
+  });
+  return { env, state };
+});
+
+const db = vi.hoisted(() => ({ rpc: vi.fn(), settleUsage: vi.fn() }));
+vi.mock('./supabase.ts', () => ({
+  getCaller: async () => ({ id: 'user-1' }),
+  getAdminClient: () => ({ rpc: db.rpc }),
+  settleUsage: db.settleUsage,
+}));
+
+const QUOTA_ROW = {
+  plan_name: 'Free',
+  monthly_quota: 30,
+  used: 10,
+  burst: 5,
+  refill_per_minute: 2,
+  resets_at: '2026-11-01T00:00:00Z',
+};
+
+/** Answers the rate-limit, quota and reservation calls; `used` and `usage_id` can be overridden. */
+const database = ({ used = 10, usageId = 'usage-1' as string | null } = {}) =>
+  db.rpc.mockImplementation((name: string) => {
+    const data =
+      name === 'take_rate_limit_token'
+        ? { allowed: true, remaining: 4, reset_seconds: 0 }
+        : name === 'generation_quota'
+          ? { ...QUOTA_ROW, used }
+          : { ...QUOTA_ROW, used: used + 1, usage_id: usageId };
+    return { single: async () => ({ data, error: null }) };
+  });
+
+const reservations = () => db.rpc.mock.calls.filter(([name]) => name === 'reserve_generation');
+
+const generate = (topic: string) =>
+  deno.state.handler!(
+    new Request('https://example.com', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer token' },
+      body: JSON.stringify({ topic }),
+    }),
+  );
+
+const configure = (env: Record<string, string>) => {
+  for (const name of Object.keys(deno.env)) delete deno.env[name];
+  Object.assign(deno.env, env);
+};
+
+beforeAll(async () => {
+  await import('./index.ts');
+});
+
+beforeEach(() => {
+  db.rpc.mockReset();
+  db.settleUsage.mockReset();
+  for (const method of ['log', 'warn', 'error'] as const) vi.spyOn(console, method).mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('quota reservations', () => {
+  it('settles a successful generation as succeeded', async () => {
+    configure({ AI_PROVIDER: 'mock', AI_MOCK_DELAY_MS: '0', GENERATION_CACHE_TTL_SECONDS: '0' });
+    database();
+
+    const response = await generate('Sourdough');
+    expect(response.status).toBe(200);
+    expect(reservations()).toHaveLength(1);
+    expect(db.settleUsage).toHaveBeenCalledWith('usage-1', { succeeded: true, provider: 'mock', model: 'fixtures' });
+    expect(response.headers.get('RateLimit-Remaining')).toBe('4');
+  });
+
+  // generation_quota only counts succeeded usage and reservations still running.
+  it('settles a failed generation as failed, so it stops counting', async () => {
+    configure({
+      AI_PROVIDER: 'openai',
+      AI_API_KEY: 'key',
+      AI_MODEL: 'model-a',
+      AI_MAX_RETRIES: '0',
+      GENERATION_CACHE_TTL_SECONDS: '0',
+    });
+    database();
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('{"error": "overloaded"}', { status: 500 }));
+
+    const response = await generate('Sourdough');
+    expect(response.status).toBeGreaterThanOrEqual(500);
+    expect(db.settleUsage).toHaveBeenCalledTimes(1);
+    expect(db.settleUsage).toHaveBeenCalledWith('usage-1', {
+      succeeded: false,
+      provider: 'openai-compatible',
+      model: 'model-a',
+    });
+  });
+
+  it('serves a cached map without reserving a generation', async () => {
+    configure({ AI_PROVIDER: 'mock', AI_MOCK_DELAY_MS: '0', GENERATION_CACHE_STORE: 'memory' });
+    database();
+
+    const first = await generate('Knitting');
+    expect(first.headers.get('X-Cache')).toBe('MISS');
+    const second = await generate('knitting ');
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(await second.json()).toEqual(await first.json());
+
+    expect(reservations()).toHaveLength(1);
+    expect(db.settleUsage).toHaveBeenCalledTimes(1);
+  });
+
+  it('still turns a cache hit away when the quota is used up', async () => {
+    configure({ AI_PROVIDER: 'mock', AI_MOCK_DELAY_MS: '0', GENERATION_CACHE_STORE: 'memory' });
+    database();
+    await generate('Pottery');
+
+    database({ used: 30 });
+    const response = await generate('Pottery');
+    expect(response.status).toBe(429);
+    expect((await response.json()).code).toBe('QUOTA_EXCEEDED');
+    expect(reservations()).toHaveLength(1);
+  });
+
+  it('turns the request away without calling the model when the reservation finds the quota used up', async () => {
+    configure({ AI_PROVIDER: 'openai', AI_API_KEY: 'key', GENERATION_CACHE_TTL_SECONDS: '0' });
+    database({ used: 29, usageId: null });
+    const fetch = vi.spyOn(globalThis, 'fetch');
+
+    const response = await generate('Sourdough');
+    expect(response.status).toBe(429);
+    expect(response.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(fetch).not.toHaveBeenCalled();
+    expect(db.settleUsage).not.toHaveBeenCalled();
+  });
+
+  it('turns the request away when the quota can\'t be reserved', async () => {
+    configure({ AI_PROVIDER: 'mock', GENERATION_CACHE_TTL_SECONDS: '0' });
+    database();
+    db.rpc.mockImplementation((name: string) => ({
+      single: async () =>
+        name === 'reserve_generation'
+          ? { data: null, error: { message: 'down' } }
+          : { data: name === 'generation_quota' ? QUOTA_ROW : { allowed: true, remaining: 4, reset_seconds: 0 }, error: null },
+    }));
+
+    const response = await generate('Sourdough');
+    expect(response.status).toBe(500);
+    expect(db.settleUsage).not.toHaveBeenCalled();
+  });
+});
@@ -1,157 +1,867 @@
 // Edge runtime types are automatically available
+import {
+  type Branch,
+  createIdRegistry,
+  DEFAULT_LIMITS,
+  type Dependency,
+  type LearningLevel,
+  type LearningMapData,
+  MAX_FEEDBACK_LENGTH,
+  type MapNode,
+  type Resource,
+  type SchemaViolation,
+  type Subtopic,
+  UNBOUNDED_LIMITS,
+  validateBranch,
+  validateBranchRewrite,
+  validateExpansion,
+  validateLearningMap,
+  validateResourceList,
+} from '../_shared/learningMap.ts';
+import { ERROR_CODES, errorBody, type GenerationErrorBody, type GenerationErrorCode } from '../_shared/errors.ts';
+import { encodeStreamEvent, type LearningMapStreamEvent } from '../_shared/learningMapStream.ts';
+import { collectNodeIds, findNodePath } from '../_shared/mapTree.ts';
+import {
+  type AnswerGrade,
+  isShortAnswerQuestion,
+  type QuizQuestion,
+  validateGrade,
+  validateQuiz,
+} from '../_shared/quiz.ts';
+import { resolveMapCache } from './cache.ts';
+import { createLearningMapScanner, extractJson } from './jsonScanner.ts';
+import {
+  clientIp,
+  getQuota,
+  type LimitState,
+  type Quota,
+  quotaError,
+  quotaState,
+  rateLimitError,
+  rateLimitHeaders,
+  reserveGeneration,
+  resolveIpLimits,
+  takeToken,
+} from './limits.ts';
+import {
+  correctivePrompt,
+  EXPAND_REQUIREMENTS,
+  expandMessages,
+  GRADE_REQUIREMENTS,
+  gradeMessages,
+  MAP_REQUIREMENTS,
+  mapMessages,
+  QUIZ_REQUIREMENTS,
+  quizMessages,
+  REGENERATE_REQUIREMENTS,
+  regenerateMessages,
+  RESOURCE_REQUIREMENTS,
+  resourceMessages,
+} from './prompts.ts';
+import { getCaller, settleUsage, type UsageMode } from './supabase.ts';
+import {
+  type AIProvider,
+  type ChatMessage,
+  type GenerationTask,
+  ProviderConfigError,
+  ProviderError,
+  resolveProvider,
+} from './providers.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers':
+    'x-cache, ratelimit-limit, ratelimit-remaining, ratelimit-reset, ratelimit-policy, retry-after',
 };
 
-interface LearningMapRequest {
+const streamHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+};
+
+interface MapRequest {
+  mode?: 'map';
   topic: string;
-  level?: 'beginner' | 'intermediate' | 'advanced';
+  level?: LearningLevel;
+  /** Stream the map back as server-sent events instead of a single JSON body. */
+  stream?: boolean;
 }
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+/** Generates children for one node of an existing map. */
+interface ExpandRequest {
+  mode: 'expand';
+  level?: LearningLevel;
+  map: unknown;
+  nodeId: string;
+}
+
+/** Suggests study resources for one node of an existing map. */
+interface ResourcesRequest {
+  mode: 'resources';
+  level?: LearningLevel;
+  map: unknown;
+  nodeId: string;
+}
+
+/** Writes review questions for one node of an existing map. */
+interface QuizRequest {
+  mode: 'quiz';
+  level?: LearningLevel;
+  map: unknown;
+  nodeId: string;
+}
+
+/** Rewrites one branch of an existing map, optionally following the learner's feedback. */
+interface RegenerateRequest {
+  mode: 'regenerate';
+  level?: LearningLevel;
+  map: unknown;
+  nodeId: string;
+  feedback?: string;
+}
+
+/** Grades a learner's answer to a short-answer quiz question. */
+interface GradeRequest {
+  mode: 'grade';
+  level?: LearningLevel;
+  topic: string;
+  question: unknown;
+  answer: string;
+}
+
+type NodeRequest = ExpandRequest | ResourcesRequest | QuizRequest | RegenerateRequest;
+
+type LearningMapRequest = MapRequest | NodeRequest | GradeRequest;
+
+// Keeps grading prompts to a sensible size.
+const MAX_ANSWER_LENGTH = 2000;
+
+// One initial attempt plus corrective re-prompts when the output can't be repaired.
+const MAX_GENERATION_ATTEMPTS = 2;
+
+type GenerationOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: GenerationErrorBody };
+
+type CandidateCheck<T> =
+  | { ok: true; value: T; repairs: string[] }
+  | { ok: false; violations: SchemaViolation[]; repairs: string[] };
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/** Says whether a map came from the cache (`HIT`), the model (`MISS`) or the model with caching off (`BYPASS`). */
+const withCacheStatus = (response: Response, status: 'HIT' | 'MISS' | 'BYPASS') => {
+  response.headers.set('X-Cache', status);
+  return response;
+};
+
+/** A failed response; the status comes from the code. */
+const errorResponse = (code: GenerationErrorCode, overrides: Partial<Omit<GenerationErrorBody, 'code'>> = {}) => {
+  const response = jsonResponse(errorBody(code, overrides), ERROR_CODES[code].status);
+  if (overrides.retryAfter !== undefined) {
+    response.headers.set('Retry-After', String(overrides.retryAfter));
+  }
+  return response;
+};
+
+const limitResponse = (body: GenerationErrorBody, limits: LimitState[]) => {
+  const response = jsonResponse(body, ERROR_CODES[body.code].status);
+  for (const [name, value] of Object.entries(rateLimitHeaders(limits))) {
+    response.headers.set(name, value);
+  }
+  response.headers.set('Retry-After', String(body.retryAfter ?? 0));
+  return response;
+};
+
+const quotaExceededResponse = (userId: string, quota: Quota) => {
+  const state = quotaState(quota);
+  console.warn(`User ${userId} is over the ${quota.planName} plan's monthly quota`);
+  return limitResponse(quotaError(quota, state.resetSeconds), [state]);
+};
+
+// The quota caps spending, so when it can't be checked the request is turned away.
+const quotaUnavailableResponse = () =>
+  errorResponse('INTERNAL', { error: "Couldn't check your generation quota", remediation: 'Try again in a moment.' });
+
+const providerErrorCode = (error: ProviderError): GenerationErrorCode => {
+  if (error.code) return error.code;
+  if (error.status === 429) return 'RATE_LIMITED';
+  if (error.status === 402) return 'CREDITS_EXHAUSTED';
+  if (error.status === 408 || error.status === 504) return 'UPSTREAM_TIMEOUT';
+  return 'UPSTREAM_ERROR';
+};
+
+/** What went wrong upstream, in the terms of the error contract. Upstream wording isn't passed on. */
+const providerErrorBody = (error: ProviderError) =>
+  errorBody(providerErrorCode(error), error.retryAfter === undefined ? {} : { retryAfter: error.retryAfter });
+
+const providerErrorResponse = (error: ProviderError) => {
+  const body = providerErrorBody(error);
+  return errorResponse(body.code, body);
+};
+
+/** The model's reason for declining the topic, if it declined. */
+const refusalOf = (candidate: unknown): string | null => {
+  const refusal = (candidate as { refusal?: unknown } | null)?.refusal;
+  return typeof refusal === 'string' && refusal.trim() ? refusal.trim() : null;
+};
+
+const unsafeTopicBody = (refusal: string) =>
+  errorBody('UNSAFE_TOPIC', { error: `${ERROR_CODES.UNSAFE_TOPIC.message}: ${refusal}` });
+
+/**
+ * Calls the model and enforces a schema on its output via `check`.
+ * Repairable problems are fixed in place; anything else triggers a
+ * corrective re-prompt, and the final violations are returned as a
+ * VALIDATION_FAILED error.
+ */
+const generateValidated = async <T>(
+  provider: AIProvider,
+  messages: ChatMessage[],
+  task: GenerationTask,
+  subject: string,
+  requirements: string,
+  check: (candidate: unknown) => CandidateCheck<T>,
+): Promise<GenerationOutcome<T>> => {
+  const conversation = [...messages];
+  let violations: SchemaViolation[] = [];
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    let generatedContent: string;
+    try {
+      generatedContent = await provider.complete({ messages: conversation, task });
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        return { ok: false, error: providerErrorBody(error) };
+      }
+      throw error;
+    }
+
+    let candidate: unknown;
+    try {
+      candidate = JSON.parse(extractJson(generatedContent));
+    } catch (parseError) {
+      console.error(`Attempt ${attempt}: failed to parse AI response as JSON:`, parseError);
+      console.error('Raw content:', generatedContent);
+      violations = [{ path: '', message: 'must be valid JSON' }];
+    }
+
+    const refusal = refusalOf(candidate);
+    if (refusal) {
+      console.warn(`Attempt ${attempt}: the model declined the ${subject}:`, refusal);
+      return { ok: false, error: unsafeTopicBody(refusal) };
+    }
+
+    if (candidate !== undefined) {
+      const result = check(candidate);
+      if (result.repairs.length > 0) {
+        console.log(`Attempt ${attempt}: repaired ${subject}:`, result.repairs);
+      }
+      if (result.ok === true) {
+        return { ok: true, value: result.value };
+      }
+      violations = result.violations;
+      console.warn(`Attempt ${attempt}: ${subject} failed validation:`, violations);
+    }
+
+    conversation.push(
+      { role: 'assistant', content: generatedContent },
+      { role: 'user', content: correctivePrompt(violations, requirements) },
+    );
   }
 
+  const isParseFailure = violations.length === 1 && violations[0].message === 'must be valid JSON';
+  return {
+    ok: false,
+    error: isParseFailure
+      ? errorBody('PARSE_FAILED', { error: `Failed to parse ${subject} structure` })
+      : errorBody('VALIDATION_FAILED', { error: `Generated ${subject} failed validation`, violations }),
+  };
+};
+
+const generateLearningMap = (provider: AIProvider, messages: ChatMessage[], task: GenerationTask) =>
+  generateValidated<LearningMapData>(provider, messages, task, 'learning map', MAP_REQUIREMENTS, (candidate) => {
+    const result = validateLearningMap(candidate, { topic: task.topic });
+    return result.ok === true
+      ? { ok: true, value: result.map, repairs: result.repairs }
+      : result;
+  });
+
+const generateExpansion = (
+  provider: AIProvider,
+  messages: ChatMessage[],
+  task: GenerationTask,
+  reservedIds: string[],
+) =>
+  generateValidated<Subtopic[]>(provider, messages, task, 'subtopics', EXPAND_REQUIREMENTS, (candidate) => {
+    const result = validateExpansion(candidate, reservedIds);
+    return result.ok === true
+      ? { ok: true, value: result.subtopics, repairs: result.repairs }
+      : result;
+  });
+
+const generateBranchRewrite = (
+  provider: AIProvider,
+  messages: ChatMessage[],
+  task: GenerationTask,
+  map: LearningMapData,
+  branchId: string,
+) =>
+  generateValidated<{ branch: Branch; dependencies: Dependency[] }>(
+    provider,
+    messages,
+    task,
+    'branch',
+    REGENERATE_REQUIREMENTS,
+    (candidate) => {
+      const result = validateBranchRewrite(candidate, map, branchId);
+      return result.ok === true
+        ? { ok: true, value: { branch: result.branch, dependencies: result.dependencies }, repairs: result.repairs }
+        : result;
+    },
+  );
+
+const generateResources = (provider: AIProvider, messages: ChatMessage[], task: GenerationTask) =>
+  generateValidated<Resource[]>(provider, messages, task, 'resources', RESOURCE_REQUIREMENTS, (candidate) => {
+    const result = validateResourceList(candidate);
+    return result.ok === true
+      ? { ok: true, value: result.resources, repairs: result.repairs }
+      : result;
+  });
+
+const generateQuiz = (provider: AIProvider, messages: ChatMessage[], task: GenerationTask) =>
+  generateValidated<QuizQuestion[]>(provider, messages, task, 'quiz', QUIZ_REQUIREMENTS, (candidate) => {
+    const result = validateQuiz(candidate);
+    return result.ok === true
+      ? { ok: true, value: result.questions, repairs: result.repairs }
+      : result;
+  });
+
+const generateGrade = (provider: AIProvider, messages: ChatMessage[], task: GenerationTask) =>
+  generateValidated<AnswerGrade>(provider, messages, task, 'grade', GRADE_REQUIREMENTS, (candidate) => {
+    const result = validateGrade(candidate);
+    return result.ok === true
+      ? { ok: true, value: result.grade, repairs: result.repairs }
+      : result;
+  });
+
+/** Checks the map sent with a node request and finds the path down to the requested node. */
+const resolveRequestNode = (
+  request: NodeRequest,
+): { ok: true; map: LearningMapData; path: MapNode[] } | { ok: false; response: Response } => {
+  const parsed = validateLearningMap(request.map, { repair: false, limits: UNBOUNDED_LIMITS });
+  if (parsed.ok === false) {
+    return {
+      ok: false,
+      response: errorResponse('INVALID_REQUEST', {
+        error: 'A valid learning map is required',
+        violations: parsed.violations,
+      }),
+    };
+  }
+
+  const path = request.nodeId ? findNodePath(parsed.map, request.nodeId) : null;
+  if (!path) {
+    return { ok: false, response: errorResponse('INVALID_REQUEST', { error: 'Node not found in learning map' }) };
+  }
+  return { ok: true, map: parsed.map, path };
+};
+
+/**
+ * Streams the map as server-sent events: the topic first, then each branch
+ * followed by its subtopics as soon as the model has finished writing it, and
+ * finally the validated map. A branch that can't be repaired is reported with
+ * a `rejected` event and left out; if the finished map still fails validation,
+ * the model is re-prompted with the violations and the corrected map is sent
+ * as `done`. Upstream errors raised before the first chunk still come back as
+ * regular JSON error responses.
+ */
+const streamLearningMap = async (
+  provider: AIProvider,
+  messages: ChatMessage[],
+  task: GenerationTask,
+  onFinish: (map: LearningMapData | null) => Promise<void>,
+): Promise<Response> => {
+  const abort = new AbortController();
+  const chunks = provider.stream({ messages, task, signal: abort.signal })[Symbol.asyncIterator]();
+
+  let first: IteratorResult<string>;
   try {
-    const { topic, level = 'beginner' }: LearningMapRequest = await req.json();
-    
-    if (!topic || topic.trim().length === 0) {
-      return new Response(
-        JSON.stringify({ error: 'Topic is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      console.error('LOVABLE_API_KEY is not configured');
-      return new Response(
-        JSON.stringify({ error: 'AI service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const systemPrompt = `You are an expert educational content structurer. Your task is to create a comprehensive, well-organized learning roadmap for any given topic.
-
-Generate a structured learning map with:
-- 3-5 main branches (core areas of study)
-- 2-4 subtopics under each branch
-- Brief, clear descriptions for each node
-- Logical progression from fundamentals to advanced concepts
-- Consider the learning level: ${level}
-
-Return ONLY valid JSON in this exact format:
-{
-  "topic": "Main Topic Name",
-  "branches": [
-    {
-      "id": "unique-id-1",
-      "name": "Branch Name",
-      "description": "Brief description of this learning area",
-      "subtopics": [
-        {
-          "id": "unique-id-1-1",
-          "name": "Subtopic Name",
-          "description": "What you'll learn in this subtopic"
+    first = await chunks.next();
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      await onFinish(null);
+      return providerErrorResponse(error);
+    }
+    throw error;
+  }
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: LearningMapStreamEvent) =>
+        controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+
+      const scanner = createLearningMapScanner();
+      const registry = createIdRegistry(['main']);
+      const branches: Branch[] = [];
+      const dependencies: unknown[] = [];
+      const violations: SchemaViolation[] = [];
+      const repairs: string[] = [];
+      let topic = '';
+      let raw = '';
+      let finished: LearningMapData | null = null;
+
+      const sendTopic = (value: string) => {
+        if (topic) return;
+        topic = value.trim() || task.topic.trim();
+        send({ type: 'topic', topic });
+      };
+
+      try {
+        for (let next = first; !next.done; next = await chunks.next()) {
+          raw += next.value;
+          for (const value of scanner.push(next.value)) {
+            if (value.kind === 'topic') {
+              sendTopic(value.topic);
+              continue;
+            }
+            if (value.kind === 'dependency') {
+              dependencies.push(value.raw);
+              continue;
+            }
+            if (branches.length >= DEFAULT_LIMITS.maxBranches) continue;
+
+            const before = violations.length;
+            const branch = validateBranch(
+              value.raw,
+              `branches[${branches.length}]`,
+              registry,
+              { repair: true, limits: DEFAULT_LIMITS },
+              violations,
+              repairs,
+            );
+            if (!branch || violations.length > before) {
+              const rejected = violations.slice(before);
+              console.warn('Rejected streamed branch:', rejected);
+              send({ type: 'rejected', path: `branches[${branches.length}]`, violations: rejected });
+              continue;
+            }
+
+            sendTopic(task.topic);
+            branches.push(branch);
+            const { subtopics, ...fields } = branch;
+            send({ type: 'branch', branch: fields });
+            for (const subtopic of subtopics) {
+              send({ type: 'subtopic', branchId: branch.id, subtopic });
+            }
+          }
         }
-      ]
-    }
-  ]
-}`;
-
-    const userPrompt = `Create a comprehensive learning roadmap for: "${topic}"
-    
-Learning level: ${level}
-
-Please structure it as a learning map with clear branches and subtopics. Make it practical and actionable.`;
-
-    console.log('Calling Lovable AI for topic:', topic);
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.7,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+
+        if (abort.signal.aborted) return;
+
+        if (branches.length === 0) {
+          let refusal: string | null = null;
+          try {
+            refusal = refusalOf(JSON.parse(extractJson(raw)));
+          } catch {
+            // Not JSON at all; validation below reports it.
+          }
+          if (refusal) {
+            console.warn('The model declined the learning map:', refusal);
+            send({ type: 'error', ...unsafeTopicBody(refusal) });
+            return;
+          }
+        }
+
+        const result = validateLearningMap(
+          { topic: topic || task.topic, branches, dependencies },
+          { topic: task.topic },
         );
-      }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI service credits exhausted. Please add credits to continue.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        if (repairs.length + result.repairs.length > 0) {
+          console.log('Repaired streamed learning map:', [...repairs, ...result.repairs]);
+        }
+        if (result.ok === true) {
+          console.log(`Successfully streamed learning map with ${provider.answeredBy} for:`, task.topic);
+          finished = result.map;
+          send({ type: 'done', map: result.map });
+          return;
+        }
+
+        const failures = [...violations, ...result.violations];
+        console.warn('Streamed learning map failed validation, re-prompting:', failures);
+        const outcome = await generateLearningMap(
+          provider,
+          [
+            ...messages,
+            { role: 'assistant', content: raw },
+            { role: 'user', content: correctivePrompt(failures, MAP_REQUIREMENTS) },
+          ],
+          task,
         );
+        if (abort.signal.aborted) return;
+        if (outcome.ok === true) {
+          finished = outcome.value;
+          send({ type: 'done', map: outcome.value });
+        } else {
+          send({ type: 'error', ...outcome.error });
+        }
+      } catch (error) {
+        if (abort.signal.aborted) return;
+        console.error('Error while streaming learning map:', error);
+        send({
+          type: 'error',
+          ...(error instanceof ProviderError
+            ? providerErrorBody(error)
+            : errorBody('INTERNAL', { error: 'Failed to generate learning map' })),
+        });
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+        await onFinish(finished);
       }
+    },
+    cancel() {
+      console.log('Client cancelled streamed generation for:', task.topic);
+      abort.abort();
+    },
+  });
+
+  return new Response(body, { headers: streamHeaders });
+};
 
-      return new Response(
-        JSON.stringify({ error: 'Failed to generate learning map' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+/** Sends a finished map as the events a live stream would have, e.g. for a cache hit. */
+const replayLearningMap = (map: LearningMapData): Response => {
+  const events: LearningMapStreamEvent[] = [{ type: 'topic', topic: map.topic }];
+  for (const { subtopics, ...fields } of map.branches) {
+    events.push({ type: 'branch', branch: fields });
+    for (const subtopic of subtopics) {
+      events.push({ type: 'subtopic', branchId: fields.id, subtopic });
     }
+  }
+  events.push({ type: 'done', map });
+  return new Response(events.map(encodeStreamEvent).join(''), { headers: streamHeaders });
+};
+
+/**
+ * Handles one request. `limitHeaders` collects the caller's `RateLimit-*`
+ * headers, which are added to whatever response comes back.
+ */
+const handleRequest = async (req: Request, limitHeaders: Headers): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
 
-    const data = await response.json();
-    const generatedContent = data.choices?.[0]?.message?.content;
+  // Settles the request's quota reservation as failed if something throws.
+  const pending: { settle?: (succeeded: boolean) => Promise<void> } = {};
 
-    if (!generatedContent) {
-      console.error('No content in AI response:', data);
-      return new Response(
-        JSON.stringify({ error: 'No content generated' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+  try {
+    // Checked before sign-in so unauthenticated floods are turned away cheaply too.
+    const ipLimits = resolveIpLimits((name) => Deno.env.get(name));
+    const ipBucket = await takeToken(`ip:${clientIp(req)}`, ipLimits.burst, ipLimits.refillPerMinute);
+    if (ipBucket && !ipBucket.allowed) {
+      console.warn('Rate limited address:', clientIp(req));
+      return limitResponse(rateLimitError(ipBucket.resetSeconds), [ipBucket]);
     }
 
-    // Extract JSON from markdown code blocks if present
-    let jsonContent = generatedContent;
-    const jsonMatch = generatedContent.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-    if (jsonMatch) {
-      jsonContent = jsonMatch[1];
+    const caller = await getCaller(req);
+    if (!caller) {
+      return errorResponse('UNAUTHENTICATED');
     }
 
-    let learningMap;
+    // Read before any of the caller's limits are touched, so a bad body costs nothing.
+    let request: LearningMapRequest;
     try {
-      learningMap = JSON.parse(jsonContent);
-    } catch (parseError) {
-      console.error('Failed to parse AI response as JSON:', parseError);
-      console.error('Raw content:', generatedContent);
-      return new Response(
-        JSON.stringify({ error: 'Failed to parse learning map structure' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      request = await req.json();
+    } catch {
+      return errorResponse('INVALID_REQUEST', { error: 'The request body must be JSON' });
+    }
+    if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+      return errorResponse('INVALID_REQUEST', { error: 'The request body must be a JSON object' });
+    }
+    if ((!request.mode || request.mode === 'map' || request.mode === 'grade') && !request.topic?.trim()) {
+      return errorResponse('TOPIC_REQUIRED');
     }
 
-    console.log('Successfully generated learning map for:', topic);
+    // A cheap early check; the quota is only taken, atomically, just before the model is called.
+    const quota = await getQuota(caller.id);
+    if (!quota) {
+      return quotaUnavailableResponse();
+    }
+    if (quota.used >= quota.monthlyQuota) {
+      return quotaExceededResponse(caller.id, quota);
+    }
 
-    return new Response(
-      JSON.stringify(learningMap),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    const userBucket = await takeToken(`user:${caller.id}`, quota.burst, quota.refillPerMinute);
+    const limits = [...(userBucket ? [userBucket] : []), quotaState(quota)];
+    if (userBucket && !userBucket.allowed) {
+      console.warn(`Rate limited user ${caller.id}`);
+      return limitResponse(rateLimitError(userBucket.resetSeconds), limits);
+    }
+    for (const [name, value] of Object.entries(rateLimitHeaders(limits))) {
+      limitHeaders.set(name, value);
+    }
+
+    const level = request.level ?? 'beginner';
+
+    let provider: AIProvider;
+    try {
+      provider = resolveProvider((name) => Deno.env.get(name));
+    } catch (error) {
+      if (error instanceof ProviderConfigError) {
+        console.error(error.message);
+        return errorResponse('NOT_CONFIGURED');
+      }
+      throw error;
+    }
+
+    /**
+     * Takes one generation of the caller's quota before the model is called.
+     * `settle` records the outcome; only successes keep counting.
+     */
+    const reserve = async (
+      mode: UsageMode,
+      topic: string,
+      streamed: boolean,
+    ): Promise<{ ok: true; settle: (succeeded: boolean) => Promise<void> } | { ok: false; response: Response }> => {
+      const reservation = await reserveGeneration({
+        user_id: caller.id,
+        mode,
+        topic,
+        level,
+        provider: provider.name,
+        model: provider.model,
+        streamed,
+      });
+      if (reservation.status === 'unavailable') {
+        return { ok: false, response: quotaUnavailableResponse() };
+      }
+      if (reservation.status === 'exceeded') {
+        return { ok: false, response: quotaExceededResponse(caller.id, reservation.quota) };
+      }
+
+      let settled = false;
+      const settle = async (succeeded: boolean) => {
+        if (settled) return;
+        settled = true;
+        await settleUsage(reservation.usageId, { succeeded, provider: provider.name, model: provider.answeredBy });
+      };
+      pending.settle = settle;
+      return { ok: true, settle };
+    };
+
+    if (request.mode === 'expand') {
+      const lookup = resolveRequestNode(request);
+      if (lookup.ok === false) {
+        return lookup.response;
+      }
+
+      const { map, path } = lookup;
+      const node = path[path.length - 1];
+      console.log(`Calling ${provider.name} (${provider.model}) for user ${caller.id}, expanding:`, node.id);
+
+      const task: GenerationTask = { kind: 'expand', topic: map.topic, level, nodeId: node.id, nodeName: node.name };
+      const reservation = await reserve('expand', map.topic, false);
+      if (reservation.ok === false) {
+        return reservation.response;
+      }
+      const outcome = await generateExpansion(provider, expandMessages(map, path, level), task, collectNodeIds(map));
+      await reservation.settle(outcome.ok);
+
+      if (outcome.ok === false) {
+        return errorResponse(outcome.error.code, outcome.error);
+      }
+
+      console.log(`Successfully expanded ${node.id} with ${outcome.value.length} subtopics from ${provider.answeredBy}`);
+      return jsonResponse({ nodeId: node.id, subtopics: outcome.value });
+    }
+
+    if (request.mode === 'resources') {
+      const lookup = resolveRequestNode(request);
+      if (lookup.ok === false) {
+        return lookup.response;
+      }
+
+      const { map, path } = lookup;
+      const node = path[path.length - 1];
+      console.log(`Calling ${provider.name} (${provider.model}) for user ${caller.id}, resources for:`, node.id);
+
+      const task: GenerationTask = { kind: 'resources', topic: map.topic, level, nodeId: node.id, nodeName: node.name };
+      const reservation = await reserve('resources', map.topic, false);
+      if (reservation.ok === false) {
+        return reservation.response;
+      }
+      const outcome = await generateResources(provider, resourceMessages(map, path, level), task);
+      await reservation.settle(outcome.ok);
+
+      if (outcome.ok === false) {
+        return errorResponse(outcome.error.code, outcome.error);
+      }
+
+      console.log(`Successfully found ${outcome.value.length} resources for ${node.id} with ${provider.answeredBy}`);
+      return jsonResponse({ nodeId: node.id, resources: outcome.value });
+    }
+
+    if (request.mode === 'quiz') {
+      const lookup = resolveRequestNode(request);
+      if (lookup.ok === false) {
+        return lookup.response;
+      }
+
+      const { map, path } = lookup;
+      const node = path[path.length - 1];
+      console.log(`Calling ${provider.name} (${provider.model}) for user ${caller.id}, quiz for:`, node.id);
+
+      const task: GenerationTask = { kind: 'quiz', topic: map.topic, level, nodeId: node.id, nodeName: node.name };
+      const reservation = await reserve('quiz', map.topic, false);
+      if (reservation.ok === false) {
+        return reservation.response;
+      }
+      const outcome = await generateQuiz(provider, quizMessages(map, path, level), task);
+      await reservation.settle(outcome.ok);
+
+      if (outcome.ok === false) {
+        return errorResponse(outcome.error.code, outcome.error);
+      }
+
+      console.log(`Successfully wrote ${outcome.value.length} quiz questions for ${node.id} with ${provider.answeredBy}`);
+      return jsonResponse({ nodeId: node.id, questions: outcome.value });
+    }
+
+    if (request.mode === 'regenerate') {
+      const feedback = typeof request.feedback === 'string' ? request.feedback.trim() : '';
+      if (feedback.length > MAX_FEEDBACK_LENGTH) {
+        return errorResponse('INVALID_REQUEST', { error: `Feedback can be up to ${MAX_FEEDBACK_LENGTH} characters` });
+      }
+
+      const lookup = resolveRequestNode(request);
+      if (lookup.ok === false) {
+        return lookup.response;
+      }
+
+      const { map, path } = lookup;
+      if (path.length !== 1) {
+        return errorResponse('INVALID_REQUEST', { error: 'Only a branch can be regenerated' });
+      }
+      const branch = path[0] as Branch;
+      console.log(`Calling ${provider.name} (${provider.model}) for user ${caller.id}, regenerating:`, branch.id);
+
+      const task: GenerationTask = {
+        kind: 'regenerate',
+        topic: map.topic,
+        level,
+        nodeId: branch.id,
+        nodeName: branch.name,
+        feedback,
+      };
+      const messages = regenerateMessages(map, branch, level, feedback);
+      const reservation = await reserve('regenerate', map.topic, false);
+      if (reservation.ok === false) {
+        return reservation.response;
+      }
+      const outcome = await generateBranchRewrite(provider, messages, task, map, branch.id);
+      await reservation.settle(outcome.ok);
+
+      if (outcome.ok === false) {
+        return errorResponse(outcome.error.code, outcome.error);
+      }
+
+      console.log(`Successfully regenerated ${branch.id} with ${provider.answeredBy}`);
+      return jsonResponse({ branchId: branch.id, ...outcome.value });
+    }
+
+    if (request.mode === 'grade') {
+      const { question } = request;
+      if (!isShortAnswerQuestion(question)) {
+        return errorResponse('INVALID_REQUEST', { error: 'A short-answer question is required' });
+      }
+      const answer = typeof request.answer === 'string' ? request.answer.trim() : '';
+      if (!answer || answer.length > MAX_ANSWER_LENGTH) {
+        return errorResponse('INVALID_REQUEST', {
+          error: `An answer of up to ${MAX_ANSWER_LENGTH} characters is required`,
+        });
+      }
+
+      const topic = request.topic.trim();
+      console.log(`Calling ${provider.name} (${provider.model}) for user ${caller.id}, grading an answer about:`, topic);
+
+      const task: GenerationTask = { kind: 'grade', topic, level, expected: question.answer, answer };
+      const reservation = await reserve('grade', topic, false);
+      if (reservation.ok === false) {
+        return reservation.response;
+      }
+      const outcome = await generateGrade(provider, gradeMessages(topic, level, question, answer), task);
+      await reservation.settle(outcome.ok);
+
+      if (outcome.ok === false) {
+        return errorResponse(outcome.error.code, outcome.error);
+      }
+      return jsonResponse(outcome.value);
+    }
+
+    const { topic, stream = false } = request;
+
+    // Identical requests share one generation: repeats are served from the
+    // cache and concurrent ones wait for the first instead of calling the model.
+    const cache = resolveMapCache((name) => Deno.env.get(name), provider);
+    const claim = cache ? await cache.claim(topic, level) : null;
+    if (claim?.hit) {
+      console.log(`Serving cached learning map to user ${caller.id}, topic:`, topic);
+      return withCacheStatus(stream ? replayLearningMap(claim.map) : jsonResponse(claim.map), 'HIT');
+    }
+    const cacheStatus = claim ? 'MISS' : 'BYPASS';
+
+    console.log(`Calling ${provider.name} (${provider.model}) for user ${caller.id}, topic:`, topic);
+
+    const reservation = await reserve('map', topic, stream);
+    if (reservation.ok === false) {
+      await claim?.settle(null);
+      return reservation.response;
+    }
+
+    const messages = mapMessages(topic, level);
+    const task: GenerationTask = { kind: 'map', topic, level };
+    const finish = async (map: LearningMapData | null) => {
+      await claim?.settle(map);
+      await reservation.settle(map !== null);
+    };
+
+    try {
+      if (stream) {
+        return withCacheStatus(await streamLearningMap(provider, messages, task, finish), cacheStatus);
+      }
+
+      const outcome = await generateLearningMap(provider, messages, task);
+      await finish(outcome.ok ? outcome.value : null);
+
+      if (outcome.ok === false) {
+        return withCacheStatus(errorResponse(outcome.error.code, outcome.error), cacheStatus);
+      }
+
+      console.log(`Successfully generated learning map with ${provider.answeredBy} for:`, topic);
+
+      return withCacheStatus(jsonResponse(outcome.value), cacheStatus);
+    } catch (error) {
+      // Don't leave identical requests waiting on a generation that blew up.
+      await claim?.settle(null);
+      throw error;
+    }
 
   } catch (error) {
     console.error('Error in generate-learning-map function:', error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    await pending.settle?.(false);
+    return errorResponse('INTERNAL');
   }
+};
+
+Deno.serve(async (req) => {
+  const limitHeaders = new Headers();
+  const response = await handleRequest(req, limitHeaders);
+  limitHeaders.forEach((value, name) => response.headers.set(name, value));
+  return response;
 });
\ No newline at end of file
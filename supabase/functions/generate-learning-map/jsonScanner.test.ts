@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createLearningMapScanner, extractJson, type ScannedValue } from './jsonScanner.ts';
+
+const MAP = {
+  topic: 'Chess "openings"',
+  branches: [
+    { id: 'e4', name: 'King pawn {games}', subtopics: [{ id: 'italian', name: 'Italian' }] },
+    { id: 'd4', name: 'Queen pawn [games]', subtopics: [] },
+  ],
+  dependencies: [{ from: 'e4', to: 'd4', kind: 'related' }],
+};
+
+/** Feeds `text` to a fresh scanner in pieces of `size` characters. */
+const scan = (text: string, size: number) => {
+  const scanner = createLearningMapScanner();
+  const found: ScannedValue[] = [];
+  for (let i = 0; i < text.length; i += size) found.push(...scanner.push(text.slice(i, i + size)));
+  return { found, scanner };
+};
+
+describe('createLearningMapScanner', () => {
+  it.each([1, 7, 1000])('reports the topic, branches and dependencies in %i-character chunks', (size) => {
+    const { found } = scan(JSON.stringify(MAP, null, 2), size);
+    expect(found).toEqual([
+      { kind: 'topic', topic: MAP.topic },
+      { kind: 'branch', raw: MAP.branches[0] },
+      { kind: 'branch', raw: MAP.branches[1] },
+      { kind: 'dependency', raw: MAP.dependencies[0] },
+    ]);
+  });
+
+  it('reports a branch as soon as it is complete', () => {
+    const text = JSON.stringify(MAP);
+    const end = text.indexOf('{"id":"d4"');
+    const scanner = createLearningMapScanner();
+    expect(scanner.push(text.slice(0, end)).map((value) => value.kind)).toEqual(['topic', 'branch']);
+    expect(scanner.push(text.slice(end)).map((value) => value.kind)).toEqual(['branch', 'dependency']);
+  });
+
+  it('skips prose and a code fence before the document', () => {
+    const { found } = scan(`Here you go:\n\`\`\`json\n${JSON.stringify(MAP)}\n\`\`\``, 5);
+    expect(found).toHaveLength(4);
+  });
+
+  it('only reports items of the top-level arrays', () => {
+    const { found } = scan(JSON.stringify({ topic: 'T', meta: { branches: [{ id: 'x' }] }, branches: [] }), 3);
+    expect(found).toEqual([{ kind: 'topic', topic: 'T' }]);
+  });
+
+  it('stops at the end of the document and keeps the text', () => {
+    const text = `${JSON.stringify(MAP)} {"topic": "again"}`;
+    const { found, scanner } = scan(text, 4);
+    expect(found.filter((value) => value.kind === 'topic')).toHaveLength(1);
+    expect(scanner.text()).toBe(text);
+  });
+});
+
+describe('extractJson', () => {
+  it('unwraps a fenced answer', () => {
+    expect(extractJson('Sure!\n```json\n{"a": 1}\n```\nEnjoy.')).toBe('{"a": 1}');
+    expect(extractJson('```\n{"a": 1}\n```')).toBe('{"a": 1}');
+  });
+
+  it('leaves a bare answer as it is', () => {
+    expect(extractJson('{"a": 1}')).toBe('{"a": 1}');
+  });
+});
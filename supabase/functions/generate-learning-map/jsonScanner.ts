@@ -0,0 +1,128 @@
+// Incremental scanner for streamed model output. It walks the JSON text as it
+// arrives and reports the map topic, each branch object and each dependency as
+// soon as they are complete, without waiting for the whole document.
+
+export type ScannedValue =
+  | { kind: 'topic'; topic: string }
+  | { kind: 'branch'; raw: unknown }
+  | { kind: 'dependency'; raw: unknown };
+
+interface Frame {
+  type: 'object' | 'array';
+  key: string | null;
+  expectingKey: boolean;
+  start: number;
+  capture: 'branch' | 'dependency' | null;
+}
+
+// Top-level arrays whose items are reported one by one.
+const CAPTURED_ARRAYS: Record<string, Frame['capture']> = {
+  branches: 'branch',
+  dependencies: 'dependency',
+};
+
+export const createLearningMapScanner = () => {
+  let text = '';
+  let pos = 0;
+  let started = false;
+  let finished = false;
+  let inString = false;
+  let escaped = false;
+  let stringStart = 0;
+  const stack: Frame[] = [];
+
+  const top = () => stack[stack.length - 1];
+
+  // What an object opened at the current position would be an item of.
+  const itemKind = (): Frame['capture'] =>
+    stack.length === 2 && stack[1].type === 'array' ? CAPTURED_ARRAYS[stack[0].key ?? ''] ?? null : null;
+
+  const push = (chunk: string): ScannedValue[] => {
+    text += chunk;
+    const found: ScannedValue[] = [];
+    if (finished) return found;
+
+    for (; pos < text.length; pos++) {
+      const ch = text[pos];
+
+      if (!started) {
+        // Skip prose or a ```json fence before the document starts.
+        if (ch !== '{') continue;
+        started = true;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (ch === '\\') {
+          escaped = true;
+        } else if (ch === '"') {
+          inString = false;
+          const frame = top();
+          if (frame?.type === 'object') {
+            const value = JSON.parse(text.slice(stringStart, pos + 1)) as string;
+            if (frame.expectingKey) {
+              frame.key = value;
+              frame.expectingKey = false;
+            } else if (stack.length === 1 && frame.key === 'topic') {
+              found.push({ kind: 'topic', topic: value });
+            }
+          }
+        }
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          inString = true;
+          stringStart = pos;
+          break;
+        case '{':
+        case '[':
+          stack.push({
+            type: ch === '{' ? 'object' : 'array',
+            key: null,
+            expectingKey: ch === '{',
+            start: pos,
+            capture: ch === '{' ? itemKind() : null,
+          });
+          break;
+        case '}':
+        case ']': {
+          const frame = stack.pop();
+          if (frame?.capture) {
+            try {
+              found.push({ kind: frame.capture, raw: JSON.parse(text.slice(frame.start, pos + 1)) });
+            } catch {
+              // Leave malformed items to the final whole-document validation.
+            }
+          }
+          if (stack.length === 0) {
+            finished = true;
+            return found;
+          }
+          break;
+        }
+        case ',': {
+          const frame = top();
+          if (frame?.type === 'object') frame.expectingKey = true;
+          break;
+        }
+      }
+    }
+
+    return found;
+  };
+
+  return {
+    push,
+    /** Everything received so far, for the final whole-document parse. */
+    text: () => text,
+  };
+};
+
+/** The JSON in a model's answer, without the markdown code fence it's sometimes wrapped in. */
+export const extractJson = (content: string): string => {
+  const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+  return jsonMatch ? jsonMatch[1] : content;
+};
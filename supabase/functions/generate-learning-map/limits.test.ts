@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+vi.mock('./supabase.ts', () => ({ getAdminClient: () => ({ rpc }) }));
+
+import {
+  clientIp,
+  getQuota,
+  type LimitState,
+  type Quota,
+  quotaState,
+  rateLimitHeaders,
+  reserveGeneration,
+  resolveIpLimits,
+  takeToken,
+} from './limits.ts';
+
+const QUOTA: Quota = {
+  planName: 'Free',
+  monthlyQuota: 30,
+  used: 10,
+  burst: 5,
+  refillPerMinute: 2,
+  resetsAt: '2026-11-01T00:00:00Z',
+};
+
+const QUOTA_ROW = {
+  plan_name: 'Free',
+  monthly_quota: 30,
+  used: 10,
+  burst: 5,
+  refill_per_minute: 2,
+  resets_at: '2026-11-01T00:00:00Z',
+};
+
+/** Makes the next `rpc(...).single()` resolve to `result`. */
+const answer = (result: { data: unknown; error: unknown }) => rpc.mockReturnValueOnce({ single: async () => result });
+
+const request = (headers: Record<string, string>) => new Request('https://example.com', { headers });
+
+beforeEach(() => {
+  rpc.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('clientIp', () => {
+  it('prefers the CDN header', () => {
+    expect(clientIp(request({ 'cf-connecting-ip': ' 203.0.113.9 ', 'x-forwarded-for': '198.51.100.1' }))).toBe(
+      '203.0.113.9',
+    );
+  });
+
+  it('takes the last forwarded address, which the platform added', () => {
+    expect(clientIp(request({ 'x-forwarded-for': '10.0.0.1, 198.51.100.1,203.0.113.9' }))).toBe('203.0.113.9');
+  });
+
+  it('falls back to x-real-ip, then "unknown"', () => {
+    expect(clientIp(request({ 'x-real-ip': '198.51.100.7' }))).toBe('198.51.100.7');
+    expect(clientIp(request({}))).toBe('unknown');
+  });
+});
+
+describe('resolveIpLimits', () => {
+  it('reads positive numbers and ignores anything else', () => {
+    const env: Record<string, string> = { RATE_LIMIT_IP_BURST: '50', RATE_LIMIT_IP_PER_MINUTE: '-1' };
+    expect(resolveIpLimits((name) => env[name])).toEqual({ burst: 50, refillPerMinute: 10 });
+  });
+});
+
+describe('quotaState', () => {
+  const now = Date.parse('2026-10-31T23:59:00Z');
+
+  it('counts the generation about to run as used', () => {
+    expect(quotaState(QUOTA, now)).toEqual({ limit: 30, remaining: 19, resetSeconds: 60, windowSeconds: 31 * 86_400 });
+  });
+
+  it('never reports less than nothing remaining', () => {
+    expect(quotaState({ ...QUOTA, used: 30 }, now).remaining).toBe(0);
+    expect(quotaState(QUOTA, Date.parse('2026-11-02T00:00:00Z')).resetSeconds).toBe(0);
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  const bucket: LimitState = { limit: 5, remaining: 3, resetSeconds: 30, windowSeconds: 150 };
+  const month: LimitState = { limit: 30, remaining: 19, resetSeconds: 60, windowSeconds: 2_678_400 };
+
+  it('describes the limit closest to running out and lists every policy', () => {
+    expect(rateLimitHeaders([month, bucket])).toEqual({
+      'RateLimit-Limit': '5',
+      'RateLimit-Remaining': '3',
+      'RateLimit-Reset': '30',
+      'RateLimit-Policy': '30;w=2678400, 5;w=150',
+    });
+    expect(rateLimitHeaders([month, { ...bucket, remaining: 25 }])['RateLimit-Limit']).toBe('30');
+  });
+
+  it('adds nothing without limits', () => {
+    expect(rateLimitHeaders([])).toEqual({});
+  });
+});
+
+describe('takeToken', () => {
+  it('reports the bucket', async () => {
+    answer({ data: { allowed: false, remaining: 0, reset_seconds: 12 }, error: null });
+    expect(await takeToken('user:1', 5, 2)).toEqual({
+      allowed: false,
+      limit: 5,
+      remaining: 0,
+      resetSeconds: 12,
+      windowSeconds: 150,
+    });
+    expect(rpc).toHaveBeenCalledWith('take_rate_limit_token', { _key: 'user:1', _capacity: 5, _refill_per_second: 2 / 60 });
+  });
+
+  it('fails open', async () => {
+    answer({ data: null, error: { message: 'down' } });
+    expect(await takeToken('user:1', 5, 2)).toBeNull();
+  });
+});
+
+describe('getQuota', () => {
+  it('reads the plan and usage', async () => {
+    answer({ data: QUOTA_ROW, error: null });
+    expect(await getQuota('user-1')).toEqual(QUOTA);
+  });
+
+  it('fails closed', async () => {
+    answer({ data: null, error: { message: 'down' } });
+    expect(await getQuota('user-1')).toBeNull();
+  });
+});
+
+describe('reserveGeneration', () => {
+  const entry = {
+    user_id: 'user-1',
+    mode: 'map' as const,
+    topic: 'Rust',
+    level: 'beginner',
+    provider: 'gateway',
+    model: 'model-a',
+    streamed: true,
+  };
+
+  it('returns the reservation with the quota after it', async () => {
+    answer({ data: { ...QUOTA_ROW, used: 11, usage_id: 'usage-1' }, error: null });
+    expect(await reserveGeneration(entry)).toEqual({ status: 'reserved', usageId: 'usage-1', quota: { ...QUOTA, used: 11 } });
+    expect(rpc).toHaveBeenCalledWith('reserve_generation', {
+      _user_id: 'user-1',
+      _mode: 'map',
+      _topic: 'Rust',
+      _level: 'beginner',
+      _provider: 'gateway',
+      _model: 'model-a',
+      _streamed: true,
+    });
+  });
+
+  it('reports a used-up quota', async () => {
+    answer({ data: { ...QUOTA_ROW, used: 30, usage_id: null }, error: null });
+    expect(await reserveGeneration(entry)).toEqual({ status: 'exceeded', quota: { ...QUOTA, used: 30 } });
+  });
+
+  it('fails closed', async () => {
+    answer({ data: null, error: { message: 'down' } });
+    expect(await reserveGeneration(entry)).toEqual({ status: 'unavailable' });
+  });
+});
@@ -0,0 +1,204 @@
+import { errorBody, type GenerationErrorBody } from '../_shared/errors.ts';
+import { getAdminClient, type UsageEntry } from './supabase.ts';
+
+/** One limit's state, in the terms of the `RateLimit-*` headers. */
+export interface LimitState {
+  limit: number;
+  remaining: number;
+  /** Seconds until the limit frees up again. */
+  resetSeconds: number;
+  /** The window the limit applies over, in seconds. */
+  windowSeconds: number;
+}
+
+export interface BucketResult extends LimitState {
+  allowed: boolean;
+}
+
+export interface Quota {
+  planName: string;
+  monthlyQuota: number;
+  used: number;
+  burst: number;
+  refillPerMinute: number;
+  resetsAt: string;
+}
+
+interface IpLimits {
+  burst: number;
+  refillPerMinute: number;
+}
+
+const positive = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Per-IP limits from the environment. They apply before sign-in is checked,
+ * so they should allow for several users behind one address:
+ *
+ * - `RATE_LIMIT_IP_BURST`: requests an address can make at once (default 30)
+ * - `RATE_LIMIT_IP_PER_MINUTE`: how fast that allowance refills (default 10)
+ */
+export const resolveIpLimits = (env: (name: string) => string | undefined): IpLimits => ({
+  burst: positive(env('RATE_LIMIT_IP_BURST'), 30),
+  refillPerMinute: positive(env('RATE_LIMIT_IP_PER_MINUTE'), 10),
+});
+
+/**
+ * The address the request came from. Clients can send their own
+ * `X-Forwarded-For` and each proxy appends to it, so only the CDN's
+ * `cf-connecting-ip` or the last entry, added by the platform's edge, can be
+ * trusted; the first entry is whatever the client chose.
+ */
+export const clientIp = (req: Request) =>
+  req.headers.get('cf-connecting-ip')?.trim() ||
+  req.headers.get('x-forwarded-for')?.split(',').at(-1)?.trim() ||
+  req.headers.get('x-real-ip')?.trim() ||
+  'unknown';
+
+/**
+ * Takes one token from the bucket under `key`. Returns null when the buckets
+ * can't be reached. Buckets fail open on purpose: they only smooth out
+ * bursts, and the monthly quota, which fails closed, still caps spending.
+ */
+export const takeToken = async (key: string, burst: number, refillPerMinute: number): Promise<BucketResult | null> => {
+  const { data, error } = await getAdminClient()
+    .rpc('take_rate_limit_token', { _key: key, _capacity: burst, _refill_per_second: refillPerMinute / 60 })
+    .single<{ allowed: boolean; remaining: number; reset_seconds: number }>();
+  if (error || !data) {
+    console.error('Failed to check rate limit:', error);
+    return null;
+  }
+  return {
+    allowed: data.allowed,
+    limit: burst,
+    remaining: data.remaining,
+    resetSeconds: data.reset_seconds,
+    windowSeconds: Math.ceil((burst / refillPerMinute) * 60),
+  };
+};
+
+/**
+ * The user's plan and usage this month, or null when it can't be read. The
+ * quota is what caps spending, so callers turn the request away then.
+ */
+export const getQuota = async (userId: string): Promise<Quota | null> => {
+  const { data, error } = await getAdminClient()
+    .rpc('generation_quota', { _user_id: userId })
+    .single<{
+      plan_name: string;
+      monthly_quota: number;
+      used: number;
+      burst: number;
+      refill_per_minute: number;
+      resets_at: string;
+    }>();
+  if (error || !data) {
+    console.error('Failed to read generation quota:', error);
+    return null;
+  }
+  return {
+    planName: data.plan_name,
+    monthlyQuota: data.monthly_quota,
+    used: data.used,
+    burst: data.burst,
+    refillPerMinute: data.refill_per_minute,
+    resetsAt: data.resets_at,
+  };
+};
+
+export type Reservation =
+  | { status: 'reserved'; usageId: string; quota: Quota }
+  | { status: 'exceeded'; quota: Quota }
+  | { status: 'unavailable' };
+
+/**
+ * Reserves one generation of the user's monthly quota, atomically, by adding
+ * a pending usage row. Like `getQuota`, it fails closed: `unavailable` means
+ * the request should be turned away.
+ */
+export const reserveGeneration = async (entry: Omit<UsageEntry, 'succeeded'>): Promise<Reservation> => {
+  const { data, error } = await getAdminClient()
+    .rpc('reserve_generation', {
+      _user_id: entry.user_id,
+      _mode: entry.mode,
+      _topic: entry.topic,
+      _level: entry.level,
+      _provider: entry.provider,
+      _model: entry.model,
+      _streamed: entry.streamed,
+    })
+    .single<{
+      usage_id: string | null;
+      plan_name: string;
+      monthly_quota: number;
+      used: number;
+      burst: number;
+      refill_per_minute: number;
+      resets_at: string;
+    }>();
+  if (error || !data) {
+    console.error('Failed to reserve a generation:', error);
+    return { status: 'unavailable' };
+  }
+  const quota: Quota = {
+    planName: data.plan_name,
+    monthlyQuota: data.monthly_quota,
+    used: data.used,
+    burst: data.burst,
+    refillPerMinute: data.refill_per_minute,
+    resetsAt: data.resets_at,
+  };
+  return data.usage_id ? { status: 'reserved', usageId: data.usage_id, quota } : { status: 'exceeded', quota };
+};
+
+/** The monthly quota as a limit. A generation that's about to run counts as used. */
+export const quotaState = (quota: Quota, now = Date.now()): LimitState => {
+  const resetsAt = new Date(quota.resetsAt).getTime();
+  const monthStart = new Date(resetsAt);
+  monthStart.setUTCMonth(monthStart.getUTCMonth() - 1);
+  return {
+    limit: quota.monthlyQuota,
+    remaining: Math.max(0, quota.monthlyQuota - quota.used - 1),
+    resetSeconds: Math.max(0, Math.ceil((resetsAt - now) / 1000)),
+    windowSeconds: Math.round((resetsAt - monthStart.getTime()) / 1000),
+  };
+};
+
+/**
+ * `RateLimit-*` headers (IETF draft). `RateLimit-Limit`, `-Remaining` and
+ * `-Reset` describe whichever limit is closest to running out, and
+ * `RateLimit-Policy` lists them all.
+ */
+export const rateLimitHeaders = (limits: LimitState[]): Record<string, string> => {
+  if (limits.length === 0) return {};
+  const closest = limits.reduce((tightest, limit) => (limit.remaining < tightest.remaining ? limit : tightest));
+  return {
+    'RateLimit-Limit': String(closest.limit),
+    'RateLimit-Remaining': String(closest.remaining),
+    'RateLimit-Reset': String(closest.resetSeconds),
+    'RateLimit-Policy': limits.map((limit) => `${limit.limit};w=${limit.windowSeconds}`).join(', '),
+  };
+};
+
+const formatWait = (seconds: number) =>
+  seconds < 90 ? `${seconds} second${seconds === 1 ? '' : 's'}` : `${Math.ceil(seconds / 60)} minutes`;
+
+/** The 429 body for a request over the monthly quota, worded for the learner. */
+export const quotaError = (quota: Quota, retryAfter: number): GenerationErrorBody => {
+  const resets = new Date(quota.resetsAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+  return errorBody('QUOTA_EXCEEDED', {
+    error: `You've used all ${quota.monthlyQuota} generations on the ${quota.planName} plan this month. They reset on ${resets}.`,
+    retryAfter,
+  });
+};
+
+/** The 429 body for a request over a token bucket. */
+export const rateLimitError = (retryAfter: number): GenerationErrorBody =>
+  errorBody('RATE_LIMITED', {
+    error: 'Too many requests in a short time',
+    remediation: `Please wait ${formatWait(retryAfter)}, then try again.`,
+    retryAfter,
+  });
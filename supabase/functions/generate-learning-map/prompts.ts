@@ -0,0 +1,318 @@
+import {
+  type Branch,
+  DEFAULT_LIMITS,
+  type LearningLevel,
+  type LearningMapData,
+  type MapNode,
+  RESOURCE_LIMITS,
+  RESOURCE_TYPES,
+  type SchemaViolation,
+} from '../_shared/learningMap.ts';
+import { CHOICE_LIMITS, QUIZ_LIMITS, type ShortAnswerQuestion } from '../_shared/quiz.ts';
+import type { ChatMessage } from './providers.ts';
+
+const MAX_DEPENDENCIES = 6;
+
+/** Bump whenever `mapMessages` changes, so maps cached from the old prompt stop being served. */
+export const MAP_PROMPT_VERSION = 2;
+
+export const mapMessages = (topic: string, level: LearningLevel): ChatMessage[] => {
+  const systemPrompt = `You are an expert educational content structurer. Your task is to create a comprehensive, well-organized learning roadmap for any given topic.
+
+Generate a structured learning map with:
+- 3-5 main branches (core areas of study)
+- 2-4 subtopics under each branch
+- Brief, clear descriptions for each node
+- A realistic "estimatedHours" for every node: the study time for that node itself, not counting its subtopics
+- Ids that are unique across the whole map
+- Logical progression from fundamentals to advanced concepts
+- Up to ${MAX_DEPENDENCIES} dependencies linking nodes in different branches: "prerequisite" when "from" must be learned before "to", "related" for useful cross-references
+- Consider the learning level: ${level}
+
+If the topic can't be taught responsibly (for example it is about causing harm, weapons or self-harm), return ONLY {"refusal": "One sentence on why"} instead.
+
+Return ONLY valid JSON in this exact format:
+{
+  "topic": "Main Topic Name",
+  "branches": [
+    {
+      "id": "unique-id-1",
+      "name": "Branch Name",
+      "description": "Brief description of this learning area",
+      "estimatedHours": 2,
+      "subtopics": [
+        {
+          "id": "unique-id-1-1",
+          "name": "Subtopic Name",
+          "description": "What you'll learn in this subtopic",
+          "estimatedHours": 4
+        }
+      ]
+    }
+  ],
+  "dependencies": [
+    { "from": "unique-id-1-1", "to": "unique-id-2-1", "kind": "prerequisite" }
+  ]
+}`;
+
+  const userPrompt = `Create a comprehensive learning roadmap for: "${topic}"
+
+Learning level: ${level}
+
+Please structure it as a learning map with clear branches and subtopics. Make it practical and actionable.`;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+};
+
+const outlineNodes = (nodes: MapNode[], depth: number, lines: string[] = []): string[] => {
+  for (const node of nodes) {
+    lines.push(`${'  '.repeat(depth)}- ${node.name} [${node.id}]`);
+    if (node.subtopics?.length) outlineNodes(node.subtopics, depth + 1, lines);
+  }
+  return lines;
+};
+
+/** Compact indented outline of the map, used as context for follow-up prompts. */
+export const outline = (map: LearningMapData): string => [map.topic, ...outlineNodes(map.branches, 1)].join('\n');
+
+export const expandMessages = (
+  map: LearningMapData,
+  path: MapNode[],
+  level: LearningLevel,
+): ChatMessage[] => {
+  const node = path[path.length - 1];
+  const existing = node.subtopics?.map((child) => child.name) ?? [];
+
+  const systemPrompt = `You are an expert educational content structurer. You extend existing learning maps one level deeper.
+
+Generate ${DEFAULT_LIMITS.minSubtopics}-${DEFAULT_LIMITS.maxSubtopics} child subtopics for the requested node:
+- Each child is a concrete, learnable step within the node
+- Brief, clear descriptions for each child
+- A realistic "estimatedHours" of study time for each child
+- Ids that are unique and not already used in the map
+- Don't repeat topics that already appear elsewhere in the map
+- Consider the learning level: ${level}
+
+Return ONLY valid JSON in this exact format:
+{
+  "subtopics": [
+    {
+      "id": "unique-child-id",
+      "name": "Child Subtopic Name",
+      "description": "What you'll learn in this subtopic",
+      "estimatedHours": 3
+    }
+  ]
+}`;
+
+  const userPrompt = `Here is the current learning map:
+${outline(map)}
+
+Expand this node: ${path.map((step) => step.name).join(' > ')}
+Description: ${node.description}
+${existing.length ? `It already has these children, so add different ones: ${existing.join(', ')}` : ''}`;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt.trim() },
+  ];
+};
+
+export const regenerateMessages = (
+  map: LearningMapData,
+  branch: Branch,
+  level: LearningLevel,
+  feedback: string,
+): ChatMessage[] => {
+  const systemPrompt = `You are an expert educational content structurer. You rewrite one branch of an existing learning map and leave the rest of the map as it is.
+
+Rewrite the requested branch:
+- Keep it about the same area of study, fitting in with the other branches
+- ${DEFAULT_LIMITS.minSubtopics}-${DEFAULT_LIMITS.maxSubtopics} subtopics, each a concrete, learnable step
+- Brief, clear descriptions for each node
+- A realistic "estimatedHours" for every node: the study time for that node itself, not counting its subtopics
+- Keep the id of any subtopic that stays essentially the same; new ids must not be used elsewhere in the map
+- List only the branch's own subtopics: the levels below a subtopic that keeps its id are carried over
+- Don't repeat topics that other branches already cover
+- Follow the learner's feedback where there is any
+- Up to 3 dependencies between this branch and the rest of the map: "prerequisite" when "from" must be learned before "to", "related" for useful cross-references
+- Consider the learning level: ${level}
+
+Return ONLY valid JSON in this exact format:
+{
+  "branch": {
+    "id": "${branch.id}",
+    "name": "Branch Name",
+    "description": "Brief description of this learning area",
+    "estimatedHours": 2,
+    "subtopics": [
+      {
+        "id": "unique-id-1-1",
+        "name": "Subtopic Name",
+        "description": "What you'll learn in this subtopic",
+        "estimatedHours": 4
+      }
+    ]
+  },
+  "dependencies": [
+    { "from": "other-branch-node-id", "to": "unique-id-1-1", "kind": "prerequisite" }
+  ]
+}`;
+
+  const userPrompt = `Here is the current learning map:
+${outline(map)}
+
+Rewrite this branch: ${branch.name}
+Description: ${branch.description}
+Its current subtopics:
+${outlineNodes(branch.subtopics, 0).join('\n') || '(none)'}
+
+${feedback ? `The learner's feedback: ${feedback}` : 'The learner gave no specific feedback, so make the branch clearer and better structured.'}`;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+};
+
+export const resourceMessages = (
+  map: LearningMapData,
+  path: MapNode[],
+  level: LearningLevel,
+): ChatMessage[] => {
+  const node = path[path.length - 1];
+  const existing = node.resources?.map((resource) => resource.url) ?? [];
+
+  const systemPrompt = `You are an expert educator who curates study materials for learning maps.
+
+Recommend ${RESOURCE_LIMITS.min}-${RESOURCE_LIMITS.max} learning resources for the requested node:
+- Well-known, reputable sources that are likely to still be online
+- A mix of types where it makes sense: ${RESOURCE_TYPES.join(', ')}
+- Full http(s) URLs to the resource itself, never made-up links
+- A realistic estimate of the minutes needed to work through each one
+- Whether the resource is free to use
+- Consider the learning level: ${level}
+
+Return ONLY valid JSON in this exact format:
+{
+  "resources": [
+    {
+      "title": "Resource Title",
+      "type": "article",
+      "url": "https://example.com/resource",
+      "estimatedMinutes": 30,
+      "free": true
+    }
+  ]
+}`;
+
+  const userPrompt = `Here is the current learning map:
+${outline(map)}
+
+Find resources for this node: ${path.map((step) => step.name).join(' > ')}
+Description: ${node.description}
+${existing.length ? `The learner already has these, so suggest different ones: ${existing.join(', ')}` : ''}`;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt.trim() },
+  ];
+};
+
+export const quizMessages = (
+  map: LearningMapData,
+  path: MapNode[],
+  level: LearningLevel,
+): ChatMessage[] => {
+  const node = path[path.length - 1];
+
+  const systemPrompt = `You are an expert educator who writes short review quizzes for learning maps.
+
+Write ${QUIZ_LIMITS.min}-${QUIZ_LIMITS.max} questions that check understanding of the requested node:
+- Mostly "multiple_choice" questions with ${CHOICE_LIMITS.min}-${CHOICE_LIMITS.max} distinct choices and exactly one correct answer
+- At least one "short_answer" question that can be answered in a sentence or two
+- Questions about the node itself, not the rest of the map
+- A one-sentence explanation of the correct answer for each question
+- Consider the learning level: ${level}
+
+Return ONLY valid JSON in this exact format:
+{
+  "questions": [
+    {
+      "kind": "multiple_choice",
+      "prompt": "Question text?",
+      "choices": ["First", "Second", "Third", "Fourth"],
+      "answerIndex": 1,
+      "explanation": "Why the second choice is right."
+    },
+    {
+      "kind": "short_answer",
+      "prompt": "Question text?",
+      "answer": "A model answer.",
+      "explanation": "What a good answer must mention."
+    }
+  ]
+}`;
+
+  const userPrompt = `The learning map is about: ${map.topic}
+
+Write a quiz for this node: ${path.map((step) => step.name).join(' > ')}
+Description: ${node.description}`;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+};
+
+export const gradeMessages = (
+  topic: string,
+  level: LearningLevel,
+  question: ShortAnswerQuestion,
+  answer: string,
+): ChatMessage[] => {
+  const systemPrompt = `You are a fair, encouraging tutor grading a learner's short answer about ${topic}.
+
+Grade the answer against the model answer:
+- Judge the meaning, not the wording, spelling or length
+- Give partial credit for answers that are partly right
+- Keep the feedback to one or two sentences addressed to the learner
+- Consider the learning level: ${level}
+
+Return ONLY valid JSON in this exact format:
+{
+  "correct": true,
+  "score": 0.8,
+  "feedback": "What was right and what was missing."
+}`;
+
+  const userPrompt = `Question: ${question.prompt}
+Model answer: ${question.answer}
+Learner's answer: ${answer}`;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+};
+
+export const correctivePrompt = (violations: SchemaViolation[], requirements: string) =>
+  `Your previous response did not match the required format:
+${violations.map((v) => `- ${v.path || 'response'}: ${v.message}`).join('\n')}
+
+Fix every problem listed above and return ONLY the corrected JSON in the exact format from the instructions. ${requirements}`;
+
+export const MAP_REQUIREMENTS = `Every branch needs ${DEFAULT_LIMITS.minSubtopics}-${DEFAULT_LIMITS.maxSubtopics} subtopics and there must be ${DEFAULT_LIMITS.minBranches}-${DEFAULT_LIMITS.maxBranches} branches.`;
+
+export const EXPAND_REQUIREMENTS = `Return ${DEFAULT_LIMITS.minSubtopics}-${DEFAULT_LIMITS.maxSubtopics} subtopics.`;
+
+export const REGENERATE_REQUIREMENTS = `Return one "branch" object with ${DEFAULT_LIMITS.minSubtopics}-${DEFAULT_LIMITS.maxSubtopics} subtopics; dependencies may only use ids from the map.`;
+
+export const RESOURCE_REQUIREMENTS = `Return ${RESOURCE_LIMITS.min}-${RESOURCE_LIMITS.max} resources, each with a title and an http(s) URL.`;
+
+export const QUIZ_REQUIREMENTS = `Return ${QUIZ_LIMITS.min}-${QUIZ_LIMITS.max} questions; multiple choice questions need ${CHOICE_LIMITS.min}-${CHOICE_LIMITS.max} distinct choices and a valid answerIndex.`;
+
+export const GRADE_REQUIREMENTS = 'Return "correct" as a boolean, "score" as a number from 0 to 1 and non-empty "feedback".';
@@ -0,0 +1,309 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type AIProvider,
+  type CompletionRequest,
+  createFallbackProvider,
+  createOllamaProvider,
+  createOpenAICompatibleProvider,
+  ProviderError,
+  type UpstreamOptions,
+} from './providers.ts';
+
+const REQUEST: CompletionRequest = {
+  messages: [{ role: 'user', content: 'Map out Rust' }],
+  task: { kind: 'map', topic: 'Rust', level: 'beginner' },
+};
+
+const provider = (model = 'model-a', upstream: Partial<UpstreamOptions> = {}) =>
+  createOpenAICompatibleProvider({
+    baseUrl: 'https://gateway.test/v1',
+    apiKey: 'key',
+    model,
+    structuredOutput: 'off',
+    upstream: { timeoutMs: 50, maxRetries: 2, backoffMs: 0, ...upstream },
+  });
+
+const completion = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+
+const failure = (status: number) => new Response('{"error": "nope"}', { status });
+
+/**
+ * A server-sent event stream with one delta per chunk, `gapMs` apart. With
+ * `stallAfter`, it stops sending after that many chunks, without ending,
+ * until `signal` aborts the request, as fetch would.
+ */
+const sse = (
+  chunks: string[],
+  { gapMs = 0, stallAfter, signal }: { gapMs?: number; stallAfter?: number; signal?: AbortSignal | null } = {},
+) => {
+  const encoder = new TextEncoder();
+  const events = chunks.map((content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+  let sent = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (sent === stallAfter) {
+        return new Promise<void>((_resolve, reject) => signal?.addEventListener('abort', () => reject(signal.reason)));
+      }
+      if (sent > 0) await new Promise((resolve) => setTimeout(resolve, gapMs));
+      if (sent === events.length) {
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(events[sent++]));
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+/** A fetch that never answers, only giving up when its request is aborted. */
+const hanging = (_url: unknown, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+  });
+
+/** Answers requests for each model with that model's handler. */
+const byModel = (handlers: Record<string, (url: unknown, init?: RequestInit) => Promise<Response> | Response>) =>
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+    const { model } = JSON.parse(String(init?.body));
+    return handlers[model](url, init);
+  });
+
+const modelsCalled = (fetch: ReturnType<typeof byModel>) =>
+  fetch.mock.calls.map(([, init]) => JSON.parse(String(init?.body)).model);
+
+const collect = async (ai: AIProvider) => {
+  const chunks: string[] = [];
+  for await (const chunk of ai.stream(REQUEST)) chunks.push(chunk);
+  return chunks;
+};
+
+const rejection = async (promise: Promise<unknown>) => {
+  const error = await promise.then(() => null, (reason: unknown) => reason);
+  expect(error).toBeInstanceOf(ProviderError);
+  return error as ProviderError;
+};
+
+beforeEach(() => {
+  for (const method of ['log', 'error'] as const) vi.spyOn(console, method).mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('retries', () => {
+  it('retries 5xx responses until one gets through', async () => {
+    const fetch = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(failure(503))
+      .mockResolvedValueOnce(failure(502))
+      .mockResolvedValueOnce(completion('{"ok": true}'));
+
+    expect(await provider().complete(REQUEST)).toBe('{"ok": true}');
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => failure(500));
+
+    expect((await rejection(provider('model-a', { maxRetries: 1 }).complete(REQUEST))).status).toBe(500);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries network errors', async () => {
+    const fetch = vi
+      .spyOn(globalThis, 'fetch')
+      .mockRejectedValueOnce(new TypeError('connection reset'))
+      .mockResolvedValueOnce(completion('{}'));
+
+    expect(await provider().complete(REQUEST)).toBe('{}');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry requests the provider turned down', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => failure(401));
+
+    expect((await rejection(provider().complete(REQUEST))).status).toBe(401);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes on how long the provider asked to wait', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response('slow down', { status: 429, headers: { 'Retry-After': '7' } }),
+    );
+
+    expect(await rejection(provider().complete(REQUEST))).toMatchObject({ status: 429, retryAfter: 7 });
+  });
+});
+
+describe('timeouts', () => {
+  it('times out a provider that never answers, and retries', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockImplementation(hanging);
+
+    const error = await rejection(provider('model-a', { timeoutMs: 20, maxRetries: 1 }).complete(REQUEST));
+    expect(error).toMatchObject({ status: 504, code: 'UPSTREAM_TIMEOUT' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets a stream run past the timeout as long as chunks keep coming', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => sse(['{"a"', ': 1', ', "b"', ': 2}'], { gapMs: 20 }));
+
+    expect((await collect(provider('model-a', { timeoutMs: 40 }))).join('')).toBe('{"a": 1, "b": 2}');
+  });
+
+  it('times out a stream that stops sending', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init) =>
+      sse(['{"a"', ': 1}'], { stallAfter: 1, signal: init?.signal }),
+    );
+
+    const chunks: string[] = [];
+    const error = await rejection(
+      (async () => {
+        for await (const chunk of provider('model-a', { timeoutMs: 30 }).stream(REQUEST)) chunks.push(chunk);
+      })(),
+    );
+    expect(error).toMatchObject({ status: 504, code: 'UPSTREAM_TIMEOUT' });
+    expect(error.message).toMatch(/stopped answering/);
+    expect(chunks).toEqual(['{"a"']);
+    // A body that failed halfway isn't retried.
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createFallbackProvider', () => {
+  const chain = () => createFallbackProvider([provider('model-a', { maxRetries: 0 }), provider('model-b', { maxRetries: 0 })]);
+
+  it('keeps the first model when it answers', async () => {
+    const fetch = byModel({ 'model-a': () => completion('{"from": "a"}'), 'model-b': () => completion('{"from": "b"}') });
+    const ai = chain();
+
+    expect(await ai.complete(REQUEST)).toBe('{"from": "a"}');
+    expect(ai.answeredBy).toBe('model-a');
+    expect(modelsCalled(fetch)).toEqual(['model-a']);
+  });
+
+  it('moves on when a model fails or answers with something other than JSON', async () => {
+    byModel({ 'model-a': () => failure(503), 'model-b': () => completion('{"from": "b"}') });
+    const ai = chain();
+    expect(await ai.complete(REQUEST)).toBe('{"from": "b"}');
+    expect(ai.model).toBe('model-a');
+    expect(ai.answeredBy).toBe('model-b');
+
+    byModel({ 'model-a': () => completion('Sorry, no JSON today'), 'model-b': () => completion('{"from": "b"}') });
+    expect(await chain().complete(REQUEST)).toBe('{"from": "b"}');
+  });
+
+  it('does not move on from a request any model would turn down', async () => {
+    const fetch = byModel({ 'model-a': () => failure(402), 'model-b': () => completion('{}') });
+
+    expect((await rejection(chain().complete(REQUEST))).status).toBe(402);
+    expect(modelsCalled(fetch)).toEqual(['model-a']);
+  });
+
+  it('moves a stream on when the first model fails before its first chunk', async () => {
+    const fetch = byModel({ 'model-a': hanging, 'model-b': () => sse(['{"from"', ': "b"}']) });
+    const ai = createFallbackProvider([
+      provider('model-a', { maxRetries: 0, timeoutMs: 20 }),
+      provider('model-b', { maxRetries: 0 }),
+    ]);
+
+    expect((await collect(ai)).join('')).toBe('{"from": "b"}');
+    expect(ai.answeredBy).toBe('model-b');
+    expect(modelsCalled(fetch)).toEqual(['model-a', 'model-b']);
+  });
+
+  it('keeps a stream on its model once the first chunk has arrived', async () => {
+    const fetch = byModel({
+      'model-a': (_url, init) => sse(['{"from"', ': "a"}'], { stallAfter: 1, signal: init?.signal }),
+      'model-b': () => sse(['{}']),
+    });
+    const ai = createFallbackProvider([
+      provider('model-a', { maxRetries: 0, timeoutMs: 20 }),
+      provider('model-b', { maxRetries: 0 }),
+    ]);
+
+    expect(await rejection(collect(ai))).toMatchObject({ code: 'UPSTREAM_TIMEOUT' });
+    expect(ai.answeredBy).toBe('model-a');
+    expect(modelsCalled(fetch)).toEqual(['model-a']);
+  });
+});
+
+describe('structured output', () => {
+  const structured = (model: string, structuredOutput: 'json_schema' | 'tools' = 'json_schema') =>
+    createOpenAICompatibleProvider({
+      baseUrl: 'https://gateway.test/v1',
+      apiKey: 'key',
+      model,
+      structuredOutput,
+      upstream: { timeoutMs: 50, maxRetries: 0, backoffMs: 0 },
+    });
+
+  const rejected = (message: string) =>
+    new Response(JSON.stringify({ error: { message, type: 'invalid_request_error' } }), { status: 400 });
+
+  const ollamaAnswer = (content: string) => new Response(JSON.stringify({ message: { content }, done: true }));
+
+  /** Whether a request body asks for structured output: a schema, forced tools or, on Ollama, a schema as `format`. */
+  const asksForStructure = (init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body));
+    return 'response_format' in body || 'tools' in body || (body.format !== undefined && body.format !== 'json');
+  };
+
+  /** Rejects requests asking for structured output with `message`, and answers the rest. */
+  const rejecting = (message: string) =>
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+      if (asksForStructure(init)) return rejected(message);
+      return String(url).endsWith('/api/chat') ? ollamaAnswer('{}') : completion('{}');
+    });
+
+  const asked = (fetch: ReturnType<typeof rejecting>) => fetch.mock.calls.map(([, init]) => asksForStructure(init));
+
+  it.each([
+    ["Invalid parameter: 'response_format' of type 'json_schema' is not supported with this model."],
+    ['Invalid JSON payload received. Unknown name "response_format": Cannot find field.'],
+    ['Unrecognized request argument supplied: response_format'],
+  ])('goes without it when the provider says it is unsupported: %s', async (message) => {
+    const model = `model-${message.length}`;
+    const fetch = rejecting(message);
+
+    expect(await structured(model).complete(REQUEST)).toBe('{}');
+    expect(asked(fetch)).toEqual([true, false]);
+
+    // Later requests to the same model don't ask again.
+    await structured(model).complete(REQUEST);
+    expect(asked(fetch)).toEqual([true, false, false]);
+  });
+
+  it('goes without forced tool calls when the model does not support tools', async () => {
+    const fetch = rejecting('This model does not support tools.');
+
+    expect(await structured('model-no-tools', 'tools').complete(REQUEST)).toBe('{}');
+    expect(asked(fetch)).toEqual([true, false]);
+  });
+
+  it('goes without a schema on Ollama versions that only take "json"', async () => {
+    const fetch = rejecting('json: cannot unmarshal object into Go struct field ChatRequest.format of type string');
+    const ollama = createOllamaProvider({
+      baseUrl: 'http://ollama.test',
+      model: 'llama-old',
+      upstream: { timeoutMs: 50, maxRetries: 0, backoffMs: 0 },
+    });
+
+    expect(await ollama.complete(REQUEST)).toBe('{}');
+    expect(asked(fetch)).toEqual([true, false]);
+  });
+
+  it.each([
+    ["Invalid value for 'temperature': must be between 0 and 2."],
+    ["Invalid 'messages[0].content': expected a string, got an invalid format."],
+    ["Invalid schema for response_format 'learning_map': 'uniqueItems' is not supported."],
+    ["Missing required parameter: 'response_format.json_schema.name'."],
+  ])('raises other bad requests as they are: %s', async (message) => {
+    const fetch = rejecting(message);
+
+    expect(await rejection(structured(`model-invalid-${message.length}`).complete(REQUEST))).toMatchObject({ status: 400 });
+    expect(asked(fetch)).toEqual([true]);
+  });
+});
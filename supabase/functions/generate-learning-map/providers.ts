@@ -0,0 +1,636 @@
+import type { GenerationErrorCode } from '../_shared/errors.ts';
+import type { LearningLevel } from '../_shared/learningMap.ts';
+import { mockCompletion } from './fixtures.ts';
+import { extractJson } from './jsonScanner.ts';
+import { responseSchema } from './schemas.ts';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** What the completion is for, so providers that don't run a model can still answer. */
+export type GenerationTask =
+  | { kind: 'map'; topic: string; level: LearningLevel }
+  | { kind: 'expand'; topic: string; level: LearningLevel; nodeId: string; nodeName: string }
+  | { kind: 'resources'; topic: string; level: LearningLevel; nodeId: string; nodeName: string }
+  | { kind: 'quiz'; topic: string; level: LearningLevel; nodeId: string; nodeName: string }
+  | { kind: 'regenerate'; topic: string; level: LearningLevel; nodeId: string; nodeName: string; feedback: string }
+  | { kind: 'grade'; topic: string; level: LearningLevel; expected: string; answer: string };
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  task: GenerationTask;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  name: string;
+  model: string;
+  /** The model behind the latest answer; differs from `model` when a fallback answered. */
+  readonly answeredBy: string;
+  complete(request: CompletionRequest): Promise<string>;
+  /** Yields the completion text piece by piece as the provider produces it. */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+/**
+ * Raised when the upstream model call fails. `status` is the upstream HTTP
+ * status; `code` is set when the failure is more specific than that.
+ */
+export class ProviderError extends Error {
+  status: number;
+  code?: GenerationErrorCode;
+  /** Seconds the upstream asked us to wait, from its `Retry-After` header. */
+  retryAfter?: number;
+  /** The upstream's own error text, for deciding what went wrong; never shown to users. */
+  detail?: string;
+
+  constructor(
+    message: string,
+    status = 500,
+    options: { code?: GenerationErrorCode; retryAfter?: number; detail?: string } = {},
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.code = options.code;
+    this.retryAfter = options.retryAfter;
+    this.detail = options.detail;
+  }
+}
+
+/** Raised when the environment doesn't describe a usable provider. */
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+const upstreamError = async (response: Response, label: string) => {
+  const errorText = await response.text();
+  console.error(`${label} error:`, response.status, errorText);
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return new ProviderError('Failed to generate learning map', response.status, {
+    retryAfter: Number.isFinite(retryAfter) && retryAfter > 0 ? Math.ceil(retryAfter) : undefined,
+    detail: errorText,
+  });
+};
+
+/** How calls to a provider are timed out and retried. */
+export interface UpstreamOptions {
+  /** How long to wait for the provider to start answering, and then for each further piece of the answer, in milliseconds. */
+  timeoutMs: number;
+  /** Further tries after a 5xx response, a timeout or a network error. */
+  maxRetries: number;
+  /** Base of the exponential backoff between tries, in milliseconds. */
+  backoffMs: number;
+}
+
+const DEFAULT_UPSTREAM: UpstreamOptions = { timeoutMs: 60_000, maxRetries: 2, backoffMs: 500 };
+const MAX_BACKOFF_MS = 8_000;
+
+/**
+ * How the model is held to the answer's JSON schema: `json_schema` asks for
+ * structured output, `tools` forces a call to a function that takes the answer
+ * as its arguments, and `off` relies on the prompt alone.
+ */
+export type StructuredOutput = 'json_schema' | 'tools' | 'off';
+
+const STRUCTURED_OUTPUTS: StructuredOutput[] = ['json_schema', 'tools', 'off'];
+
+interface AttemptLog {
+  provider: string;
+  model: string;
+  task: GenerationTask['kind'];
+  structuredOutput: StructuredOutput;
+  attempt: number;
+  latencyMs: number;
+  outcome: 'ok' | 'http_error' | 'timeout' | 'network_error';
+  status?: number;
+}
+
+/** Logs as one JSON line, so attempts can be filtered and aggregated in the function logs. */
+const logEvent = (event: string, fields: object) => console.log(JSON.stringify({ event, ...fields }));
+
+type AttemptResult = { response: Response } | { failure: ProviderError; retryable: boolean };
+
+/**
+ * POSTs to a provider, timing out each try and retrying 5xx responses,
+ * timeouts and network errors with jittered exponential backoff. The timeout
+ * covers the wait for the response headers and then restarts with every chunk
+ * of the body, so a long stream isn't cut off but a stalled one is. Failures
+ * while reading the body are raised from the read and aren't retried.
+ */
+const postWithRetries = async (
+  url: string,
+  init: RequestInit,
+  context: {
+    label: string;
+    provider: string;
+    model: string;
+    task: GenerationTask;
+    structuredOutput: StructuredOutput;
+    upstream: UpstreamOptions;
+  },
+): Promise<Response> => {
+  const { label, upstream } = context;
+
+  const attemptOnce = async (attempt: number): Promise<AttemptResult> => {
+    const timeout = new AbortController();
+    let timer = setTimeout(() => timeout.abort(), upstream.timeoutMs);
+    const signal = init.signal ? AbortSignal.any([init.signal, timeout.signal]) : timeout.signal;
+    const started = Date.now();
+    const log = (outcome: AttemptLog['outcome'], status?: number) =>
+      logEvent('ai_attempt', {
+        provider: context.provider,
+        model: context.model,
+        task: context.task.kind,
+        structuredOutput: context.structuredOutput,
+        attempt,
+        latencyMs: Date.now() - started,
+        outcome,
+        status,
+      } satisfies AttemptLog);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal });
+    } catch (error) {
+      clearTimeout(timer);
+      if (init.signal?.aborted) throw error;
+      if (timeout.signal.aborted) {
+        log('timeout');
+        return {
+          failure: new ProviderError(`${label} did not answer within ${upstream.timeoutMs}ms`, 504, {
+            code: 'UPSTREAM_TIMEOUT',
+          }),
+          retryable: true,
+        };
+      }
+      log('network_error');
+      console.error(`${label} could not be reached:`, error);
+      return { failure: new ProviderError(`${label} could not be reached`, 502), retryable: true };
+    }
+
+    log(response.ok ? 'ok' : 'http_error', response.status);
+    if (!response.ok) {
+      try {
+        return { failure: await upstreamError(response, label), retryable: response.status >= 500 };
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+    if (!response.body) {
+      clearTimeout(timer);
+      return { response };
+    }
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await reader.read();
+          clearTimeout(timer);
+          if (done) {
+            controller.close();
+            return;
+          }
+          timer = setTimeout(() => timeout.abort(), upstream.timeoutMs);
+          controller.enqueue(value);
+        } catch (error) {
+          clearTimeout(timer);
+          if (init.signal?.aborted) {
+            controller.error(error);
+          } else if (timeout.signal.aborted) {
+            controller.error(
+              new ProviderError(`${label} stopped answering for ${upstream.timeoutMs}ms`, 504, { code: 'UPSTREAM_TIMEOUT' }),
+            );
+          } else {
+            console.error(`Lost the connection to ${label}:`, error);
+            controller.error(new ProviderError(`Lost the connection to ${label}`, 502));
+          }
+        }
+      },
+      cancel(reason) {
+        clearTimeout(timer);
+        return reader.cancel(reason);
+      },
+    });
+    return { response: new Response(body, { status: response.status, headers: response.headers }) };
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await attemptOnce(attempt);
+    if ('response' in result) return result.response;
+    if (!result.retryable || attempt > upstream.maxRetries) throw result.failure;
+
+    const delay = Math.random() * Math.min(MAX_BACKOFF_MS, upstream.backoffMs * 2 ** (attempt - 1));
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    if (init.signal?.aborted) throw init.signal.reason;
+  }
+};
+
+// Endpoints and models that turned structured output down, so later requests
+// in this isolate go straight to the prompt-only path.
+const structuredUnsupported = new Set<string>();
+
+// How providers say they can't do the structured output asked for, within one
+// sentence of their error: "'response_format' of type 'json_schema' is not
+// supported with this model", "Unknown name \"response_format\"", "does not
+// support tools", or older Ollama's "cannot unmarshal object into Go struct
+// field ChatRequest.format". Other bad requests that merely mention these
+// fields don't count, and neither does a schema the provider found invalid.
+const STRUCTURED_OUTPUT_REJECTIONS = [
+  /\b(?:response_format|json_schema|tool_choice|tools)\b[^.]*\b(?:not supported|unsupported|not available|unknown|unrecognized)\b/i,
+  /\b(?:not supported|unsupported|does not support|doesn't support|unknown|unrecognized)\b[^.]*\b(?:response_format|json_schema|tool_choice|tools)\b/i,
+  /cannot unmarshal \w+ into Go struct field \w+\.format\b/i,
+];
+const INVALID_SCHEMA = /invalid schema/i;
+
+/** Whether a rejected request was turned down for its structured output rather than for anything else. */
+const rejectsStructuredOutput = (error: unknown) =>
+  error instanceof ProviderError &&
+  error.status === 400 &&
+  !INVALID_SCHEMA.test(error.detail ?? '') &&
+  STRUCTURED_OUTPUT_REJECTIONS.some((pattern) => pattern.test(error.detail ?? ''));
+
+/**
+ * Sends the request with structured output and, if the provider rejects that
+ * as unsupported, again without. Other bad requests are raised as they are.
+ * The provider is only remembered as not supporting it when the plain request
+ * then gets through.
+ */
+const sendStructured = async (
+  provider: { name: string; baseUrl: string; model: string },
+  mode: StructuredOutput,
+  send: (mode: StructuredOutput) => Promise<Response>,
+): Promise<Response> => {
+  const key = `${provider.baseUrl} ${provider.model}`;
+  if (mode === 'off' || structuredUnsupported.has(key)) return send('off');
+  try {
+    return await send(mode);
+  } catch (error) {
+    if (!rejectsStructuredOutput(error)) throw error;
+    const response = await send('off');
+    structuredUnsupported.add(key);
+    logEvent('ai_structured_output_unsupported', { provider: provider.name, model: provider.model, mode });
+    return response;
+  }
+};
+
+/** The chat completion fields that ask for `task`'s schema. */
+const structuredFields = (mode: StructuredOutput, task: GenerationTask) => {
+  const { name, description, schema } = responseSchema(task);
+  switch (mode) {
+    case 'json_schema':
+      return { response_format: { type: 'json_schema', json_schema: { name, strict: true, schema } } };
+    case 'tools':
+      return {
+        tools: [{ type: 'function', function: { name, description, parameters: schema, strict: true } }],
+        tool_choice: { type: 'function', function: { name } },
+      };
+    case 'off':
+      return {};
+  }
+};
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield line.trim();
+      }
+    }
+    if (buffer.trim()) yield buffer.trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** A JSON answer, or one chunk of a streamed one; anything else is a bad response from upstream. */
+const parseUpstream = (text: string, label: string) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    console.error(`Malformed response from ${label}:`, text);
+    throw new ProviderError(`${label} sent a malformed response`, 502);
+  }
+};
+
+/** Any gateway speaking the OpenAI chat completions API (Lovable AI, OpenAI, OpenRouter, ...). */
+export const createOpenAICompatibleProvider = (options: {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  structuredOutput?: StructuredOutput;
+  upstream?: UpstreamOptions;
+}): AIProvider => {
+  const request = ({ messages, temperature = 0.7, signal, task }: CompletionRequest, stream: boolean) =>
+    sendStructured(
+      { name: 'openai-compatible', baseUrl: options.baseUrl, model: options.model },
+      options.structuredOutput ?? 'json_schema',
+      (mode) =>
+        postWithRetries(
+          `${options.baseUrl.replace(/\/$/, '')}/chat/completions`,
+          {
+            method: 'POST',
+            headers: {
+              'Authorization': `Bearer ${options.apiKey}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              model: options.model,
+              messages,
+              temperature,
+              stream,
+              ...structuredFields(mode, task),
+            }),
+            signal,
+          },
+          {
+            label: 'AI Gateway',
+            provider: 'openai-compatible',
+            model: options.model,
+            task,
+            structuredOutput: mode,
+            upstream: options.upstream ?? DEFAULT_UPSTREAM,
+          },
+        ),
+    );
+
+  return {
+    name: 'openai-compatible',
+    model: options.model,
+    answeredBy: options.model,
+    async complete(completion) {
+      const data = parseUpstream(await (await request(completion, false)).text(), 'AI Gateway');
+      if (data.choices?.[0]?.finish_reason === 'content_filter') {
+        throw new ProviderError('Blocked by the content filter', 422, { code: 'UNSAFE_TOPIC' });
+      }
+      const message = data.choices?.[0]?.message;
+      // Structured output refusals come in their own field; they're passed on the way the prompt asks for them.
+      if (message?.refusal) return JSON.stringify({ refusal: message.refusal });
+      const content = message?.tool_calls?.[0]?.function?.arguments ?? message?.content;
+      if (!content) {
+        console.error('No content in AI response:', data);
+        throw new ProviderError('No content generated');
+      }
+      return content;
+    },
+    async *stream(completion) {
+      const response = await request(completion, true);
+      let refusal = '';
+      for await (const line of readLines(response.body!)) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') break;
+        const choice = parseUpstream(payload, 'AI Gateway').choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+          throw new ProviderError('Blocked by the content filter', 422, { code: 'UNSAFE_TOPIC' });
+        }
+        if (choice?.delta?.refusal) refusal += choice.delta.refusal;
+        const delta = choice?.delta?.tool_calls?.[0]?.function?.arguments ?? choice?.delta?.content;
+        if (delta) yield delta;
+      }
+      if (refusal) yield JSON.stringify({ refusal });
+    },
+  };
+};
+
+/** A local Ollama server (or anything implementing its `/api/chat` endpoint). */
+export const createOllamaProvider = (options: {
+  baseUrl: string;
+  model: string;
+  structuredOutput?: StructuredOutput;
+  upstream?: UpstreamOptions;
+}): AIProvider => {
+  // Ollama takes the schema as `format`; there's no separate tool-calling mode for it.
+  const request = ({ messages, temperature = 0.7, signal, task }: CompletionRequest, stream: boolean) =>
+    sendStructured(
+      { name: 'ollama', baseUrl: options.baseUrl, model: options.model },
+      options.structuredOutput ?? 'json_schema',
+      (mode) =>
+        postWithRetries(
+          `${options.baseUrl.replace(/\/$/, '')}/api/chat`,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              model: options.model,
+              messages,
+              stream,
+              format: mode === 'off' ? 'json' : responseSchema(task).schema,
+              options: { temperature },
+            }),
+            signal,
+          },
+          {
+            label: 'Ollama',
+            provider: 'ollama',
+            model: options.model,
+            task,
+            structuredOutput: mode,
+            upstream: options.upstream ?? DEFAULT_UPSTREAM,
+          },
+        ),
+    );
+
+  return {
+    name: 'ollama',
+    model: options.model,
+    answeredBy: options.model,
+    async complete(completion) {
+      const data = parseUpstream(await (await request(completion, false)).text(), 'Ollama');
+      const content = data.message?.content;
+      if (!content) {
+        console.error('No content in Ollama response:', data);
+        throw new ProviderError('No content generated');
+      }
+      return content;
+    },
+    async *stream(completion) {
+      const response = await request(completion, true);
+      // Ollama streams newline-delimited JSON objects rather than SSE.
+      for await (const line of readLines(response.body!)) {
+        const chunk = parseUpstream(line, 'Ollama');
+        if (chunk.message?.content) yield chunk.message.content;
+        if (chunk.done) return;
+      }
+    },
+  };
+};
+
+const MOCK_CHUNK_SIZE = 64;
+
+/**
+ * Deterministic, offline provider backed by canned fixtures. Streaming replays
+ * the fixture in small chunks, `delayMs` apart, to mimic a real model.
+ */
+export const createMockProvider = (options: { delayMs?: number } = {}): AIProvider => ({
+  name: 'mock',
+  model: 'fixtures',
+  answeredBy: 'fixtures',
+  async complete({ task }) {
+    return JSON.stringify(mockCompletion(task), null, 2);
+  },
+  async *stream({ task, signal }) {
+    const text = JSON.stringify(mockCompletion(task), null, 2);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      if (signal?.aborted) return;
+      if (options.delayMs) {
+        await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+      }
+      yield text.slice(i, i + MOCK_CHUNK_SIZE);
+    }
+  },
+});
+
+// Refusals and requests the upstream rejects as such (bad key, no credits) would fail on any model.
+const canFallBack = (error: unknown) =>
+  error instanceof ProviderError && error.code !== 'UNSAFE_TOPIC' && ![400, 401, 402, 403].includes(error.status);
+
+const parsesAsJson = (content: string) => {
+  try {
+    JSON.parse(extractJson(content));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const fallbackReason = (error: unknown) =>
+  error instanceof ProviderError ? error.code ?? `status ${error.status}` : 'error';
+
+/**
+ * Tries `providers` in order, moving to the next when a call fails in a way
+ * another model might not, or when a completion isn't JSON. A stream only
+ * falls back until its first chunk has arrived. `model` stays the first
+ * model; `answeredBy` follows whichever one answered.
+ */
+export const createFallbackProvider = (providers: AIProvider[]): AIProvider => {
+  const logFallback = (from: AIProvider, to: AIProvider, task: GenerationTask, reason: string) =>
+    logEvent('ai_fallback', { from: from.model, to: to.model, task: task.kind, reason });
+
+  let answeredBy = providers[0].model;
+
+  return {
+    name: providers[0].name,
+    model: providers[0].model,
+    get answeredBy() {
+      return answeredBy;
+    },
+    async complete(request) {
+      for (let index = 0; ; index++) {
+        const [provider, next] = [providers[index], providers[index + 1]];
+        try {
+          const content = await provider.complete(request);
+          answeredBy = provider.answeredBy;
+          if (!next || parsesAsJson(content)) return content;
+          logFallback(provider, next, request.task, 'unparseable');
+        } catch (error) {
+          if (!next || !canFallBack(error)) throw error;
+          logFallback(provider, next, request.task, fallbackReason(error));
+        }
+      }
+    },
+    async *stream(request) {
+      for (let index = 0; ; index++) {
+        const [provider, next] = [providers[index], providers[index + 1]];
+        const chunks = provider.stream(request)[Symbol.asyncIterator]();
+        let first: IteratorResult<string>;
+        try {
+          first = await chunks.next();
+        } catch (error) {
+          if (!next || !canFallBack(error)) throw error;
+          logFallback(provider, next, request.task, fallbackReason(error));
+          continue;
+        }
+        answeredBy = provider.answeredBy;
+        for (let chunk = first; !chunk.done; chunk = await chunks.next()) {
+          yield chunk.value;
+        }
+        return;
+      }
+    },
+  };
+};
+
+const count = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const DEFAULT_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1';
+const DEFAULT_GATEWAY_MODEL = 'google/gemini-2.5-flash';
+const DEFAULT_OLLAMA_URL = 'http://host.docker.internal:11434';
+const DEFAULT_OLLAMA_MODEL = 'llama3.1';
+
+/**
+ * Picks the provider from the environment:
+ *
+ * - `AI_PROVIDER`: `gateway` (default), `ollama` or `mock`
+ * - `AI_MODEL`: model name, defaults per provider
+ * - `AI_FALLBACK_MODELS`: comma-separated models to try, in order, when `AI_MODEL` fails
+ * - `AI_BASE_URL`: endpoint, defaults per provider
+ * - `AI_API_KEY`: gateway key, falls back to `LOVABLE_API_KEY`
+ * - `AI_STRUCTURED_OUTPUT`: `json_schema` (default), `tools` or `off`; see `StructuredOutput`
+ * - `AI_TIMEOUT_MS`: how long to wait for the model to start answering, or to go on (default 60000)
+ * - `AI_MAX_RETRIES`: retries after a 5xx, timeout or network error (default 2)
+ * - `AI_MOCK_DELAY_MS`: pause between streamed mock chunks (default 40)
+ */
+export const resolveProvider = (env: (name: string) => string | undefined): AIProvider => {
+  const kind = (env('AI_PROVIDER') || 'gateway').toLowerCase();
+  const model = env('AI_MODEL');
+  const fallbackModels = (env('AI_FALLBACK_MODELS') ?? '').split(',').map((name) => name.trim()).filter(Boolean);
+  const baseUrl = env('AI_BASE_URL');
+  const upstream: UpstreamOptions = {
+    timeoutMs: count(env('AI_TIMEOUT_MS'), DEFAULT_UPSTREAM.timeoutMs) || DEFAULT_UPSTREAM.timeoutMs,
+    maxRetries: Math.floor(count(env('AI_MAX_RETRIES'), DEFAULT_UPSTREAM.maxRetries)),
+    backoffMs: DEFAULT_UPSTREAM.backoffMs,
+  };
+  const structuredOutput = (env('AI_STRUCTURED_OUTPUT') || 'json_schema').toLowerCase() as StructuredOutput;
+  if (!STRUCTURED_OUTPUTS.includes(structuredOutput)) {
+    throw new ProviderConfigError(`Unknown AI_STRUCTURED_OUTPUT "${structuredOutput}"`);
+  }
+  const withFallbacks = (primary: string, create: (model: string) => AIProvider) =>
+    fallbackModels.length > 0
+      ? createFallbackProvider([primary, ...fallbackModels].map(create))
+      : create(primary);
+
+  switch (kind) {
+    case 'gateway':
+    case 'openai': {
+      const apiKey = env('AI_API_KEY') || env('LOVABLE_API_KEY');
+      if (!apiKey) {
+        throw new ProviderConfigError('AI_API_KEY (or LOVABLE_API_KEY) is not configured');
+      }
+      return withFallbacks(model || DEFAULT_GATEWAY_MODEL, (name) =>
+        createOpenAICompatibleProvider({
+          baseUrl: baseUrl || DEFAULT_GATEWAY_URL,
+          apiKey,
+          model: name,
+          structuredOutput,
+          upstream,
+        }),
+      );
+    }
+    case 'ollama':
+      return withFallbacks(model || DEFAULT_OLLAMA_MODEL, (name) =>
+        createOllamaProvider({ baseUrl: baseUrl || DEFAULT_OLLAMA_URL, model: name, structuredOutput, upstream }),
+      );
+    case 'mock':
+      return createMockProvider({ delayMs: Number(env('AI_MOCK_DELAY_MS') ?? 40) });
+    default:
+      throw new ProviderConfigError(`Unknown AI_PROVIDER "${kind}"`);
+  }
+};
@@ -0,0 +1,124 @@
+// JSON schemas for each task's answer, for providers that can hold their
+// output to a schema. They are written for strict mode: every property is
+// required, nothing else is allowed, and only keywords strict endpoints accept
+// are used, so counts and ranges are left out. The validators in `_shared`
+// enforce those, and check and repair whatever comes back.
+
+import { RESOURCE_TYPES } from '../_shared/learningMap.ts';
+import type { GenerationTask } from './providers.ts';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ResponseSchema {
+  /** Identifier for the schema, also used as the tool name in function calling. */
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
+
+const object = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties),
+  additionalProperties: false,
+});
+
+const array = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+const nullable = (schema: JsonSchema): JsonSchema => ({ ...schema, type: [schema.type, 'null'] });
+
+const text: JsonSchema = { type: 'string' };
+const number: JsonSchema = { type: 'number' };
+
+const nodeFields = { id: text, name: text, description: text, estimatedHours: number };
+
+const subtopic = object(nodeFields);
+
+const branch = object({
+  ...nodeFields,
+  subtopics: array(subtopic),
+});
+
+const dependency = object({ from: text, to: text, kind: { type: 'string', enum: ['prerequisite', 'related'] } });
+
+const LEARNING_MAP: ResponseSchema = {
+  name: 'learning_map',
+  description: 'A learning map: branches of subtopics and the dependencies between them',
+  schema: object({
+    topic: text,
+    // May be empty when the model refuses; the validator requires branches otherwise.
+    branches: array(branch),
+    dependencies: array(dependency),
+    // Why the topic can't be taught responsibly, or null; see the map prompt.
+    refusal: nullable(text),
+  }),
+};
+
+const SUBTOPICS: ResponseSchema = {
+  name: 'subtopics',
+  description: 'New child subtopics for one node of a learning map',
+  schema: object({ subtopics: array(subtopic) }),
+};
+
+const BRANCH: ResponseSchema = {
+  name: 'branch',
+  description: 'A rewritten branch of a learning map and its dependencies on the rest of the map',
+  schema: object({ branch, dependencies: array(dependency) }),
+};
+
+const RESOURCES: ResponseSchema = {
+  name: 'resources',
+  description: 'Study resources for one node of a learning map',
+  schema: object({
+    resources: array(
+      object({
+        title: text,
+        type: { type: 'string', enum: RESOURCE_TYPES },
+        url: text,
+        estimatedMinutes: number,
+        free: { type: 'boolean' },
+      }),
+    ),
+  }),
+};
+
+const QUIZ: ResponseSchema = {
+  name: 'quiz',
+  description: 'Review questions for one node of a learning map',
+  schema: object({
+    // One shape for both kinds, since strict endpoints don't all take anyOf;
+    // the fields of the other kind are null.
+    questions: array(
+      object({
+        kind: { type: 'string', enum: ['multiple_choice', 'short_answer'] },
+        prompt: text,
+        choices: nullable(array(text)),
+        answerIndex: nullable({ type: 'integer' }),
+        answer: nullable(text),
+        explanation: text,
+      }),
+    ),
+  }),
+};
+
+const GRADE: ResponseSchema = {
+  name: 'grade',
+  description: "The grade for a learner's short answer",
+  schema: object({
+    correct: { type: 'boolean' },
+    score: number,
+    feedback: text,
+  }),
+};
+
+const SCHEMAS: Record<GenerationTask['kind'], ResponseSchema> = {
+  map: LEARNING_MAP,
+  expand: SUBTOPICS,
+  regenerate: BRANCH,
+  resources: RESOURCES,
+  quiz: QUIZ,
+  grade: GRADE,
+};
+
+/** The schema the answer to `task` should follow. */
+export const responseSchema = (task: GenerationTask): ResponseSchema => SCHEMAS[task.kind];
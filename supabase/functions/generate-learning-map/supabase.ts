@@ -0,0 +1,58 @@
+import { createClient, type SupabaseClient, type User } from 'npm:@supabase/supabase-js@2';
+
+let adminClient: SupabaseClient | null = null;
+
+/** Service-role client for bookkeeping tables that callers can't write to themselves. */
+export const getAdminClient = (): SupabaseClient => {
+  adminClient ??= createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    { auth: { persistSession: false } },
+  );
+  return adminClient;
+};
+
+/**
+ * Resolves the signed-in user behind the request's bearer token. The anon key
+ * is also a valid JWT, so the platform's `verify_jwt` check alone doesn't prove
+ * there is a user; this does.
+ */
+export const getCaller = async (req: Request): Promise<User | null> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await getAdminClient().auth.getUser(token);
+  if (error) {
+    console.warn('Rejected caller token:', error.message);
+    return null;
+  }
+  return data.user;
+};
+
+export type UsageMode = 'map' | 'expand' | 'resources' | 'quiz' | 'grade' | 'regenerate';
+
+export interface UsageEntry {
+  user_id: string;
+  mode: UsageMode;
+  topic: string;
+  level: string;
+  provider: string;
+  model: string;
+  streamed: boolean;
+  succeeded: boolean;
+}
+
+/**
+ * Settles a reserved generation (see `reserveGeneration`) with its outcome.
+ * Failures are logged, never surfaced; an unsettled reservation stops counting
+ * against the quota after a while.
+ */
+export const settleUsage = async (
+  usageId: string,
+  outcome: Pick<UsageEntry, 'succeeded' | 'provider' | 'model'>,
+) => {
+  const { error } = await getAdminClient().from('generation_usage').update(outcome).eq('id', usageId);
+  if (error) {
+    console.error('Failed to record generation usage:', error);
+  }
+};
@@ -0,0 +1,68 @@
+-- Saved learning maps. A map owns its branches, and each branch owns its
+-- subtopics; `node_id` keeps the id used by the generated tree so progress,
+-- notes and links can refer to nodes stably.
+
+create table public.learning_maps (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  topic text not null,
+  level text not null default 'beginner' check (level in ('beginner', 'intermediate', 'advanced')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.branches (
+  id uuid primary key default gen_random_uuid(),
+  map_id uuid not null references public.learning_maps (id) on delete cascade,
+  node_id text not null,
+  name text not null,
+  description text not null default '',
+  position integer not null,
+  created_at timestamptz not null default now(),
+  unique (map_id, node_id)
+);
+
+create table public.subtopics (
+  id uuid primary key default gen_random_uuid(),
+  map_id uuid not null references public.learning_maps (id) on delete cascade,
+  branch_id uuid not null references public.branches (id) on delete cascade,
+  node_id text not null,
+  name text not null,
+  description text not null default '',
+  position integer not null,
+  created_at timestamptz not null default now(),
+  unique (map_id, node_id)
+);
+
+create index branches_map_id_idx on public.branches (map_id, position);
+create index subtopics_branch_id_idx on public.subtopics (branch_id, position);
+create index learning_maps_updated_at_idx on public.learning_maps (updated_at desc);
+
+create or replace function public.update_updated_at_column()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger update_learning_maps_updated_at
+  before update on public.learning_maps
+  for each row execute function public.update_updated_at_column();
+
+alter table public.learning_maps enable row level security;
+alter table public.branches enable row level security;
+alter table public.subtopics enable row level security;
+
+-- There are no accounts yet, so the library is shared by everyone using the app.
+create policy "Anyone can manage learning maps" on public.learning_maps
+  for all using (true) with check (true);
+
+create policy "Anyone can manage branches" on public.branches
+  for all using (true) with check (true);
+
+create policy "Anyone can manage subtopics" on public.subtopics
+  for all using (true) with check (true);
@@ -0,0 +1,65 @@
+-- Each saved map belongs to the user who generated it, and row-level security
+-- restricts every read and write to the owner. Branches and subtopics inherit
+-- access from their map.
+
+alter table public.learning_maps
+  add column user_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+-- Maps saved before accounts existed have no owner and stay hidden.
+create index learning_maps_user_id_idx on public.learning_maps (user_id, updated_at desc);
+
+drop policy "Anyone can manage learning maps" on public.learning_maps;
+drop policy "Anyone can manage branches" on public.branches;
+drop policy "Anyone can manage subtopics" on public.subtopics;
+
+create policy "Users can view their own maps" on public.learning_maps
+  for select using (auth.uid() = user_id);
+
+create policy "Users can create their own maps" on public.learning_maps
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own maps" on public.learning_maps
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users can delete their own maps" on public.learning_maps
+  for delete using (auth.uid() = user_id);
+
+create or replace function public.owns_learning_map(_map_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.learning_maps
+    where id = _map_id and user_id = auth.uid()
+  );
+$$;
+
+create policy "Users can manage branches of their maps" on public.branches
+  for all using (public.owns_learning_map(map_id)) with check (public.owns_learning_map(map_id));
+
+create policy "Users can manage subtopics of their maps" on public.subtopics
+  for all using (public.owns_learning_map(map_id)) with check (public.owns_learning_map(map_id));
+
+-- One row per generation request, written by the edge function with the
+-- service role so usage can be attributed and metered per user.
+create table public.generation_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  topic text not null,
+  level text not null,
+  provider text not null,
+  model text not null,
+  streamed boolean not null default false,
+  succeeded boolean not null,
+  created_at timestamptz not null default now()
+);
+
+create index generation_usage_user_id_idx on public.generation_usage (user_id, created_at desc);
+
+alter table public.generation_usage enable row level security;
+
+create policy "Users can view their own usage" on public.generation_usage
+  for select using (auth.uid() = user_id);
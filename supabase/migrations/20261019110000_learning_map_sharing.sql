@@ -0,0 +1,45 @@
+-- Public read-only sharing. An owner can mint a share token for a map; anyone
+-- holding the token can read that map (and nothing else) through
+-- get_shared_learning_map, without an account.
+
+alter table public.learning_maps add column share_token uuid unique;
+
+create or replace function public.get_shared_learning_map(_token uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', m.id,
+    'title', m.title,
+    'topic', m.topic,
+    'level', m.level,
+    'updated_at', m.updated_at,
+    'branches', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', b.node_id,
+          'name', b.name,
+          'description', b.description,
+          'subtopics', coalesce((
+            select jsonb_agg(
+              jsonb_build_object('id', s.node_id, 'name', s.name, 'description', s.description)
+              order by s.position
+            )
+            from public.subtopics s
+            where s.branch_id = b.id
+          ), '[]'::jsonb)
+        )
+        order by b.position
+      )
+      from public.branches b
+      where b.map_id = m.id
+    ), '[]'::jsonb)
+  )
+  from public.learning_maps m
+  where m.share_token = _token;
+$$;
+
+grant execute on function public.get_shared_learning_map(uuid) to anon, authenticated;
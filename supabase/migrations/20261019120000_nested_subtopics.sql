@@ -0,0 +1,70 @@
+-- Maps can now be expanded below the second level. Every subtopic still
+-- belongs to its top-level branch; nested ones also point at their parent
+-- subtopic, and top-level ones leave parent_id null.
+
+alter table public.subtopics
+  add column parent_id uuid references public.subtopics (id) on delete cascade;
+
+create index subtopics_parent_id_idx on public.subtopics (parent_id);
+
+alter table public.generation_usage
+  add column mode text not null default 'map' check (mode in ('map', 'expand'));
+
+-- Children of one subtopic (or of the branch itself when _parent_id is null),
+-- nested all the way down. Only called from get_shared_learning_map.
+create or replace function public.subtopic_tree(_branch_id uuid, _parent_id uuid)
+returns jsonb
+language plpgsql
+stable
+set search_path = public
+as $$
+begin
+  return coalesce((
+    select jsonb_agg(
+      jsonb_build_object(
+        'id', s.node_id,
+        'name', s.name,
+        'description', s.description,
+        'subtopics', public.subtopic_tree(_branch_id, s.id)
+      )
+      order by s.position
+    )
+    from public.subtopics s
+    where s.branch_id = _branch_id
+      and s.parent_id is not distinct from _parent_id
+  ), '[]'::jsonb);
+end;
+$$;
+
+revoke execute on function public.subtopic_tree(uuid, uuid) from public, anon, authenticated;
+
+create or replace function public.get_shared_learning_map(_token uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', m.id,
+    'title', m.title,
+    'topic', m.topic,
+    'level', m.level,
+    'updated_at', m.updated_at,
+    'branches', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', b.node_id,
+          'name', b.name,
+          'description', b.description,
+          'subtopics', public.subtopic_tree(b.id, null)
+        )
+        order by b.position
+      )
+      from public.branches b
+      where b.map_id = m.id
+    ), '[]'::jsonb)
+  )
+  from public.learning_maps m
+  where m.share_token = _token;
+$$;
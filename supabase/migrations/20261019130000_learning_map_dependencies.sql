@@ -0,0 +1,39 @@
+-- Prerequisite and related links between nodes of a map. They reference node
+-- ids across branches and nesting levels, so they are stored with the map as
+-- an array of { from, to, kind } objects rather than as their own rows.
+
+alter table public.learning_maps
+  add column dependencies jsonb not null default '[]'::jsonb
+  check (jsonb_typeof(dependencies) = 'array');
+
+create or replace function public.get_shared_learning_map(_token uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', m.id,
+    'title', m.title,
+    'topic', m.topic,
+    'level', m.level,
+    'updated_at', m.updated_at,
+    'branches', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', b.node_id,
+          'name', b.name,
+          'description', b.description,
+          'subtopics', public.subtopic_tree(b.id, null)
+        )
+        order by b.position
+      )
+      from public.branches b
+      where b.map_id = m.id
+    ), '[]'::jsonb),
+    'dependencies', m.dependencies
+  )
+  from public.learning_maps m
+  where m.share_token = _token;
+$$;
@@ -0,0 +1,27 @@
+-- Learning progress per user and node. Rows are keyed by the node's stable id
+-- rather than by branch or subtopic row, so they survive the tree being
+-- rewritten when a map is expanded or regenerated. A node without a row has
+-- not been started.
+
+create table public.node_progress (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  map_id uuid not null references public.learning_maps (id) on delete cascade,
+  node_id text not null,
+  status text not null check (status in ('in_progress', 'done', 'skipped')),
+  updated_at timestamptz not null default now(),
+  unique (user_id, map_id, node_id)
+);
+
+create index node_progress_map_id_idx on public.node_progress (map_id);
+
+create trigger update_node_progress_updated_at
+  before update on public.node_progress
+  for each row execute function public.update_updated_at_column();
+
+alter table public.node_progress enable row level security;
+
+create policy "Users can manage progress on their maps" on public.node_progress
+  for all
+  using (auth.uid() = user_id and public.owns_learning_map(map_id))
+  with check (auth.uid() = user_id and public.owns_learning_map(map_id));
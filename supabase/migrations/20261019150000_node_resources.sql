@@ -0,0 +1,73 @@
+-- Study resources attached to nodes. Each node keeps its own ordered list of
+-- { title, type, url, estimatedMinutes, free } objects, generated on demand or
+-- added by the learner, so it lives on the node row as a jsonb array.
+
+alter table public.branches
+  add column resources jsonb not null default '[]'::jsonb
+  check (jsonb_typeof(resources) = 'array');
+
+alter table public.subtopics
+  add column resources jsonb not null default '[]'::jsonb
+  check (jsonb_typeof(resources) = 'array');
+
+alter table public.generation_usage
+  drop constraint generation_usage_mode_check,
+  add constraint generation_usage_mode_check check (mode in ('map', 'expand', 'resources'));
+
+create or replace function public.subtopic_tree(_branch_id uuid, _parent_id uuid)
+returns jsonb
+language plpgsql
+stable
+set search_path = public
+as $$
+begin
+  return coalesce((
+    select jsonb_agg(
+      jsonb_build_object(
+        'id', s.node_id,
+        'name', s.name,
+        'description', s.description,
+        'resources', s.resources,
+        'subtopics', public.subtopic_tree(_branch_id, s.id)
+      )
+      order by s.position
+    )
+    from public.subtopics s
+    where s.branch_id = _branch_id
+      and s.parent_id is not distinct from _parent_id
+  ), '[]'::jsonb);
+end;
+$$;
+
+create or replace function public.get_shared_learning_map(_token uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', m.id,
+    'title', m.title,
+    'topic', m.topic,
+    'level', m.level,
+    'updated_at', m.updated_at,
+    'branches', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', b.node_id,
+          'name', b.name,
+          'description', b.description,
+          'resources', b.resources,
+          'subtopics', public.subtopic_tree(b.id, null)
+        )
+        order by b.position
+      )
+      from public.branches b
+      where b.map_id = m.id
+    ), '[]'::jsonb),
+    'dependencies', m.dependencies
+  )
+  from public.learning_maps m
+  where m.share_token = _token;
+$$;
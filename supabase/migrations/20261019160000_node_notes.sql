@@ -0,0 +1,61 @@
+-- Markdown notes per user and node. Like progress, rows are keyed by the
+-- node's stable id so they survive the tree being rewritten. An empty note is
+-- stored as no row.
+
+create table public.node_notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  map_id uuid not null references public.learning_maps (id) on delete cascade,
+  node_id text not null,
+  body text not null,
+  search tsvector generated always as (to_tsvector('english', body)) stored,
+  updated_at timestamptz not null default now(),
+  unique (user_id, map_id, node_id)
+);
+
+create index node_notes_map_id_idx on public.node_notes (map_id);
+create index node_notes_search_idx on public.node_notes using gin (search);
+
+create trigger update_node_notes_updated_at
+  before update on public.node_notes
+  for each row execute function public.update_updated_at_column();
+
+alter table public.node_notes enable row level security;
+
+create policy "Users can manage notes on their maps" on public.node_notes
+  for all
+  using (auth.uid() = user_id and public.owns_learning_map(map_id))
+  with check (auth.uid() = user_id and public.owns_learning_map(map_id));
+
+-- Notes of the calling user that match a search, with the map title and node
+-- name for display. Full-text matches rank first; a plain substring match
+-- catches partial words. Runs with the caller's rights, so RLS applies.
+create or replace function public.search_node_notes(_query text)
+returns table (
+  map_id uuid,
+  map_title text,
+  node_id text,
+  node_name text,
+  body text,
+  updated_at timestamptz
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    n.map_id,
+    m.title,
+    n.node_id,
+    coalesce(s.name, b.name, n.node_id),
+    n.body,
+    n.updated_at
+  from public.node_notes n
+  join public.learning_maps m on m.id = n.map_id
+  left join public.subtopics s on s.map_id = n.map_id and s.node_id = n.node_id
+  left join public.branches b on b.map_id = n.map_id and b.node_id = n.node_id
+  where n.search @@ websearch_to_tsquery('english', _query)
+     or n.body ilike '%' || _query || '%'
+  order by ts_rank(n.search, websearch_to_tsquery('english', _query)) desc, n.updated_at desc
+  limit 50;
+$$;
@@ -0,0 +1,108 @@
+-- Quiz questions kept for spaced-repetition review. Each generated question
+-- becomes a review item carrying its SM-2 state (ease factor, interval and
+-- repetition count) and the time it is next due; every graded answer is kept
+-- as an attempt. Like progress and notes, items are keyed by the node's stable
+-- id so they survive the tree being rewritten.
+
+create table public.review_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  map_id uuid not null references public.learning_maps (id) on delete cascade,
+  node_id text not null,
+  question_id text not null,
+  question jsonb not null check (jsonb_typeof(question) = 'object'),
+  ease_factor real not null default 2.5 check (ease_factor >= 1.3),
+  interval_days integer not null default 0 check (interval_days >= 0),
+  repetitions integer not null default 0 check (repetitions >= 0),
+  due_at timestamptz not null default now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, map_id, node_id, question_id)
+);
+
+create index review_items_due_idx on public.review_items (user_id, due_at);
+
+alter table public.review_items enable row level security;
+
+create policy "Users can manage review items on their maps" on public.review_items
+  for all
+  using (auth.uid() = user_id and public.owns_learning_map(map_id))
+  with check (auth.uid() = user_id and public.owns_learning_map(map_id));
+
+create table public.quiz_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  review_item_id uuid not null references public.review_items (id) on delete cascade,
+  answer text not null,
+  correct boolean not null,
+  score real not null check (score between 0 and 1),
+  quality smallint not null check (quality between 0 and 5),
+  feedback text,
+  created_at timestamptz not null default now()
+);
+
+create index quiz_attempts_review_item_id_idx on public.quiz_attempts (review_item_id);
+
+alter table public.quiz_attempts enable row level security;
+
+create policy "Users can view their quiz attempts" on public.quiz_attempts
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users can record attempts on their review items" on public.quiz_attempts
+  for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.review_items r
+      where r.id = review_item_id and r.user_id = auth.uid()
+    )
+  );
+
+-- The calling user's review items that are due, oldest first, with the map
+-- and node names for display and the map's topic and level for grading. Runs with the caller's rights, so RLS applies.
+create or replace function public.due_review_items(_limit integer default 50)
+returns table (
+  id uuid,
+  map_id uuid,
+  map_title text,
+  map_topic text,
+  map_level text,
+  node_id text,
+  node_name text,
+  question jsonb,
+  ease_factor real,
+  interval_days integer,
+  repetitions integer,
+  due_at timestamptz
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    r.id,
+    r.map_id,
+    m.title,
+    m.topic,
+    m.level,
+    r.node_id,
+    coalesce(s.name, b.name, r.node_id),
+    r.question,
+    r.ease_factor,
+    r.interval_days,
+    r.repetitions,
+    r.due_at
+  from public.review_items r
+  join public.learning_maps m on m.id = r.map_id
+  left join public.subtopics s on s.map_id = r.map_id and s.node_id = r.node_id
+  left join public.branches b on b.map_id = r.map_id and b.node_id = r.node_id
+  where r.user_id = auth.uid() and r.due_at <= now()
+  order by r.due_at
+  limit _limit;
+$$;
+
+alter table public.generation_usage
+  drop constraint generation_usage_mode_check,
+  add constraint generation_usage_mode_check
+    check (mode in ('map', 'expand', 'resources', 'quiz', 'grade'));
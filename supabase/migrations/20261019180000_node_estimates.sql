@@ -0,0 +1,69 @@
+-- Estimated study effort per node, in hours. It covers the node itself, not
+-- its subtopics, so totals are sums over a subtree. Generated with the map and
+-- editable by the learner; null means no estimate.
+
+alter table public.branches
+  add column estimated_hours numeric(6, 2) check (estimated_hours > 0);
+
+alter table public.subtopics
+  add column estimated_hours numeric(6, 2) check (estimated_hours > 0);
+
+create or replace function public.subtopic_tree(_branch_id uuid, _parent_id uuid)
+returns jsonb
+language plpgsql
+stable
+set search_path = public
+as $$
+begin
+  return coalesce((
+    select jsonb_agg(
+      jsonb_build_object(
+        'id', s.node_id,
+        'name', s.name,
+        'description', s.description,
+        'estimatedHours', s.estimated_hours,
+        'resources', s.resources,
+        'subtopics', public.subtopic_tree(_branch_id, s.id)
+      )
+      order by s.position
+    )
+    from public.subtopics s
+    where s.branch_id = _branch_id
+      and s.parent_id is not distinct from _parent_id
+  ), '[]'::jsonb);
+end;
+$$;
+
+create or replace function public.get_shared_learning_map(_token uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', m.id,
+    'title', m.title,
+    'topic', m.topic,
+    'level', m.level,
+    'updated_at', m.updated_at,
+    'branches', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', b.node_id,
+          'name', b.name,
+          'description', b.description,
+          'estimatedHours', b.estimated_hours,
+          'resources', b.resources,
+          'subtopics', public.subtopic_tree(b.id, null)
+        )
+        order by b.position
+      )
+      from public.branches b
+      where b.map_id = m.id
+    ), '[]'::jsonb),
+    'dependencies', m.dependencies
+  )
+  from public.learning_maps m
+  where m.share_token = _token;
+$$;
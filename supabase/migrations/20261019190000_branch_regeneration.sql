@@ -0,0 +1,6 @@
+-- Rewriting a single branch of a map is metered like the other generation modes.
+
+alter table public.generation_usage
+  drop constraint generation_usage_mode_check,
+  add constraint generation_usage_mode_check
+    check (mode in ('map', 'expand', 'resources', 'quiz', 'grade', 'regenerate'));
@@ -0,0 +1,16 @@
+-- Generated maps keyed on the prompt version, model, level and normalized
+-- topic, so asking for the same map again doesn't call the model. Only the
+-- edge function reads and writes it, with the service role.
+create table public.generation_cache (
+  key text primary key,
+  topic text not null,
+  level text not null,
+  model text not null,
+  map jsonb not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index generation_cache_expires_at_idx on public.generation_cache (expires_at);
+
+alter table public.generation_cache enable row level security;
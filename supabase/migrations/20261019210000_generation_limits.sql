@@ -0,0 +1,140 @@
+-- Limits on generation requests. Plans set a monthly quota of successful
+-- generations and a token bucket for short bursts; users without a row in
+-- user_plans are on the free plan. Cache hits and failed generations don't
+-- count against the quota.
+create table public.generation_plans (
+  id text primary key,
+  name text not null,
+  monthly_quota integer not null check (monthly_quota >= 0),
+  burst integer not null check (burst > 0),
+  refill_per_minute real not null check (refill_per_minute > 0)
+);
+
+insert into public.generation_plans (id, name, monthly_quota, burst, refill_per_minute) values
+  ('free', 'Free', 100, 10, 4),
+  ('pro', 'Pro', 2000, 30, 20);
+
+alter table public.generation_plans enable row level security;
+
+create policy "Anyone can view plans" on public.generation_plans
+  for select using (true);
+
+create table public.user_plans (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  plan_id text not null references public.generation_plans (id),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_plans enable row level security;
+
+create policy "Users can view their own plan" on public.user_plans
+  for select using (auth.uid() = user_id);
+
+-- Token buckets keyed "user:<id>" or "ip:<address>". Only the edge function
+-- touches them, through take_rate_limit_token.
+create table public.rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.rate_limit_buckets enable row level security;
+
+-- Refills the bucket for the time since it was last used, then takes a token
+-- if there is one. The row lock makes concurrent calls for one key queue up.
+-- `reset_seconds` is how long until a token is free when denied, or until the
+-- bucket is full again when allowed.
+create or replace function public.take_rate_limit_token(
+  _key text,
+  _capacity integer,
+  _refill_per_second double precision
+)
+returns table (allowed boolean, remaining integer, reset_seconds integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _tokens double precision;
+begin
+  insert into public.rate_limit_buckets as b (key, tokens, updated_at)
+  values (_key, _capacity, now())
+  on conflict (key) do update
+    set tokens = least(
+          _capacity,
+          b.tokens + extract(epoch from now() - b.updated_at) * _refill_per_second
+        ),
+        updated_at = now()
+  returning b.tokens into _tokens;
+
+  allowed := _tokens >= 1;
+  if allowed then
+    _tokens := _tokens - 1;
+    update public.rate_limit_buckets set tokens = _tokens where key = _key;
+    reset_seconds := ceil((_capacity - _tokens) / _refill_per_second);
+  else
+    reset_seconds := ceil((1 - _tokens) / _refill_per_second);
+  end if;
+  remaining := floor(_tokens);
+  return next;
+end;
+$$;
+
+revoke execute on function public.take_rate_limit_token(text, integer, double precision) from public, anon, authenticated;
+
+-- A user's plan and how much of this calendar month's (UTC) quota is used.
+create or replace function public.generation_quota(_user_id uuid)
+returns table (
+  plan_id text,
+  plan_name text,
+  monthly_quota integer,
+  used integer,
+  burst integer,
+  refill_per_minute real,
+  resets_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p.id,
+    p.name,
+    p.monthly_quota,
+    (
+      select count(*)::integer
+      from public.generation_usage u
+      where u.user_id = _user_id
+        and u.succeeded
+        and u.created_at >= date_trunc('month', now(), 'UTC')
+    ),
+    p.burst,
+    p.refill_per_minute,
+    date_trunc('month', now(), 'UTC') + interval '1 month'
+  from public.generation_plans p
+  where p.id = coalesce((select up.plan_id from public.user_plans up where up.user_id = _user_id), 'free');
+$$;
+
+revoke execute on function public.generation_quota(uuid) from public, anon, authenticated;
+
+-- The calling user's quota, for showing what's left.
+create or replace function public.my_generation_quota()
+returns table (
+  plan_id text,
+  plan_name text,
+  monthly_quota integer,
+  used integer,
+  burst integer,
+  refill_per_minute real,
+  resets_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.generation_quota(auth.uid());
+$$;
+
+revoke execute on function public.my_generation_quota() from public, anon;
@@ -0,0 +1,124 @@
+-- Saving a map used to take several client calls (insert the map row, then
+-- its branches, then its subtopics; or delete the tree and insert it again),
+-- so a failure part way through could leave an empty map or wipe a saved
+-- tree. These functions do each save in one call, and so in one transaction.
+-- They run as the caller, so the usual row-level security applies.
+
+-- Inserts `_nodes` (an array of subtopics, as in LearningMapData) under one
+-- branch, and their children below them.
+create or replace function public.insert_subtopic_tree(
+  _map_id uuid,
+  _branch_id uuid,
+  _parent_id uuid,
+  _nodes jsonb
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  _node jsonb;
+  _position integer;
+  _id uuid;
+begin
+  for _node, _position in
+    select value, ordinality - 1 from jsonb_array_elements(coalesce(_nodes, '[]'::jsonb)) with ordinality
+  loop
+    insert into public.subtopics (map_id, branch_id, parent_id, node_id, name, description, estimated_hours, resources, position)
+    values (
+      _map_id,
+      _branch_id,
+      _parent_id,
+      _node ->> 'id',
+      _node ->> 'name',
+      coalesce(_node ->> 'description', ''),
+      (_node ->> 'estimatedHours')::numeric,
+      coalesce(_node -> 'resources', '[]'::jsonb),
+      _position
+    )
+    returning id into _id;
+
+    perform public.insert_subtopic_tree(_map_id, _branch_id, _id, _node -> 'subtopics');
+  end loop;
+end;
+$$;
+
+-- Inserts the branches of `_data` (a LearningMapData) and everything below them.
+create or replace function public.insert_map_tree(_map_id uuid, _data jsonb)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  _branch jsonb;
+  _position integer;
+  _id uuid;
+begin
+  for _branch, _position in
+    select value, ordinality - 1 from jsonb_array_elements(coalesce(_data -> 'branches', '[]'::jsonb)) with ordinality
+  loop
+    insert into public.branches (map_id, node_id, name, description, estimated_hours, resources, position)
+    values (
+      _map_id,
+      _branch ->> 'id',
+      _branch ->> 'name',
+      coalesce(_branch ->> 'description', ''),
+      (_branch ->> 'estimatedHours')::numeric,
+      coalesce(_branch -> 'resources', '[]'::jsonb),
+      _position
+    )
+    returning id into _id;
+
+    perform public.insert_subtopic_tree(_map_id, _id, null, _branch -> 'subtopics');
+  end loop;
+end;
+$$;
+
+-- Creates a map owned by the caller, with its whole tree. Returns the map id.
+create or replace function public.save_learning_map(_title text, _level text, _data jsonb)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  _map_id uuid;
+begin
+  insert into public.learning_maps (title, topic, level, dependencies)
+  values (_title, _data ->> 'topic', _level, coalesce(_data -> 'dependencies', '[]'::jsonb))
+  returning id into _map_id;
+
+  perform public.insert_map_tree(_map_id, _data);
+  return _map_id;
+end;
+$$;
+
+-- Replaces a saved map's tree with `_data`. The map row is locked first, so
+-- concurrent saves of one map run one after the other and the last one wins.
+create or replace function public.replace_learning_map_tree(_map_id uuid, _data jsonb)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  -- Writing the row also bumps updated_at so the map moves to the top of the library.
+  update public.learning_maps
+  set topic = _data ->> 'topic',
+      dependencies = coalesce(_data -> 'dependencies', '[]'::jsonb)
+  where id = _map_id;
+  if not found then
+    raise exception 'Learning map % not found', _map_id using errcode = 'P0002';
+  end if;
+
+  delete from public.branches where map_id = _map_id;
+  perform public.insert_map_tree(_map_id, _data);
+end;
+$$;
+
+revoke execute on function public.insert_subtopic_tree(uuid, uuid, uuid, jsonb) from public, anon;
+revoke execute on function public.insert_map_tree(uuid, jsonb) from public, anon;
+revoke execute on function public.save_learning_map(text, text, jsonb) from public, anon;
+revoke execute on function public.replace_learning_map_tree(uuid, jsonb) from public, anon;
+grant execute on function public.insert_subtopic_tree(uuid, uuid, uuid, jsonb) to authenticated;
+grant execute on function public.insert_map_tree(uuid, jsonb) to authenticated;
+grant execute on function public.save_learning_map(text, text, jsonb) to authenticated;
+grant execute on function public.replace_learning_map_tree(uuid, jsonb) to authenticated;
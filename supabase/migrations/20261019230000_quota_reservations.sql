@@ -0,0 +1,95 @@
+-- Generations are now reserved against the quota before the model is called,
+-- instead of being counted once they finish, so concurrent requests can't all
+-- pass the check and overshoot it. A reservation is a generation_usage row
+-- with `succeeded` still null until the edge function records the outcome;
+-- failed generations don't count. Reservations whose request never finished
+-- stop counting after 15 minutes.
+
+alter table public.generation_usage alter column succeeded drop not null;
+
+create or replace function public.generation_quota(_user_id uuid)
+returns table (
+  plan_id text,
+  plan_name text,
+  monthly_quota integer,
+  used integer,
+  burst integer,
+  refill_per_minute real,
+  resets_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p.id,
+    p.name,
+    p.monthly_quota,
+    (
+      select count(*)::integer
+      from public.generation_usage u
+      where u.user_id = _user_id
+        and u.created_at >= date_trunc('month', now(), 'UTC')
+        and (u.succeeded or (u.succeeded is null and u.created_at > now() - interval '15 minutes'))
+    ),
+    p.burst,
+    p.refill_per_minute,
+    date_trunc('month', now(), 'UTC') + interval '1 month'
+  from public.generation_plans p
+  where p.id = coalesce((select up.plan_id from public.user_plans up where up.user_id = _user_id), 'free');
+$$;
+
+revoke execute on function public.generation_quota(uuid) from public, anon, authenticated;
+
+-- Takes one generation of the user's quota if there is one left. `usage_id`
+-- is the reservation, or null when the quota is used up; the quota columns
+-- describe the quota after the reservation.
+create or replace function public.reserve_generation(
+  _user_id uuid,
+  _mode text,
+  _topic text,
+  _level text,
+  _provider text,
+  _model text,
+  _streamed boolean
+)
+returns table (
+  usage_id uuid,
+  plan_name text,
+  monthly_quota integer,
+  used integer,
+  burst integer,
+  refill_per_minute real,
+  resets_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _quota record;
+begin
+  -- One reservation per user at a time, so two requests can't both take the last generation.
+  perform pg_advisory_xact_lock(hashtextextended('generation_quota:' || _user_id::text, 0));
+
+  select * into _quota from public.generation_quota(_user_id);
+  plan_name := _quota.plan_name;
+  monthly_quota := _quota.monthly_quota;
+  used := _quota.used;
+  burst := _quota.burst;
+  refill_per_minute := _quota.refill_per_minute;
+  resets_at := _quota.resets_at;
+
+  if _quota.used < _quota.monthly_quota then
+    insert into public.generation_usage (user_id, mode, topic, level, provider, model, streamed, succeeded)
+    values (_user_id, _mode, _topic, _level, _provider, _model, _streamed, null)
+    returning id into usage_id;
+    used := used + 1;
+  end if;
+  return next;
+end;
+$$;
+
+revoke execute on function public.reserve_generation(uuid, text, text, text, text, text, boolean)
+  from public, anon, authenticated;
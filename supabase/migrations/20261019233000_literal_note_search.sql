@@ -0,0 +1,33 @@
+-- The substring fallback in note search matched with `ilike`, so `%`, `_` and
+-- `\` in a query acted as wildcards ("100%" matched any note with "100" in it,
+-- "a_b" matched "axb"). It now looks the query up as plain text.
+
+create or replace function public.search_node_notes(_query text)
+returns table (
+  map_id uuid,
+  map_title text,
+  node_id text,
+  node_name text,
+  body text,
+  updated_at timestamptz
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    n.map_id,
+    m.title,
+    n.node_id,
+    coalesce(s.name, b.name, n.node_id),
+    n.body,
+    n.updated_at
+  from public.node_notes n
+  join public.learning_maps m on m.id = n.map_id
+  left join public.subtopics s on s.map_id = n.map_id and s.node_id = n.node_id
+  left join public.branches b on b.map_id = n.map_id and b.node_id = n.node_id
+  where n.search @@ websearch_to_tsquery('english', _query)
+     or position(lower(_query) in lower(n.body)) > 0
+  order by ts_rank(n.search, websearch_to_tsquery('english', _query)) desc, n.updated_at desc
+  limit 50;
+$$;